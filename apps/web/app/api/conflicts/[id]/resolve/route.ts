@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { PostgresAttributeConflictRepository } from '../../../../../lib/repositories/attribute-conflict-repository';
+import { PostgresSiteRepository } from '../../../../../lib/repositories/site-repository';
+import { Site } from '../../../../../lib/types/data-model';
+import { getDatabasePool } from '../../../../../lib/utils/database';
+import { parseEmployeeCount } from '../../../../../lib/utils/employee-count';
+
+/**
+ * API Route: POST /api/conflicts/[id]/resolve
+ * 
+ * Records a reviewer's choice between the candidate values of a conflict
+ * and writes the chosen value to the site, both in one transaction. A
+ * conflict can be resolved once; later attempts get a 409.
+ */
+
+const ResolveConflictSchema = z.object({
+  winnerFactId: z.string().min(1, 'winnerFactId is required'),
+  notes: z.string().max(2000).optional()
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: conflictId } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        error: 'Validation error',
+        message: 'Request body must be valid JSON'
+      }, { status: 400 });
+    }
+    const { winnerFactId, notes } = ResolveConflictSchema.parse(body);
+
+    const pool = getDatabasePool();
+
+    const conflict = await new PostgresAttributeConflictRepository(pool).findById(conflictId);
+    if (!conflict) {
+      return NextResponse.json({
+        error: 'Conflict not found'
+      }, { status: 404 });
+    }
+
+    if (conflict.status === 'resolved') {
+      return alreadyResolved();
+    }
+
+    const winner = conflict.candidates.find(candidate => candidate.factId === winnerFactId);
+    if (!winner) {
+      return NextResponse.json({
+        error: 'Validation error',
+        message: 'winnerFactId must be one of the conflict candidates'
+      }, { status: 400 });
+    }
+
+    const value = siteValue(conflict.fieldName, winner.value);
+    if (value === null) {
+      return NextResponse.json({
+        error: 'Validation error',
+        message: `The chosen ${conflict.fieldName} "${winner.value}" is not a whole number`
+      }, { status: 400 });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Conditional on the conflict still being open, so of two concurrent
+      // reviewers only the first one writes to the site
+      const resolved = await new PostgresAttributeConflictRepository(client).resolve(conflictId, winnerFactId, notes);
+      if (!resolved) {
+        await client.query('ROLLBACK');
+        return alreadyResolved();
+      }
+
+      const site = await new PostgresSiteRepository(client).update(conflict.siteId, { [conflict.fieldName]: value } as Partial<Site>);
+      await client.query('COMMIT');
+
+      return NextResponse.json({
+        success: true,
+        conflict: resolved,
+        site
+      });
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+  } catch (error) {
+    console.error('Error resolving conflict:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation error',
+        message: error.errors[0].message,
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      error: 'Internal server error',
+      message: 'Failed to resolve conflict'
+    }, { status: 500 });
+  }
+}
+
+function alreadyResolved() {
+  return NextResponse.json({
+    error: 'Conflict already resolved'
+  }, { status: 409 });
+}
+
+/**
+ * The candidate value as the site column stores it. An employee count that
+ * is not a whole number, such as a range, is refused.
+ */
+function siteValue(fieldName: string, value: string): string | number | null {
+  if (fieldName !== 'employeeCount') return value;
+  return parseEmployeeCount(value) ?? null;
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PostgresAttributeConflictRepository } from '../../../lib/repositories/attribute-conflict-repository';
+import { AttributeConflict } from '../../../lib/types/data-model';
+import { getDatabasePool } from '../../../lib/utils/database';
+
+/**
+ * API Route: GET /api/conflicts
+ * 
+ * Lists site attribute conflicts, unresolved ones by default.
+ * Query parameters:
+ * - domain: only conflicts found by jobs for this domain
+ * - status: unresolved | auto_resolved | resolved | all
+ */
+
+const STATUSES: AttributeConflict['status'][] = ['unresolved', 'auto_resolved', 'resolved'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const domain = searchParams.get('domain');
+    const statusParam = searchParams.get('status') || 'unresolved';
+
+    if (statusParam !== 'all' && !STATUSES.includes(statusParam as AttributeConflict['status'])) {
+      return NextResponse.json({
+        error: 'Invalid status',
+        message: `status must be one of: ${[...STATUSES, 'all'].join(', ')}`
+      }, { status: 400 });
+    }
+
+    const status = statusParam === 'all' ? undefined : statusParam as AttributeConflict['status'];
+    const conflictRepository = new PostgresAttributeConflictRepository(getDatabasePool());
+
+    let conflicts: AttributeConflict[];
+    if (domain) {
+      conflicts = await conflictRepository.findByDomain(domain, status);
+    } else if (status) {
+      conflicts = await conflictRepository.findByStatus(status);
+    } else {
+      return NextResponse.json({
+        error: 'Domain is required when listing conflicts of every status'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      conflicts,
+      total: conflicts.length
+    });
+
+  } catch (error) {
+    console.error('Error fetching conflicts:', error);
+    return NextResponse.json({
+      error: 'Internal server error',
+      message: 'Failed to fetch conflicts'
+    }, { status: 500 });
+  }
+}
@@ -79,9 +79,13 @@ export async function GET(
       }
     }
 
+    // Request pacing, retries and budget of the crawl, written by the crawler as it runs
+    const crawlScheduler = job.crawl_stats || null
+
     return NextResponse.json({
       success: true,
       metrics,
+      crawlScheduler,
       timestamp: now.toISOString()
     })
 
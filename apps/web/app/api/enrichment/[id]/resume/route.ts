@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobRepository } from '../../../../../lib/repositories/job-repository';
+import { CheckpointRepository } from '../../../../../lib/repositories/checkpoint-repository';
+import { JobQueue } from '../../../../../lib/services/job-queue';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+
+    if (!jobId) {
+      return NextResponse.json({
+        error: 'Job ID is required'
+      }, { status: 400 });
+    }
+
+    const jobRepository = new JobRepository();
+
+    // Check if job exists
+    const job = await jobRepository.findById(jobId);
+    if (!job) {
+      return NextResponse.json({
+        error: 'Job not found'
+      }, { status: 404 });
+    }
+
+    if (job.status === 'running') {
+      return NextResponse.json({
+        success: true,
+        message: 'Job is already running',
+        job: job
+      });
+    }
+
+    if (job.status === 'completed') {
+      return NextResponse.json({
+        success: true,
+        message: 'Job is already completed',
+        job: job
+      });
+    }
+
+    // Checkpoints are kept, so the worker continues from the first incomplete tier
+    const checkpointRepository = new CheckpointRepository();
+    const checkpoints = await checkpointRepository.getTierResults(jobId);
+    const completedTiers = checkpoints
+      .filter(result => result.status === 'completed' || result.status === 'partial')
+      .map(result => result.tier);
+
+    const jobQueue = new JobQueue();
+    const queued = await jobQueue.enqueue(jobId);
+
+    if (!queued) {
+      return NextResponse.json({
+        success: true,
+        message: 'Job is already running',
+        jobId: jobId
+      });
+    }
+
+    const resumeFromTier = [1, 2, 3].find(tier => !completedTiers.includes(tier)) ?? null;
+
+    return NextResponse.json({
+      success: true,
+      message: completedTiers.length > 0
+        ? `Job queued and will resume from tier ${resumeFromTier ?? 'results'}`
+        : 'Job queued; no completed tiers were found, so it will run from the start',
+      jobId: jobId,
+      completed_tiers: completedTiers,
+      resume_from_tier: resumeFromTier
+    });
+
+  } catch (error) {
+    console.error('Error resuming enrichment job:', error);
+    return NextResponse.json({
+      error: 'Internal server error',
+      message: 'Failed to resume enrichment job'
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { JobRepository } from '../../../../lib/repositories/job-repository';
 import { FactRepository } from '../../../../lib/repositories/fact-repository';
+import { resolveCrawlScope } from '../../../../lib/services/crawl-scope';
 
 /**
  * GET /api/enrichment/[id]
@@ -59,10 +60,19 @@ export async function GET(
     const currentStep = workflowSteps.find(step => step.status === 'running')?.id || 
                       (job.status === 'completed' ? 'completed' : 'pending');
 
+    // Effective crawl scope, or null if the stored metadata is invalid
+    let crawlScope = null;
+    try {
+      crawlScope = resolveCrawlScope(job.domain, job.metadata);
+    } catch (error) {
+      console.warn(`Invalid crawl scope for job ${jobId}:`, error);
+    }
+
     // Prepare response data
     const response = {
       job: {
         ...job,
+        crawl_scope: crawlScope,
         workflow: {
           steps: workflowSteps,
           currentStep,
@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { JobRepository } from '../../../../../lib/repositories/job-repository';
-import { PostgresOrganizationRepository } from '../../../../../lib/repositories/organization-repository';
-import { PostgresSiteRepository } from '../../../../../lib/repositories/site-repository';
-import { UnifiedEnrichmentOrchestrator } from '../../../../../lib/services/unified-enrichment-orchestrator';
+import { CheckpointRepository } from '../../../../../lib/repositories/checkpoint-repository';
+import { JobQueue } from '../../../../../lib/services/job-queue';
 import { getDatabasePool } from '../../../../../lib/utils/database';
 
 export async function POST(
@@ -45,85 +44,37 @@ export async function POST(
       });
     }
 
-    // Process job asynchronously using the Advanced Enrichment Orchestrator
-    setImmediate(async () => {
-      try {
-        console.log(`Starting advanced multi-tiered enrichment process for job ${jobId} (domain: ${job.domain})`);
-        
-        // Initialize database connection and repositories for advanced orchestrator
-        const db = getDatabasePool();
-        const orgRepository = new PostgresOrganizationRepository(db);
-        const siteRepository = new PostgresSiteRepository(db);
-        
-        // Create a mock EnrichmentJobRecordRepository (we'll use the existing JobRepository for now)
-        const jobRecordRepository = {
-          create: async (jobData: any) => jobData,
-          findById: async (id: string) => null,
-          findByDomain: async (domain: string) => [],
-          findByStatus: async (status: string) => [],
-          update: async (id: string, updates: any) => updates,
-          delete: async (id: string) => {},
-          getJobStats: async () => ({ total: 0, completed: 0, failed: 0, pending: 0, running: 0, averageProcessingTime: 0 })
-        };
-        
-        // Initialize the unified orchestrator with multi-tiered processing
-        const orchestrator = new UnifiedEnrichmentOrchestrator(
-          orgRepository,
-          siteRepository,
-          jobRecordRepository,
-          jobRepository,
-          {
-            confidence_threshold: 0.7,
-            max_job_runtime_minutes: 30,
-            max_retries_per_tier: 3,
-            stop_on_confidence_threshold: true,
-            enable_tier_1: true,  // Corporate Website + Financial Reports
-            enable_tier_2: true,  // LinkedIn, Job Postings
-            enable_tier_3: true,  // News Articles
-            retryConfig: {
-              maxRetries: 3,
-              baseDelayMs: 1000,
-              maxDelayMs: 60000,
-              exponentialBase: 2
-            },
-            cleanupIntervalMs: 60000,
-            heartbeatIntervalMs: 30000
-          }
-        );
-        
-        console.log(`Advanced orchestrator initialized for job ${jobId} with all tiers enabled`);
-        
-        // Execute the advanced enrichment with multi-tiered data sourcing
-        const result = await orchestrator.executeEnrichment(job);
-        
-        if (result.final_status === 'completed') {
-          console.log(`Advanced enrichment process completed successfully for job ${jobId}`);
-          console.log(`Results: ${result.total_facts_extracted} facts extracted, confidence: ${result.average_confidence.toFixed(3)}`);
-          console.log(`Tiers completed: ${result.tiers_completed.length}, Runtime: ${result.total_runtime_seconds}s`);
-          console.log(`Stop reason: ${result.stop_reason || 'completed normally'}`);
-        } else {
-          console.error(`Advanced enrichment process failed for job ${jobId}, status: ${result.final_status}`);
-          if (result.stop_reason) {
-            console.error(`Stop reason: ${result.stop_reason}`);
-          }
-        }
-      } catch (error) {
-        console.error(`Error in advanced enrichment process for job ${jobId}:`, error);
-        // Log the error to the job record
-        try {
-          await jobRepository.logError(jobId, error instanceof Error ? error.message : 'Unknown error in advanced enrichment process');
-        } catch (logError) {
-          console.error('Failed to log enrichment error:', logError);
-        }
+    // Put the job on the queue; the enrichment worker claims it and marks it running.
+    // Starting runs the job from scratch (the resume endpoint keeps checkpoints), so
+    // they are dropped in the enqueue's transaction: a running job keeps them, and no
+    // worker can claim the job before they are gone.
+    const client = await getDatabasePool().connect();
+    let queued: boolean;
+    try {
+      await client.query('BEGIN');
+      queued = await new JobQueue({}, client).enqueue(jobId);
+      if (queued) {
+        await new CheckpointRepository().clearJob(jobId, client);
       }
-    });
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
-    // Update job status to running
-    await jobRepository.updateStatus(jobId, 'running');
+    if (!queued) {
+      return NextResponse.json({
+        success: true,
+        message: 'Job is already running',
+        jobId: jobId
+      });
+    }
 
     return NextResponse.json({
       success: true,
-      message: 'Job started successfully',
+      message: 'Job queued and will be started by the next available worker',
       jobId: jobId
     });
 
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobRepository } from '../../../../../lib/repositories/job-repository';
+import { CrawlArchiveRepository } from '../../../../../lib/repositories/crawl-archive-repository';
+
+/**
+ * GET /api/enrichment/[id]/warc
+ *
+ * Downloads the WARC archive (.warc.gz) of the job's crawl: every request
+ * and response the crawler made, plus cached and rendered page bodies.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+
+    const job = await new JobRepository().findById(jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const warc = await new CrawlArchiveRepository().get(jobId);
+    if (!warc) {
+      return NextResponse.json({ error: 'No crawl archive for this job' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(warc), {
+      headers: {
+        'Content-Type': 'application/warc',
+        'Content-Encoding': 'identity',
+        'Content-Length': String(warc.byteLength),
+        'Content-Disposition': `attachment; filename="${job.domain}-${jobId}.warc.gz"`
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting crawl archive:', error);
+    return NextResponse.json(
+      { error: 'Failed to export crawl archive' },
+      { status: 500 }
+    );
+  }
+}
@@ -65,6 +65,37 @@ const useFacts = (selectedDomain: string | null) => {
   return { facts, isLoading, error }
 }
 
+// Unresolved site attribute conflicts awaiting review for the selected domain
+const useConflicts = (selectedDomain: string | null) => {
+  const [conflicts, setConflicts] = useState<any[]>([])
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    if (!selectedDomain) {
+      setConflicts([])
+      return
+    }
+
+    const fetchConflicts = async () => {
+      try {
+        const response = await fetch(`/api/conflicts?domain=${encodeURIComponent(selectedDomain)}&status=unresolved`)
+        if (!response.ok) {
+          throw new Error(`Failed to fetch conflicts: ${response.statusText}`)
+        }
+        const data = await response.json()
+        setConflicts(data.conflicts || [])
+      } catch (err) {
+        console.error("Failed to fetch conflicts:", err)
+        setConflicts([])
+      }
+    }
+
+    fetchConflicts()
+  }, [selectedDomain, refreshKey])
+
+  return { conflicts, refreshConflicts: () => setRefreshKey(key => key + 1) }
+}
+
 export default function FactsPage() {
   const [searchTerm, setSearchTerm] = useState("")
   const [selectedDomain, setSelectedDomain] = useState<string | null>(null)
@@ -73,6 +104,7 @@ export default function FactsPage() {
   
   const { jobs } = useEnrichmentJobs()
   const { facts, isLoading, error } = useFacts(selectedDomain)
+  const { conflicts, refreshConflicts } = useConflicts(selectedDomain)
 
   // Get completed jobs with facts for domain selection
   const completedJobs = jobs.filter(job => job.status === 'completed' && job.factsFound > 0)
@@ -121,6 +153,22 @@ export default function FactsPage() {
     }
   }
 
+  const handleResolveConflict = async (conflictId: string, winnerFactId: string) => {
+    try {
+      const response = await fetch(`/api/conflicts/${conflictId}/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ winnerFactId })
+      })
+      if (response.ok) {
+        console.log("Conflict resolved:", conflictId)
+        refreshConflicts()
+      }
+    } catch (error) {
+      console.error("Failed to resolve conflict:", error)
+    }
+  }
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 90) return "bg-success"
     if (confidence >= 70) return "bg-warning"
@@ -225,6 +273,57 @@ export default function FactsPage() {
         </div>
       )}
 
+      {/* Conflict Review Queue */}
+      {selectedDomain && conflicts.length > 0 && (
+        <Card className="border-warning/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-warning" />
+              Conflicts to Review ({conflicts.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {conflicts.map((conflict) => (
+                <div key={conflict.conflictId} className="p-3 rounded-lg border">
+                  <div className="flex items-center gap-3 mb-3">
+                    <div className="font-medium text-foreground">{conflict.siteName || 'Unknown Site'}</div>
+                    <Badge variant="outline" className="text-xs">
+                      {conflict.fieldName}
+                    </Badge>
+                  </div>
+                  <div className="space-y-2">
+                    {conflict.candidates.map((candidate: any) => (
+                      <div key={candidate.factId} className="flex items-center justify-between bg-muted/50 p-2 rounded">
+                        <div className="flex items-center gap-3">
+                          <span className="text-sm font-medium text-foreground">{candidate.value}</span>
+                          {candidate.factId === conflict.winnerFactId && (
+                            <Badge className="bg-primary/10 text-primary border-primary/20 text-xs">Current</Badge>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                          <span>Tier {candidate.tier ?? '?'}</span>
+                          <span>{Math.round(candidate.confidenceScore * 100)}%</span>
+                          <span>Score {candidate.score.toFixed(2)}</span>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleResolveConflict(conflict.conflictId, candidate.factId)}
+                          >
+                            <Check className="h-3 w-3 mr-1" />
+                            Use
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Loading State */}
       {isLoading && (
         <Card>
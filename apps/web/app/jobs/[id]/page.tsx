@@ -42,7 +42,8 @@ import {
   BarChart3,
   FileText,
   ExternalLink,
-  Trash2
+  Trash2,
+  Archive
 } from "lucide-react"
 
 export default function JobDetailPage() {
@@ -179,6 +180,11 @@ export default function JobDetailPage() {
           <Button variant="ghost" size="sm" onClick={downloadJobData}>
             <Download className="h-4 w-4" />
           </Button>
+          <Button variant="ghost" size="sm" title="Download crawl archive (WARC)" asChild>
+            <a href={`/api/enrichment/${jobId}/warc`} download>
+              <Archive className="h-4 w-4" />
+            </a>
+          </Button>
           <Button variant="ghost" size="sm" onClick={handleDeleteJob} className="text-red-600 hover:text-red-700">
             <Trash2 className="h-4 w-4" />
           </Button>
@@ -246,6 +252,41 @@ export default function JobDetailPage() {
         </CardContent>
       </Card>
 
+      {/* Crawl Scope */}
+      {job.crawl_scope && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Crawl Scope</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {([
+                ['Seed URLs', job.crawl_scope.seed_urls, 'Home page only'],
+                ['Include Paths', job.crawl_scope.include_patterns, 'All paths'],
+                ['Exclude Paths', job.crawl_scope.exclude_patterns, 'None'],
+                ['Subdomains', job.crawl_scope.allowed_subdomains, 'None'],
+                ['Sibling Domains', job.crawl_scope.sibling_domains, 'None']
+              ] as const).map(([label, values, fallback]) => (
+                <div key={label}>
+                  <label className="text-sm font-medium text-muted-foreground">{label}</label>
+                  {values.length > 0 ? (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {values.map(value => (
+                        <Badge key={value} variant="outline" className="text-xs font-mono">
+                          {value}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm">{fallback}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Developer Observatory - Always Visible */}
       <div className="space-y-6">
         <div className="flex items-center gap-2 mb-4">
@@ -0,0 +1,128 @@
+/**
+ * Attribute Conflict Repository
+ * 
+ * Repository implementation for conflicting site attribute values
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { AttributeConflict, AttributeConflictRepository } from '../types/data-model';
+
+const CONFLICT_COLUMNS = `
+  c.conflict_id as "conflictId",
+  c.site_id as "siteId",
+  s.site_name as "siteName",
+  c.organization_id as "organizationId",
+  c.enrichment_job_id as "enrichmentJobId",
+  c.field_name as "fieldName",
+  c.candidates,
+  c.winner_fact_id as "winnerFactId",
+  c.status,
+  c.resolution_notes as "resolutionNotes",
+  c.resolved_at as "resolvedAt",
+  c.created_at as "createdAt"
+`;
+
+export class PostgresAttributeConflictRepository implements AttributeConflictRepository {
+  // A client, when the caller runs the queries in its own transaction
+  constructor(private pool: Pool | PoolClient) {}
+
+  async create(
+    conflict: Omit<AttributeConflict, 'conflictId' | 'siteName' | 'createdAt' | 'resolvedAt' | 'resolutionNotes'>
+  ): Promise<AttributeConflict> {
+    const query = `
+      WITH inserted AS (
+        INSERT INTO attribute_conflicts (
+          site_id, organization_id, enrichment_job_id, field_name,
+          candidates, winner_fact_id, status
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *
+      )
+      SELECT ${CONFLICT_COLUMNS}
+      FROM inserted c
+      LEFT JOIN sites s ON s.site_id = c.site_id
+    `;
+
+    const values = [
+      conflict.siteId,
+      conflict.organizationId,
+      conflict.enrichmentJobId,
+      conflict.fieldName,
+      JSON.stringify(conflict.candidates),
+      conflict.winnerFactId,
+      conflict.status
+    ];
+
+    const result = await this.pool.query(query, values);
+    return this.mapRow(result.rows[0]);
+  }
+
+  async findById(conflictId: string): Promise<AttributeConflict | null> {
+    const query = `
+      SELECT ${CONFLICT_COLUMNS}
+      FROM attribute_conflicts c
+      LEFT JOIN sites s ON s.site_id = c.site_id
+      WHERE c.conflict_id = $1
+    `;
+
+    const result = await this.pool.query(query, [conflictId]);
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async findByDomain(domain: string, status?: AttributeConflict['status']): Promise<AttributeConflict[]> {
+    const query = `
+      SELECT ${CONFLICT_COLUMNS}
+      FROM attribute_conflicts c
+      JOIN enrichment_jobs j ON j.id = c.enrichment_job_id
+      LEFT JOIN sites s ON s.site_id = c.site_id
+      WHERE j.domain = $1 AND ($2::text IS NULL OR c.status = $2)
+      ORDER BY c.created_at DESC
+    `;
+
+    const result = await this.pool.query(query, [domain, status ?? null]);
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  async findByStatus(status: AttributeConflict['status']): Promise<AttributeConflict[]> {
+    const query = `
+      SELECT ${CONFLICT_COLUMNS}
+      FROM attribute_conflicts c
+      LEFT JOIN sites s ON s.site_id = c.site_id
+      WHERE c.status = $1
+      ORDER BY c.created_at DESC
+    `;
+
+    const result = await this.pool.query(query, [status]);
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * Records a reviewer's decision. Returns null when the conflict does not
+   * exist or a reviewer already resolved it.
+   */
+  async resolve(conflictId: string, winnerFactId: string, notes?: string): Promise<AttributeConflict | null> {
+    const query = `
+      WITH updated AS (
+        UPDATE attribute_conflicts
+        SET winner_fact_id = $1, status = 'resolved', resolution_notes = $2, resolved_at = CURRENT_TIMESTAMP
+        WHERE conflict_id = $3 AND status <> 'resolved'
+        RETURNING *
+      )
+      SELECT ${CONFLICT_COLUMNS}
+      FROM updated c
+      LEFT JOIN sites s ON s.site_id = c.site_id
+    `;
+
+    const result = await this.pool.query(query, [winnerFactId, notes ?? null, conflictId]);
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  private mapRow(row: any): AttributeConflict {
+    return {
+      ...row,
+      siteName: row.siteName ?? undefined,
+      resolutionNotes: row.resolutionNotes ?? undefined,
+      resolvedAt: row.resolvedAt instanceof Date ? row.resolvedAt.toISOString() : row.resolvedAt ?? undefined,
+      createdAt: row.createdAt instanceof Date ? row.createdAt.toISOString() : row.createdAt
+    };
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Attribute Evidence Repository
+ * 
+ * Repository implementation for field-level provenance of sites and organizations
+ */
+
+import { Pool } from 'pg';
+import { AttributeEvidence, AttributeEvidenceRepository } from '../types/data-model';
+
+export class PostgresAttributeEvidenceRepository implements AttributeEvidenceRepository {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Stores citations in one transaction. Re-running a job refreshes the
+   * confidence and snippet of citations it already recorded.
+   */
+  async recordBatch(entries: Omit<AttributeEvidence, 'evidenceId' | 'createdAt'>[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const entry of entries) {
+        const query = `
+          INSERT INTO site_attribute_evidence (
+            entity_type, entity_id, field_name, fact_id, enrichment_job_id,
+            tier, confidence_score, source_url, snippet
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+          ON CONFLICT (entity_type, entity_id, field_name, fact_id) DO UPDATE SET
+            tier = EXCLUDED.tier,
+            confidence_score = EXCLUDED.confidence_score,
+            source_url = EXCLUDED.source_url,
+            snippet = EXCLUDED.snippet
+        `;
+
+        await client.query(query, [
+          entry.entityType,
+          entry.entityId,
+          entry.fieldName,
+          entry.factId,
+          entry.enrichmentJobId,
+          entry.tier ?? null,
+          entry.confidenceScore,
+          entry.sourceUrl ?? null,
+          entry.snippet ?? null
+        ]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findByEntities(entityType: AttributeEvidence['entityType'], entityIds: string[]): Promise<AttributeEvidence[]> {
+    if (entityIds.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT 
+        evidence_id as "evidenceId",
+        entity_type as "entityType",
+        entity_id as "entityId",
+        field_name as "fieldName",
+        fact_id as "factId",
+        enrichment_job_id as "enrichmentJobId",
+        tier,
+        confidence_score as "confidenceScore",
+        source_url as "sourceUrl",
+        snippet,
+        created_at as "createdAt"
+      FROM site_attribute_evidence 
+      WHERE entity_type = $1 AND entity_id = ANY($2::uuid[])
+      ORDER BY field_name, confidence_score DESC
+    `;
+
+    const result = await this.pool.query(query, [entityType, entityIds]);
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  private mapRow(row: any): AttributeEvidence {
+    return {
+      ...row,
+      tier: row.tier ?? undefined,
+      sourceUrl: row.sourceUrl ?? undefined,
+      snippet: row.snippet ?? undefined,
+      // DECIMAL columns come back as strings
+      confidenceScore: parseFloat(row.confidenceScore),
+      createdAt: row.createdAt instanceof Date ? row.createdAt.toISOString() : row.createdAt
+    };
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Checkpoint Repository
+ *
+ * Reads and writes the artifacts a resumed job reuses: per-tier results,
+ * crawled page content and text chunks
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { CrawledPage, TextChunk, TierProcessingResult } from '../types/enrichment';
+import { getDatabasePool } from '../utils/database';
+
+export class CheckpointRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool || getDatabasePool();
+  }
+
+  /**
+   * Stores the result of a tier that finished (completed or partial)
+   */
+  async saveTierResult(jobId: string, result: TierProcessingResult): Promise<void> {
+    const query = `
+      INSERT INTO enrichment_tier_checkpoints (job_id, tier, status, result)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (job_id, tier) DO UPDATE SET
+        status = EXCLUDED.status,
+        result = EXCLUDED.result,
+        updated_at = CURRENT_TIMESTAMP
+    `;
+    await this.pool.query(query, [jobId, result.tier, result.status, JSON.stringify(result)]);
+  }
+
+  /**
+   * Checkpointed tier results ordered by tier
+   */
+  async getTierResults(jobId: string): Promise<TierProcessingResult[]> {
+    const query = `
+      SELECT result
+      FROM enrichment_tier_checkpoints
+      WHERE job_id = $1
+      ORDER BY tier ASC
+    `;
+    const result = await this.pool.query(query, [jobId]);
+    return result.rows.map(row => row.result as TierProcessingResult);
+  }
+
+  /**
+   * Successfully crawled pages with stored content, in crawl order
+   */
+  async getCrawledPages(jobId: string): Promise<CrawledPage[]> {
+    const query = `
+      SELECT url, title, content, content_type, status_code, word_count, crawled_at, language
+      FROM crawled_pages
+      WHERE job_id = $1
+        AND content IS NOT NULL
+        AND status_code BETWEEN 200 AND 399
+      ORDER BY id ASC
+    `;
+    const result = await this.pool.query(query, [jobId]);
+
+    return result.rows.map(row => ({
+      url: row.url,
+      title: row.title || '',
+      content: row.content,
+      metadata: {
+        crawled_at: row.crawled_at instanceof Date ? row.crawled_at.toISOString() : row.crawled_at,
+        status_code: row.status_code,
+        content_type: row.content_type || 'text/html',
+        word_count: row.word_count || 0,
+        language: row.language || undefined
+      }
+    }));
+  }
+
+  /**
+   * Replaces the stored chunks of a job
+   */
+  async saveChunks(jobId: string, chunks: TextChunk[], pages: CrawledPage[] = []): Promise<void> {
+    const titles = new Map(pages.map(page => [page.url, page.title]));
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM enrichment_chunks WHERE job_id = $1', [jobId]);
+
+      for (const [position, chunk] of chunks.entries()) {
+        if (chunk.content.length === 0) continue;
+
+        await client.query(`
+          INSERT INTO enrichment_chunks (
+            job_id, chunk_index, content, content_length,
+            source_url, source_page_title, chunk_metadata
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        `, [
+          jobId,
+          chunk.metadata.chunk_index,
+          chunk.content,
+          chunk.content.length,
+          chunk.metadata.source_url,
+          titles.get(chunk.metadata.source_url) || null,
+          JSON.stringify({ ...chunk.metadata, chunk_id: chunk.id, position })
+        ]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Stored chunks of a job, in their original order (chunk_index is per page)
+   */
+  async getChunks(jobId: string): Promise<TextChunk[]> {
+    const query = `
+      SELECT content, source_url, chunk_index, chunk_metadata
+      FROM enrichment_chunks
+      WHERE job_id = $1
+      ORDER BY (chunk_metadata->>'position')::int ASC
+    `;
+    const result = await this.pool.query(query, [jobId]);
+
+    return result.rows.map(row => {
+      const { chunk_id, position, ...metadata } = row.chunk_metadata || {};
+      return {
+        id: chunk_id,
+        content: row.content,
+        metadata: {
+          ...metadata,
+          source_url: row.source_url,
+          chunk_index: row.chunk_index,
+          word_count: metadata.word_count ?? row.content.split(/\s+/).length,
+          created_at: metadata.created_at
+        }
+      };
+    });
+  }
+
+  /**
+   * Drops every checkpoint of a job so the next run starts from scratch.
+   * Runs on `client` when given, inside the caller's transaction.
+   */
+  async clearJob(jobId: string, client?: PoolClient): Promise<void> {
+    const db = client || this.pool;
+    await db.query('DELETE FROM enrichment_tier_checkpoints WHERE job_id = $1', [jobId]);
+    await db.query('DELETE FROM enrichment_chunks WHERE job_id = $1', [jobId]);
+    await db.query('DELETE FROM crawled_pages WHERE job_id = $1', [jobId]);
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Crawl Archive Repository
+ *
+ * Stores the WARC file of each job's crawl
+ */
+
+import { Pool } from 'pg';
+import { getDatabasePool } from '../utils/database';
+
+export class CrawlArchiveRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool || getDatabasePool();
+  }
+
+  /**
+   * Stores (or replaces) the archive of a job
+   */
+  async save(jobId: string, warc: Buffer, recordCount: number): Promise<void> {
+    const query = `
+      INSERT INTO crawl_archives (job_id, warc, record_count, byte_length)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (job_id) DO UPDATE SET
+        warc = EXCLUDED.warc,
+        record_count = EXCLUDED.record_count,
+        byte_length = EXCLUDED.byte_length,
+        created_at = CURRENT_TIMESTAMP
+    `;
+    await this.pool.query(query, [jobId, warc, recordCount, warc.byteLength]);
+  }
+
+  /**
+   * The gzipped WARC file of a job, or null if it was not archived
+   */
+  async get(jobId: string): Promise<Buffer | null> {
+    const result = await this.pool.query('SELECT warc FROM crawl_archives WHERE job_id = $1', [jobId]);
+    return result.rows.length > 0 ? result.rows[0].warc : null;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Crawl Cache Repository
+ *
+ * Stores page bodies by content hash with the validators of the response
+ * that returned them, and finds earlier crawls of a page with the same
+ * content whose facts a new job can reuse
+ */
+
+import { Pool } from 'pg';
+import { getDatabasePool } from '../utils/database';
+
+export interface CachedResponse {
+  url: string;
+  content_hash: string;
+  body: string;
+  etag?: string;
+  last_modified?: string;
+  content_type?: string;
+}
+
+export class CrawlCacheRepository {
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool || getDatabasePool();
+  }
+
+  /**
+   * Latest cached response for a URL
+   */
+  async get(url: string): Promise<CachedResponse | null> {
+    const query = `
+      SELECT e.url, e.content_hash, e.etag, e.last_modified, e.content_type, b.body
+      FROM crawl_cache_entries e
+      JOIN crawl_cache_bodies b ON b.content_hash = e.content_hash
+      WHERE e.url = $1
+    `;
+    const result = await this.pool.query(query, [url]);
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      url: row.url,
+      content_hash: row.content_hash,
+      body: row.body,
+      etag: row.etag || undefined,
+      last_modified: row.last_modified || undefined,
+      content_type: row.content_type || undefined
+    };
+  }
+
+  /**
+   * Stores a fetched body (once per hash) and points the URL at it
+   */
+  async put(response: CachedResponse): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query(`
+        INSERT INTO crawl_cache_bodies (content_hash, body, byte_length)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (content_hash) DO NOTHING
+      `, [response.content_hash, response.body, Buffer.byteLength(response.body)]);
+      await client.query(`
+        INSERT INTO crawl_cache_entries (url, content_hash, etag, last_modified, content_type, fetched_at)
+        VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)
+        ON CONFLICT (url) DO UPDATE SET
+          content_hash = EXCLUDED.content_hash,
+          etag = EXCLUDED.etag,
+          last_modified = EXCLUDED.last_modified,
+          content_type = EXCLUDED.content_type,
+          fetched_at = EXCLUDED.fetched_at
+      `, [response.url, response.content_hash, response.etag || null, response.last_modified || null, response.content_type || null]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Records a 304 Not Modified answer for a cached URL
+   */
+  async markRevalidated(url: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE crawl_cache_entries SET revalidated_at = CURRENT_TIMESTAMP WHERE url = $1',
+      [url]
+    );
+  }
+
+  /**
+   * For each page, the most recent other job that crawled the same URL with
+   * the same content hash and finished fact extraction. Pages without such
+   * a job are missing from the result.
+   */
+  async findProcessedCrawls(
+    jobId: string,
+    pages: Array<{ url: string; content_hash: string }>
+  ): Promise<Map<string, string>> {
+    if (pages.length === 0) return new Map();
+
+    const query = `
+      SELECT DISTINCT ON (cp.url) cp.url, cp.job_id
+      FROM crawled_pages cp
+      JOIN enrichment_jobs j ON j.id = cp.job_id
+      JOIN unnest($2::text[], $3::text[]) AS p(url, content_hash)
+        ON p.url = cp.url AND p.content_hash = cp.content_hash
+      WHERE cp.job_id <> $1
+        AND j.extraction_status = 'completed'
+      ORDER BY cp.url, cp.crawled_at DESC
+    `;
+    const result = await this.pool.query(query, [
+      jobId,
+      pages.map(page => page.url),
+      pages.map(page => page.content_hash)
+    ]);
+
+    return new Map(result.rows.map(row => [row.url as string, row.job_id as string]));
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Enrichment Job Record Repository
+ *
+ * Repository implementation for EnrichmentJobRecord data model operations
+ */
+
+import { Pool } from 'pg';
+import { EnrichmentJobRecord, EnrichmentJobRecordRepository } from '../types/data-model';
+
+const RECORD_COLUMNS = `
+  enrichment_job_id as "enrichmentJobId",
+  triggered_by as "triggeredBy",
+  start_time as "startTime",
+  end_time as "endTime",
+  status,
+  confidence_summary as "confidenceSummary",
+  errors,
+  partial_success as "partialSuccess",
+  retried_count as "retriedCount",
+  input_domain as "inputDomain"
+`;
+
+export class PostgresEnrichmentJobRecordRepository implements EnrichmentJobRecordRepository {
+  constructor(private pool: Pool) {}
+
+  async create(
+    job: Omit<EnrichmentJobRecord, 'enrichmentJobId'> & { enrichmentJobId?: string }
+  ): Promise<EnrichmentJobRecord> {
+    const query = `
+      INSERT INTO enrichment_job_records (
+        enrichment_job_id, triggered_by, start_time, end_time, status,
+        confidence_summary, errors, partial_success, retried_count, input_domain
+      ) VALUES (COALESCE($1::uuid, gen_random_uuid()), $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING ${RECORD_COLUMNS}
+    `;
+
+    const values = [
+      job.enrichmentJobId || null,
+      job.triggeredBy,
+      job.startTime,
+      job.endTime || null,
+      job.status,
+      job.confidenceSummary ?? null,
+      job.errors || null,
+      job.partialSuccess,
+      job.retriedCount,
+      job.inputDomain
+    ];
+
+    const result = await this.pool.query(query, values);
+    return this.mapRow(result.rows[0]);
+  }
+
+  async findById(enrichmentJobId: string): Promise<EnrichmentJobRecord | null> {
+    const query = `
+      SELECT ${RECORD_COLUMNS}
+      FROM enrichment_job_records
+      WHERE enrichment_job_id = $1
+    `;
+
+    const result = await this.pool.query(query, [enrichmentJobId]);
+    return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+  }
+
+  async findByDomain(inputDomain: string): Promise<EnrichmentJobRecord[]> {
+    const query = `
+      SELECT ${RECORD_COLUMNS}
+      FROM enrichment_job_records
+      WHERE input_domain = $1
+      ORDER BY start_time DESC
+    `;
+
+    const result = await this.pool.query(query, [inputDomain]);
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  async findByStatus(status: EnrichmentJobRecord['status']): Promise<EnrichmentJobRecord[]> {
+    const query = `
+      SELECT ${RECORD_COLUMNS}
+      FROM enrichment_job_records
+      WHERE status = $1
+      ORDER BY start_time DESC
+    `;
+
+    const result = await this.pool.query(query, [status]);
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  async update(enrichmentJobId: string, updates: Partial<EnrichmentJobRecord>): Promise<EnrichmentJobRecord> {
+    const setClause = [];
+    const values = [];
+    let paramIndex = 1;
+
+    if (updates.triggeredBy !== undefined) {
+      setClause.push(`triggered_by = $${paramIndex++}`);
+      values.push(updates.triggeredBy);
+    }
+    if (updates.startTime !== undefined) {
+      setClause.push(`start_time = $${paramIndex++}`);
+      values.push(updates.startTime);
+    }
+    // end_time and errors are cleared when a re-run starts, so an explicit
+    // undefined writes NULL
+    if ('endTime' in updates) {
+      setClause.push(`end_time = $${paramIndex++}`);
+      values.push(updates.endTime || null);
+    }
+    if (updates.status !== undefined) {
+      setClause.push(`status = $${paramIndex++}`);
+      values.push(updates.status);
+    }
+    if (updates.confidenceSummary !== undefined) {
+      setClause.push(`confidence_summary = $${paramIndex++}`);
+      values.push(updates.confidenceSummary);
+    }
+    if ('errors' in updates) {
+      setClause.push(`errors = $${paramIndex++}`);
+      values.push(updates.errors || null);
+    }
+    if (updates.partialSuccess !== undefined) {
+      setClause.push(`partial_success = $${paramIndex++}`);
+      values.push(updates.partialSuccess);
+    }
+    if (updates.retriedCount !== undefined) {
+      setClause.push(`retried_count = $${paramIndex++}`);
+      values.push(updates.retriedCount);
+    }
+    if (updates.inputDomain !== undefined) {
+      setClause.push(`input_domain = $${paramIndex++}`);
+      values.push(updates.inputDomain);
+    }
+
+    if (setClause.length === 0) {
+      throw new Error('No fields to update');
+    }
+
+    values.push(enrichmentJobId);
+
+    const query = `
+      UPDATE enrichment_job_records
+      SET ${setClause.join(', ')}
+      WHERE enrichment_job_id = $${paramIndex}
+      RETURNING ${RECORD_COLUMNS}
+    `;
+
+    const result = await this.pool.query(query, values);
+    if (result.rows.length === 0) {
+      throw new Error(`Enrichment job record with ID ${enrichmentJobId} not found`);
+    }
+    return this.mapRow(result.rows[0]);
+  }
+
+  async delete(enrichmentJobId: string): Promise<void> {
+    const query = 'DELETE FROM enrichment_job_records WHERE enrichment_job_id = $1';
+    const result = await this.pool.query(query, [enrichmentJobId]);
+
+    if (result.rowCount === 0) {
+      throw new Error(`Enrichment job record with ID ${enrichmentJobId} not found`);
+    }
+  }
+
+  async getJobStats(): Promise<{
+    total: number;
+    completed: number;
+    failed: number;
+    pending: number;
+    running: number;
+    partialSuccess: number;
+    averageProcessingTime: number;
+  }> {
+    // Average processing time (seconds) only covers records that have ended
+    const query = `
+      SELECT
+        COUNT(*) as total,
+        COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed,
+        COUNT(CASE WHEN status = 'failed' THEN 1 END) as failed,
+        COUNT(CASE WHEN status = 'pending' THEN 1 END) as pending,
+        COUNT(CASE WHEN status = 'running' THEN 1 END) as running,
+        COUNT(CASE WHEN partial_success THEN 1 END) as partial_success,
+        COALESCE(AVG(EXTRACT(EPOCH FROM (end_time - start_time)))
+          FILTER (WHERE end_time IS NOT NULL AND end_time >= start_time), 0) as average_processing_time
+      FROM enrichment_job_records
+    `;
+
+    const result = await this.pool.query(query);
+    const row = result.rows[0];
+
+    return {
+      total: parseInt(row.total),
+      completed: parseInt(row.completed),
+      failed: parseInt(row.failed),
+      pending: parseInt(row.pending),
+      running: parseInt(row.running),
+      partialSuccess: parseInt(row.partial_success),
+      averageProcessingTime: parseFloat(row.average_processing_time)
+    };
+  }
+
+  /**
+   * pg returns DECIMAL as a string and TIMESTAMPTZ as a Date
+   */
+  private mapRow(row: any): EnrichmentJobRecord {
+    return {
+      enrichmentJobId: row.enrichmentJobId,
+      triggeredBy: row.triggeredBy,
+      startTime: row.startTime instanceof Date ? row.startTime.toISOString() : row.startTime,
+      endTime: row.endTime instanceof Date ? row.endTime.toISOString() : row.endTime || undefined,
+      status: row.status,
+      confidenceSummary: row.confidenceSummary !== null && row.confidenceSummary !== undefined
+        ? parseFloat(row.confidenceSummary)
+        : undefined,
+      errors: row.errors || undefined,
+      partialSuccess: row.partialSuccess,
+      retriedCount: row.retriedCount,
+      inputDomain: row.inputDomain
+    };
+  }
+}
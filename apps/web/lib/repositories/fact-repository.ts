@@ -108,6 +108,53 @@ export class FactRepository implements IFactRepository {
     }
   }
 
+  /**
+   * Copies the facts an earlier job extracted from each source URL into
+   * another job, keeping their validation and review status. The copies
+   * record the job that extracted them in extraction_metadata, which for a
+   * fact carried forward more than once is the first job, not the last.
+   */
+  async copyFromJobs(
+    targetJobId: string,
+    sources: Array<{ job_id: string; source_url: string }>
+  ): Promise<EnrichmentFact[]> {
+    if (sources.length === 0) {
+      return [];
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      const query = `
+        INSERT INTO enrichment_facts (
+          job_id, fact_type, fact_data, confidence_score,
+          source_url, source_text, embedding_id, validated, validation_notes,
+          tier_used, status, extraction_metadata
+        )
+        SELECT
+          $1, f.fact_type, f.fact_data, f.confidence_score,
+          f.source_url, f.source_text, f.embedding_id, f.validated, f.validation_notes,
+          f.tier_used, f.status,
+          COALESCE(f.extraction_metadata, '{}'::jsonb) || jsonb_build_object(
+            'carried_forward_from', COALESCE(f.extraction_metadata->'carried_forward_from', to_jsonb(f.job_id))
+          )
+        FROM enrichment_facts f
+        JOIN (SELECT DISTINCT * FROM unnest($2::uuid[], $3::text[])) AS s(job_id, source_url)
+          ON f.job_id = s.job_id AND f.source_url = s.source_url
+        RETURNING *
+      `;
+      const result = await client.query(query, [
+        targetJobId,
+        sources.map(source => source.job_id),
+        sources.map(source => source.source_url)
+      ]);
+
+      return result.rows.map(row => this.mapRowToFact(row));
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Finds all facts for a job
    */
@@ -1,5 +1,5 @@
 import { Pool } from 'pg';
-import { EnrichmentJob, JobStatus, StepStatus, JobRepository as IJobRepository } from '../types/enrichment';
+import { EnrichmentJob, JobStatus, StepStatus, CrawlSchedulerStats, JobRepository as IJobRepository } from '../types/enrichment';
 import { getDatabasePool } from '../utils/database';
 
 /**
@@ -327,6 +327,22 @@ export class JobRepository implements IJobRepository {
     }
   }
 
+  /**
+   * Stores the crawl scheduler counters of the job's crawl
+   */
+  async updateCrawlStats(id: string, stats: CrawlSchedulerStats): Promise<void> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query(
+        'UPDATE enrichment_jobs SET crawl_stats = $2, updated_at = NOW() WHERE id = $1',
+        [id, JSON.stringify(stats)]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Updates multiple Milestone 1 fields at once
    */
@@ -517,6 +533,12 @@ export class JobRepository implements IJobRepository {
       llm_used: row.llm_used,
       pages_scraped: row.pages_scraped || 0,
       total_runtime_seconds: row.total_runtime_seconds || 0,
+
+      // Job queue lease
+      locked_by: row.locked_by || undefined,
+      locked_until: row.locked_until?.toISOString(),
+
+      crawl_stats: row.crawl_stats || undefined,
     };
   }
 
@@ -0,0 +1,99 @@
+/**
+ * Site Merge Audit Repository
+ * 
+ * Repository implementation for the site merge audit trail
+ */
+
+import { Pool } from 'pg';
+import { SiteMergeRecord, SiteMergeAuditRepository } from '../types/data-model';
+
+export class PostgresSiteMergeAuditRepository implements SiteMergeAuditRepository {
+  constructor(private pool: Pool) {}
+
+  async record(entry: Omit<SiteMergeRecord, 'mergeId' | 'createdAt'>): Promise<SiteMergeRecord> {
+    const query = `
+      INSERT INTO site_merge_audit (
+        site_id, organization_id, enrichment_job_id, action,
+        candidate_name, match_score, match_reasons, changes
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING 
+        merge_id as "mergeId",
+        site_id as "siteId",
+        organization_id as "organizationId",
+        enrichment_job_id as "enrichmentJobId",
+        action,
+        candidate_name as "candidateName",
+        match_score as "matchScore",
+        match_reasons as "matchReasons",
+        changes,
+        created_at as "createdAt"
+    `;
+
+    const values = [
+      entry.siteId,
+      entry.organizationId,
+      entry.enrichmentJobId,
+      entry.action,
+      entry.candidateName,
+      entry.matchScore ?? null,
+      JSON.stringify(entry.matchReasons),
+      JSON.stringify(entry.changes)
+    ];
+
+    const result = await this.pool.query(query, values);
+    return this.mapRow(result.rows[0]);
+  }
+
+  async findBySiteId(siteId: string): Promise<SiteMergeRecord[]> {
+    const query = `
+      SELECT 
+        merge_id as "mergeId",
+        site_id as "siteId",
+        organization_id as "organizationId",
+        enrichment_job_id as "enrichmentJobId",
+        action,
+        candidate_name as "candidateName",
+        match_score as "matchScore",
+        match_reasons as "matchReasons",
+        changes,
+        created_at as "createdAt"
+      FROM site_merge_audit 
+      WHERE site_id = $1
+      ORDER BY created_at ASC
+    `;
+
+    const result = await this.pool.query(query, [siteId]);
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  async findByEnrichmentJobId(enrichmentJobId: string): Promise<SiteMergeRecord[]> {
+    const query = `
+      SELECT 
+        merge_id as "mergeId",
+        site_id as "siteId",
+        organization_id as "organizationId",
+        enrichment_job_id as "enrichmentJobId",
+        action,
+        candidate_name as "candidateName",
+        match_score as "matchScore",
+        match_reasons as "matchReasons",
+        changes,
+        created_at as "createdAt"
+      FROM site_merge_audit 
+      WHERE enrichment_job_id = $1
+      ORDER BY created_at ASC
+    `;
+
+    const result = await this.pool.query(query, [enrichmentJobId]);
+    return result.rows.map(row => this.mapRow(row));
+  }
+
+  private mapRow(row: any): SiteMergeRecord {
+    return {
+      ...row,
+      // DECIMAL columns come back as strings
+      matchScore: row.matchScore === null || row.matchScore === undefined ? undefined : parseFloat(row.matchScore),
+      createdAt: row.createdAt instanceof Date ? row.createdAt.toISOString() : row.createdAt
+    };
+  }
+}
@@ -4,11 +4,12 @@
  * Repository implementation for Site data model operations
  */
 
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { Site, SiteRepository } from '../types/data-model';
 
 export class PostgresSiteRepository implements SiteRepository {
-  constructor(private pool: Pool) {}
+  // A client, when the caller runs the queries in its own transaction
+  constructor(private pool: Pool | PoolClient) {}
 
   async create(site: Omit<Site, 'siteId' | 'lastVerifiedDate'>): Promise<Site> {
     const query = `
@@ -5,6 +5,12 @@
  * to retrieve up to 5 relevant news articles for enrichment.
  */
 
+import * as cheerio from 'cheerio';
+import { safeFetch } from './safe-fetch';
+
+// Publisher pages larger than this are not read; the Bing snippet is used instead
+const ARTICLE_MAX_BYTES = 5 * 1024 * 1024;
+
 export interface NewsArticle {
   id: string;
   title: string;
@@ -27,6 +33,7 @@ export interface NewsSearchConfig {
   market: string; // e.g., 'en-US'
   safeSearch: 'Off' | 'Moderate' | 'Strict';
   timeout: number;
+  mockFallback: boolean; // Serve mock articles when no API key is set or the API fails
 }
 
 export interface NewsSearchResult {
@@ -37,7 +44,15 @@ export interface NewsSearchResult {
   sources: string[];
 }
 
-export class BingNewsClient {
+// Any news backend Tier 3 can pull articles from
+export interface NewsProvider {
+  readonly name: string;
+  searchCompanyNews(domain: string, companyName?: string): Promise<NewsSearchResult>;
+  fetchArticleContent(article: NewsArticle, jobId?: string): Promise<string>;
+}
+
+export class BingNewsClient implements NewsProvider {
+  public readonly name = 'Bing News';
   private config: NewsSearchConfig;
   private baseUrl = 'https://api.bing.microsoft.com/v7.0/news/search';
 
@@ -49,10 +64,11 @@ export class BingNewsClient {
       market: 'en-US',
       safeSearch: 'Moderate',
       timeout: 10000,
+      mockFallback: true,
       ...config
     };
 
-    if (!this.config.apiKey) {
+    if (!this.config.apiKey && this.config.mockFallback) {
       console.warn('Bing News API key not provided. Using mock data for development.');
     }
   }
@@ -60,8 +76,7 @@ export class BingNewsClient {
   /**
    * Search for news articles related to a company domain
    */
-  async searchCompanyNews(domain: string): Promise<NewsSearchResult> {
-    const companyName = this.extractCompanyNameFromDomain(domain);
+  async searchCompanyNews(domain: string, companyName: string = this.extractCompanyNameFromDomain(domain)): Promise<NewsSearchResult> {
     const searchQuery = this.buildSearchQuery(companyName, domain);
     
     console.log(`Searching news for: ${searchQuery}`);
@@ -77,6 +92,10 @@ export class BingNewsClient {
     
     try {
       if (!this.config.apiKey) {
+        if (!this.config.mockFallback) {
+          console.warn('Bing News API key not provided. Skipping news search.');
+          return this.emptyResult(query, startTime);
+        }
         console.log('Using mock news data for development');
         return this.getMockNewsData(query);
       }
@@ -91,7 +110,7 @@ export class BingNewsClient {
         textDecorations: 'false'
       });
 
-      const response = await fetch(`${this.baseUrl}?${searchParams}`, {
+      const response = await safeFetch(`${this.baseUrl}?${searchParams}`, {
         method: 'GET',
         headers: {
           'Ocp-Apim-Subscription-Key': this.config.apiKey,
@@ -120,6 +139,10 @@ export class BingNewsClient {
 
     } catch (error) {
       console.error('Error searching news:', error);
+
+      if (!this.config.mockFallback) {
+        return this.emptyResult(query, startTime);
+      }
       
       // Fallback to mock data on error
       console.log('Falling back to mock news data');
@@ -127,6 +150,16 @@ export class BingNewsClient {
     }
   }
 
+  private emptyResult(query: string, startTime: number): NewsSearchResult {
+    return {
+      articles: [],
+      totalEstimatedMatches: 0,
+      searchQuery: query,
+      searchTime: Date.now() - startTime,
+      sources: []
+    };
+  }
+
   /**
    * Extract company name from domain
    */
@@ -290,20 +323,60 @@ export class BingNewsClient {
   }
 
   /**
-   * Fetch full article content (if supported by the source)
+   * Fetch full article content from the publisher page, falling back to the
+   * snippet Bing returned when the page cannot be read
    */
-  async fetchArticleContent(article: NewsArticle): Promise<string> {
+  async fetchArticleContent(article: NewsArticle, jobId?: string): Promise<string> {
+    const fallback = article.content || article.description || '';
+
+    // Mock articles point at placeholder URLs
+    if (article.id.startsWith('mock_') || !article.url) {
+      return fallback;
+    }
+
     try {
-      // For now, return the description as content
-      // In a production system, you might use a web scraping service
-      // or content extraction API to get full article text
-      return article.description || article.content || '';
+      const response = await safeFetch(article.url, {
+        headers: {
+          'User-Agent': 'Resilion-Enrichment-Bot/1.0',
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'
+        },
+        signal: AbortSignal.timeout(this.config.timeout)
+      }, {
+        allowed_content_types: ['text/html', 'application/xhtml+xml'],
+        max_bytes: ARTICLE_MAX_BYTES,
+        job_id: jobId
+      });
+
+      if (!response.ok) {
+        return fallback;
+      }
+
+      const body = this.extractArticleBody(await response.text());
+      return body.length > fallback.length ? body : fallback;
+
     } catch (error) {
       console.error(`Error fetching content for article ${article.id}:`, error);
-      return article.description || '';
+      return fallback;
     }
   }
 
+  /**
+   * Extract the article body text from a publisher page
+   */
+  private extractArticleBody(html: string): string {
+    const $ = cheerio.load(html);
+    $('script, style, nav, header, footer, aside, form, figure').remove();
+
+    const container = $('article').first().length > 0 ? $('article').first() : $('main').first().length > 0 ? $('main').first() : $('body');
+
+    return container
+      .find('p')
+      .map((_, element) => $(element).text().replace(/\s+/g, ' ').trim())
+      .get()
+      .filter(paragraph => paragraph.length > 40)
+      .join('\n\n');
+  }
+
   /**
    * Filter articles by relevance score threshold
    */
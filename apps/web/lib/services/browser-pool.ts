@@ -0,0 +1,156 @@
+/**
+ * Browser Pool
+ *
+ * One headless browser per process shared by every crawler. Callers borrow
+ * a page through withPage(); the number of pages open at once is capped so
+ * concurrent jobs cannot exhaust memory. The browser is relaunched if it
+ * crashes or disconnects. Pages refuse requests to non-public addresses,
+ * the same as safeFetch().
+ */
+
+import puppeteer, { Browser, Page } from 'puppeteer';
+import { assertSafeUrl, logUnsafeTarget, UnsafeTargetError } from './safe-fetch';
+
+export interface BrowserPoolConfig {
+  max_pages: number;
+}
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--no-first-run',
+  '--no-zygote',
+  '--disable-gpu'
+];
+
+export class BrowserPool {
+  private config: BrowserPoolConfig;
+  private browser: Promise<Browser> | null = null;
+  private openPages = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(config: Partial<BrowserPoolConfig> = {}) {
+    this.config = {
+      max_pages: config.max_pages || parseInt(process.env.BROWSER_POOL_MAX_PAGES || '4'),
+    };
+  }
+
+  /**
+   * Runs fn with a fresh page, waiting for a free slot if the pool is full.
+   * Requests the page refuses are logged to the job given.
+   */
+  async withPage<T>(fn: (page: Page) => Promise<T>, jobId?: string): Promise<T> {
+    await this.acquireSlot();
+
+    let page: Page | null = null;
+    try {
+      const browser = await this.getBrowser();
+      page = await browser.newPage();
+      await this.guardRequests(page, jobId);
+      return await fn(page);
+    } finally {
+      if (page) {
+        await page.close().catch(error => console.warn('[BrowserPool] Failed to close page:', error));
+      }
+      this.releaseSlot();
+    }
+  }
+
+  /**
+   * Pages currently open and callers waiting for a slot
+   */
+  getStats(): { open_pages: number; waiting: number; max_pages: number } {
+    return { open_pages: this.openPages, waiting: this.waiting.length, max_pages: this.config.max_pages };
+  }
+
+  async close(): Promise<void> {
+    if (!this.browser) return;
+
+    const browser = this.browser;
+    this.browser = null;
+    try {
+      await (await browser).close();
+    } catch (error) {
+      console.warn('[BrowserPool] Failed to close browser:', error);
+    }
+  }
+
+  /**
+   * Checks every request of the page (navigations, redirect hops and
+   * subresources) and aborts those to non-public addresses
+   */
+  private async guardRequests(page: Page, jobId?: string): Promise<void> {
+    await page.setRequestInterception(true);
+    page.on('request', request => {
+      const url = request.url();
+      if (/^(data|blob):/i.test(url)) {
+        request.continue().catch(() => undefined);
+        return;
+      }
+
+      assertSafeUrl(url)
+        .then(() => request.continue())
+        .catch(async error => {
+          if (error instanceof UnsafeTargetError) {
+            await logUnsafeTarget(jobId, error);
+          }
+          await request.abort(error instanceof UnsafeTargetError ? 'blockedbyclient' : 'failed');
+        })
+        .catch(() => undefined);
+    });
+  }
+
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      const launch = puppeteer.launch({ headless: true, args: LAUNCH_ARGS });
+      this.browser = launch;
+
+      launch.then(browser => {
+        browser.on('disconnected', () => {
+          if (this.browser === launch) {
+            console.warn('[BrowserPool] Browser disconnected, relaunching on next use');
+            this.browser = null;
+          }
+        });
+      }).catch(() => {
+        // A failed launch is retried on the next call
+        if (this.browser === launch) this.browser = null;
+      });
+    }
+
+    return this.browser;
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.openPages < this.config.max_pages) {
+      this.openPages++;
+      return;
+    }
+
+    // The releasing caller hands its slot over directly
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.openPages--;
+    }
+  }
+}
+
+let sharedPool: BrowserPool | null = null;
+
+/**
+ * Process-wide browser pool
+ */
+export function getBrowserPool(): BrowserPool {
+  if (!sharedPool) {
+    sharedPool = new BrowserPool();
+  }
+  return sharedPool;
+}
@@ -1,5 +1,7 @@
 import { TextChunk, ChunkingConfig, CrawledPage } from '../types/enrichment';
 import { v4 as uuidv4 } from 'uuid';
+import { collapseSiteWideBlocks } from './content-extractor';
+import { chunkBlocks } from './structure-chunker';
 
 export class TextChunkingService {
   private config: ChunkingConfig;
@@ -13,12 +15,13 @@ export class TextChunkingService {
   }
 
   /**
-   * Chunks crawled pages into smaller text segments for embedding
+   * Chunks crawled pages into smaller text segments for embedding, with
+   * site-wide navigation and footer blocks chunked only once
    */
   async chunkPages(crawledPages: CrawledPage[]): Promise<TextChunk[]> {
     const allChunks: TextChunk[] = [];
 
-    for (const page of crawledPages) {
+    for (const page of collapseSiteWideBlocks(crawledPages)) {
       const pageChunks = await this.chunkSinglePage(page);
       allChunks.push(...pageChunks);
     }
@@ -28,6 +31,21 @@ export class TextChunkingService {
   }
 
   private async chunkSinglePage(page: CrawledPage): Promise<TextChunk[]> {
+    // HTML pages are chunked along their headings, lists and tables
+    if (page.blocks && page.blocks.length > 0) {
+      return chunkBlocks(page.blocks, this.config).map((chunk, chunkIndex) => ({
+        id: uuidv4(),
+        content: chunk.content,
+        metadata: {
+          source_url: page.url,
+          chunk_index: chunkIndex,
+          word_count: chunk.content.split(/\s+/).length,
+          created_at: new Date().toISOString(),
+          ...(chunk.heading_path.length > 0 ? { heading_path: chunk.heading_path } : {})
+        }
+      }));
+    }
+
     const chunks: TextChunk[] = [];
     
     // Clean and prepare the text
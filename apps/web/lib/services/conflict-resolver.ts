@@ -0,0 +1,190 @@
+/**
+ * Conflict Resolver
+ *
+ * Picks the value of a site attribute when its facts disagree, e.g. Tier 1
+ * says a plant employs 300 and Tier 2 says 500-1000. Facts proposing the same
+ * value are grouped; each group is scored by tier reliability, recency and
+ * confidence. A clear winner is auto-resolved, a close call is left
+ * unresolved for review. Either way the chosen value is used.
+ */
+
+import { EnrichmentFact } from '../types/enrichment';
+import { ConflictCandidate } from '../types/data-model';
+import { normalizeAddress } from './site-matching/site-matcher';
+
+export interface ConflictResolverConfig {
+  tierReliability: Record<number, number>;  // How far each tier's sources are trusted, 0-1
+  unknownTierReliability: number;
+  recencyHalfLifeDays: number;              // Age at which the recency score halves
+  weights: { tier: number; recency: number; confidence: number };
+  corroborationBonus: number;               // Added per extra agreeing fact
+  maxCorroborationBonus: number;
+  reviewMargin: number;                     // Winners closer than this to the runner-up need review
+  numericTolerance: number;                 // Relative gap under which two numbers agree
+}
+
+export interface FieldConflict {
+  fieldName: string;
+  candidates: ConflictCandidate[];
+  winnerFactId: string;
+  status: 'auto_resolved' | 'unresolved';
+}
+
+export interface FieldResolution {
+  winner?: EnrichmentFact;
+  supporting: EnrichmentFact[];  // Facts agreeing with the winning value
+  conflict?: FieldConflict;
+}
+
+interface ValueGroup {
+  facts: { fact: EnrichmentFact; score: number }[];
+  score: number;
+}
+
+export class ConflictResolver {
+  private config: ConflictResolverConfig;
+
+  constructor(config: Partial<ConflictResolverConfig> = {}) {
+    this.config = {
+      tierReliability: { 1: 1.0, 2: 0.8, 3: 0.6 },
+      unknownTierReliability: 0.7,
+      recencyHalfLifeDays: 180,
+      weights: { tier: 0.35, recency: 0.2, confidence: 0.45 },
+      corroborationBonus: 0.05,
+      maxCorroborationBonus: 0.15,
+      reviewMargin: 0.1,
+      numericTolerance: 0.1,
+      ...config
+    };
+  }
+
+  /**
+   * Chooses the value of one field from the facts that propose a value for it
+   */
+  resolve(fieldName: string, facts: EnrichmentFact[], now: Date = new Date()): FieldResolution {
+    const valued = facts.filter(fact => valueOf(fact) !== '');
+    if (valued.length === 0) {
+      return { supporting: [] };
+    }
+
+    const groups = this.groupByValue(valued, now);
+    const [best, runnerUp] = groups;
+    const winner = best.facts[0].fact;
+    const supporting = best.facts.map(entry => entry.fact);
+
+    if (!runnerUp) {
+      return { winner, supporting };
+    }
+
+    return {
+      winner,
+      supporting,
+      conflict: {
+        fieldName,
+        candidates: groups.map(group => this.toCandidate(group)),
+        winnerFactId: winner.id,
+        status: best.score - runnerUp.score >= this.config.reviewMargin ? 'auto_resolved' : 'unresolved'
+      }
+    };
+  }
+
+  /**
+   * Score of a single fact in [0, 1]
+   */
+  scoreFact(fact: EnrichmentFact, now: Date = new Date()): number {
+    const { weights } = this.config;
+    const tier = fact.tier_used !== undefined
+      ? this.config.tierReliability[fact.tier_used] ?? this.config.unknownTierReliability
+      : this.config.unknownTierReliability;
+
+    const recordedAt = new Date(fact.created_at).getTime();
+    const ageDays = Number.isNaN(recordedAt) ? 0 : Math.max(0, (now.getTime() - recordedAt) / 86400000);
+    const recency = Math.pow(0.5, ageDays / this.config.recencyHalfLifeDays);
+
+    const confidence = Math.min(1, Math.max(0, Number(fact.confidence_score) || 0));
+
+    return weights.tier * tier + weights.recency * recency + weights.confidence * confidence;
+  }
+
+  /**
+   * Groups facts proposing the same value, best group first
+   */
+  private groupByValue(facts: EnrichmentFact[], now: Date): ValueGroup[] {
+    const scored = facts
+      .map(fact => ({ fact, score: this.scoreFact(fact, now) }))
+      .sort((a, b) => b.score - a.score);
+
+    const groups: ValueGroup[] = [];
+    for (const entry of scored) {
+      const group = groups.find(candidate => this.valuesAgree(valueOf(candidate.facts[0].fact), valueOf(entry.fact)));
+      if (group) {
+        group.facts.push(entry);
+      } else {
+        groups.push({ facts: [entry], score: 0 });
+      }
+    }
+
+    for (const group of groups) {
+      const bonus = Math.min(
+        this.config.maxCorroborationBonus,
+        this.config.corroborationBonus * (group.facts.length - 1)
+      );
+      group.score = group.facts[0].score + bonus;
+    }
+
+    return groups.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Numbers and ranges agree when they overlap or are within tolerance;
+   * text agrees when one normalized value contains the other
+   */
+  valuesAgree(a: string, b: string): boolean {
+    const rangeA = parseRange(a);
+    const rangeB = parseRange(b);
+
+    if (rangeA && rangeB) {
+      if (rangeA[0] <= rangeB[1] && rangeB[0] <= rangeA[1]) {
+        return true;
+      }
+      const gap = Math.max(rangeA[0], rangeB[0]) - Math.min(rangeA[1], rangeB[1]);
+      return gap <= this.config.numericTolerance * Math.max(rangeA[1], rangeB[1]);
+    }
+
+    const textA = normalizeAddress(a);
+    const textB = normalizeAddress(b);
+    return textA === textB || (textA.length > 0 && textB.length > 0 && (textA.includes(textB) || textB.includes(textA)));
+  }
+
+  private toCandidate(group: ValueGroup): ConflictCandidate {
+    const { fact } = group.facts[0];
+    return {
+      factId: fact.id,
+      value: valueOf(fact),
+      tier: fact.tier_used,
+      confidenceScore: fact.confidence_score,
+      recordedAt: new Date(fact.created_at).toISOString(),
+      score: Math.round(group.score * 1000) / 1000,
+      supportingFactIds: group.facts.map(entry => entry.fact.id)
+    };
+  }
+}
+
+function valueOf(fact: EnrichmentFact): string {
+  const value = fact.fact_data?.value;
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+/**
+ * "300" -> [300, 300], "500-1000" / "500 to 1,000" -> [500, 1000]; null for text
+ */
+function parseRange(value: string): [number, number] | null {
+  const match = value.replace(/,/g, '').match(/^\D{0,20}?(\d+(?:\.\d+)?)\s*(?:(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*\+?\s*(?:employees|people|staff)?$/i);
+  if (!match) {
+    return null;
+  }
+
+  const low = parseFloat(match[1]);
+  const high = match[2] !== undefined ? parseFloat(match[2]) : low;
+  return [Math.min(low, high), Math.max(low, high)];
+}
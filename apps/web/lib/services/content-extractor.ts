@@ -0,0 +1,319 @@
+/**
+ * Content Extractor
+ *
+ * Readability-style separation of a page into its main content and the
+ * boilerplate around it. Navigation and footer text are kept as their own
+ * blocks rather than thrown away, because the footer is often the only
+ * place a site lists its headquarters address.
+ *
+ * Main-content blocks carry the path of headings they appear under, and
+ * list items and table rows are kept whole, so chunking can follow the
+ * structure of the page.
+ *
+ * Across a crawl, blocks that repeat on many pages (the footer, the menu,
+ * a "Contact us" teaser) are collapsed to a single copy so chunking and
+ * fact extraction see each of them once.
+ */
+
+import * as cheerio from 'cheerio';
+import { CrawledPage, PageBlock, PageBlockType } from '../types/enrichment';
+
+type CheerioRoot = ReturnType<typeof cheerio.load>;
+
+export interface ExtractedContent {
+  title: string;
+  content: string;      // Main content only
+  blocks: PageBlock[];
+}
+
+interface StructuredBlock {
+  text: string;
+  heading_path: string[];
+}
+
+export interface SiteBlockOptions {
+  min_repeat_pages: number;   // Main-content blocks on at least this many pages count as site-wide
+}
+
+const REMOVED_SELECTOR = 'script, style, noscript, template, svg, iframe, canvas, aside, [aria-hidden="true"], [hidden]';
+const FOOTER_SELECTOR = 'footer, [role="contentinfo"], #footer, .footer, .site-footer';
+const NAVIGATION_SELECTOR = 'nav, header, [role="navigation"], [role="banner"], .nav, .navigation, .menu, .breadcrumb, .breadcrumbs';
+const MAIN_SELECTOR = 'main, [role="main"], article';
+
+const COOKIE_BANNER = /cookie|consent|gdpr|onetrust|cookiebot/i;
+const POSITIVE_HINT = /article|body|content|entry|main|page|post|text|story|about/i;
+const NEGATIVE_HINT = /comment|sidebar|sponsor|share|social|widget|promo|banner|related|advert|popup|modal/i;
+
+// Paragraph-like elements whose text is scored when no <main>/<article> exists
+const SCORED_SELECTOR = 'p, td, pre, li, address';
+const MIN_SCORED_CHARS = 25;
+
+// A <main> or <article> with fewer words than this is not trusted as the main content
+const MIN_MAIN_WORDS = 20;
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul'
+]);
+
+// Kept as one block unless they contain further lists or tables
+const ATOMIC_TAGS = new Set(['li', 'tr']);
+const NESTED_STRUCTURE_SELECTOR = 'ul, ol, table';
+
+const HEADING_TAG = /^h([1-6])$/;
+
+const DEFAULT_SITE_BLOCK_OPTIONS: SiteBlockOptions = {
+  min_repeat_pages: 3
+};
+
+/**
+ * Splits an HTML document into main content, navigation and footer blocks
+ */
+export function extractPageContent(html: string): ExtractedContent {
+  const $ = cheerio.load(html);
+  const title = $('title').first().text().trim() || 'Untitled';
+
+  $(REMOVED_SELECTOR).remove();
+  $('body [id], body [class]').filter((_, element) => COOKIE_BANNER.test(hintOf($, element))).remove();
+
+  // Footer first, so menus inside the footer stay with the footer
+  const footer = takeBlock($, FOOTER_SELECTOR);
+  const navigation = takeBlock($, NAVIGATION_SELECTOR);
+
+  const mainBlocks = splitIntoBlocks($, findMainElement($));
+
+  const blocks: PageBlock[] = mainBlocks.map(({ text, heading_path }) => ({
+    type: 'main' as PageBlockType,
+    text,
+    ...(heading_path.length > 0 ? { heading_path } : {})
+  }));
+  if (navigation) blocks.push({ type: 'navigation', text: navigation });
+  if (footer) blocks.push({ type: 'footer', text: footer });
+
+  return {
+    title,
+    content: mainBlocks.map(block => block.text).join(' '),
+    blocks
+  };
+}
+
+/**
+ * Rewrites pages so each carries only its own main content, and appends one
+ * page per distinct site-wide block (navigation, footer, or main-content
+ * paragraphs repeated on many pages) attributed to the first page it was
+ * seen on. Pages without blocks, such as PDFs, are passed through.
+ */
+export function collapseSiteWideBlocks(pages: CrawledPage[], options: Partial<SiteBlockOptions> = {}): CrawledPage[] {
+  const { min_repeat_pages } = { ...DEFAULT_SITE_BLOCK_OPTIONS, ...options };
+
+  // Number of pages each main-content block appears on
+  const pageCounts = new Map<string, number>();
+  for (const page of pages) {
+    const seen = new Set(mainBlocksOf(page).map(normalize));
+    seen.forEach(key => pageCounts.set(key, (pageCounts.get(key) || 0) + 1));
+  }
+
+  const isSiteWide = (block: PageBlock) =>
+    block.type !== 'main' || (pageCounts.get(normalize(block.text)) || 0) >= min_repeat_pages;
+
+  const result: CrawledPage[] = [];
+  const siteWidePages: CrawledPage[] = [];
+  const emitted = new Set<string>();
+
+  for (const page of pages) {
+    if (!page.blocks) {
+      result.push(page);
+      continue;
+    }
+
+    const ownBlocks = page.blocks.filter(block => !isSiteWide(block));
+    const content = ownBlocks.map(block => block.text).join(' ');
+    if (content) {
+      result.push({ ...page, content, blocks: ownBlocks, metadata: { ...page.metadata, word_count: countWords(content) } });
+    }
+
+    for (const block of page.blocks.filter(isSiteWide)) {
+      const key = `${block.type}:${normalize(block.text)}`;
+      if (emitted.has(key)) continue;
+      emitted.add(key);
+
+      siteWidePages.push({
+        ...page,
+        title: `${page.title} (${block.type})`,
+        content: block.text,
+        blocks: [block],
+        metadata: { ...page.metadata, word_count: countWords(block.text) }
+      });
+    }
+  }
+
+  return [...result, ...siteWidePages];
+}
+
+/**
+ * Removes every top-level element matching the selector and returns their
+ * combined text
+ */
+function takeBlock($: CheerioRoot, selector: string): string {
+  const elements = $(selector).filter((_, element) => $(element).parents(selector).length === 0);
+  const text = elements.toArray()
+    .map(element => splitIntoBlocks($, element).map(block => block.text).join(' '))
+    .filter(part => part.length > 0)
+    .join(' ');
+
+  elements.remove();
+  return text;
+}
+
+/**
+ * Picks the element holding the main content: an explicit <main> or
+ * <article> when it has real text, otherwise the best-scoring container of
+ * paragraph-like elements, falling back to <body>
+ */
+function findMainElement($: CheerioRoot): any {
+  const explicit = $(MAIN_SELECTOR).toArray()
+    .filter(element => countWords($(element).text()) >= MIN_MAIN_WORDS)
+    .sort((a, b) => $(b).text().length - $(a).text().length)[0];
+  if (explicit) return explicit;
+
+  const scores = new Map<any, number>();
+  $(SCORED_SELECTOR).each((_, element) => {
+    const text = collapse($(element).text());
+    if (text.length < MIN_SCORED_CHARS) return;
+
+    const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = $(element).parent().get(0);
+    const grandparent = $(element).parent().parent().get(0);
+
+    const addScore = (container: any, points: number) => {
+      const current = scores.has(container) ? scores.get(container)! : initialScore($, container);
+      scores.set(container, current + points);
+    };
+
+    if (parent) addScore(parent, score);
+    if (grandparent) addScore(grandparent, score / 2);
+  });
+
+  let best: any = null;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - linkDensity($, element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+
+  return best || $('body').get(0) || $.root().get(0);
+}
+
+/**
+ * Class and id hints give a container a head start (or a penalty)
+ */
+function initialScore($: CheerioRoot, element: any): number {
+  const hint = hintOf($, element);
+  let score = 0;
+  if (POSITIVE_HINT.test(hint)) score += 25;
+  if (NEGATIVE_HINT.test(hint)) score -= 25;
+  return score;
+}
+
+function linkDensity($: CheerioRoot, element: any): number {
+  const textLength = collapse($(element).text()).length;
+  if (textLength === 0) return 0;
+
+  const linkLength = $(element).find('a').toArray()
+    .reduce((sum, link) => sum + collapse($(link).text()).length, 0);
+  return Math.min(linkLength / textLength, 1);
+}
+
+/**
+ * Flattens an element into the text of its innermost block-level elements,
+ * so each paragraph, list item, table row or heading becomes one block.
+ * Each block records the headings above it, outermost first; a heading
+ * closes every section of the same or a deeper level.
+ */
+function splitIntoBlocks($: CheerioRoot, root: any): StructuredBlock[] {
+  const blocks: StructuredBlock[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let inline = '';
+
+  const push = (raw: string) => {
+    const text = collapse(raw);
+    if (text) blocks.push({ text, heading_path: headings.map(heading => heading.text) });
+  };
+
+  const flush = () => {
+    push(inline);
+    inline = '';
+  };
+
+  const walk = (node: any) => {
+    for (const child of node.children || []) {
+      const heading = child.type === 'tag' ? HEADING_TAG.exec(child.name) : null;
+
+      if (child.type === 'text') {
+        inline += ` ${child.data}`;
+      } else if (heading) {
+        flush();
+        const level = parseInt(heading[1]);
+        const text = collapse($(child).text());
+        while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+          headings.pop();
+        }
+        if (text) headings.push({ level, text });
+        push(text);
+      } else if (child.type === 'tag' && ATOMIC_TAGS.has(child.name) && $(child).find(NESTED_STRUCTURE_SELECTOR).length === 0) {
+        flush();
+        push(child.name === 'tr' ? rowText($, child) : $(child).text());
+      } else if (child.type === 'tag' && BLOCK_TAGS.has(child.name)) {
+        flush();
+        walk(child);
+        flush();
+      } else if (child.type === 'tag') {
+        if (child.name === 'br') {
+          inline += ' ';
+        } else if ($(child).find(Array.from(BLOCK_TAGS).join(',')).length > 0) {
+          walk(child);
+        } else {
+          inline += ` ${$(child).text()}`;
+        }
+      }
+    }
+  };
+
+  walk(root);
+  flush();
+  return blocks;
+}
+
+/**
+ * Text of a table row with its cells separated, so columns stay apparent
+ */
+function rowText($: CheerioRoot, row: any): string {
+  return $(row).children('td, th').toArray()
+    .map(cell => collapse($(cell).text()))
+    .filter(text => text.length > 0)
+    .join(' | ');
+}
+
+function mainBlocksOf(page: CrawledPage): string[] {
+  return (page.blocks || []).filter(block => block.type === 'main').map(block => block.text);
+}
+
+function hintOf($: CheerioRoot, element: any): string {
+  return `${$(element).attr('id') || ''} ${$(element).attr('class') || ''}`;
+}
+
+function normalize(text: string): string {
+  return collapse(text).toLowerCase();
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word.length > 0).length;
+}
@@ -0,0 +1,84 @@
+/**
+ * Crawl Cache
+ *
+ * Conditional re-crawling on top of CrawlCacheRepository. The crawler asks
+ * for the validators of a URL before fetching it, and reports the outcome:
+ * a 304 Not Modified is answered from the stored body, a 200 is stored
+ * under its content hash. Cache failures never fail the crawl; the page is
+ * simply fetched in full.
+ */
+
+import { createHash } from 'crypto';
+import { CrawlCacheRepository, CachedResponse } from '../repositories/crawl-cache-repository';
+import { CacheStatus } from '../types/enrichment';
+
+export interface CacheLookup {
+  cached: CachedResponse | null;
+  headers: Record<string, string>;   // Conditional request headers for the fetch
+}
+
+/**
+ * SHA-256 of a page body, hex encoded
+ */
+export function hashContent(body: string | Uint8Array): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+export class CrawlCache {
+  private repository: CrawlCacheRepository;
+
+  constructor(repository?: CrawlCacheRepository) {
+    this.repository = repository || new CrawlCacheRepository();
+  }
+
+  /**
+   * Cached response for the URL and the If-None-Match / If-Modified-Since
+   * headers to revalidate it with
+   */
+  async lookup(url: string): Promise<CacheLookup> {
+    try {
+      const cached = await this.repository.get(url);
+      const headers: Record<string, string> = {};
+      if (cached?.etag) headers['If-None-Match'] = cached.etag;
+      if (cached?.last_modified) headers['If-Modified-Since'] = cached.last_modified;
+      return { cached, headers };
+    } catch (error) {
+      console.warn(`[CrawlCache] Lookup failed for ${url}:`, error);
+      return { cached: null, headers: {} };
+    }
+  }
+
+  /**
+   * Records that the server confirmed the cached body is still current
+   */
+  async revalidated(url: string): Promise<void> {
+    try {
+      await this.repository.markRevalidated(url);
+    } catch (error) {
+      console.warn(`[CrawlCache] Could not record revalidation of ${url}:`, error);
+    }
+  }
+
+  /**
+   * Stores a freshly fetched body and classifies it against the cached one
+   */
+  async store(url: string, body: string, response: Response, cached: CachedResponse | null): Promise<{ content_hash: string; cache_status: CacheStatus }> {
+    const contentHash = hashContent(body);
+    const cacheStatus: CacheStatus = !cached ? 'new' : cached.content_hash === contentHash ? 'unchanged' : 'changed';
+
+    try {
+      await this.repository.put({
+        url,
+        content_hash: contentHash,
+        body,
+        etag: response.headers.get('etag') || undefined,
+        last_modified: response.headers.get('last-modified') || undefined,
+        content_type: response.headers.get('content-type') || undefined
+      });
+    } catch (error) {
+      console.warn(`[CrawlCache] Could not cache ${url}:`, error);
+    }
+
+    return { content_hash: contentHash, cache_status: cacheStatus };
+  }
+}
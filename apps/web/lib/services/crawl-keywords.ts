@@ -0,0 +1,87 @@
+/**
+ * Crawl Keywords
+ *
+ * Words in URL paths and link texts that mark pages with business
+ * information, per language. The crawler matches all languages at once:
+ * a German site often has English paths with German link texts, and the
+ * reverse.
+ */
+
+// High-priority keywords for business information
+export const HIGH_PRIORITY_KEYWORDS: Record<string, string[]> = {
+  en: [
+    'about', 'company', 'corporate', 'overview',
+    'locations', 'facilities', 'manufacturing', 'plants', 'offices',
+    'products', 'services', 'solutions', 'business',
+    'investors', 'sustainability', 'responsibility',
+    'contact', 'global', 'worldwide', 'international',
+    'annual-report', 'annual report'
+  ],
+  de: [
+    'über uns', 'ueber-uns', 'uber-uns', 'unternehmen', 'konzern',
+    'standorte', 'werke', 'produktion', 'fertigung', 'niederlassungen',
+    'produkte', 'leistungen', 'lösungen', 'loesungen',
+    'investoren', 'nachhaltigkeit', 'verantwortung',
+    'kontakt', 'weltweit', 'geschäftsbericht', 'geschaeftsbericht'
+  ],
+  fr: [
+    'a-propos', 'à propos', 'entreprise', 'societe', 'société', 'groupe',
+    'implantations', 'usines', 'production', 'bureaux',
+    'produits', 'solutions', 'activites', 'activités',
+    'investisseurs', 'developpement-durable', 'développement durable',
+    'nous-contacter', 'contactez', 'rapport-annuel', 'rapport annuel'
+  ],
+  es: [
+    'sobre-nosotros', 'quienes-somos', 'quiénes somos', 'empresa', 'compania', 'compañía',
+    'ubicaciones', 'instalaciones', 'plantas', 'fabricacion', 'fabricación', 'oficinas',
+    'productos', 'servicios', 'soluciones', 'negocios',
+    'inversionistas', 'inversores', 'sostenibilidad',
+    'contacto', 'informe-anual', 'informe anual'
+  ],
+  pt: [
+    'sobre-nos', 'sobre nós', 'quem-somos', 'quem somos', 'empresa',
+    'unidades', 'fabricas', 'fábricas', 'plantas', 'escritorios', 'escritórios',
+    'produtos', 'servicos', 'serviços', 'solucoes', 'soluções', 'negocios', 'negócios',
+    'investidores', 'sustentabilidade',
+    'contato', 'relatorio-anual', 'relatório anual'
+  ],
+  ja: [
+    '会社概要', '企業情報', '会社案内', '事業所', '拠点', '工場', '生産',
+    '製品', 'サービス', 'ソリューション', '事業',
+    '投資家', 'サステナビリティ', 'お問い合わせ', 'グローバル', '統合報告書'
+  ]
+};
+
+// Medium-priority keywords
+export const MEDIUM_PRIORITY_KEYWORDS: Record<string, string[]> = {
+  en: [
+    'careers', 'jobs', 'team', 'leadership',
+    'news', 'press', 'media', 'announcements',
+    'technology', 'innovation', 'research', 'development'
+  ],
+  de: [
+    'karriere', 'stellenangebote', 'vorstand', 'management',
+    'presse', 'aktuelles', 'neuigkeiten', 'meldungen',
+    'technologie', 'innovation', 'forschung', 'entwicklung'
+  ],
+  fr: [
+    'carrieres', 'carrières', 'emplois', 'recrutement', 'equipe', 'équipe', 'direction',
+    'actualites', 'actualités', 'presse', 'communiques', 'communiqués',
+    'technologie', 'innovation', 'recherche'
+  ],
+  es: [
+    'empleo', 'trabaja-con-nosotros', 'carreras', 'equipo', 'direccion', 'dirección',
+    'noticias', 'prensa', 'medios', 'comunicados',
+    'tecnologia', 'tecnología', 'innovacion', 'innovación', 'investigacion', 'investigación'
+  ],
+  pt: [
+    'carreiras', 'trabalhe-conosco', 'trabalhe conosco', 'vagas', 'equipe', 'diretoria',
+    'noticias', 'notícias', 'imprensa', 'comunicados',
+    'tecnologia', 'inovacao', 'inovação', 'pesquisa', 'desenvolvimento'
+  ],
+  ja: [
+    '採用', 'キャリア', '役員', '経営陣',
+    'ニュース', 'お知らせ', 'プレスリリース',
+    '技術', '研究開発', 'イノベーション'
+  ]
+};
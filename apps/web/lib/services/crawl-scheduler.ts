@@ -0,0 +1,294 @@
+/**
+ * Crawl Scheduler
+ *
+ * Paces the crawler's requests per host. Each host gets a bounded number of
+ * concurrent requests and a delay between requests that adapts to what the
+ * host shows: it follows the observed response latency, doubles after a
+ * transient failure and decays back once requests succeed again. Transient
+ * failures (timeouts, network errors, 408/429/5xx) are retried with jittered
+ * exponential backoff, or after the server's Retry-After. A crawl also has a
+ * budget in wall-clock time and downloaded bytes.
+ */
+
+import { CrawlHostStats, CrawlSchedulerStats } from '../types/enrichment';
+
+export interface CrawlSchedulerConfig {
+  max_concurrency: number;            // Requests in flight across all hosts
+  max_concurrency_per_host: number;
+  min_delay_ms: number;               // Floor for the delay between requests to a host
+  max_delay_ms: number;               // Ceiling for delays, backoff and Retry-After waits
+  max_retries: number;                // Retries of a single request after transient failures
+  retry_base_delay_ms: number;        // First backoff step, doubled on every retry
+  time_budget_ms: number;
+  byte_budget: number;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+const RATE_LIMIT_STATUSES = new Set([429, 503]);
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.3;
+
+// How much a host's error rate stretches its delay (an error rate of 0.5 triples it)
+const ERROR_RATE_WEIGHT = 4;
+
+interface HostState {
+  active: number;
+  waiters: Array<() => void>;
+  next_request_at: number;
+  delay_ms: number;
+  latency_ms: number | null;
+  requests: number;
+  retries: number;
+  errors: number;
+  rate_limited: number;
+  paused_until: number;
+}
+
+/**
+ * Milliseconds to wait according to a Retry-After header, given either as
+ * delay-seconds or as an HTTP date. Null when the header is missing or
+ * cannot be parsed.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Whether a failed fetch is worth retrying: timeouts and network-level
+ * failures, which fetch() reports as AbortError and TypeError
+ */
+export function isTransientError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError' || error instanceof TypeError);
+}
+
+export class CrawlScheduler {
+  private config: CrawlSchedulerConfig;
+  private hosts = new Map<string, HostState>();
+  private startedAt = Date.now();
+  private bytesDownloaded = 0;
+
+  constructor(config: CrawlSchedulerConfig) {
+    this.config = config;
+  }
+
+  get maxConcurrency(): number {
+    return this.config.max_concurrency;
+  }
+
+  get maxConcurrencyPerHost(): number {
+    return this.config.max_concurrency_per_host;
+  }
+
+  /**
+   * Runs a request to the URL's host once the host has a free slot and its
+   * delay has passed, retrying transient failures. The final response is
+   * returned even if it is an error status; the final error is rethrown.
+   *
+   * `minDelayMs` raises the host's delay for this request, e.g. to honor a
+   * robots.txt Crawl-delay.
+   */
+  async fetch(url: string, request: () => Promise<Response>, minDelayMs = 0): Promise<Response> {
+    const host = this.hostState(url);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(host, minDelayMs);
+
+      const startedAt = Date.now();
+      let response: Response | null = null;
+      let error: unknown = null;
+      try {
+        response = await request();
+      } catch (caught) {
+        error = caught;
+      } finally {
+        this.release(host);
+      }
+
+      host.requests++;
+      const transient = response ? RETRYABLE_STATUSES.has(response.status) : isTransientError(error);
+      if (!transient) {
+        if (response) this.recordSuccess(host, Date.now() - startedAt);
+        if (error) throw error;
+        return response!;
+      }
+
+      const retryAfterMs = this.recordFailure(host, response);
+      const canRetry = attempt < this.config.max_retries
+        && !this.budgetExhausted()
+        && (retryAfterMs === null || retryAfterMs <= this.config.max_delay_ms);
+
+      if (!canRetry) {
+        if (error) throw error;
+        return response!;
+      }
+
+      // The next attempt waits in acquire() until the host is due again
+      await response?.body?.cancel().catch(() => undefined);
+      const waitMs = retryAfterMs ?? this.backoff(attempt);
+      host.next_request_at = Math.max(host.next_request_at, Date.now() + waitMs);
+      host.retries++;
+      console.log(`[CrawlScheduler] Retrying ${url} in ${waitMs}ms (attempt ${attempt + 2}): ${response ? `HTTP ${response.status}` : error}`);
+    }
+  }
+
+  /**
+   * Counts downloaded bytes against the byte budget
+   */
+  recordBytes(bytes: number): void {
+    this.bytesDownloaded += bytes;
+  }
+
+  /**
+   * Why the crawl must stop, or null while it is within budget
+   */
+  budgetExhausted(): string | null {
+    const elapsed = Date.now() - this.startedAt;
+    if (elapsed >= this.config.time_budget_ms) {
+      return `Time budget of ${this.config.time_budget_ms}ms exhausted`;
+    }
+    if (this.bytesDownloaded >= this.config.byte_budget) {
+      return `Byte budget of ${this.config.byte_budget} bytes exhausted`;
+    }
+    return null;
+  }
+
+  stats(): CrawlSchedulerStats {
+    const hosts: Record<string, CrawlHostStats> = {};
+    for (const [name, host] of this.hosts) {
+      hosts[name] = {
+        requests: host.requests,
+        retries: host.retries,
+        errors: host.errors,
+        rate_limited: host.rate_limited,
+        avg_latency_ms: host.latency_ms === null ? null : Math.round(host.latency_ms),
+        delay_ms: Math.round(host.delay_ms),
+        ...(host.paused_until > Date.now() ? { paused_until: new Date(host.paused_until).toISOString() } : {})
+      };
+    }
+
+    const all = [...this.hosts.values()];
+    const sum = (field: 'requests' | 'retries' | 'errors' | 'rate_limited') =>
+      all.reduce((total, host) => total + host[field], 0);
+
+    return {
+      started_at: new Date(this.startedAt).toISOString(),
+      elapsed_ms: Date.now() - this.startedAt,
+      requests: sum('requests'),
+      retries: sum('retries'),
+      errors: sum('errors'),
+      rate_limited: sum('rate_limited'),
+      bytes_downloaded: this.bytesDownloaded,
+      budget: {
+        time_ms: this.config.time_budget_ms,
+        bytes: this.config.byte_budget,
+        exhausted: this.budgetExhausted()
+      },
+      hosts
+    };
+  }
+
+  private hostState(url: string): HostState {
+    const name = new URL(url).host;
+    let host = this.hosts.get(name);
+    if (!host) {
+      host = {
+        active: 0,
+        waiters: [],
+        next_request_at: 0,
+        delay_ms: this.config.min_delay_ms,
+        latency_ms: null,
+        requests: 0,
+        retries: 0,
+        errors: 0,
+        rate_limited: 0,
+        paused_until: 0
+      };
+      this.hosts.set(name, host);
+    }
+    return host;
+  }
+
+  /**
+   * Waits for a free slot on the host and for its next request time, then
+   * takes the slot and schedules the request after it
+   */
+  private async acquire(host: HostState, minDelayMs: number): Promise<void> {
+    while (true) {
+      if (host.active >= this.config.max_concurrency_per_host) {
+        await new Promise<void>(resolve => host.waiters.push(resolve));
+        continue;
+      }
+
+      const waitMs = host.next_request_at - Date.now();
+      if (waitMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+        continue;
+      }
+
+      host.active++;
+      host.next_request_at = Date.now() + Math.max(host.delay_ms, minDelayMs);
+      return;
+    }
+  }
+
+  private release(host: HostState): void {
+    host.active--;
+    host.waiters.shift()?.();
+  }
+
+  /**
+   * Moves the host's delay halfway towards its latency-based target: the
+   * average latency spread over the host's slots, stretched by its error rate
+   */
+  private recordSuccess(host: HostState, latencyMs: number): void {
+    host.latency_ms = host.latency_ms === null
+      ? latencyMs
+      : LATENCY_SMOOTHING * latencyMs + (1 - LATENCY_SMOOTHING) * host.latency_ms;
+
+    const errorRate = host.errors / host.requests;
+    const target = (host.latency_ms / this.config.max_concurrency_per_host) * (1 + ERROR_RATE_WEIGHT * errorRate);
+    host.delay_ms = this.clampDelay((host.delay_ms + target) / 2);
+  }
+
+  /**
+   * Backs the host off after a transient failure. Returns the Retry-After
+   * of a rate-limiting response, which pauses the whole host.
+   */
+  private recordFailure(host: HostState, response: Response | null): number | null {
+    host.errors++;
+    host.delay_ms = this.clampDelay(Math.max(host.delay_ms * 2, this.config.retry_base_delay_ms));
+
+    if (!response || !RATE_LIMIT_STATUSES.has(response.status)) {
+      return null;
+    }
+
+    host.rate_limited++;
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    if (retryAfterMs !== null) {
+      host.paused_until = Date.now() + Math.min(retryAfterMs, this.config.max_delay_ms);
+      host.next_request_at = Math.max(host.next_request_at, host.paused_until);
+    }
+    return retryAfterMs;
+  }
+
+  /**
+   * Exponential backoff with equal jitter: half the step is fixed, half random
+   */
+  private backoff(attempt: number): number {
+    const step = Math.min(this.config.max_delay_ms, this.config.retry_base_delay_ms * 2 ** attempt);
+    return Math.round(step / 2 + Math.random() * (step / 2));
+  }
+
+  private clampDelay(delayMs: number): number {
+    return Math.min(this.config.max_delay_ms, Math.max(this.config.min_delay_ms, delayMs));
+  }
+}
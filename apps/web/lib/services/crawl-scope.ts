@@ -0,0 +1,156 @@
+/**
+ * Crawl Scope
+ *
+ * Per-job limits on what the crawler may visit, passed by analysts as
+ * `metadata.crawl_scope` when creating a job:
+ *
+ *   {
+ *     "seed_urls": ["https://example.com/our-locations"],
+ *     "include_patterns": ["/locations/**", "/about*"],
+ *     "exclude_patterns": ["/news/**", "/careers/**"],
+ *     "allowed_subdomains": ["investors"],      // or "*" for every subdomain
+ *     "sibling_domains": ["examplebrand.com"]
+ *   }
+ *
+ * Patterns are globs over the URL path: `*` matches within one path
+ * segment, `**` across segments and `?` a single character. Exclusions win
+ * over inclusions; with no include patterns every path is included. Seed
+ * URLs, including the domain's home page, are always crawled.
+ */
+
+import { z } from 'zod';
+import { CrawlScope } from '../types/enrichment';
+import { generateCrawlUrl, normalizeDomain, validateDomain } from '../utils/domain-validator';
+
+// A bare label ("investors") or a dotted host name
+const HOST_NAME = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i;
+
+export const CrawlScopeSchema = z.object({
+  seed_urls: z.array(
+    z.string().url('Seed URLs must be absolute URLs').refine(url => /^https?:\/\//i.test(url), 'Seed URLs must use http or https')
+  ).max(50).optional().default([]),
+  include_patterns: z.array(z.string().min(1)).max(50).optional().default([]),
+  exclude_patterns: z.array(z.string().min(1)).max(50).optional().default([]),
+  allowed_subdomains: z.array(
+    z.string().refine(subdomain => subdomain === '*' || HOST_NAME.test(subdomain), 'Invalid subdomain')
+  ).max(50).optional().default([]),
+  sibling_domains: z.array(
+    z.string().refine(domain => validateDomain(domain), 'Invalid sibling domain')
+  ).max(20).optional().default([])
+});
+
+/**
+ * Effective scope of a job: the validated `metadata.crawl_scope` with
+ * defaults applied, hosts normalized and the home page as the first seed.
+ * Seeds on hosts outside the scope are dropped.
+ */
+export function resolveCrawlScope(domain: string, metadata?: Record<string, any> | null): CrawlScope {
+  const parsed = CrawlScopeSchema.parse(metadata?.crawl_scope ?? {});
+  const root = normalizeDomain(domain);
+
+  const scope: CrawlScope = {
+    domain: root,
+    seed_urls: [],
+    include_patterns: parsed.include_patterns,
+    exclude_patterns: parsed.exclude_patterns,
+    allowed_subdomains: unique(parsed.allowed_subdomains.map(subdomain => {
+      const normalized = normalizeDomain(subdomain);
+      // Bare labels such as "investors" are relative to the job's domain
+      return normalized === '*' || normalized.endsWith(`.${root}`) ? normalized : `${normalized}.${root}`;
+    })),
+    sibling_domains: unique(parsed.sibling_domains.map(normalizeDomain).filter(sibling => sibling !== root))
+  };
+
+  const matcher = new CrawlScopeMatcher(scope);
+  scope.seed_urls = unique([generateCrawlUrl(root), ...parsed.seed_urls].filter(url => {
+    if (matcher.isHostInScope(url)) return true;
+    console.warn(`[CrawlScope] Ignoring seed URL outside the crawl scope of ${root}: ${url}`);
+    return false;
+  }));
+
+  return scope;
+}
+
+export class CrawlScopeMatcher {
+  private scope: CrawlScope;
+  private includes: RegExp[];
+  private excludes: RegExp[];
+  private seeds: Set<string>;
+
+  constructor(scope: CrawlScope) {
+    this.scope = scope;
+    this.includes = scope.include_patterns.map(globToRegExp);
+    this.excludes = scope.exclude_patterns.map(globToRegExp);
+    this.seeds = new Set(scope.seed_urls);
+  }
+
+  /**
+   * Whether the crawler may visit the URL
+   */
+  isInScope(url: string): boolean {
+    if (this.seeds.has(url)) return true;
+    if (!this.isHostInScope(url)) return false;
+
+    const path = new URL(url).pathname;
+    if (this.excludes.some(pattern => pattern.test(path))) return false;
+    return this.includes.length === 0 || this.includes.some(pattern => pattern.test(path));
+  }
+
+  /**
+   * Whether the URL is on the job's domain, an allowed subdomain or a
+   * sibling domain (each with or without "www.")
+   */
+  isHostInScope(url: string): boolean {
+    let host: string;
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+      host = normalizeDomain(parsed.hostname);
+    } catch {
+      return false;
+    }
+
+    const { domain, allowed_subdomains, sibling_domains } = this.scope;
+    if (host === domain || sibling_domains.includes(host)) return true;
+    if (allowed_subdomains.includes('*') && host.endsWith(`.${domain}`)) return true;
+    return allowed_subdomains.includes(host);
+  }
+}
+
+/**
+ * Converts a path glob to an anchored regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  const path = glob.startsWith('/') || glob.startsWith('*') ? glob : `/${glob}`;
+  let pattern = '';
+
+  for (let i = 0; i < path.length; i++) {
+    const char = path[i];
+    if (char === '/' && path.slice(i) === '/**') {
+      // "/locations/**" also matches "/locations" itself
+      pattern += '(?:/.*)?';
+      break;
+    } else if (char === '*' && path[i + 1] === '*') {
+      // "**/" also matches no directory at all
+      if (path[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i++;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`, 'i');
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
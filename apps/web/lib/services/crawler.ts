@@ -1,11 +1,19 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
 import { CrawledPage, CrawlerConfig } from '../types/enrichment';
+import { RobotsPolicy } from './robots-txt';
+import { BrowserPool, getBrowserPool } from './browser-pool';
+import { extractPageContent } from './content-extractor';
+
+/**
+ * Called for every URL the crawler decides not to fetch
+ */
+export type SkippedUrlHandler = (url: string, reason: string) => Promise<void>;
 
 export class WebCrawlerService {
   private config: CrawlerConfig;
-  private browser: Browser | null = null;
+  private robots: RobotsPolicy;
+  private pool: BrowserPool;
 
-  constructor(config: Partial<CrawlerConfig> = {}) {
+  constructor(config: Partial<CrawlerConfig> = {}, pool?: BrowserPool) {
     this.config = {
       max_pages: config.max_pages || 10,
       delay_ms: config.delay_ms || 2000,
@@ -13,32 +21,11 @@ export class WebCrawlerService {
       user_agent: config.user_agent || 'Resilion-Enrichment-Bot/1.0',
       respect_robots_txt: config.respect_robots_txt !== false, // default true
     };
+    this.robots = new RobotsPolicy(this.config.user_agent, { timeout_ms: this.config.timeout_ms });
+    this.pool = pool || getBrowserPool();
   }
 
-  async initialize(): Promise<void> {
-    if (!this.browser) {
-      this.browser = await puppeteer.launch({
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--no-first-run',
-          '--no-zygote',
-          '--disable-gpu'
-        ]
-      });
-    }
-  }
-
-  async crawlDomain(domain: string): Promise<CrawledPage[]> {
-    await this.initialize();
-    
-    if (!this.browser) {
-      throw new Error('Failed to initialize browser');
-    }
-
+  async crawlDomain(domain: string, onSkippedUrl?: SkippedUrlHandler): Promise<CrawledPage[]> {
     const crawledPages: CrawledPage[] = [];
     const visitedUrls = new Set<string>();
     const urlsToVisit: string[] = [];
@@ -49,16 +36,16 @@ export class WebCrawlerService {
 
     // Check robots.txt if configured
     if (this.config.respect_robots_txt) {
-      const robotsAllowed = await this.checkRobotsTxt(baseUrl);
-      if (!robotsAllowed) {
-        console.warn(`Robots.txt disallows crawling for ${domain}`);
+      const decision = await this.robots.check(baseUrl);
+      if (!decision.allowed) {
+        console.warn(`Robots.txt disallows crawling for ${domain}: ${decision.reason}`);
+        await onSkippedUrl?.(baseUrl, decision.reason || 'Disallowed by robots.txt');
         return [];
       }
     }
 
-    const page = await this.browser.newPage();
-    
-    try {
+    // Borrow a page from the shared browser pool for the whole crawl
+    await this.pool.withPage(async page => {
       // Set user agent
       await page.setUserAgent(this.config.user_agent);
       
@@ -77,6 +64,16 @@ export class WebCrawlerService {
 
         visitedUrls.add(currentUrl);
 
+        // Consult robots.txt for every URL before fetching it
+        if (this.config.respect_robots_txt) {
+          const decision = await this.robots.check(currentUrl);
+          if (!decision.allowed) {
+            console.log(`Skipping ${currentUrl}: ${decision.reason}`);
+            await onSkippedUrl?.(currentUrl, decision.reason || 'Disallowed by robots.txt');
+            continue;
+          }
+        }
+
         try {
           console.log(`Crawling: ${currentUrl}`);
           
@@ -91,39 +88,21 @@ export class WebCrawlerService {
           }
 
           // Extract page content
-          const pageData = await page.evaluate(() => {
-            // Remove script and style elements
-            const scripts = document.querySelectorAll('script, style, nav, footer, header');
-            scripts.forEach(el => el.remove());
-
-            // Get main content
-            const mainContent = document.querySelector('main') || 
-                               document.querySelector('[role="main"]') || 
-                               document.querySelector('.content') ||
-                               document.querySelector('#content') ||
-                               document.body;
-
-            const title = document.title || '';
-            const content = mainContent?.innerText || document.body.innerText || '';
-
-            return {
-              title: title.trim(),
-              content: content.trim(),
-              url: window.location.href
-            };
-          });
+          const { title, content, blocks } = extractPageContent(await page.content());
 
           // Only include pages with substantial content
-          if (pageData.content.length > 200) {
+          if (content.length > 200) {
             const crawledPage: CrawledPage = {
               url: currentUrl,
-              title: pageData.title,
-              content: pageData.content,
+              title,
+              content,
+              blocks,
               metadata: {
                 crawled_at: new Date().toISOString(),
                 status_code: response.status(),
                 content_type: response.headers()['content-type'] || 'text/html',
-                word_count: pageData.content.split(/\s+/).length
+                word_count: content.split(/\s+/).length,
+                fetch_mode: 'rendered'
               }
             };
 
@@ -155,9 +134,12 @@ export class WebCrawlerService {
             });
           }
 
-          // Respect delay between requests
-          if (this.config.delay_ms > 0) {
-            await new Promise(resolve => setTimeout(resolve, this.config.delay_ms));
+          // Respect delay between requests, honoring the site's Crawl-delay
+          const delayMs = this.config.respect_robots_txt
+            ? Math.max(this.config.delay_ms, await this.robots.getCrawlDelayMs(currentUrl))
+            : this.config.delay_ms;
+          if (delayMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, delayMs));
           }
 
         } catch (error) {
@@ -166,65 +148,9 @@ export class WebCrawlerService {
         }
       }
 
-    } finally {
-      await page.close();
-    }
+    });
 
     console.log(`Crawled ${crawledPages.length} pages from ${domain}`);
     return crawledPages;
   }
-
-  private async checkRobotsTxt(baseUrl: string): Promise<boolean> {
-    try {
-      const robotsUrl = new URL('/robots.txt', baseUrl).toString();
-      const page = await this.browser!.newPage();
-      
-      try {
-        const response = await page.goto(robotsUrl, { timeout: 10000 });
-        
-        if (!response || response.status() !== 200) {
-          // No robots.txt found, assume allowed
-          return true;
-        }
-
-        const robotsContent = await page.content();
-        const robotsText = await page.evaluate(() => document.body.textContent || '');
-
-        // Simple robots.txt parsing - look for disallow rules for our user agent
-        const lines = robotsText.split('\n').map(line => line.trim().toLowerCase());
-        let currentUserAgent = '';
-        let disallowed = false;
-
-        for (const line of lines) {
-          if (line.startsWith('user-agent:')) {
-            currentUserAgent = line.split(':')[1].trim();
-          } else if (line.startsWith('disallow:') && 
-                    (currentUserAgent === '*' || currentUserAgent.includes('resilion'))) {
-            const disallowPath = line.split(':')[1].trim();
-            if (disallowPath === '/' || disallowPath === '') {
-              disallowed = true;
-              break;
-            }
-          }
-        }
-
-        return !disallowed;
-
-      } finally {
-        await page.close();
-      }
-
-    } catch (error) {
-      console.warn('Error checking robots.txt:', error);
-      // If we can't check robots.txt, assume allowed
-      return true;
-    }
-  }
-
-  async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-    }
-  }
 }
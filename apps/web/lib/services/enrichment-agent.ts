@@ -2,13 +2,13 @@ import {
   EnrichmentJob, 
   EnrichmentContext, 
   EnrichmentChain, 
-  EnrichmentStep,
   JobRepository 
 } from '../types/enrichment';
 import { WebCrawlerStep } from './steps/web-crawler-step';
 import { TextChunkingStep } from './steps/text-chunking-step';
 import { EmbeddingStep } from './steps/embedding-step';
 import { FactExtractionStep } from './steps/fact-extraction-step';
+import { StepChain } from './orchestration/step-chain';
 
 /**
  * EnrichmentAgent - Core orchestrator for the enrichment process
@@ -109,7 +109,10 @@ export class EnrichmentAgent {
    * Builds the processing chain with all enrichment steps
    */
   private buildProcessingChain(): EnrichmentChain {
-    const chain = new ProcessingChain(this.jobRepository);
+    // Refresh job state after each step so later steps see updated step statuses
+    const chain = new StepChain({
+      refreshJob: (jobId) => this.jobRepository.findById(jobId)
+    });
 
     // Add steps in order
     chain
@@ -164,67 +167,3 @@ export class EnrichmentAgent {
     }
   }
 }
-
-/**
- * Implementation of the EnrichmentChain interface
- */
-class ProcessingChain implements EnrichmentChain {
-  private steps: EnrichmentStep[] = [];
-  private jobRepository: JobRepository;
-
-  constructor(jobRepository: JobRepository) {
-    this.jobRepository = jobRepository;
-  }
-
-  addStep(step: EnrichmentStep): EnrichmentChain {
-    this.steps.push(step);
-    return this;
-  }
-
-  async execute(context: EnrichmentContext): Promise<EnrichmentContext> {
-    let currentContext = { ...context };
-
-    // Execute steps sequentially - each step must complete before the next can start
-    for (const step of this.steps) {
-      try {
-        console.log(`Checking if step ${step.name} can handle current context`);
-        
-        // Check if step can handle the current context
-        if (!step.canHandle(currentContext)) {
-          console.log(`Step ${step.name} cannot handle current context - dependencies not met`);
-          // Don't skip - this means the pipeline is not ready for this step yet
-          // This could indicate an error in the previous steps
-          continue;
-        }
-
-        console.log(`Executing step: ${step.name}`);
-        
-        // Execute the step
-        currentContext = await step.execute(currentContext);
-
-        // Refresh job state from database after each step
-        const updatedJob = await this.jobRepository.findById(currentContext.job.id);
-        if (updatedJob) {
-          currentContext.job = updatedJob;
-        }
-
-        // Check for errors after step execution
-        if (currentContext.error) {
-          console.error(`Step ${step.name} failed:`, currentContext.error.message);
-          break;
-        }
-
-        console.log(`Step ${step.name} completed successfully`);
-
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`Step ${step.name} threw error:`, errorMessage);
-        
-        currentContext.error = error instanceof Error ? error : new Error(errorMessage);
-        break;
-      }
-    }
-
-    return currentContext;
-  }
-}
@@ -3,110 +3,65 @@ import {
   EnrichmentStep, 
   EnrichmentContext, 
   EnrichmentChain,
-  JobStatus,
   StepStatus 
 } from '../types/enrichment';
 import { WebCrawlerService } from './crawler';
 import { TextChunkingService } from './chunker';
 import { EmbeddingService } from './embeddings';
+import { StepChain } from './orchestration/step-chain';
+import { JobStatusSink } from './orchestration/persistence-sinks';
 
 /**
- * Chain-of-Responsibility implementation for enrichment steps
+ * Chain-of-Responsibility implementation for enrichment steps that records
+ * job status and step progress in enrichment_jobs and job_logs
  */
 export class EnrichmentChainImpl implements EnrichmentChain {
-  private steps: EnrichmentStep[] = [];
-  private pool: Pool;
+  private chain: StepChain;
+  private statusSink: JobStatusSink;
 
   constructor() {
-    this.pool = new Pool({
-      connectionString: process.env.DATABASE_URL,
+    this.statusSink = new JobStatusSink();
+    this.chain = new StepChain({
+      hooks: {
+        stepStarted: (step, context) =>
+          this.statusSink.logEvent(context.job.id, 'info', `Starting step: ${step.name}`),
+        stepCompleted: (step, context) =>
+          this.statusSink.logEvent(context.job.id, 'info', `Completed step: ${step.name}`),
+        stepSkipped: (step, context) =>
+          this.statusSink.logEvent(context.job.id, 'info', `Skipped step: ${step.name} (cannot handle current context)`),
+        stepFailed: (step, context, error) =>
+          this.statusSink.jobTransition(context.job.id, {
+            status: 'failed',
+            event: 'step_failed',
+            message: `Error in step ${step.name}: ${error}`,
+            level: 'error',
+            errorMessage: `Failed at step: ${step.name} - ${error}`
+          })
+      }
     });
   }
 
   addStep(step: EnrichmentStep): EnrichmentChain {
-    this.steps.push(step);
+    this.chain.addStep(step);
     return this;
   }
 
   async execute(context: EnrichmentContext): Promise<EnrichmentContext> {
-    let currentContext = { ...context };
-
-    // Update job status to running
-    await this.updateJobStatus(currentContext.job.id, 'running');
-    await this.logJobMessage(currentContext.job.id, 'info', 'Starting enrichment chain execution');
-
-    for (const step of this.steps) {
-      try {
-        if (step.canHandle(currentContext)) {
-          console.log(`Executing step: ${step.name}`);
-          await this.logJobMessage(currentContext.job.id, 'info', `Starting step: ${step.name}`);
-          
-          currentContext = await step.execute(currentContext);
-          
-          await this.logJobMessage(currentContext.job.id, 'info', `Completed step: ${step.name}`);
-        } else {
-          console.log(`Skipping step: ${step.name} (cannot handle current context)`);
-          await this.logJobMessage(currentContext.job.id, 'info', `Skipped step: ${step.name} (cannot handle current context)`);
-        }
-      } catch (error) {
-        console.error(`Error in step ${step.name}:`, error);
-        currentContext.error = error as Error;
-        
-        await this.logJobMessage(
-          currentContext.job.id, 
-          'error', 
-          `Error in step ${step.name}: ${error}`,
-          { step: step.name, error: error }
-        );
-        
-        // Update job status to failed
-        await this.updateJobStatus(currentContext.job.id, 'failed');
-        await this.updateJobError(currentContext.job.id, `Failed at step: ${step.name} - ${error}`);
-        
-        break;
-      }
-    }
-
-    // Update final job status
-    if (!currentContext.error) {
-      await this.updateJobStatus(currentContext.job.id, 'completed');
-      await this.logJobMessage(currentContext.job.id, 'info', 'Enrichment chain completed successfully');
+    await this.statusSink.jobStarted(context.job);
+    await this.statusSink.logEvent(context.job.id, 'info', 'Starting enrichment chain execution');
+
+    const finalContext = await this.chain.execute(context);
+
+    if (!finalContext.error) {
+      await this.statusSink.jobTransition(finalContext.job.id, {
+        status: 'completed',
+        event: 'completed',
+        message: 'Enrichment chain completed successfully',
+        ended: true
+      });
     }
 
-    return currentContext;
-  }
-
-  private async updateJobStatus(jobId: string, status: JobStatus): Promise<void> {
-    const query = `
-      UPDATE enrichment_jobs 
-      SET status = $1, ${status === 'running' ? 'started_at = CURRENT_TIMESTAMP,' : ''} 
-          ${status === 'completed' ? 'completed_at = CURRENT_TIMESTAMP,' : ''} 
-          updated_at = CURRENT_TIMESTAMP
-      WHERE id = $2
-    `;
-    await this.pool.query(query, [status, jobId]);
-  }
-
-  private async updateJobError(jobId: string, errorMessage: string): Promise<void> {
-    const query = `
-      UPDATE enrichment_jobs 
-      SET error_message = $1, updated_at = CURRENT_TIMESTAMP
-      WHERE id = $2
-    `;
-    await this.pool.query(query, [errorMessage, jobId]);
-  }
-
-  private async logJobMessage(
-    jobId: string, 
-    level: string, 
-    message: string, 
-    details?: any
-  ): Promise<void> {
-    const query = `
-      INSERT INTO job_logs (job_id, level, message, details)
-      VALUES ($1, $2, $3, $4)
-    `;
-    await this.pool.query(query, [jobId, level, message, details ? JSON.stringify(details) : null]);
+    return finalContext;
   }
 }
 
@@ -140,7 +95,10 @@ export class CrawlingStep implements EnrichmentStep {
     await this.updateStepStatus(context.job.id, 'running');
 
     try {
-      const crawledPages = await this.crawler.crawlDomain(context.job.domain);
+      const crawledPages = await this.crawler.crawlDomain(
+        context.job.domain,
+        (url, reason) => this.recordSkippedUrl(context.job.id, url, reason)
+      );
       
       // Update progress
       await this.updateProgress(context.job.id, crawledPages.length);
@@ -164,8 +122,6 @@ export class CrawlingStep implements EnrichmentStep {
     } catch (error) {
       await this.updateStepStatus(context.job.id, 'failed');
       throw error;
-    } finally {
-      await this.crawler.close();
     }
   }
 
@@ -186,6 +142,22 @@ export class CrawlingStep implements EnrichmentStep {
     `;
     await this.pool.query(query, [pagesCrawled, jobId]);
   }
+
+  private async recordSkippedUrl(jobId: string, url: string, reason: string): Promise<void> {
+    const query = `
+      INSERT INTO crawled_pages (job_id, url, status_code, skip_reason, crawled_at)
+      VALUES ($1, $2, 0, $3, CURRENT_TIMESTAMP)
+      ON CONFLICT (job_id, url) DO UPDATE SET
+        status_code = EXCLUDED.status_code,
+        skip_reason = EXCLUDED.skip_reason,
+        crawled_at = EXCLUDED.crawled_at
+    `;
+    try {
+      await this.pool.query(query, [jobId, url, reason]);
+    } catch (error) {
+      console.warn(`Failed to record skipped URL ${url}:`, error);
+    }
+  }
 }
 
 /**
@@ -0,0 +1,280 @@
+/**
+ * Enrichment Worker
+ *
+ * Standalone worker that pulls enrichment jobs off the Postgres job queue and
+ * runs them through the UnifiedEnrichmentOrchestrator. Runs up to
+ * `concurrency` jobs at a time, keeps each job's lease alive while it runs and
+ * recovers jobs orphaned by crashed workers on startup and while polling.
+ *
+ * Each job gets its own orchestrator: the tier processors and their steps
+ * keep per-job crawl state (scheduler, archive, job id for logging) on the
+ * instance, so concurrent jobs must never share them.
+ */
+
+import os from 'os';
+import { JobRepository } from '../repositories/job-repository';
+import { PostgresOrganizationRepository } from '../repositories/organization-repository';
+import { PostgresSiteRepository } from '../repositories/site-repository';
+import { PostgresEnrichmentJobRecordRepository } from '../repositories/enrichment-job-record-repository';
+import { getDatabasePool } from '../utils/database';
+import { getBrowserPool } from './browser-pool';
+import { JobQueue } from './job-queue';
+import { UnifiedEnrichmentOrchestrator } from './unified-enrichment-orchestrator';
+
+export interface EnrichmentWorkerConfig {
+  workerId: string;
+  concurrency: number;
+  pollIntervalMs: number;
+  recoveryIntervalMs: number;
+}
+
+export class EnrichmentWorker {
+  private config: EnrichmentWorkerConfig;
+  private queue: JobQueue;
+  private jobRepository: JobRepository;
+  private createOrchestrator: () => UnifiedEnrichmentOrchestrator;
+
+  private activeJobs: Map<string, Promise<void>> = new Map();
+  private pollTimeout?: NodeJS.Timeout;
+  private running = false;
+  private polling = false;
+  private lastRecoveryAt = 0;
+
+  constructor(
+    config: Partial<EnrichmentWorkerConfig> = {},
+    queue?: JobQueue,
+    jobRepository?: JobRepository,
+    createOrchestrator?: () => UnifiedEnrichmentOrchestrator
+  ) {
+    this.config = {
+      workerId: process.env.WORKER_ID || `${os.hostname()}:${process.pid}`,
+      concurrency: parseInt(process.env.MAX_CONCURRENT_JOBS || '5'),
+      pollIntervalMs: parseInt(process.env.WORKER_POLL_INTERVAL_MS || '5000'),
+      recoveryIntervalMs: parseInt(process.env.WORKER_RECOVERY_INTERVAL_MS || '60000'),
+      ...config
+    };
+
+    this.queue = queue || new JobQueue();
+    this.jobRepository = jobRepository || new JobRepository();
+    this.createOrchestrator = createOrchestrator || (() => this.buildOrchestrator());
+  }
+
+  get workerId(): string {
+    return this.config.workerId;
+  }
+
+  /**
+   * Recovers orphaned jobs and starts polling the queue
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    console.log(`Enrichment worker ${this.config.workerId} starting (concurrency: ${this.config.concurrency})`);
+    this.running = true;
+
+    await this.recoverOrphanedJobs();
+
+    const depth = await this.queue.getQueueDepth();
+    console.log(`Queue depth on startup: ${depth.pending} pending, ${depth.running} running`);
+
+    await this.poll();
+  }
+
+  /**
+   * Stops claiming new jobs and waits for in-flight jobs to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout);
+      this.pollTimeout = undefined;
+    }
+
+    if (this.activeJobs.size > 0) {
+      console.log(`Waiting for ${this.activeJobs.size} active job(s) to finish`);
+      await Promise.allSettled(this.activeJobs.values());
+    }
+
+    await getBrowserPool().close();
+
+    console.log(`Enrichment worker ${this.config.workerId} stopped`);
+  }
+
+  /**
+   * Get IDs of jobs currently being processed by this worker
+   */
+  getActiveJobs(): string[] {
+    return Array.from(this.activeJobs.keys());
+  }
+
+  /**
+   * Claims as many jobs as there are free slots and schedules the next poll
+   */
+  async poll(): Promise<void> {
+    if (!this.running || this.polling) {
+      return;
+    }
+
+    this.polling = true;
+
+    try {
+      if (Date.now() - this.lastRecoveryAt >= this.config.recoveryIntervalMs) {
+        await this.recoverOrphanedJobs();
+      }
+
+      const freeSlots = this.config.concurrency - this.activeJobs.size;
+      const jobIds = await this.queue.claim(this.config.workerId, freeSlots);
+
+      for (const jobId of jobIds) {
+        const execution = this.processJob(jobId).finally(() => {
+          this.activeJobs.delete(jobId);
+          // A slot just opened up, look for more work straight away
+          this.schedulePoll(0);
+        });
+        this.activeJobs.set(jobId, execution);
+      }
+    } catch (error) {
+      console.error(`Worker ${this.config.workerId} failed to poll the job queue:`, error);
+    } finally {
+      this.polling = false;
+    }
+
+    this.schedulePoll(this.config.pollIntervalMs);
+  }
+
+  /**
+   * Runs a claimed job, extending its lease until the orchestrator finishes.
+   * A lost lease means another worker may have the job, so the run is
+   * abandoned and leaves the job's status to that worker.
+   */
+  private async processJob(jobId: string): Promise<void> {
+    let orchestrator: UnifiedEnrichmentOrchestrator | undefined;
+    let leaseLost = false;
+
+    const heartbeatMs = Math.max(1000, Math.floor(this.queue.leaseSeconds * 1000 / 3));
+    const heartbeat = setInterval(async () => {
+      try {
+        const owned = await this.queue.extendLease(jobId, this.config.workerId);
+        if (!owned) {
+          console.warn(`Worker ${this.config.workerId} no longer holds the lease for job ${jobId}, abandoning it`);
+          clearInterval(heartbeat);
+          leaseLost = true;
+          orchestrator?.abandonJob(jobId);
+        }
+      } catch (error) {
+        console.error(`Failed to extend lease for job ${jobId}:`, error);
+      }
+    }, heartbeatMs);
+
+    try {
+      const job = await this.jobRepository.findById(jobId);
+      if (!job) {
+        console.error(`Claimed job ${jobId} no longer exists`);
+        return;
+      }
+      if (leaseLost) {
+        return;
+      }
+
+      console.log(`Worker ${this.config.workerId} starting enrichment for job ${jobId} (domain: ${job.domain})`);
+
+      orchestrator = this.createOrchestrator();
+      const result = await orchestrator.executeEnrichment(job);
+
+      if (result.final_status === 'completed') {
+        console.log(`Enrichment completed for job ${jobId}: ${result.total_facts_extracted} facts, confidence ${result.average_confidence.toFixed(3)}`);
+      } else {
+        console.error(`Enrichment finished for job ${jobId} with status ${result.final_status}${result.stop_reason ? ` (${result.stop_reason})` : ''}`);
+      }
+    } catch (error) {
+      if (leaseLost) {
+        console.warn(`Job ${jobId} stopped after its lease was lost:`, error);
+        return;
+      }
+
+      if (orchestrator?.getRetryQueue().includes(jobId)) {
+        // The lifecycle policy sent the job back to the queue; failing it here would undo that
+        console.warn(`Job ${jobId} failed and was re-queued:`, error);
+        return;
+      }
+
+      console.error(`Error processing job ${jobId}:`, error);
+      try {
+        await this.jobRepository.logError(jobId, error instanceof Error ? error.message : 'Unknown error in enrichment worker');
+      } catch (logError) {
+        console.error('Failed to log enrichment error:', logError);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      orchestrator?.dispose();
+      try {
+        await this.queue.release(jobId, this.config.workerId);
+      } catch (error) {
+        // The lease will expire and the job will be recovered
+        console.error(`Failed to release lease for job ${jobId}:`, error);
+      }
+    }
+  }
+
+  private async recoverOrphanedJobs(): Promise<void> {
+    this.lastRecoveryAt = Date.now();
+    const recovered = await this.queue.recoverOrphanedJobs();
+
+    for (const job of recovered) {
+      console.warn(
+        `Recovered orphaned job ${job.jobId}${job.previousWorker ? ` from ${job.previousWorker}` : ''}: ${job.status === 'failed' ? 'failed, attempts exhausted' : 're-queued'}`
+      );
+    }
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    if (this.pollTimeout) {
+      clearTimeout(this.pollTimeout);
+    }
+    this.pollTimeout = setTimeout(() => {
+      this.pollTimeout = undefined;
+      this.poll();
+    }, delayMs);
+  }
+
+  /**
+   * Builds the orchestrator for one job
+   */
+  private buildOrchestrator(): UnifiedEnrichmentOrchestrator {
+    const db = getDatabasePool();
+    const orgRepository = new PostgresOrganizationRepository(db);
+    const siteRepository = new PostgresSiteRepository(db);
+    const jobRecordRepository = new PostgresEnrichmentJobRecordRepository(db);
+
+    return new UnifiedEnrichmentOrchestrator(
+      orgRepository,
+      siteRepository,
+      jobRecordRepository,
+      this.jobRepository,
+      {
+        confidence_threshold: 0.7,
+        max_job_runtime_minutes: parseInt(process.env.JOB_TIMEOUT_MINUTES || '30'),
+        max_retries_per_tier: 3,
+        stop_on_confidence_threshold: true,
+        enable_tier_1: true,  // Corporate Website + Financial Reports
+        enable_tier_2: true,  // LinkedIn, Job Postings
+        enable_tier_3: true,  // News Articles
+        retryConfig: {
+          maxRetries: 3,
+          baseDelayMs: 1000,
+          maxDelayMs: 60000,
+          exponentialBase: 2
+        },
+        cleanupIntervalMs: 60000,
+        heartbeatIntervalMs: 30000
+      }
+    );
+  }
+}
@@ -13,6 +13,9 @@ import {
   DocumentParsingConfig 
 } from '../types/financial-documents';
 
+// Page boundary marker placed in the raw content of paginated (PDF) documents
+const PAGE_MARKER = /\[\[page (\d+)\]\]/g;
+
 export class FinancialDocumentParser implements DocumentParser {
   private readonly config: DocumentParsingConfig;
 
@@ -34,12 +37,22 @@ export class FinancialDocumentParser implements DocumentParser {
     };
   }
 
+  /**
+   * Joins per-page text into raw content whose sections can be traced back
+   * to page numbers
+   */
+  static joinPages(pages: string[]): string {
+    return pages.map((text, index) => `[[page ${index + 1}]] ${text}`).join('\n');
+  }
+
   async parse(document: FinancialDocument): Promise<ParsedSection[]> {
     const sections: ParsedSection[] = [];
     
     try {
-      // Clean and normalize the HTML content
-      const cleanContent = this.cleanHtmlContent(document.raw_content);
+      // Clean and normalize the HTML content; PDF text only needs whitespace normalized
+      const cleanContent = document.metadata.format === 'PDF'
+        ? document.raw_content.replace(/\s+/g, ' ').trim()
+        : this.cleanHtmlContent(document.raw_content);
       
       // Extract each target section
       for (const sectionType of this.config.target_sections) {
@@ -87,15 +100,23 @@ export class FinancialDocumentParser implements DocumentParser {
     
     for (const pattern of patterns) {
       try {
-        const match = content.match(pattern.regex);
-        if (match && match[1]) {
+        // Walk every match so table-of-contents entries don't shadow the real section
+        for (const match of content.matchAll(pattern.regex)) {
+          if (!match[1]) {
+            continue;
+          }
+
           const extractedContent = this.cleanSectionContent(match[1]);
           
           if (this.isValidSection(extractedContent)) {
+            const start = match.index! + match[0].indexOf(match[1]);
+            const pageNumbers = this.getPageNumbers(content, start, start + match[1].length);
+
             return {
               section_name: pattern.name,
               section_type: sectionType,
               content: extractedContent,
+              ...(pageNumbers.length > 0 && { page_numbers: pageNumbers }),
               confidence_score: pattern.confidence,
               extraction_method: 'regex'
             };
@@ -230,9 +251,32 @@ export class FinancialDocumentParser implements DocumentParser {
     return cleaned;
   }
 
+  /**
+   * Pages spanned by content[start, end), based on the page markers
+   */
+  private getPageNumbers(content: string, start: number, end: number): number[] {
+    const pages: number[] = [];
+    let currentPage: number | null = null;
+
+    for (const marker of content.matchAll(PAGE_MARKER)) {
+      if (marker.index! >= end) break;
+      if (marker.index! > start && currentPage !== null) {
+        pages.push(currentPage);
+      }
+      currentPage = parseInt(marker[1], 10);
+    }
+
+    if (currentPage !== null) {
+      pages.push(currentPage);
+    }
+
+    return [...new Set(pages)];
+  }
+
   private cleanSectionContent(content: string): string {
     // Clean up extracted section content
     return content
+      .replace(PAGE_MARKER, ' ')
       .replace(/^\s*[.\-\s]+/, '') // Remove leading punctuation
       .replace(/\s+/g, ' ')
       .replace(/\n\s*\n\s*\n/g, '\n\n') // Normalize paragraph breaks
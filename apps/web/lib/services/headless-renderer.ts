@@ -0,0 +1,96 @@
+/**
+ * Headless Renderer
+ *
+ * Decides whether a statically fetched page needs JavaScript to show its
+ * content (single-page apps, script-only shells) and re-renders such pages
+ * in the shared headless browser.
+ */
+
+import { BrowserPool, getBrowserPool } from './browser-pool';
+
+export interface RenderDecision {
+  render: boolean;
+  reason: string;
+}
+
+export interface RenderedPage {
+  html: string;
+  status_code: number;
+}
+
+export interface HeadlessRendererConfig {
+  user_agent: string;
+  timeout_ms: number;
+}
+
+// Pages with at least this many words are considered complete without rendering
+const MIN_STATIC_WORDS = 50;
+
+const SPA_ROOT_PATTERNS = [
+  /<div[^>]+id=["'](?:root|app|__next|__nuxt|svelte|main-app)["'][^>]*>\s*<\/div>/i,
+  /<app-root[^>]*>\s*<\/app-root>/i,
+  /\bng-version=|\bdata-reactroot\b|\bng-app\b/i
+];
+
+const NOSCRIPT_PATTERN = /<noscript[^>]*>[\s\S]*?(?:enable|requires?|turn on)\s+javascript[\s\S]*?<\/noscript>/i;
+
+/**
+ * Whether a page fetched without JavaScript should be re-rendered, given
+ * its raw HTML and the text extracted from it
+ */
+export function assessRenderNeed(html: string, text: string): RenderDecision {
+  const wordCount = text.split(/\s+/).filter(word => word.length > 0).length;
+
+  if (wordCount >= MIN_STATIC_WORDS) {
+    return { render: false, reason: `Static HTML has ${wordCount} words` };
+  }
+
+  if (SPA_ROOT_PATTERNS.some(pattern => pattern.test(html))) {
+    return { render: true, reason: `Empty single-page app root with ${wordCount} words` };
+  }
+
+  if (NOSCRIPT_PATTERN.test(html)) {
+    return { render: true, reason: `Page asks for JavaScript (noscript) with ${wordCount} words` };
+  }
+
+  const scriptCount = (html.match(/<script\b/gi) || []).length;
+  if (scriptCount > 0 && wordCount < MIN_STATIC_WORDS / 2) {
+    return { render: true, reason: `Script-only HTML: ${scriptCount} scripts, ${wordCount} words` };
+  }
+
+  return { render: false, reason: `Little content (${wordCount} words) but no sign of client-side rendering` };
+}
+
+export class HeadlessRenderer {
+  private config: HeadlessRendererConfig;
+  private pool: BrowserPool;
+
+  constructor(config: HeadlessRendererConfig, pool?: BrowserPool) {
+    this.config = config;
+    this.pool = pool || getBrowserPool();
+  }
+
+  /**
+   * Loads the URL in the headless browser and returns the rendered DOM
+   */
+  async render(url: string, jobId?: string): Promise<RenderedPage> {
+    return this.pool.withPage(async page => {
+      await page.setUserAgent(this.config.user_agent);
+      await page.setViewport({ width: 1280, height: 800 });
+
+      const response = await page.goto(url, {
+        waitUntil: 'networkidle2',
+        timeout: this.config.timeout_ms
+      });
+
+      if (!response) {
+        throw new Error(`No response rendering ${url}`);
+      }
+
+      return {
+        html: await page.content(),
+        status_code: response.status()
+      };
+    }, jobId);
+  }
+}
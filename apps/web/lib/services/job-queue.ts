@@ -0,0 +1,193 @@
+/**
+ * Job Queue
+ *
+ * Durable job queue backed by the enrichment_jobs table. Pending jobs are
+ * claimed with SELECT ... FOR UPDATE SKIP LOCKED so several workers can poll
+ * the same table without handing out a job twice. A claimed job carries a
+ * lease (locked_by / locked_until) that its worker keeps extending; once a
+ * lease expires the job is treated as orphaned and returned to the queue.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { getDatabasePool } from '../utils/database';
+
+export interface JobQueueConfig {
+  leaseSeconds: number;
+  maxAttempts: number;
+}
+
+export interface RecoveredJob {
+  jobId: string;
+  status: 'pending' | 'failed';
+  previousWorker?: string;
+}
+
+export class JobQueue {
+  private pool: Pool | PoolClient;
+  private config: JobQueueConfig;
+
+  // A client, when the caller runs the queue update in its own transaction
+  constructor(config: Partial<JobQueueConfig> = {}, pool?: Pool | PoolClient) {
+    this.pool = pool || getDatabasePool();
+    this.config = {
+      leaseSeconds: parseInt(process.env.JOB_LEASE_SECONDS || '120'),
+      maxAttempts: parseInt(process.env.MAX_RETRY_ATTEMPTS || '3'),
+      ...config
+    };
+  }
+
+  get leaseSeconds(): number {
+    return this.config.leaseSeconds;
+  }
+
+  /**
+   * Puts a job (back) on the queue. Running jobs are left alone so a job
+   * is never handed to a second worker while its lease is live.
+   */
+  async enqueue(jobId: string): Promise<boolean> {
+    const query = `
+      UPDATE enrichment_jobs
+      SET status = 'pending', locked_by = NULL, locked_until = NULL,
+          error_message = NULL, completed_at = NULL, updated_at = NOW()
+      WHERE id = $1 AND status <> 'running'
+      RETURNING id
+    `;
+    const result = await this.pool.query(query, [jobId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Claims up to `limit` pending jobs for a worker, oldest first
+   */
+  async claim(workerId: string, limit: number): Promise<string[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    const query = `
+      WITH next_jobs AS (
+        SELECT id FROM enrichment_jobs
+        WHERE status = 'pending'
+        ORDER BY created_at ASC
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      UPDATE enrichment_jobs AS jobs
+      SET status = 'running', locked_by = $1,
+          locked_until = NOW() + make_interval(secs => $3),
+          started_at = NOW(), updated_at = NOW()
+      FROM next_jobs
+      WHERE jobs.id = next_jobs.id
+      RETURNING jobs.id
+    `;
+    const result = await this.pool.query(query, [workerId, limit, this.config.leaseSeconds]);
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * Extends the lease of a running job. Returns false when the worker no
+   * longer owns the job (lease lost, job cancelled or finished).
+   */
+  async extendLease(jobId: string, workerId: string): Promise<boolean> {
+    const query = `
+      UPDATE enrichment_jobs
+      SET locked_until = NOW() + make_interval(secs => $3), updated_at = NOW()
+      WHERE id = $1 AND locked_by = $2 AND status = 'running'
+      RETURNING id
+    `;
+    const result = await this.pool.query(query, [jobId, workerId, this.config.leaseSeconds]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Releases a worker's lease once it has finished with a job
+   */
+  async release(jobId: string, workerId: string): Promise<void> {
+    const query = `
+      UPDATE enrichment_jobs
+      SET locked_by = NULL, locked_until = NULL, updated_at = NOW()
+      WHERE id = $1 AND locked_by = $2
+    `;
+    await this.pool.query(query, [jobId, workerId]);
+  }
+
+  /**
+   * Returns orphaned jobs to the queue: running jobs whose lease has expired
+   * or that were never leased (started in-process before the queue existed).
+   * Jobs that have used up their attempts are failed instead.
+   */
+  async recoverOrphanedJobs(): Promise<RecoveredJob[]> {
+    const query = `
+      WITH orphaned AS (
+        SELECT id, locked_by FROM enrichment_jobs
+        WHERE status = 'running'
+          AND (locked_until IS NULL OR locked_until < NOW())
+        FOR UPDATE SKIP LOCKED
+      )
+      UPDATE enrichment_jobs AS jobs
+      SET status = CASE WHEN jobs.retry_count + 1 >= $1 THEN 'failed' ELSE 'pending' END,
+          retry_count = jobs.retry_count + 1,
+          error_message = CASE
+            WHEN jobs.retry_count + 1 >= $1 THEN $2
+            ELSE jobs.error_message
+          END,
+          completed_at = CASE WHEN jobs.retry_count + 1 >= $1 THEN NOW() ELSE NULL END,
+          locked_by = NULL, locked_until = NULL, updated_at = NOW()
+      FROM orphaned
+      WHERE jobs.id = orphaned.id
+      RETURNING jobs.id, jobs.status, orphaned.locked_by AS previous_worker
+    `;
+    const result = await this.pool.query(query, [
+      this.config.maxAttempts,
+      `Job lease expired after ${this.config.maxAttempts} attempts`
+    ]);
+
+    const recovered: RecoveredJob[] = result.rows.map(row => ({
+      jobId: row.id,
+      status: row.status,
+      previousWorker: row.previous_worker || undefined
+    }));
+
+    for (const job of recovered) {
+      await this.logJobEvent(
+        job.jobId,
+        job.status === 'failed' ? 'error' : 'warn',
+        job.status === 'failed'
+          ? '[lease_expired] Job failed after exhausting its attempts'
+          : '[lease_expired] Orphaned job returned to the queue',
+        { previous_worker: job.previousWorker || null }
+      );
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Counts jobs by queue state, for worker logging
+   */
+  async getQueueDepth(): Promise<{ pending: number; running: number }> {
+    const query = `
+      SELECT
+        COUNT(*) FILTER (WHERE status = 'pending') AS pending,
+        COUNT(*) FILTER (WHERE status = 'running') AS running
+      FROM enrichment_jobs
+    `;
+    const result = await this.pool.query(query);
+    return {
+      pending: parseInt(result.rows[0].pending),
+      running: parseInt(result.rows[0].running)
+    };
+  }
+
+  private async logJobEvent(jobId: string, level: string, message: string, details?: any): Promise<void> {
+    try {
+      const query = `
+        INSERT INTO job_logs (job_id, level, message, details, created_at)
+        VALUES ($1, $2, $3, $4, NOW())
+      `;
+      await this.pool.query(query, [jobId, level, message, details ? JSON.stringify(details) : null]);
+    } catch (error) {
+      console.error(`Failed to log queue event for job ${jobId}:`, error);
+    }
+  }
+}
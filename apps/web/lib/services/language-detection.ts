@@ -0,0 +1,152 @@
+/**
+ * Language Detection
+ *
+ * Works out which language a crawled page is in and which language variants
+ * of it a site links to with hreflang. Text is classified by script for
+ * Japanese, Chinese and Korean, and by the share of common function words
+ * for languages written in Latin script. The language a page declares in
+ * <html lang> is only used when its text is too short to classify, since
+ * site templates often declare "en" on every page.
+ */
+
+import * as cheerio from 'cheerio';
+
+export interface LanguageAlternate {
+  hreflang: string;   // As declared, e.g. "en-GB" or "x-default"
+  url: string;
+}
+
+// Frequent words that are rare in the other listed languages
+const FUNCTION_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'for', 'with', 'our', 'we', 'are', 'that', 'this', 'from', 'by', 'on', 'you'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'mit', 'für', 'von', 'den', 'dem', 'wir', 'ein', 'eine', 'auf', 'nicht', 'sich', 'des', 'im', 'zu', 'unsere'],
+  fr: ['le', 'les', 'et', 'des', 'du', 'est', 'pour', 'une', 'dans', 'nous', 'sur', 'au', 'avec', 'par', 'qui', 'vous'],
+  es: ['el', 'los', 'las', 'y', 'del', 'que', 'en', 'es', 'para', 'con', 'una', 'por', 'nuestra', 'nuestros', 'su', 'al'],
+  pt: ['o', 'os', 'e', 'do', 'da', 'dos', 'das', 'em', 'para', 'com', 'uma', 'não', 'nossa', 'nossos', 'são', 'ao'],
+  it: ['il', 'gli', 'di', 'della', 'che', 'per', 'con', 'una', 'sono', 'nostra', 'nostri', 'è', 'nel', 'alla', 'dei', 'delle'],
+  nl: ['het', 'een', 'en', 'van', 'voor', 'met', 'op', 'wij', 'onze', 'zijn', 'niet', 'ook', 'naar', 'bij', 'aan', 'uit']
+};
+
+const WORD_LOOKUP = new Map<string, string[]>();
+for (const [language, words] of Object.entries(FUNCTION_WORDS)) {
+  for (const word of words) {
+    WORD_LOOKUP.set(word, [...(WORD_LOOKUP.get(word) || []), language]);
+  }
+}
+
+// Enough text to classify a page; the rest adds time, not accuracy
+const MAX_SAMPLE_WORDS = 2000;
+const MIN_FUNCTION_WORDS = 5;
+
+// Share of letters in a CJK script above which the text is taken to be in it
+const MIN_SCRIPT_SHARE = 0.3;
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', de: 'German', fr: 'French', es: 'Spanish', pt: 'Portuguese',
+  it: 'Italian', nl: 'Dutch', ja: 'Japanese', zh: 'Chinese', ko: 'Korean'
+};
+
+/**
+ * Primary language subtag of a BCP 47 tag in lower case ("pt-BR" -> "pt"),
+ * or null for "x-default" and malformed tags
+ */
+export function normalizeLanguageTag(tag: string | null | undefined): string | null {
+  const primary = (tag || '').trim().toLowerCase().split(/[-_]/)[0];
+  return /^[a-z]{2,3}$/.test(primary) ? primary : null;
+}
+
+/**
+ * English name of a language code, e.g. "de" -> "German"
+ */
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] || code;
+}
+
+/**
+ * Language of a text as an ISO 639-1 code, or null if it is too short or
+ * matches none of the supported languages clearly
+ */
+export function detectLanguage(text: string): string | null {
+  const sample = text.slice(0, 20000);
+
+  const letters = (sample.match(/\p{L}/gu) || []).length;
+  if (letters > 0) {
+    const kana = (sample.match(/[\u3040-\u30ff]/g) || []).length;
+    const hangul = (sample.match(/[\uac00-\ud7af\u1100-\u11ff]/g) || []).length;
+    const han = (sample.match(/\p{Script=Han}/gu) || []).length;
+
+    if (hangul / letters > MIN_SCRIPT_SHARE) return 'ko';
+    // Japanese mixes kana with kanji; Han characters alone are Chinese
+    if (kana > 0 && (kana + han) / letters > MIN_SCRIPT_SHARE) return 'ja';
+    if (han / letters > MIN_SCRIPT_SHARE) return 'zh';
+  }
+
+  const words = (sample.toLowerCase().match(/\p{L}+/gu) || []).slice(0, MAX_SAMPLE_WORDS);
+  const hits = new Map<string, number>();
+  for (const word of words) {
+    for (const language of WORD_LOOKUP.get(word) || []) {
+      hits.set(language, (hits.get(language) || 0) + 1);
+    }
+  }
+
+  const ranked = [...hits.entries()].sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0 || ranked[0][1] < MIN_FUNCTION_WORDS) return null;
+
+  // A near tie means mixed or unclear text
+  if (ranked.length > 1 && ranked[1][1] > ranked[0][1] * 0.8) return null;
+
+  return ranked[0][0];
+}
+
+/**
+ * Language declared by <html lang>, or null
+ */
+export function declaredLanguage(html: string): string | null {
+  const match = html.match(/<html\b[^>]*?\blang\s*=\s*["']?([A-Za-z_-]+)/i);
+  return normalizeLanguageTag(match?.[1]);
+}
+
+/**
+ * Language of a page: detected from its extracted text, falling back to
+ * the language the HTML declares
+ */
+export function pageLanguage(html: string, text: string): string | null {
+  return detectLanguage(text) || declaredLanguage(html);
+}
+
+/**
+ * Language variants a page lists in <link rel="alternate" hreflang>, with
+ * absolute URLs
+ */
+export function languageAlternates(html: string, pageUrl: string): LanguageAlternate[] {
+  const $ = cheerio.load(html);
+  const alternates: LanguageAlternate[] = [];
+
+  $('link[rel~="alternate"][hreflang][href]').each((_, element) => {
+    const hreflang = ($(element).attr('hreflang') || '').trim();
+    try {
+      alternates.push({ hreflang, url: new URL($(element).attr('href')!, pageUrl).toString() });
+    } catch {
+      // Skip invalid URLs
+    }
+  });
+
+  return alternates;
+}
+
+/**
+ * URL of the English variant among a page's alternates: plain "en" first,
+ * then US and British English, then any other English region
+ */
+export function englishAlternate(alternates: LanguageAlternate[]): string | null {
+  const english = alternates.filter(alternate => normalizeLanguageTag(alternate.hreflang) === 'en');
+  const rank = (hreflang: string) => ['en', 'en-us', 'en-gb'].indexOf(hreflang.toLowerCase().replace('_', '-'));
+
+  english.sort((a, b) => {
+    const rankA = rank(a.hreflang);
+    const rankB = rank(b.hreflang);
+    return (rankA === -1 ? 3 : rankA) - (rankB === -1 ? 3 : rankB);
+  });
+
+  return english[0]?.url || null;
+}
@@ -0,0 +1,563 @@
+/**
+ * Enrichment Core
+ *
+ * The one place that runs enrichment jobs: the tier loop, per-tier retries,
+ * confidence-based early termination, job timeouts and job-level retries.
+ * Tier processors, the lifecycle policy and persistence sinks are plugged in,
+ * so the orchestrator entry points only decide which of them to use.
+ */
+
+import {
+  EnrichmentContext,
+  EnrichmentFact,
+  EnrichmentJob,
+  EnrichmentJobResult,
+  TierProcessor,
+  TierProcessingResult,
+  TierResult
+} from '../../types/enrichment';
+import { LifecyclePolicy } from './lifecycle-policy';
+import { EnrichmentSink, JobTransition } from './persistence-sinks';
+
+export interface JobTimeout {
+  jobId: string;
+  timeoutId: NodeJS.Timeout;
+  startTime: number;
+  maxRuntimeMs: number;
+}
+
+export interface JobExecutionContext {
+  jobId: string;
+  domain: string;
+  attempt: number;
+  startTime: number;
+  timeoutHandle?: NodeJS.Timeout;
+}
+
+/**
+ * Keeps finished tier results so a resumed job continues from its first
+ * incomplete tier
+ */
+export interface TierCheckpointStore {
+  getTierResults(jobId: string): Promise<TierProcessingResult[]>;
+  saveTierResult(jobId: string, result: TierProcessingResult): Promise<void>;
+}
+
+export class EnrichmentCore {
+  private policy: LifecyclePolicy;
+  private sinks: EnrichmentSink[];
+  private checkpoints?: TierCheckpointStore;
+  private tierProcessors: Map<number, TierProcessor> = new Map();
+
+  private activeJobs: Map<string, JobTimeout> = new Map();
+  private timedOutJobs: Set<string> = new Set();
+  private requeuedJobs: Set<string> = new Set();
+  private abandonedJobs: Set<string> = new Set();
+  private heartbeatInterval?: NodeJS.Timeout;
+
+  constructor(
+    policy: LifecyclePolicy,
+    sinks: EnrichmentSink[] = [],
+    processors: TierProcessor[] = [],
+    checkpoints?: TierCheckpointStore
+  ) {
+    this.policy = policy;
+    this.sinks = sinks;
+    this.checkpoints = checkpoints;
+    processors.forEach(processor => this.registerTierProcessor(processor));
+  }
+
+  /**
+   * Register a tier processor, replacing any processor for the same tier
+   */
+  registerTierProcessor(processor: TierProcessor): void {
+    this.tierProcessors.set(processor.tier, processor);
+    console.log(`Registered tier ${processor.tier} processor: ${processor.name}`);
+  }
+
+  hasTierProcessor(tier: number): boolean {
+    return this.tierProcessors.has(tier);
+  }
+
+  setPolicy(policy: LifecyclePolicy): void {
+    this.policy = policy;
+  }
+
+  /**
+   * Run the tier chain for a job under lifecycle management
+   */
+  async executeEnrichment(job: EnrichmentJob): Promise<EnrichmentJobResult> {
+    return this.runJob(job.id, job.domain, async (executionContext) => {
+      console.log(`Executing enrichment chain for job ${job.id} (attempt ${executionContext.attempt})`);
+
+      const context: EnrichmentContext = {
+        job,
+        extracted_facts: [],
+        step_results: {}
+      };
+
+      const result = await this.executeChain(context, executionContext.startTime + this.policy.maxJobRuntimeMs);
+
+      console.log(`Result: ${result.final_status}, Facts: ${result.total_facts_extracted}, Confidence: ${result.average_confidence.toFixed(3)}`);
+      return result;
+    });
+  }
+
+  /**
+   * Run a unit of work for a job with a timeout, active-job tracking and
+   * job-level retries. A job that fails with retries left goes back to
+   * 'pending' so the queue hands it to a worker again.
+   */
+  async runJob<T>(
+    jobId: string,
+    domain: string,
+    executionFunction: (context: JobExecutionContext) => Promise<T>
+  ): Promise<T> {
+    const maxRuntimeMs = this.policy.maxJobRuntimeMs;
+    console.log(`Starting job ${jobId} with ${Math.round(maxRuntimeMs / 60000)} minute timeout`);
+
+    this.requeuedJobs.delete(jobId);
+    this.timedOutJobs.delete(jobId);
+    this.abandonedJobs.delete(jobId);
+
+    const context: JobExecutionContext = {
+      jobId,
+      domain,
+      attempt: 1,
+      startTime: Date.now()
+    };
+
+    context.timeoutHandle = setTimeout(() => {
+      this.handleJobTimeout(jobId, maxRuntimeMs).catch(error => {
+        console.error(`Error handling timeout for job ${jobId}:`, error);
+      });
+    }, maxRuntimeMs);
+
+    this.activeJobs.set(jobId, {
+      jobId,
+      timeoutId: context.timeoutHandle,
+      startTime: context.startTime,
+      maxRuntimeMs
+    });
+
+    try {
+      return await executionFunction(context);
+    } catch (error) {
+      console.error(`Job ${jobId} failed:`, error);
+      // Another worker owns an abandoned job, so its status is not ours to change
+      if (!this.abandonedJobs.has(jobId)) {
+        await this.handleJobFailure(jobId, error);
+      }
+      throw error;
+    } finally {
+      this.cleanupJob(jobId);
+    }
+  }
+
+  /**
+   * Execute the tiers in order, stopping early once the policy is satisfied
+   * or the deadline has passed. Tiers with a checkpoint are reused rather
+   * than re-run. Throws when the chain fails, including when every tier that
+   * ran failed, so `runJob` can re-queue the job or fail it for good.
+   */
+  async executeChain(context: EnrichmentContext, deadline?: number): Promise<EnrichmentJobResult> {
+    const startTime = Date.now();
+    const jobId = context.job.id;
+    const chainDeadline = deadline ?? startTime + this.policy.maxJobRuntimeMs;
+
+    console.log(`Starting enrichment chain for job ${jobId}, domain: ${context.job.domain}`);
+
+    const tierResults: TierResult[] = [];
+    const allFacts: EnrichmentFact[] = [];
+    let currentConfidence = 0;
+    let stoppedEarly = false;
+    let stopReason: EnrichmentJobResult['stop_reason'];
+    const resumedTiers: number[] = [];
+
+    const buildResult = (finalStatus: EnrichmentJobResult['final_status']): EnrichmentJobResult => ({
+      job_id: jobId,
+      total_runtime_seconds: Math.floor((Date.now() - startTime) / 1000),
+      tiers_completed: tierResults,
+      final_status: finalStatus,
+      total_facts_extracted: allFacts.length,
+      average_confidence: currentConfidence,
+      llm_used: context.job.llm_used || 'unknown',
+      stopped_early: stoppedEarly,
+      stop_reason: stopReason,
+      resumed_tiers: resumedTiers.length > 0 ? resumedTiers : undefined
+    });
+
+    try {
+      await this.notifySinks('jobStarted', sink => sink.jobStarted?.(context.job));
+
+      const tiers = Array.from(this.tierProcessors.keys()).sort((a, b) => a - b);
+      const checkpointed = await this.loadCheckpoints(jobId);
+
+      for (const tierNumber of tiers) {
+        const processor = this.tierProcessors.get(tierNumber)!;
+        this.throwIfAbandoned(jobId);
+
+        if (Date.now() >= chainDeadline || this.timedOutJobs.has(jobId)) {
+          console.log(`Job timeout reached before tier ${tierNumber}, stopping chain`);
+          stoppedEarly = true;
+          stopReason = 'timeout';
+          break;
+        }
+
+        let tierResult = checkpointed.get(tierNumber);
+
+        if (tierResult) {
+          console.log(`Reusing checkpointed tier ${tierNumber} result for job ${jobId}`);
+          resumedTiers.push(tierNumber);
+        } else {
+          if (!processor.canHandle(context)) {
+            console.log(`Tier ${tierNumber} processor cannot handle job ${jobId}, skipping`);
+            continue;
+          }
+
+          console.log(`Starting tier ${tierNumber} processing`);
+
+          tierResult = await this.executeTierWithRetry(processor, context);
+          this.throwIfAbandoned(jobId);
+          await this.saveCheckpoint(jobId, tierResult);
+        }
+
+        tierResults.push({
+          tier: tierNumber,
+          sources_attempted: tierResult.sources_attempted,
+          pages_scraped: tierResult.pages_scraped,
+          facts_extracted: tierResult.facts.length,
+          average_confidence: tierResult.average_confidence,
+          runtime_seconds: tierResult.runtime_seconds,
+          status: tierResult.status,
+          error_message: tierResult.error_message
+        });
+
+        allFacts.push(...tierResult.facts);
+
+        if (allFacts.length > 0) {
+          currentConfidence = allFacts.reduce((sum, fact) => sum + fact.confidence_score, 0) / allFacts.length;
+        }
+
+        await this.notifySinks('tierCompleted', sink => sink.tierCompleted?.(context.job, tierResult, allFacts));
+
+        console.log(`Tier ${tierNumber} completed. Facts: ${tierResult.facts.length}, Avg Confidence: ${tierResult.average_confidence.toFixed(3)}, Overall: ${currentConfidence.toFixed(3)}`);
+
+        if (this.policy.shouldStopEarly(currentConfidence)) {
+          console.log(`Confidence threshold met (${currentConfidence.toFixed(3)}), stopping chain early`);
+          stoppedEarly = true;
+          stopReason = 'confidence_threshold_met';
+          break;
+        }
+
+        // Later tiers see the facts gathered so far
+        context.extracted_facts = allFacts;
+      }
+
+      const finalStatus = this.policy.determineFinalStatus(tierResults, currentConfidence);
+
+      if (finalStatus === 'failed' && !stoppedEarly && tierResults.length > 0) {
+        throw new Error(`All tiers failed: ${tierResults.map(tier => `tier ${tier.tier}: ${tier.error_message || tier.status}`).join('; ')}`);
+      }
+
+      this.throwIfAbandoned(jobId);
+      for (const sink of this.sinks) {
+        await sink.resultsReady?.(context, allFacts);
+      }
+
+      const result = buildResult(finalStatus);
+
+      // A timed-out job has already been marked failed, and an abandoned one
+      // belongs to another worker; don't overwrite either
+      if (!this.timedOutJobs.has(jobId) && !this.abandonedJobs.has(jobId)) {
+        await this.notifySinks('jobFinished', sink => sink.jobFinished?.(context.job, result));
+      }
+
+      console.log(`Enrichment chain completed for job ${jobId}. Status: ${finalStatus}, Facts: ${allFacts.length}, Confidence: ${currentConfidence.toFixed(3)}`);
+
+      return result;
+
+    } catch (error) {
+      console.error(`Error in enrichment chain for job ${jobId}:`, error);
+
+      // The timeout has already marked the job failed; retrying it would run past its deadline
+      if (this.timedOutJobs.has(jobId)) {
+        stoppedEarly = true;
+        stopReason = 'timeout';
+        return buildResult('failed');
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Execute a tier, retrying failed attempts with the policy's backoff
+   */
+  private async executeTierWithRetry(
+    processor: TierProcessor,
+    context: EnrichmentContext
+  ): Promise<TierProcessingResult> {
+    const maxAttempts = this.policy.maxAttemptsPerTier;
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        console.log(`Tier ${processor.tier} attempt ${attempt}/${maxAttempts}`);
+
+        const result = await processor.execute(context);
+
+        if (result.status === 'completed' || result.status === 'partial' || attempt === maxAttempts) {
+          return result;
+        }
+
+        lastError = undefined;
+        console.log(`Tier ${processor.tier} attempt ${attempt} returned ${result.status}`);
+
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        console.error(`Tier ${processor.tier} attempt ${attempt} error:`, error);
+      }
+
+      if (attempt < maxAttempts) {
+        const backoffMs = this.policy.tierRetryDelayMs(attempt);
+        console.log(`Retrying tier ${processor.tier} in ${backoffMs}ms`);
+        await this.sleep(backoffMs);
+      }
+    }
+
+    // All attempts threw
+    return {
+      tier: processor.tier,
+      facts: [],
+      sources_attempted: [],
+      pages_scraped: 0,
+      runtime_seconds: 0,
+      status: 'failed',
+      error_message: lastError?.message || 'All retry attempts failed',
+      average_confidence: 0
+    };
+  }
+
+  /**
+   * Finished tier results from an earlier run of the job, keyed by tier
+   */
+  private async loadCheckpoints(jobId: string): Promise<Map<number, TierProcessingResult>> {
+    const checkpointed = new Map<number, TierProcessingResult>();
+    if (!this.checkpoints) return checkpointed;
+
+    try {
+      const results = await this.checkpoints.getTierResults(jobId);
+      results
+        .filter(result => result.status === 'completed' || result.status === 'partial')
+        .forEach(result => checkpointed.set(result.tier, result));
+    } catch (error) {
+      console.warn(`Could not load checkpoints for job ${jobId}, running all tiers:`, error);
+    }
+
+    return checkpointed;
+  }
+
+  /**
+   * Checkpoint a tier that produced results. Failed tiers are re-run on resume.
+   */
+  private async saveCheckpoint(jobId: string, result: TierProcessingResult): Promise<void> {
+    if (!this.checkpoints || (result.status !== 'completed' && result.status !== 'partial')) {
+      return;
+    }
+
+    try {
+      await this.checkpoints.saveTierResult(jobId, result);
+    } catch (error) {
+      console.warn(`Could not checkpoint tier ${result.tier} for job ${jobId}:`, error);
+    }
+  }
+
+  /**
+   * Cancel a job
+   */
+  async cancelJob(jobId: string, reason: string = 'User cancelled'): Promise<void> {
+    console.log(`Cancelling job ${jobId}: ${reason}`);
+
+    await this.transition(jobId, {
+      status: 'cancelled',
+      event: 'cancelled',
+      message: reason,
+      errorMessage: reason,
+      ended: true
+    });
+
+    this.cleanupJob(jobId);
+  }
+
+  /**
+   * Stops a job this process no longer owns, such as one whose queue lease
+   * passed to another worker. The chain stops before its next tier and
+   * writes nothing more for the job: no checkpoint, results or status.
+   */
+  abandonJob(jobId: string): void {
+    console.warn(`Abandoning job ${jobId}`);
+    this.abandonedJobs.add(jobId);
+  }
+
+  /**
+   * Seconds left before an active job times out
+   */
+  getTimeRemainingSeconds(jobId: string): number | undefined {
+    const activeJob = this.activeJobs.get(jobId);
+    if (!activeJob) return undefined;
+
+    const remainingMs = activeJob.maxRuntimeMs - (Date.now() - activeJob.startTime);
+    return Math.max(0, Math.floor(remainingMs / 1000));
+  }
+
+  /**
+   * Jobs currently running in this process
+   */
+  getActiveJobs(): string[] {
+    return Array.from(this.activeJobs.keys());
+  }
+
+  /**
+   * Jobs this process has sent back to the queue for another attempt
+   */
+  getRetryQueue(): string[] {
+    return Array.from(this.requeuedJobs);
+  }
+
+  /**
+   * Periodically signal liveness of active jobs to the sinks
+   */
+  startHeartbeat(intervalMs: number): void {
+    this.stopHeartbeat();
+    this.heartbeatInterval = setInterval(() => {
+      this.performHeartbeat().catch(error => console.error('Error during heartbeat:', error));
+    }, intervalMs);
+  }
+
+  /**
+   * Stop background tasks and drop local job tracking
+   */
+  stop(): void {
+    this.stopHeartbeat();
+
+    for (const jobId of this.activeJobs.keys()) {
+      this.cleanupJob(jobId);
+    }
+    this.requeuedJobs.clear();
+    this.timedOutJobs.clear();
+    this.abandonedJobs.clear();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
+    }
+  }
+
+  private async performHeartbeat(): Promise<void> {
+    const activeJobIds = this.getActiveJobs();
+    console.log(`Heartbeat: ${activeJobIds.length} active jobs, ${this.requeuedJobs.size} re-queued`);
+
+    for (const jobId of activeJobIds) {
+      await this.notifySinks('jobHeartbeat', sink => sink.jobHeartbeat?.(jobId));
+    }
+  }
+
+  private async handleJobTimeout(jobId: string, maxRuntimeMs: number): Promise<void> {
+    if (this.abandonedJobs.has(jobId)) return;
+
+    const minutes = Math.round(maxRuntimeMs / 60000);
+    console.log(`Job ${jobId} timed out after ${minutes} minutes`);
+
+    this.timedOutJobs.add(jobId);
+
+    await this.transition(jobId, {
+      status: 'failed',
+      event: 'timeout',
+      message: `Job exceeded maximum runtime of ${minutes} minutes`,
+      level: 'error',
+      errorMessage: `Job timed out after ${minutes} minutes`,
+      ended: true
+    });
+  }
+
+  private async handleJobFailure(jobId: string, error: unknown): Promise<void> {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const retryCount = await this.getRetryCount(jobId);
+
+    if (this.policy.shouldRetryJob(retryCount)) {
+      this.requeuedJobs.add(jobId);
+      await this.transition(jobId, {
+        status: 'pending',
+        event: 'retry_scheduled',
+        message: `Retry ${retryCount + 1} queued`,
+        level: 'warn',
+        errorMessage: `Retry ${retryCount + 1} scheduled. Last error: ${errorMessage}`,
+        incrementRetryCount: true
+      });
+    } else {
+      await this.transition(jobId, {
+        status: 'failed',
+        event: 'max_retries_exceeded',
+        message: `Job failed permanently after ${retryCount} retries`,
+        level: 'error',
+        errorMessage: `Job failed after ${retryCount} retry attempts. Last error: ${errorMessage}`,
+        ended: true
+      });
+    }
+  }
+
+  private throwIfAbandoned(jobId: string): void {
+    if (this.abandonedJobs.has(jobId)) {
+      throw new Error(`Job ${jobId} was abandoned`);
+    }
+  }
+
+  private async getRetryCount(jobId: string): Promise<number> {
+    for (const sink of this.sinks) {
+      if (sink.getRetryCount) {
+        try {
+          return await sink.getRetryCount(jobId);
+        } catch (error) {
+          console.error(`Sink ${sink.name} could not read retry count for job ${jobId}:`, error);
+        }
+      }
+    }
+    return 0;
+  }
+
+  private cleanupJob(jobId: string): void {
+    const activeJob = this.activeJobs.get(jobId);
+    if (activeJob) {
+      clearTimeout(activeJob.timeoutId);
+      this.activeJobs.delete(jobId);
+    }
+  }
+
+  private async transition(jobId: string, transition: JobTransition): Promise<void> {
+    await this.notifySinks('jobTransition', sink => sink.jobTransition?.(jobId, transition));
+  }
+
+  /**
+   * Call a hook on every sink. Sink failures are logged so that one broken
+   * sink can't fail the job.
+   */
+  private async notifySinks(
+    hook: string,
+    invoke: (sink: EnrichmentSink) => Promise<void> | undefined
+  ): Promise<void> {
+    for (const sink of this.sinks) {
+      try {
+        await invoke(sink);
+      } catch (error) {
+        console.error(`Sink ${sink.name} failed during ${hook}:`, error);
+      }
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
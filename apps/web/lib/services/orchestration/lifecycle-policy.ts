@@ -0,0 +1,115 @@
+/**
+ * Lifecycle Policy
+ *
+ * Decides how long a job may run, how tiers and jobs are retried and when the
+ * tier chain can stop early. EnrichmentCore asks the policy instead of
+ * hard-coding these rules, so retry and timeout behaviour lives in one place.
+ */
+
+import { JobStatus, TierResult } from '../../types/enrichment';
+
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  exponentialBase: number;
+}
+
+export interface LifecyclePolicyConfig {
+  confidenceThreshold: number;
+  stopOnConfidenceThreshold: boolean;
+  maxJobRuntimeMinutes: number;
+  maxAttemptsPerTier: number;
+  retryConfig: RetryConfig;
+}
+
+export interface LifecyclePolicy {
+  /** Hard limit on a job's wall-clock runtime */
+  readonly maxJobRuntimeMs: number;
+  /** Attempts per tier before the tier is recorded as failed */
+  readonly maxAttemptsPerTier: number;
+  /** Delay before retrying a tier after the given failed attempt (1-based) */
+  tierRetryDelayMs(failedAttempt: number): number;
+  /** Whether a failed job with this many retries so far goes back on the queue */
+  shouldRetryJob(retryCount: number): boolean;
+  /** Whether the chain can stop after reaching this overall confidence */
+  shouldStopEarly(overallConfidence: number): boolean;
+  /** Final job status from the tier outcomes */
+  determineFinalStatus(tierResults: TierResult[], overallConfidence: number): JobStatus;
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+  exponentialBase: 2
+};
+
+export class DefaultLifecyclePolicy implements LifecyclePolicy {
+  private config: LifecyclePolicyConfig;
+
+  constructor(config: Partial<LifecyclePolicyConfig> = {}) {
+    this.config = {
+      confidenceThreshold: 0.7,
+      stopOnConfidenceThreshold: true,
+      maxJobRuntimeMinutes: 30,
+      maxAttemptsPerTier: 3,
+      ...config,
+      retryConfig: { ...DEFAULT_RETRY_CONFIG, ...config.retryConfig }
+    };
+  }
+
+  get maxJobRuntimeMs(): number {
+    return this.config.maxJobRuntimeMinutes * 60 * 1000;
+  }
+
+  get maxAttemptsPerTier(): number {
+    return this.config.maxAttemptsPerTier;
+  }
+
+  get maxJobRuntimeMinutes(): number {
+    return this.config.maxJobRuntimeMinutes;
+  }
+
+  get maxJobRetries(): number {
+    return this.config.retryConfig.maxRetries;
+  }
+
+  tierRetryDelayMs(failedAttempt: number): number {
+    const { baseDelayMs, exponentialBase, maxDelayMs } = this.config.retryConfig;
+    const exponentialDelay = baseDelayMs * Math.pow(exponentialBase, failedAttempt - 1);
+    return Math.min(exponentialDelay, maxDelayMs);
+  }
+
+  shouldRetryJob(retryCount: number): boolean {
+    return retryCount < this.config.retryConfig.maxRetries;
+  }
+
+  shouldStopEarly(overallConfidence: number): boolean {
+    return this.config.stopOnConfidenceThreshold &&
+      overallConfidence >= this.config.confidenceThreshold;
+  }
+
+  determineFinalStatus(tierResults: TierResult[], overallConfidence: number): JobStatus {
+    const completedTiers = tierResults.filter(t => t.status === 'completed').length;
+    const partialTiers = tierResults.filter(t => t.status === 'partial').length;
+    const failedTiers = tierResults.filter(t => t.status === 'failed').length;
+
+    // If all tiers failed, job failed
+    if (failedTiers === tierResults.length) {
+      return 'failed';
+    }
+
+    // If we have some successful tiers and good confidence, completed
+    if (completedTiers > 0 && overallConfidence >= this.config.confidenceThreshold) {
+      return 'completed';
+    }
+
+    // If we have some results but not great confidence, partial success
+    if (completedTiers > 0 || partialTiers > 0) {
+      return 'partial_success';
+    }
+
+    return 'failed';
+  }
+}
@@ -0,0 +1,693 @@
+/**
+ * Persistence Sinks
+ *
+ * EnrichmentCore reports job progress to a list of sinks instead of writing
+ * to the database itself. Each sink owns one kind of persistence:
+ * - JobStatusSink: enrichment_jobs status, timestamps and job_logs events
+ * - UIProgressSink: step statuses and progress counters shown on the jobs UI
+ * - DataModelSink: organizations and sites in the hierarchical data model,
+ *   resolving site candidates against existing sites, picking between
+ *   conflicting facts and citing the facts behind each field
+ * - JobRecordSink: the EnrichmentJobRecord for each run of a job
+ */
+
+import { Pool } from 'pg';
+import {
+  EnrichmentContext,
+  EnrichmentFact,
+  EnrichmentJob,
+  EnrichmentJobResult,
+  JobStatus,
+  TierProcessingResult
+} from '../../types/enrichment';
+import {
+  Organization,
+  Site,
+  EnrichmentJobRecord,
+  OrganizationRepository,
+  SiteRepository,
+  SiteMergeAuditRepository,
+  AttributeEvidence,
+  AttributeEvidenceRepository,
+  AttributeConflictRepository,
+  EnrichmentJobRecordRepository
+} from '../../types/data-model';
+import { JobRepository } from '../../repositories/job-repository';
+import { PostgresSiteMergeAuditRepository } from '../../repositories/site-merge-audit-repository';
+import { PostgresAttributeEvidenceRepository } from '../../repositories/attribute-evidence-repository';
+import { PostgresAttributeConflictRepository } from '../../repositories/attribute-conflict-repository';
+import { SiteResolution, SiteResolver } from '../site-matching/site-resolver';
+import { ConflictResolver, FieldConflict, FieldResolution } from '../conflict-resolver';
+import { getDatabasePool } from '../../utils/database';
+import { parseEmployeeCount } from '../../utils/employee-count';
+
+/**
+ * A lifecycle transition decided by the core, e.g. a timeout, a retry
+ * being scheduled or a cancellation
+ */
+export interface JobTransition {
+  status: JobStatus;
+  event: string;
+  message: string;
+  level?: 'info' | 'warn' | 'error';
+  errorMessage?: string;
+  incrementRetryCount?: boolean;
+  started?: boolean;
+  ended?: boolean;
+}
+
+export interface EnrichmentSink {
+  readonly name: string;
+  /** The job is about to run */
+  jobStarted?(job: EnrichmentJob): Promise<void>;
+  /** A tier finished. Failures are logged and never fail the job. */
+  tierCompleted?(job: EnrichmentJob, result: TierProcessingResult, allFacts: EnrichmentFact[]): Promise<void>;
+  /** The chain produced its final facts. A failure here fails the job. */
+  resultsReady?(context: EnrichmentContext, facts: EnrichmentFact[]): Promise<void>;
+  /** The chain finished with a final status */
+  jobFinished?(job: EnrichmentJob, result: EnrichmentJobResult): Promise<void>;
+  /** The job changed state outside the normal chain flow */
+  jobTransition?(jobId: string, transition: JobTransition): Promise<void>;
+  /** Periodic liveness signal for a running job */
+  jobHeartbeat?(jobId: string): Promise<void>;
+  /** Job-level retries used so far, read by the core before re-queueing */
+  getRetryCount?(jobId: string): Promise<number>;
+}
+
+/**
+ * Writes job status, timestamps and lifecycle events
+ */
+export class JobStatusSink implements EnrichmentSink {
+  public readonly name = 'job-status';
+  private pool: Pool;
+
+  constructor(pool?: Pool) {
+    this.pool = pool || getDatabasePool();
+  }
+
+  async jobStarted(job: EnrichmentJob): Promise<void> {
+    const query = `
+      UPDATE enrichment_jobs
+      SET status = 'running', started_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `;
+    await this.pool.query(query, [job.id]);
+  }
+
+  async jobFinished(job: EnrichmentJob, result: EnrichmentJobResult): Promise<void> {
+    const query = `
+      UPDATE enrichment_jobs
+      SET status = $1, completed_at = CURRENT_TIMESTAMP,
+          total_runtime_seconds = $2, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $3
+    `;
+    await this.pool.query(query, [result.final_status, result.total_runtime_seconds, job.id]);
+  }
+
+  async jobTransition(jobId: string, transition: JobTransition): Promise<void> {
+    const updates: string[] = ['status = $2', 'updated_at = CURRENT_TIMESTAMP'];
+    const values: any[] = [jobId, transition.status];
+
+    if (transition.errorMessage !== undefined) {
+      values.push(transition.errorMessage);
+      updates.push(`error_message = $${values.length}`);
+    }
+    if (transition.incrementRetryCount) {
+      updates.push('retry_count = retry_count + 1');
+    }
+    if (transition.started) {
+      updates.push('started_at = CURRENT_TIMESTAMP');
+    }
+    if (transition.ended) {
+      updates.push('completed_at = CURRENT_TIMESTAMP');
+    }
+
+    const query = `
+      UPDATE enrichment_jobs
+      SET ${updates.join(', ')}
+      WHERE id = $1
+    `;
+    await this.pool.query(query, values);
+
+    await this.logEvent(jobId, transition.level || 'info', `[${transition.event}] ${transition.message}`);
+  }
+
+  async jobHeartbeat(jobId: string): Promise<void> {
+    const query = `
+      UPDATE enrichment_jobs
+      SET updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `;
+    await this.pool.query(query, [jobId]);
+  }
+
+  async getRetryCount(jobId: string): Promise<number> {
+    const result = await this.pool.query('SELECT retry_count FROM enrichment_jobs WHERE id = $1', [jobId]);
+    return result.rows[0]?.retry_count || 0;
+  }
+
+  /**
+   * Appends an entry to job_logs
+   */
+  async logEvent(jobId: string, level: string, message: string, details?: any): Promise<void> {
+    const query = `
+      INSERT INTO job_logs (job_id, level, message, details)
+      VALUES ($1, $2, $3, $4)
+    `;
+    await this.pool.query(query, [jobId, level, message, details ? JSON.stringify(details) : null]);
+  }
+}
+
+/**
+ * Maps tier results onto the crawl/chunk/embed/extract step statuses and
+ * progress counters the jobs UI displays
+ */
+export class UIProgressSink implements EnrichmentSink {
+  public readonly name = 'ui-progress';
+  private jobRepo: JobRepository;
+
+  constructor(jobRepository: JobRepository) {
+    this.jobRepo = jobRepository;
+  }
+
+  async tierCompleted(job: EnrichmentJob, tierResult: TierProcessingResult, allFacts: EnrichmentFact[]): Promise<void> {
+    const jobId = job.id;
+    const totalFacts = allFacts.length;
+
+    // Map tier processing to UI step statuses
+    const stepStatus = tierResult.status === 'completed' ? 'completed' :
+                      tierResult.status === 'partial' ? 'completed' :
+                      tierResult.status === 'failed' ? 'failed' : 'running';
+
+    // Update step statuses based on tier completion
+    await this.jobRepo.updateStepStatus(jobId, 'crawling_status', stepStatus);
+    await this.jobRepo.updateProgress(jobId, {
+      pages_crawled: tierResult.pages_scraped
+    });
+
+    if (tierResult.pages_scraped > 0) {
+      // Estimate chunks and embeddings created (roughly 4 per page)
+      const estimatedChunks = tierResult.pages_scraped * 4;
+      await this.jobRepo.updateStepStatus(jobId, 'chunking_status', stepStatus);
+      await this.jobRepo.updateProgress(jobId, {
+        chunks_created: estimatedChunks
+      });
+
+      await this.jobRepo.updateStepStatus(jobId, 'embedding_status', stepStatus);
+      await this.jobRepo.updateProgress(jobId, {
+        embeddings_generated: estimatedChunks
+      });
+    }
+
+    // Always update fact extraction with actual facts
+    await this.jobRepo.updateStepStatus(jobId, 'extraction_status', stepStatus);
+    await this.jobRepo.updateProgress(jobId, {
+      facts_extracted: totalFacts
+    });
+
+    console.log(`Updated UI progress for job ${jobId}: tier ${tierResult.tier}, pages: ${tierResult.pages_scraped}, facts: ${totalFacts}`);
+  }
+}
+
+/** Facts behind each populated field of a site or organization, keyed by field name */
+type FieldFacts = Record<string, EnrichmentFact[]>;
+
+type SiteDraft = {
+  site: Omit<Site, 'siteId' | 'lastVerifiedDate'>;
+  fieldFacts: FieldFacts;
+  conflicts: FieldConflict[];
+};
+type OrganizationDraft = { organization: Omit<Organization, 'organizationId' | 'lastVerifiedDate'>; fieldFacts: FieldFacts };
+
+/**
+ * Stores the organization and its sites in the hierarchical data model.
+ * Sites are merged into the organization's existing sites where they match,
+ * so re-enriching a domain updates its sites instead of duplicating them.
+ * Each stored field is linked to the facts that support it.
+ */
+export class DataModelSink implements EnrichmentSink {
+  public readonly name = 'data-model';
+  private orgRepository: OrganizationRepository;
+  private siteResolver: SiteResolver;
+  private evidenceRepository: AttributeEvidenceRepository;
+  private conflictRepository: AttributeConflictRepository;
+  private conflictResolver = new ConflictResolver();
+
+  constructor(
+    orgRepository: OrganizationRepository,
+    siteRepository: SiteRepository,
+    auditRepository?: SiteMergeAuditRepository,
+    evidenceRepository?: AttributeEvidenceRepository,
+    conflictRepository?: AttributeConflictRepository
+  ) {
+    this.orgRepository = orgRepository;
+    this.siteResolver = new SiteResolver(
+      siteRepository,
+      auditRepository || new PostgresSiteMergeAuditRepository(getDatabasePool())
+    );
+    this.evidenceRepository = evidenceRepository || new PostgresAttributeEvidenceRepository(getDatabasePool());
+    this.conflictRepository = conflictRepository || new PostgresAttributeConflictRepository(getDatabasePool());
+  }
+
+  async resultsReady(context: EnrichmentContext, facts: EnrichmentFact[]): Promise<void> {
+    const jobId = context.job.id;
+
+    // Create or find organization
+    let organization = await this.orgRepository.findByDomain(context.job.domain);
+    const orgDraft = this.extractOrganizationData(facts, context.job.domain);
+
+    if (!organization) {
+      organization = await this.orgRepository.create(orgDraft.organization);
+      console.log(`Created organization: ${organization.organizationId}`);
+    }
+
+    // Extract sites and merge them into the organization's existing sites
+    const siteDrafts = this.extractSiteData(facts, organization.organizationId, jobId);
+    const resolutions = await this.siteResolver.resolveSites(
+      organization.organizationId,
+      siteDrafts.map(draft => draft.site)
+    );
+
+    for (const resolution of resolutions) {
+      const verb = resolution.action === 'created' ? 'Created' : 'Merged into';
+      console.log(`${verb} site: ${resolution.site.siteId} - ${resolution.site.siteName}`);
+    }
+
+    await this.recordEvidence(jobId, organization, orgDraft, siteDrafts, resolutions);
+    await this.recordConflicts(jobId, siteDrafts, resolutions);
+  }
+
+  /**
+   * Stores the conflicts found while building each site, against the site it resolved to
+   */
+  private async recordConflicts(jobId: string, siteDrafts: SiteDraft[], resolutions: SiteResolution[]): Promise<void> {
+    const conflictsByCandidate = new Map(siteDrafts.map(draft => [draft.site, draft.conflicts]));
+
+    for (const resolution of resolutions) {
+      for (const conflict of conflictsByCandidate.get(resolution.candidate) || []) {
+        try {
+          await this.conflictRepository.create({
+            siteId: resolution.site.siteId,
+            organizationId: resolution.site.organizationId,
+            enrichmentJobId: jobId,
+            fieldName: conflict.fieldName,
+            candidates: conflict.candidates,
+            winnerFactId: conflict.winnerFactId,
+            status: conflict.status
+          });
+        } catch (error) {
+          console.warn(`Could not record ${conflict.fieldName} conflict for site ${resolution.site.siteId}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Links stored fields to their facts. A fact is only cited for a field
+   * whose stored value it supports, e.g. not when a merge kept another value.
+   */
+  private async recordEvidence(
+    jobId: string,
+    organization: Organization,
+    orgDraft: OrganizationDraft,
+    siteDrafts: SiteDraft[],
+    resolutions: SiteResolution[]
+  ): Promise<void> {
+    const entries: Omit<AttributeEvidence, 'evidenceId' | 'createdAt'>[] = [];
+
+    const cite = (
+      entityType: AttributeEvidence['entityType'],
+      entityId: string,
+      stored: Record<string, any>,
+      proposed: Record<string, any>,
+      fieldFacts: FieldFacts
+    ) => {
+      for (const [fieldName, fieldFactList] of Object.entries(fieldFacts)) {
+        if (!supportsStoredValue(stored[fieldName], proposed[fieldName])) continue;
+
+        for (const fact of fieldFactList) {
+          entries.push({
+            entityType,
+            entityId,
+            fieldName,
+            factId: fact.id,
+            enrichmentJobId: jobId,
+            tier: fact.tier_used,
+            confidenceScore: fact.confidence_score,
+            sourceUrl: fact.source_url,
+            snippet: fact.source_text
+          });
+        }
+      }
+    };
+
+    cite('organization', organization.organizationId, organization, orgDraft.organization, orgDraft.fieldFacts);
+
+    const draftsByCandidate = new Map(siteDrafts.map(draft => [draft.site, draft.fieldFacts]));
+    for (const resolution of resolutions) {
+      const fieldFacts = draftsByCandidate.get(resolution.candidate);
+      if (fieldFacts) {
+        cite('site', resolution.site.siteId, resolution.site, resolution.candidate, fieldFacts);
+      }
+    }
+
+    try {
+      await this.evidenceRepository.recordBatch(entries);
+    } catch (error) {
+      console.warn(`Could not record field evidence for job ${jobId}:`, error);
+    }
+  }
+
+  /**
+   * Extract organization data from facts
+   */
+  private extractOrganizationData(
+    facts: EnrichmentFact[],
+    domain: string
+  ): OrganizationDraft {
+    // Find organization-related facts
+    const orgFacts = facts.filter(f =>
+      f.fact_type.includes('company') ||
+      f.fact_type.includes('organization') ||
+      f.fact_type.includes('headquarters')
+    );
+
+    // Extract company name (fallback to domain)
+    let companyName = domain.replace(/^www\./, '').replace(/\.(com|org|net)$/, '');
+    const nameFact = orgFacts.find(f => f.fact_type.includes('company_name'));
+    if (nameFact && nameFact.fact_data.value) {
+      companyName = nameFact.fact_data.value;
+    }
+
+    // Extract headquarters
+    let headquartersAddress = '';
+    const hqFact = orgFacts.find(f => f.fact_type.includes('headquarters'));
+    if (hqFact && hqFact.fact_data.value) {
+      headquartersAddress = hqFact.fact_data.value;
+    }
+
+    // Extract industry sectors
+    const industryFacts = facts.filter(f => f.fact_type.includes('industry') || f.fact_type.includes('sector'));
+    const industrySectors = industryFacts.map(f => f.fact_data.value).filter(Boolean);
+
+    // Extract subsidiaries
+    const subsidiaryFacts = facts.filter(f => f.fact_type.includes('subsidiary'));
+    const subsidiaries = subsidiaryFacts.map(f => f.fact_data.value).filter(Boolean);
+
+    return {
+      organization: {
+        companyName,
+        website: domain,
+        headquartersAddress,
+        industrySectors,
+        subsidiaries
+      },
+      fieldFacts: collectFieldFacts({
+        companyName: nameFact?.fact_data.value ? nameFact : undefined,
+        headquartersAddress: hqFact?.fact_data.value ? hqFact : undefined,
+        industrySectors: industryFacts.filter(f => f.fact_data.value),
+        subsidiaries: subsidiaryFacts.filter(f => f.fact_data.value)
+      })
+    };
+  }
+
+  /**
+   * Extract site data from facts
+   */
+  private extractSiteData(
+    facts: EnrichmentFact[],
+    organizationId: string,
+    enrichmentJobId: string
+  ): SiteDraft[] {
+    // Group facts by site (using site_name or facility_name)
+    const siteFactGroups = new Map<string, EnrichmentFact[]>();
+
+    facts.forEach(fact => {
+      let siteName = '';
+
+      if (fact.fact_type.includes('site_name') || fact.fact_type.includes('facility_name')) {
+        siteName = fact.fact_data.value || 'Unknown Site';
+      } else if (fact.fact_type.includes('site') || fact.fact_type.includes('facility')) {
+        // Try to extract site name from the fact data
+        siteName = fact.fact_data.site_name || fact.fact_data.facility_name || 'Unknown Site';
+      } else if (fact.fact_data?.site_name) {
+        // Facts linked to a site by their tier (e.g. Tier 3 site events)
+        siteName = fact.fact_data.site_name;
+      } else {
+        siteName = 'Main Site'; // Default grouping
+      }
+
+      if (!siteFactGroups.has(siteName)) {
+        siteFactGroups.set(siteName, []);
+      }
+      siteFactGroups.get(siteName)!.push(fact);
+    });
+
+    // Convert fact groups to sites
+    const sites: SiteDraft[] = [];
+
+    siteFactGroups.forEach((siteFacts, siteName) => {
+      const site = this.createSiteFromFacts(siteName, siteFacts, organizationId, enrichmentJobId);
+      sites.push(site);
+    });
+
+    return sites;
+  }
+
+  /**
+   * Create a site from a group of facts
+   */
+  private createSiteFromFacts(
+    siteName: string,
+    facts: EnrichmentFact[],
+    organizationId: string,
+    enrichmentJobId: string
+  ): SiteDraft {
+    // Single-valued fields go through the conflict resolver, which picks a
+    // value when facts disagree and records the disagreement
+    const conflicts: FieldConflict[] = [];
+    const resolveField = (fieldName: string, predicate: (fact: EnrichmentFact) => boolean): FieldResolution => {
+      const resolution = this.conflictResolver.resolve(fieldName, facts.filter(predicate));
+      if (resolution.conflict) {
+        conflicts.push(resolution.conflict);
+      }
+      return resolution;
+    };
+
+    // Extract address components
+    const addressField = resolveField('address', f => f.fact_type.includes('address'));
+    const address = addressField.winner?.fact_data.value || '';
+
+    // Extract location components
+    const cityField = resolveField('city', f => f.fact_type.includes('city'));
+    const stateField = resolveField('stateProvince', f => f.fact_type.includes('state'));
+    const countryField = resolveField('country', f => f.fact_type.includes('country'));
+
+    // Extract site type
+    const typeField = resolveField('siteType', f => f.fact_type.includes('site_type') || f.fact_type.includes('facility_type'));
+    const siteType = typeField.winner?.fact_data.value || 'unknown';
+
+    // Extract site purpose
+    const purposeField = resolveField('sitePurpose', f => f.fact_type.includes('purpose') || f.fact_type.includes('description'));
+    const sitePurpose = purposeField.winner?.fact_data.value || '';
+
+    // Extract certifications
+    const certFacts = facts.filter(f => f.fact_type.includes('certification'));
+    const certifications = certFacts.map(f => f.fact_data.value).filter(Boolean);
+
+    // Extract operating status
+    const statusField = resolveField('operatingStatus', f => f.fact_type.includes('operating_status'));
+    const operatingStatus = statusField.winner?.fact_data.value || 'active';
+
+    // Extract capacity
+    const capacityField = resolveField('productionCapacity', f => f.fact_type.includes('capacity'));
+    const productionCapacity = capacityField.winner?.fact_data.value;
+
+    // Extract employee count
+    const employeeField = resolveField('employeeCount', f => f.fact_type.includes('employee'));
+    const employeeCount = employeeField.winner ? parseEmployeeCount(employeeField.winner.fact_data.value) : undefined;
+
+    // Extract products
+    const productFacts = facts.filter(f => f.fact_type.includes('product'));
+    const majorProducts = productFacts.map(f => f.fact_data.value).filter(Boolean);
+
+    // Calculate confidence score
+    const confidenceScore = facts.length > 0
+      ? facts.reduce((sum, fact) => sum + fact.confidence_score, 0) / facts.length
+      : 0;
+
+    // Get best evidence text and source
+    const bestFact = facts.reduce((best, current) =>
+      current.confidence_score > best.confidence_score ? current : best
+    );
+
+    const site = {
+      organizationId,
+      siteName,
+      address,
+      city: cityField.winner?.fact_data.value || '',
+      stateProvince: stateField.winner?.fact_data.value || '',
+      country: countryField.winner?.fact_data.value || '',
+      postalCode: '',
+      siteType,
+      sitePurpose,
+      certifications,
+      operatingStatus: operatingStatus as any,
+      productionCapacity,
+      employeeCount,
+      regulatoryIds: [],
+      supplyChainDependencies: [],
+      majorProducts,
+      evidenceText: bestFact.source_text || '',
+      source: bestFact.source_url || '',
+      confidenceScore,
+      enrichmentJobId
+    };
+
+    const nameFacts = facts.filter(f =>
+      (f.fact_type.includes('site_name') || f.fact_type.includes('facility_name')) &&
+      f.fact_data.value === siteName
+    );
+
+    return {
+      site,
+      fieldFacts: collectFieldFacts({
+        siteName: nameFacts,
+        address: addressField.supporting,
+        city: cityField.supporting,
+        stateProvince: stateField.supporting,
+        country: countryField.supporting,
+        siteType: typeField.supporting,
+        sitePurpose: purposeField.supporting,
+        certifications: certFacts.filter(f => f.fact_data.value),
+        operatingStatus: statusField.supporting,
+        productionCapacity: capacityField.supporting,
+        employeeCount: employeeCount !== undefined ? employeeField.supporting : undefined,
+        majorProducts: productFacts.filter(f => f.fact_data.value)
+      }),
+      conflicts
+    };
+  }
+}
+
+/**
+ * Drops fields without supporting facts
+ */
+function collectFieldFacts(fields: Record<string, EnrichmentFact | EnrichmentFact[] | undefined>): FieldFacts {
+  const fieldFacts: FieldFacts = {};
+
+  for (const [fieldName, value] of Object.entries(fields)) {
+    const list = Array.isArray(value) ? value : value ? [value] : [];
+    if (list.length > 0) {
+      fieldFacts[fieldName] = list;
+    }
+  }
+
+  return fieldFacts;
+}
+
+/**
+ * Whether the value a job proposed for a field is (part of) the stored value
+ */
+function supportsStoredValue(stored: unknown, proposed: unknown): boolean {
+  if (Array.isArray(proposed)) {
+    return Array.isArray(stored) && proposed.every(item => stored.includes(item));
+  }
+  if (proposed === undefined || proposed === null || proposed === '') {
+    return false;
+  }
+  return String(stored) === String(proposed);
+}
+
+/**
+ * Keeps the data-model EnrichmentJobRecord in step with the job. The record
+ * shares the enrichment_jobs id so sites can be joined back to their run.
+ */
+export class JobRecordSink implements EnrichmentSink {
+  public readonly name = 'job-record';
+  private jobRecordRepository: EnrichmentJobRecordRepository;
+
+  constructor(jobRecordRepository: EnrichmentJobRecordRepository) {
+    this.jobRecordRepository = jobRecordRepository;
+  }
+
+  async jobStarted(job: EnrichmentJob): Promise<void> {
+    const startTime = new Date().toISOString();
+    const existing = await this.jobRecordRepository.findById(job.id);
+
+    if (existing) {
+      // Re-run of a queued retry or a manual restart
+      await this.jobRecordRepository.update(job.id, {
+        status: 'running',
+        startTime,
+        endTime: undefined,
+        errors: undefined,
+        partialSuccess: false,
+        retriedCount: job.retry_count || 0
+      });
+      return;
+    }
+
+    await this.jobRecordRepository.create({
+      enrichmentJobId: job.id,
+      triggeredBy: job.metadata?.triggered_by || 'system',
+      startTime,
+      status: 'running',
+      partialSuccess: false,
+      retriedCount: job.retry_count || 0,
+      inputDomain: job.domain
+    });
+  }
+
+  async jobFinished(job: EnrichmentJob, result: EnrichmentJobResult): Promise<void> {
+    const succeeded = result.final_status === 'completed' || result.final_status === 'partial_success';
+    const tierErrors = result.tiers_completed
+      .filter(tier => tier.error_message)
+      .map(tier => `Tier ${tier.tier}: ${tier.error_message}`);
+
+    await this.jobRecordRepository.update(job.id, {
+      status: succeeded ? 'completed' : 'failed',
+      endTime: new Date().toISOString(),
+      confidenceSummary: Math.round(result.average_confidence * 100) / 100,
+      partialSuccess: result.final_status === 'partial_success',
+      errors: tierErrors.length > 0 ? tierErrors.join('; ') : undefined
+    });
+  }
+
+  async jobTransition(jobId: string, transition: JobTransition): Promise<void> {
+    const status = this.toRecordStatus(transition.status);
+    if (!status || status === 'running') {
+      return;
+    }
+
+    const updates: Partial<EnrichmentJobRecord> = {
+      status,
+      errors: transition.errorMessage
+    };
+    if (transition.ended) {
+      updates.endTime = new Date().toISOString();
+    }
+
+    await this.jobRecordRepository.update(jobId, updates);
+  }
+
+  /**
+   * Job records only know pending/running/completed/failed; a cancelled job
+   * is recorded as failed with the reason in errors
+   */
+  private toRecordStatus(status: JobStatus): EnrichmentJobRecord['status'] | null {
+    switch (status) {
+      case 'pending':
+      case 'running':
+      case 'completed':
+      case 'failed':
+        return status;
+      case 'partial_success':
+        return 'completed';
+      case 'cancelled':
+        return 'failed';
+      default:
+        return null;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Step Chain
+ *
+ * Chain-of-responsibility runner for EnrichmentSteps (crawl -> chunk ->
+ * embed -> extract). Callers observe progress through hooks instead of
+ * re-implementing the step loop.
+ */
+
+import {
+  EnrichmentChain,
+  EnrichmentContext,
+  EnrichmentJob,
+  EnrichmentStep
+} from '../../types/enrichment';
+
+export interface StepChainHooks {
+  stepStarted?(step: EnrichmentStep, context: EnrichmentContext): Promise<void>;
+  stepCompleted?(step: EnrichmentStep, context: EnrichmentContext): Promise<void>;
+  stepSkipped?(step: EnrichmentStep, context: EnrichmentContext): Promise<void>;
+  stepFailed?(step: EnrichmentStep, context: EnrichmentContext, error: Error): Promise<void>;
+}
+
+export interface StepChainOptions {
+  hooks?: StepChainHooks;
+  /** Reload the job after each step so later steps see updated step statuses */
+  refreshJob?: (jobId: string) => Promise<EnrichmentJob | null>;
+}
+
+export class StepChain implements EnrichmentChain {
+  private steps: EnrichmentStep[] = [];
+  private hooks: StepChainHooks;
+  private refreshJob?: (jobId: string) => Promise<EnrichmentJob | null>;
+
+  constructor(options: StepChainOptions = {}) {
+    this.hooks = options.hooks || {};
+    this.refreshJob = options.refreshJob;
+  }
+
+  addStep(step: EnrichmentStep): EnrichmentChain {
+    this.steps.push(step);
+    return this;
+  }
+
+  async execute(context: EnrichmentContext): Promise<EnrichmentContext> {
+    let currentContext = { ...context };
+
+    // Steps run sequentially - each step must complete before the next can start
+    for (const step of this.steps) {
+      try {
+        if (!step.canHandle(currentContext)) {
+          console.log(`Skipping step: ${step.name} (cannot handle current context)`);
+          await this.hooks.stepSkipped?.(step, currentContext);
+          continue;
+        }
+
+        console.log(`Executing step: ${step.name}`);
+        await this.hooks.stepStarted?.(step, currentContext);
+
+        currentContext = await step.execute(currentContext);
+
+        if (this.refreshJob) {
+          const updatedJob = await this.refreshJob(currentContext.job.id);
+          if (updatedJob) {
+            currentContext.job = updatedJob;
+          }
+        }
+
+        if (currentContext.error) {
+          console.error(`Step ${step.name} failed:`, currentContext.error.message);
+          await this.hooks.stepFailed?.(step, currentContext, currentContext.error);
+          break;
+        }
+
+        await this.hooks.stepCompleted?.(step, currentContext);
+
+      } catch (error) {
+        console.error(`Error in step ${step.name}:`, error);
+        currentContext.error = error instanceof Error ? error : new Error(String(error));
+
+        await this.hooks.stepFailed?.(step, currentContext, currentContext.error);
+        break;
+      }
+    }
+
+    return currentContext;
+  }
+}
@@ -1,4 +1,5 @@
 import { EnrichmentJob } from '../types/enrichment';
+import { languageName } from './language-detection';
 
 /**
  * Prompt Templates for AI-Powered Fact Extraction
@@ -243,6 +244,110 @@ Extract technology facts now:`,
   examples: []
 };
 
+/**
+ * Template for extracting site events from news articles (Tier 3)
+ */
+export const NEWS_EVENT_EXTRACTION_TEMPLATE_V1: PromptTemplate = {
+  version: "1.0.0",
+  name: "News Site Event Extraction",
+  description: "Extracts facility openings, closures, expansions and incidents from news coverage",
+
+  systemPrompt: `You are a business intelligence analyst who reads news coverage about manufacturing and industrial companies and records what happened at their physical sites.
+
+EXTRACTION GUIDELINES:
+1. Only record events reported as fact in the article, not speculation or analyst opinion
+2. Every site event must name the facility or its location (city, state, country)
+3. Use fact_type "location" for site events and set fact_data.event_type to one of: opening, closure, expansion, incident, acquisition, other
+4. Put the facility name in fact_data.site_name (e.g. "Austin Assembly Plant"); if the article gives no name, use the city
+5. Put the date the event happened or takes effect in fact_data.event_date when the article states it
+6. Other facts about the company (capacity, headcount, certifications, partnerships) may use the standard fact types
+7. Only include facts with confidence >= 0.7 and quote the supporting sentence in source_text
+
+CONFIDENCE SCORING:
+- 0.9-1.0: Event explicitly announced by the company or confirmed by officials
+- 0.8-0.89: Event reported by the outlet with named sources
+- 0.7-0.79: Event reported without attribution
+- Below 0.7: Too uncertain, exclude from results
+
+Always respond with valid JSON matching the specified schema.`,
+
+  userPromptTemplate: `Extract site events and related facts about the company at "{domain}" from the following news coverage.
+
+ARTICLES TO ANALYZE:
+{content}
+
+REQUIRED JSON SCHEMA:
+{
+  "facts": [
+    {
+      "fact_type": "MUST be one of: company_info, product, service, location, contact, person, technology, metric, certification, partnership, capability",
+      "fact_data": {
+        "site_name": "facility name or city (location facts)",
+        "event_type": "opening | closure | expansion | incident | acquisition | other (location facts)",
+        "event_date": "date of the event if stated",
+        "event_description": "one sentence summary",
+        "city": "string",
+        "state": "string",
+        "country": "string"
+      },
+      "confidence_score": "number between 0.7 and 1.0",
+      "source_text": "sentence from the article that supports this fact (max 200 chars)"
+    }
+  ]
+}
+
+Extract facts now:`,
+
+  schema: FACT_EXTRACTION_TEMPLATE_V1.schema,
+
+  examples: [
+    {
+      input: "ACME Manufacturing will close its Dayton, Ohio stamping plant by the end of March, the company said Tuesday, affecting 240 workers.",
+      output: {
+        facts: [
+          {
+            fact_type: "location",
+            fact_data: {
+              site_name: "Dayton Stamping Plant",
+              event_type: "closure",
+              event_date: "end of March",
+              event_description: "ACME will close its Dayton stamping plant, affecting 240 workers",
+              city: "Dayton",
+              state: "Ohio",
+              country: "United States"
+            },
+            confidence_score: 0.93,
+            source_text: "ACME Manufacturing will close its Dayton, Ohio stamping plant by the end of March, the company said Tuesday"
+          }
+        ]
+      }
+    }
+  ]
+};
+
+/**
+ * Added to the system prompt of any template when the content is not in
+ * English. {languages} is replaced with the language names.
+ */
+export const NON_ENGLISH_CONTENT_INSTRUCTIONS = `LANGUAGE:
+The content is in {languages}. Extract facts from it as you would from English content, and:
+1. Write all fact_data values in English: translate descriptions, categories, industries and job titles
+2. Use the English names of countries, regions and cities (e.g. "München" becomes "Munich", "Alemanha" becomes "Germany")
+3. Keep company, brand and product names as the site writes them; for names in a non-Latin script, add the romanized name in a separate field
+4. Copy source_text verbatim from the content, in its original language - never translate source_text`;
+
+/**
+ * Added to the system prompt when content passages are labeled with the
+ * page section they come from
+ */
+export const SECTION_CONTEXT_INSTRUCTIONS = `SECTIONS:
+Content passages may start with a "Section:" line listing the page headings they appear under, e.g. "Section: Locations > Europe > Germany". Use the section as context for the facts in the passage, such as the country or region of a site listed under it, but never quote the Section line as source_text.`;
+
+export interface ExtractionPromptContext {
+  languages?: string[];   // ISO 639-1 codes of the content
+  sections?: boolean;     // Whether passages carry "Section:" heading paths
+}
+
 /**
  * Template registry for managing multiple prompt versions
  */
@@ -253,6 +358,7 @@ export class PromptTemplateRegistry {
     // Register default templates
     this.register(FACT_EXTRACTION_TEMPLATE_V1);
     this.register(TECH_EXTRACTION_TEMPLATE_V1);
+    this.register(NEWS_EVENT_EXTRACTION_TEMPLATE_V1);
   }
 
   register(template: PromptTemplate): void {
@@ -290,13 +396,16 @@ export class PromptBuilder {
   }
 
   /**
-   * Builds a complete prompt for fact extraction
+   * Builds a complete prompt for fact extraction. When the content is in a
+   * language other than English, the model is told to normalize facts to
+   * English; when passages carry section headings, how to use them.
    */
   buildExtractionPrompt(
     content: string,
     domain: string,
     templateName: string = "Manufacturing Site Fact Extraction",
-    templateVersion?: string
+    templateVersion?: string,
+    context: ExtractionPromptContext = {}
   ): { systemPrompt: string; userPrompt: string; schema: any } {
     const template = this.registry.get(templateName, templateVersion);
     
@@ -308,8 +417,17 @@ export class PromptBuilder {
       .replace('{domain}', domain)
       .replace('{content}', content);
 
+    const instructions = [template.systemPrompt];
+    const languages = context.languages || [];
+    if (languages.some(language => language !== 'en')) {
+      instructions.push(NON_ENGLISH_CONTENT_INSTRUCTIONS.replace('{languages}', languages.map(languageName).join(', ')));
+    }
+    if (context.sections) {
+      instructions.push(SECTION_CONTEXT_INSTRUCTIONS);
+    }
+
     return {
-      systemPrompt: template.systemPrompt,
+      systemPrompt: instructions.join('\n\n'),
       userPrompt,
       schema: template.schema
     };
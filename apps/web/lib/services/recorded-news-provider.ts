@@ -0,0 +1,76 @@
+/**
+ * Recorded News Provider
+ *
+ * NewsProvider that replays recorded news articles instead of calling a
+ * news API, so Tier 3 can run offline and in tests. Recordings are keyed by
+ * domain and can be passed in directly or loaded from a directory of
+ * `<domain>.json` files (NEWS_FIXTURES_DIR) containing `{ "articles": [...] }`.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NewsArticle, NewsProvider, NewsSearchResult } from './bing-news-client';
+
+export interface NewsRecording {
+  articles: NewsArticle[];
+}
+
+export class RecordedNewsProvider implements NewsProvider {
+  public readonly name: string;
+  private readonly recordings: Map<string, NewsRecording>;
+  private readonly recordingsDir?: string;
+
+  constructor(recordings: Record<string, NewsRecording> | string, name: string = 'Recorded News') {
+    this.name = name;
+    this.recordings = new Map();
+
+    if (typeof recordings === 'string') {
+      this.recordingsDir = recordings;
+    } else {
+      for (const [domain, recording] of Object.entries(recordings)) {
+        this.recordings.set(this.normalizeDomain(domain), recording);
+      }
+    }
+  }
+
+  async searchCompanyNews(domain: string, companyName?: string): Promise<NewsSearchResult> {
+    const recording = await this.loadRecording(this.normalizeDomain(domain));
+    const articles = recording ? recording.articles.map(article => ({ ...article })) : [];
+
+    return {
+      articles,
+      totalEstimatedMatches: articles.length,
+      searchQuery: companyName ? `"${companyName}"` : domain,
+      searchTime: 0,
+      sources: articles.map(article => article.source.name)
+    };
+  }
+
+  async fetchArticleContent(article: NewsArticle): Promise<string> {
+    return article.content || article.description || '';
+  }
+
+  private async loadRecording(domain: string): Promise<NewsRecording | null> {
+    const cached = this.recordings.get(domain);
+    if (cached || !this.recordingsDir) {
+      return cached || null;
+    }
+
+    const recordingPath = path.join(this.recordingsDir, `${domain}.json`);
+
+    try {
+      const recording = JSON.parse(await fs.readFile(recordingPath, 'utf-8')) as NewsRecording;
+      this.recordings.set(domain, recording);
+      return recording;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to load news recording ${recordingPath}:`, error);
+      }
+      return null;
+    }
+  }
+
+  private normalizeDomain(domain: string): string {
+    return domain.toLowerCase().replace(/^www\./, '');
+  }
+}
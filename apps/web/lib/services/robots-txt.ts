@@ -0,0 +1,309 @@
+/**
+ * Robots.txt Policy
+ *
+ * RFC 9309 robots.txt parsing and matching shared by every crawler.
+ * Rules are grouped by user-agent, the longest matching Allow/Disallow
+ * pattern wins (Allow on ties), `*` and `$` wildcards are supported and
+ * Crawl-delay / Sitemap lines are exposed for the scheduler.
+ */
+
+import { safeFetch } from './safe-fetch';
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  pattern: string;
+}
+
+export interface RobotsDecision {
+  allowed: boolean;
+  rule?: RobotsRule;
+  reason?: string;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsPolicyOptions {
+  timeout_ms?: number;
+  cache_ttl_ms?: number;
+}
+
+// RFC 9309 section 2.5: parsers must handle at least 500 KiB
+const MAX_ROBOTS_BYTES = 500 * 1024;
+const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const UNRESERVED = /[A-Za-z0-9\-._~]/;
+
+/**
+ * Parsed robots.txt file
+ */
+export class RobotsTxt {
+  readonly sitemaps: string[];
+  private groups: RobotsGroup[];
+  private unreachable: boolean;
+
+  private constructor(groups: RobotsGroup[], sitemaps: string[], unreachable = false) {
+    this.groups = groups;
+    this.sitemaps = sitemaps;
+    this.unreachable = unreachable;
+  }
+
+  static parse(text: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let previousWasUserAgent = false;
+
+    for (const rawLine of text.slice(0, MAX_ROBOTS_BYTES).split(/\r\n|\r|\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator <= 0) continue;
+
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      switch (key) {
+        case 'user-agent':
+          // Consecutive user-agent lines share one group
+          if (!current || !previousWasUserAgent) {
+            current = { userAgents: [], rules: [] };
+            groups.push(current);
+          }
+          current.userAgents.push(value.toLowerCase());
+          previousWasUserAgent = true;
+          continue;
+        case 'allow':
+        case 'disallow':
+          // An empty pattern matches nothing
+          if (current && value) {
+            current.rules.push({ type: key, pattern: normalizePath(value) });
+          }
+          break;
+        case 'crawl-delay': {
+          const delay = parseFloat(value);
+          if (current && Number.isFinite(delay) && delay >= 0 && current.crawlDelay === undefined) {
+            current.crawlDelay = delay;
+          }
+          break;
+        }
+        case 'sitemap':
+          // Sitemap lines are not part of any group
+          if (value) sitemaps.push(value);
+          continue;
+      }
+
+      previousWasUserAgent = false;
+    }
+
+    return new RobotsTxt(groups, sitemaps);
+  }
+
+  /**
+   * Used when robots.txt is unavailable (4xx): everything may be crawled
+   */
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt([], []);
+  }
+
+  /**
+   * Used when robots.txt is unreachable (5xx, network error): nothing may be crawled
+   */
+  static disallowAll(): RobotsTxt {
+    return new RobotsTxt([], [], true);
+  }
+
+  /**
+   * Whether the given user agent may fetch the URL
+   */
+  check(url: string, userAgent: string): RobotsDecision {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return { allowed: false, reason: `Invalid URL: ${url}` };
+    }
+
+    const path = normalizePath(`${target.pathname}${target.search}`);
+
+    // The robots.txt file itself is always allowed
+    if (target.pathname === '/robots.txt') {
+      return { allowed: true };
+    }
+
+    if (this.unreachable) {
+      return { allowed: false, reason: 'robots.txt unreachable, assuming complete disallow' };
+    }
+
+    let best: RobotsRule | undefined;
+    for (const rule of this.rulesFor(userAgent)) {
+      if (!matchesPattern(rule.pattern, path)) continue;
+
+      if (
+        !best ||
+        rule.pattern.length > best.pattern.length ||
+        (rule.pattern.length === best.pattern.length && rule.type === 'allow')
+      ) {
+        best = rule;
+      }
+    }
+
+    if (best?.type === 'disallow') {
+      return {
+        allowed: false,
+        rule: best,
+        reason: `Disallowed by robots.txt rule "Disallow: ${best.pattern}"`
+      };
+    }
+
+    return { allowed: true, rule: best };
+  }
+
+  /**
+   * Crawl-delay in seconds for the given user agent, if declared
+   */
+  getCrawlDelay(userAgent: string): number | undefined {
+    return this.matchingGroups(userAgent).find(group => group.crawlDelay !== undefined)?.crawlDelay;
+  }
+
+  private rulesFor(userAgent: string): RobotsRule[] {
+    return this.matchingGroups(userAgent).flatMap(group => group.rules);
+  }
+
+  /**
+   * Groups naming our product token, falling back to the `*` groups
+   */
+  private matchingGroups(userAgent: string): RobotsGroup[] {
+    const token = productToken(userAgent);
+    const named = this.groups.filter(group =>
+      group.userAgents.some(agent => productToken(agent) === token)
+    );
+    return named.length > 0 ? named : this.groups.filter(group => group.userAgents.includes('*'));
+  }
+}
+
+/**
+ * Fetches and caches robots.txt per origin and answers per-URL questions
+ */
+export class RobotsPolicy {
+  private cache = new Map<string, { robots: RobotsTxt; fetchedAt: number }>();
+  private userAgent: string;
+  private timeoutMs: number;
+  private cacheTtlMs: number;
+
+  constructor(userAgent: string, options: RobotsPolicyOptions = {}) {
+    this.userAgent = userAgent;
+    this.timeoutMs = options.timeout_ms ?? 10000;
+    this.cacheTtlMs = options.cache_ttl_ms ?? DEFAULT_CACHE_TTL_MS;
+  }
+
+  /**
+   * The job id, when given, is where a refused robots.txt request is logged
+   */
+  async check(url: string, jobId?: string): Promise<RobotsDecision> {
+    try {
+      const robots = await this.getRobots(url, jobId);
+      return robots.check(url, this.userAgent);
+    } catch {
+      return { allowed: false, reason: `Invalid URL: ${url}` };
+    }
+  }
+
+  /**
+   * Crawl-delay for the URL's host in milliseconds (0 if none declared)
+   */
+  async getCrawlDelayMs(url: string, jobId?: string): Promise<number> {
+    const robots = await this.getRobots(url, jobId);
+    return Math.round((robots.getCrawlDelay(this.userAgent) ?? 0) * 1000);
+  }
+
+  async getSitemaps(url: string, jobId?: string): Promise<string[]> {
+    const robots = await this.getRobots(url, jobId);
+    return robots.sitemaps;
+  }
+
+  private async getRobots(url: string, jobId?: string): Promise<RobotsTxt> {
+    const origin = new URL(url).origin;
+    const cached = this.cache.get(origin);
+    if (cached && Date.now() - cached.fetchedAt < this.cacheTtlMs) {
+      return cached.robots;
+    }
+
+    const robots = await this.fetchRobots(origin, jobId);
+    this.cache.set(origin, { robots, fetchedAt: Date.now() });
+    return robots;
+  }
+
+  /**
+   * RFC 9309 section 2.3.1: 4xx means no restrictions, 5xx or a network
+   * failure means the whole site is treated as disallowed
+   */
+  private async fetchRobots(origin: string, jobId?: string): Promise<RobotsTxt> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await safeFetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': this.userAgent },
+        signal: controller.signal
+      }, { job_id: jobId });
+
+      if (response.ok) {
+        return RobotsTxt.parse(await response.text());
+      }
+
+      if (response.status >= 400 && response.status < 500) {
+        return RobotsTxt.allowAll();
+      }
+
+      console.warn(`robots.txt for ${origin} returned ${response.status}, treating site as disallowed`);
+      return RobotsTxt.disallowAll();
+
+    } catch (error) {
+      console.warn(`Failed to fetch robots.txt for ${origin}:`, error);
+      return RobotsTxt.disallowAll();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Product token of a user agent string, e.g. "resilion-enrichment-bot"
+ * for "Resilion-Enrichment-Bot/1.0"
+ */
+function productToken(userAgent: string): string {
+  return userAgent.trim().split(/[\/\s]/)[0].toLowerCase();
+}
+
+/**
+ * Normalizes percent-encoding so patterns and paths compare octet by octet:
+ * non-ASCII characters are encoded, escapes of unreserved characters are
+ * decoded and hex digits are upper-cased
+ */
+function normalizePath(value: string): string {
+  return value
+    .replace(/[^\x00-\x7e]+/g, chars => {
+      try {
+        return encodeURIComponent(chars);
+      } catch {
+        return chars; // Lone surrogates cannot be encoded
+      }
+    })
+    .replace(/%([0-9a-fA-F]{2})/g, (escape, hex: string) => {
+      const decoded = String.fromCharCode(parseInt(hex, 16));
+      return UNRESERVED.test(decoded) ? decoded : `%${hex.toUpperCase()}`;
+    });
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
@@ -0,0 +1,279 @@
+/**
+ * Safe Fetch
+ *
+ * fetch() for URLs that come from outside: job domains, links found while
+ * crawling, sitemap entries and news article URLs. Before every request,
+ * including each redirect hop, the host is resolved and the request is
+ * refused if any address is loopback, private (RFC 1918, unique local),
+ * link-local (which covers cloud metadata endpoints such as
+ * 169.254.169.254) or otherwise not publicly routable. Responses can be
+ * limited to a set of content types and a maximum size.
+ *
+ * The address check and the connection resolve the host separately, so a
+ * DNS answer that changes in between is not caught; pinning the connection
+ * to the checked address needs a custom dispatcher.
+ *
+ * Refused requests throw UnsafeTargetError and, when the request belongs to
+ * a job, are recorded in job_logs.
+ *
+ * Redirects are followed by hand, so the rules fetch() applies to them are
+ * applied here too: credentials are not sent on to another origin, and a
+ * 303, or a 301/302 answering a POST, is followed with a bodiless GET.
+ */
+
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+export type UnsafeTargetReason = 'scheme' | 'private_address' | 'redirect_limit' | 'content_type' | 'response_size';
+
+export class UnsafeTargetError extends Error {
+  readonly url: string;
+  readonly reason: UnsafeTargetReason;
+
+  constructor(url: string, reason: UnsafeTargetReason, message: string) {
+    super(message);
+    this.name = 'UnsafeTargetError';
+    this.url = url;
+    this.reason = reason;
+  }
+}
+
+export interface SafeFetchOptions {
+  max_redirects?: number;             // 0 returns redirect responses to the caller
+  max_bytes?: number;
+  allowed_content_types?: string[];   // Checked on 2xx responses; any type when omitted
+  timeout_ms?: number;                // Per request, for each redirect hop
+  job_id?: string;                    // Job whose job_logs record refused requests
+}
+
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_MAX_BYTES = parseInt(process.env.SAFE_FETCH_MAX_BYTES || String(25 * 1024 * 1024));
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Responses to these may not carry a body, so they are returned unwrapped
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+// Dropped when a redirect leaves the origin, along with API-key headers
+const CREDENTIAL_HEADERS = new Set(['authorization', 'proxy-authorization', 'cookie']);
+const API_KEY_HEADER = /api[-_]?key|subscription[-_]?key|access[-_]?token|auth[-_]?token/i;
+
+// Describe the request body and are dropped along with it
+const BODY_HEADERS = ['content-type', 'content-length', 'content-encoding', 'content-language', 'content-location'];
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],         // "This" network
+  ['10.0.0.0', 8],        // Private
+  ['100.64.0.0', 10],     // Carrier-grade NAT
+  ['127.0.0.0', 8],       // Loopback
+  ['169.254.0.0', 16],    // Link-local, cloud metadata
+  ['172.16.0.0', 12],     // Private
+  ['192.0.0.0', 24],      // IETF protocol assignments
+  ['192.0.2.0', 24],      // Documentation
+  ['192.168.0.0', 16],    // Private
+  ['198.18.0.0', 15],     // Benchmarking
+  ['198.51.100.0', 24],   // Documentation
+  ['203.0.113.0', 24],    // Documentation
+  ['224.0.0.0', 4],       // Multicast
+  ['240.0.0.0', 4]        // Reserved, broadcast
+] as Array<[string, number]>) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],            // Unspecified
+  ['::1', 128],           // Loopback
+  ['64:ff9b::', 96],      // NAT64, embeds IPv4 addresses
+  ['100::', 64],          // Discard
+  ['2001:db8::', 32],     // Documentation
+  ['fc00::', 7],          // Unique local, includes fd00:ec2::254 metadata
+  ['fe80::', 10],         // Link-local
+  ['ff00::', 8]           // Multicast
+] as Array<[string, number]>) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is not publicly routable. IPv4-mapped IPv6
+ * addresses are judged by their IPv4 address.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Throws UnsafeTargetError unless the URL is http(s) and every address its
+ * host resolves to is public
+ */
+export async function assertSafeUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new UnsafeTargetError(url, 'scheme', `Refusing ${parsed.protocol} URL ${url}`);
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    throw new UnsafeTargetError(url, 'private_address', `Refusing request to ${hostname}`);
+  }
+
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    throw new UnsafeTargetError(url, 'private_address', `Refusing request to ${hostname}: resolves to non-public address ${blocked}`);
+  }
+}
+
+/**
+ * fetch() with the target checked before each request and redirect hop,
+ * and the response checked against the allowed content types and size
+ */
+export async function safeFetch(url: string, init: RequestInit = {}, options: SafeFetchOptions = {}): Promise<Response> {
+  const maxRedirects = options.max_redirects ?? DEFAULT_MAX_REDIRECTS;
+  const maxBytes = options.max_bytes ?? DEFAULT_MAX_BYTES;
+
+  try {
+    let target = url;
+    let request = init;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      await assertSafeUrl(target);
+      response = await fetchWithTimeout(target, request, options.timeout_ms ?? DEFAULT_TIMEOUT_MS);
+
+      const location = REDIRECT_STATUSES.has(response.status) ? response.headers.get('location') : null;
+      if (!location || maxRedirects === 0) break;
+
+      await response.body?.cancel();
+      if (redirects >= maxRedirects) {
+        throw new UnsafeTargetError(url, 'redirect_limit', `Too many redirects from ${url}`);
+      }
+      const next = new URL(location, target).href;
+      request = redirectRequest(request, response.status, target, next);
+      target = next;
+    }
+
+    if (response.ok && options.allowed_content_types) {
+      const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+      if (!options.allowed_content_types.some(allowed => contentType === allowed)) {
+        await response.body?.cancel();
+        throw new UnsafeTargetError(target, 'content_type', `Refusing content type "${contentType || 'none'}" from ${target}`);
+      }
+    }
+
+    const declaredLength = parseInt(response.headers.get('content-length') || '0');
+    if (declaredLength > maxBytes) {
+      await response.body?.cancel();
+      throw new UnsafeTargetError(target, 'response_size', `Response from ${target} is ${declaredLength} bytes, limit is ${maxBytes}`);
+    }
+
+    return limitBody(response, target, maxBytes, options.job_id);
+
+  } catch (error) {
+    if (error instanceof UnsafeTargetError) {
+      await logUnsafeTarget(options.job_id, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * The request for the next redirect hop, with the changes fetch() makes
+ * when it follows a redirect itself
+ */
+function redirectRequest(init: RequestInit, status: number, from: string, to: string): RequestInit {
+  const headers = new Headers(init.headers);
+  const method = (init.method || 'GET').toUpperCase();
+  let next: RequestInit = init;
+
+  if ((status === 303 && method !== 'GET' && method !== 'HEAD') || ((status === 301 || status === 302) && method === 'POST')) {
+    next = { ...next, method: 'GET', body: undefined };
+    BODY_HEADERS.forEach(name => headers.delete(name));
+  }
+
+  if (new URL(from).origin !== new URL(to).origin) {
+    const names: string[] = [];
+    headers.forEach((_, name) => names.push(name));
+    names
+      .filter(name => CREDENTIAL_HEADERS.has(name) || API_KEY_HEADER.test(name))
+      .forEach(name => headers.delete(name));
+  }
+
+  return { ...next, headers };
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const abort = () => controller.abort();
+  if (init.signal?.aborted) controller.abort();
+  init.signal?.addEventListener('abort', abort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal, redirect: 'manual' });
+  } finally {
+    clearTimeout(timeoutId);
+    init.signal?.removeEventListener('abort', abort);
+  }
+}
+
+/**
+ * Wraps the body so reading it fails once it exceeds the size limit, for
+ * servers that send no or a wrong Content-Length
+ */
+function limitBody(response: Response, url: string, maxBytes: number, jobId?: string): Response {
+  if (!response.body || NULL_BODY_STATUSES.has(response.status)) {
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  let received = 0;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+
+      received += value.byteLength;
+      if (received > maxBytes) {
+        const error = new UnsafeTargetError(url, 'response_size', `Response from ${url} exceeds ${maxBytes} bytes`);
+        await reader.cancel();
+        await logUnsafeTarget(jobId, error);
+        controller.error(error);
+        return;
+      }
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * Records a refused request in the job's log; without a job it is only
+ * written to the console
+ */
+export async function logUnsafeTarget(jobId: string | undefined, error: UnsafeTargetError): Promise<void> {
+  console.warn(`[SafeFetch] ${error.message}`);
+  if (!jobId) return;
+
+  try {
+    const { getDatabasePool } = await import('../utils/database');
+    await getDatabasePool().query(`
+      INSERT INTO job_logs (job_id, level, message, details, created_at)
+      VALUES ($1, 'warn', $2, $3, NOW())
+    `, [jobId, error.message, JSON.stringify({ event: 'unsafe_target', url: error.url, reason: error.reason })]);
+  } catch (logError) {
+    console.warn(`[SafeFetch] Failed to log refused request for job ${jobId}:`, logError);
+  }
+}
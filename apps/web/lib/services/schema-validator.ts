@@ -30,10 +30,17 @@ const LocationSchema = z.object({
   postal_code: z.string().optional(),
   facility_size: z.string().optional(),
   facilities: z.array(z.string()).optional(),
+  site_purpose: z.string().optional(),
   coordinates: z.object({
     lat: z.number(),
     lng: z.number()
-  }).optional()
+  }).optional(),
+  // Site events reported in news coverage (Tier 3)
+  site_name: z.string().min(1).optional(),
+  facility_type: z.string().optional(),
+  event_type: z.enum(['opening', 'closure', 'expansion', 'incident', 'acquisition', 'other']).optional(),
+  event_date: z.string().optional(),
+  event_description: z.string().optional()
 });
 
 const ContactSchema = z.object({
@@ -14,10 +14,15 @@ import {
   DocumentType,
   FinancialDocumentMetadata
 } from '../types/financial-documents';
+import { safeFetch } from './safe-fetch';
+
+// Corporate suffixes ignored when matching organization names to SEC registrant names
+const CORPORATE_SUFFIXES = /\b(the|inc|incorporated|corp|corporation|co|company|ltd|limited|llc|plc|holdings?|group|sa|nv|ag|se)\b/g;
 
 export class SECEdgarClient implements FinancialDocumentRetriever {
   private readonly baseUrl = 'https://data.sec.gov';
   private readonly config: DocumentRetrievalConfig;
+  private companyTickers?: any[];
   
   constructor(config?: Partial<DocumentRetrievalConfig>) {
     this.config = {
@@ -31,44 +36,44 @@ export class SECEdgarClient implements FinancialDocumentRetriever {
     };
   }
 
-  async retrieveByCompanyName(companyName: string): Promise<FinancialDocument[]> {
+  async retrieveByCompanyName(companyName: string, jobId?: string): Promise<FinancialDocument[]> {
     try {
       // First, search for the company to get CIK
-      const companyInfo = await this.searchCompanyByCIK(companyName);
+      const companyInfo = await this.searchCompanyByCIK(companyName, jobId);
       if (!companyInfo) {
         console.log(`No SEC company found for: ${companyName}`);
         return [];
       }
 
-      return await this.retrieveByCIK(companyInfo.cik);
+      return await this.retrieveByCIK(companyInfo.cik, jobId);
     } catch (error) {
       console.error(`Error retrieving documents for company ${companyName}:`, error);
       return [];
     }
   }
 
-  async retrieveByTickerSymbol(ticker: string): Promise<FinancialDocument[]> {
+  async retrieveByTickerSymbol(ticker: string, jobId?: string): Promise<FinancialDocument[]> {
     try {
       // Search by ticker symbol
-      const companyInfo = await this.searchCompanyByTicker(ticker);
+      const companyInfo = await this.searchCompanyByTicker(ticker, jobId);
       if (!companyInfo) {
         console.log(`No SEC company found for ticker: ${ticker}`);
         return [];
       }
 
-      return await this.retrieveByCIK(companyInfo.cik);
+      return await this.retrieveByCIK(companyInfo.cik, jobId);
     } catch (error) {
       console.error(`Error retrieving documents for ticker ${ticker}:`, error);
       return [];
     }
   }
 
-  async retrieveByCIK(cik: string): Promise<FinancialDocument[]> {
+  async retrieveByCIK(cik: string, jobId?: string): Promise<FinancialDocument[]> {
     try {
       const paddedCIK = this.padCIK(cik);
       
       // Get recent filings for this CIK
-      const filings = await this.getRecentFilings(paddedCIK);
+      const filings = await this.getRecentFilings(paddedCIK, jobId);
       
       // Filter to preferred document types and recent filings
       const relevantFilings = this.filterRelevantFilings(filings);
@@ -78,7 +83,7 @@ export class SECEdgarClient implements FinancialDocumentRetriever {
       
       for (const filing of relevantFilings.slice(0, this.config.max_documents_per_company)) {
         try {
-          const document = await this.retrieveFilingDocument(filing);
+          const document = await this.retrieveFilingDocument(filing, jobId);
           if (document) {
             documents.push(document);
           }
@@ -95,10 +100,87 @@ export class SECEdgarClient implements FinancialDocumentRetriever {
     }
   }
 
-  private async searchCompanyByCIK(companyName: string): Promise<SECCompanyInfo | null> {
+  /**
+   * Resolves the SEC registrant for a company from explicit hints (CIK or
+   * ticker in job metadata), its organization name or its website domain.
+   * Only exact normalized name or ticker matches are accepted so unrelated
+   * registrants with similar names are not picked up.
+   */
+  async resolveCompany(
+    domain: string,
+    companyName?: string,
+    hints: { cik?: string; ticker?: string } = {},
+    jobId?: string
+  ): Promise<SECCompanyInfo | null> {
+    try {
+      if (hints.cik) {
+        return {
+          cik: this.padCIK(hints.cik),
+          company_name: companyName || domain
+        };
+      }
+
+      if (hints.ticker) {
+        return await this.searchCompanyByTicker(hints.ticker, jobId);
+      }
+
+      const companies = await this.getCompanyTickers(jobId);
+      const domainLabel = domain.replace(/^www\./, '').split('.')[0].toLowerCase();
+      const candidates = [companyName, domainLabel.replace(/[-_]/g, ' ')]
+        .filter((name): name is string => !!name)
+        .map(name => this.normalizeCompanyName(name))
+        .filter(name => name.length > 0);
+
+      for (const candidate of candidates) {
+        const company = companies.find(c => this.normalizeCompanyName(c.title || '') === candidate);
+        if (company) {
+          return this.toCompanyInfo(company);
+        }
+      }
+
+      // Many companies use their ticker as their domain (e.g. ge.com)
+      const tickerMatch = companies.find(c => c.ticker?.toLowerCase() === domainLabel);
+      if (tickerMatch) {
+        return this.toCompanyInfo(tickerMatch);
+      }
+
+      return null;
+    } catch (error) {
+      console.error(`Error resolving SEC company for ${companyName || domain}:`, error);
+      return null;
+    }
+  }
+
+  private async getCompanyTickers(jobId?: string): Promise<any[]> {
+    if (!this.companyTickers) {
+      const response = await this.makeRequest('/files/company_tickers.json', jobId);
+      this.companyTickers = Object.values(response) as any[];
+    }
+    return this.companyTickers;
+  }
+
+  private normalizeCompanyName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(CORPORATE_SUFFIXES, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private toCompanyInfo(company: any): SECCompanyInfo {
+    return {
+      cik: company.cik_str.toString().padStart(10, '0'),
+      company_name: company.title,
+      ticker_symbol: company.ticker
+    };
+  }
+
+  private async searchCompanyByCIK(companyName: string, jobId?: string): Promise<SECCompanyInfo | null> {
     try {
       // Use SEC company tickers JSON endpoint
-      const response = await this.makeRequest('/files/company_tickers.json');
+      const response = await this.makeRequest('/files/company_tickers.json', jobId);
       const companies = Object.values(response) as any[];
       
       // Search for company by name (case-insensitive partial match)
@@ -122,9 +204,9 @@ export class SECEdgarClient implements FinancialDocumentRetriever {
     }
   }
 
-  private async searchCompanyByTicker(ticker: string): Promise<SECCompanyInfo | null> {
+  private async searchCompanyByTicker(ticker: string, jobId?: string): Promise<SECCompanyInfo | null> {
     try {
-      const response = await this.makeRequest('/files/company_tickers.json');
+      const response = await this.makeRequest('/files/company_tickers.json', jobId);
       const companies = Object.values(response) as any[];
       
       const company = companies.find(c => 
@@ -146,10 +228,10 @@ export class SECEdgarClient implements FinancialDocumentRetriever {
     }
   }
 
-  private async getRecentFilings(cik: string): Promise<SECFiling[]> {
+  private async getRecentFilings(cik: string, jobId?: string): Promise<SECFiling[]> {
     try {
       const url = `/submissions/CIK${cik}.json`;
-      const response = await this.makeRequest(url);
+      const response = await this.makeRequest(url, jobId);
       
       const filings: SECFiling[] = [];
       const recent = response.filings?.recent;
@@ -202,12 +284,12 @@ export class SECEdgarClient implements FinancialDocumentRetriever {
       .sort((a, b) => new Date(b.filing_date).getTime() - new Date(a.filing_date).getTime());
   }
 
-  private async retrieveFilingDocument(filing: SECFiling): Promise<FinancialDocument | null> {
+  private async retrieveFilingDocument(filing: SECFiling, jobId?: string): Promise<FinancialDocument | null> {
     try {
       const startTime = Date.now();
       
       // Retrieve the document content
-      const content = await this.fetchDocumentContent(filing.filing_href);
+      const content = await this.fetchDocumentContent(filing.filing_href, jobId);
       
       if (!content) {
         return null;
@@ -246,9 +328,9 @@ export class SECEdgarClient implements FinancialDocumentRetriever {
     }
   }
 
-  private async fetchDocumentContent(url: string): Promise<string | null> {
+  private async fetchDocumentContent(url: string, jobId?: string): Promise<string | null> {
     try {
-      const response = await fetch(url, {
+      const response = await safeFetch(url, {
         headers: {
           'User-Agent': this.config.user_agent,
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
@@ -256,7 +338,7 @@ export class SECEdgarClient implements FinancialDocumentRetriever {
           'Host': 'www.sec.gov'
         },
         signal: AbortSignal.timeout(this.config.timeout_ms)
-      });
+      }, { job_id: jobId });
 
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -269,19 +351,19 @@ export class SECEdgarClient implements FinancialDocumentRetriever {
     }
   }
 
-  private async makeRequest(endpoint: string): Promise<any> {
+  private async makeRequest(endpoint: string, jobId?: string): Promise<any> {
     const url = `${this.baseUrl}${endpoint}`;
     
     for (let attempt = 1; attempt <= this.config.retry_attempts; attempt++) {
       try {
-        const response = await fetch(url, {
+        const response = await safeFetch(url, {
           headers: {
             'User-Agent': this.config.user_agent,
             'Accept': 'application/json',
             'Host': 'data.sec.gov'
           },
           signal: AbortSignal.timeout(this.config.timeout_ms)
-        });
+        }, { job_id: jobId });
 
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -0,0 +1,246 @@
+/**
+ * Site Matcher
+ *
+ * Decides whether a site candidate describes a site the organization already
+ * has. Combines three signals:
+ * - Fuzzy name similarity (token overlap and character bigrams)
+ * - Normalized street addresses
+ * - Geo proximity (stored coordinates, or the city via GeocodingService)
+ */
+
+import { Site } from '../../types/data-model';
+import { GeocodingService } from '../geocoding-service';
+
+export type MatchableSite = Pick<Site, 'siteName' | 'address' | 'city' | 'stateProvince' | 'country'> &
+  Partial<Pick<Site, 'postalCode' | 'geoCoordinates'>>;
+
+export interface SiteMatch {
+  site: Site;
+  score: number;
+  reasons: string[];
+}
+
+export interface SiteMatcherConfig {
+  matchThreshold: number;      // Minimum combined score for a match
+  nearbyKm: number;            // Sites closer than this count as co-located
+  farKm: number;               // Sites further apart than this never match
+}
+
+const NAME_NOISE = new Set(['the', 'inc', 'llc', 'ltd', 'co', 'corp', 'corporation', 'company', 'gmbh', 'plc', 'of']);
+
+const NAME_SYNONYMS: Record<string, string> = {
+  mfg: 'manufacturing',
+  mfr: 'manufacturing',
+  ctr: 'center',
+  centre: 'center',
+  dist: 'distribution',
+  hq: 'headquarters',
+  facility: 'plant',
+  works: 'plant',
+  factory: 'plant',
+  '&': 'and'
+};
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  boulevard: 'blvd',
+  drive: 'dr',
+  lane: 'ln',
+  court: 'ct',
+  highway: 'hwy',
+  parkway: 'pkwy',
+  place: 'pl',
+  suite: 'ste',
+  building: 'bldg',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w'
+};
+
+// Weights of the signals; only signals both sites carry count towards the score
+const NAME_WEIGHT = 0.6;
+const ADDRESS_WEIGHT = 0.25;
+const GEO_WEIGHT = 0.15;
+
+export class SiteMatcher {
+  private config: SiteMatcherConfig;
+
+  constructor(config: Partial<SiteMatcherConfig> = {}) {
+    this.config = {
+      matchThreshold: 0.75,
+      nearbyKm: 5,
+      farKm: 100,
+      ...config
+    };
+  }
+
+  /**
+   * Best matching existing site for the candidate, or null if none is close enough
+   */
+  findBestMatch(candidate: MatchableSite, existingSites: Site[]): SiteMatch | null {
+    let best: SiteMatch | null = null;
+
+    for (const site of existingSites) {
+      const match = this.score(candidate, site);
+      if (match && (!best || match.score > best.score)) {
+        best = match;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Scores a candidate against one existing site; null when they cannot be the same site
+   */
+  score(candidate: MatchableSite, site: Site): SiteMatch | null {
+    const reasons: string[] = [];
+
+    const candidateCountry = normalizeText(candidate.country);
+    const siteCountry = normalizeText(site.country);
+    if (candidateCountry && siteCountry && candidateCountry !== siteCountry) {
+      return null;
+    }
+
+    const distanceKm = this.distanceKm(candidate, site);
+    if (distanceKm !== null && distanceKm > this.config.farKm) {
+      return null;
+    }
+
+    const nameScore = nameSimilarity(candidate.siteName, site.siteName);
+    reasons.push(`name similarity ${nameScore.toFixed(2)}`);
+
+    let weighted = NAME_WEIGHT * nameScore;
+    let totalWeight = NAME_WEIGHT;
+
+    const candidateAddress = normalizeAddress(candidate.address);
+    const siteAddress = normalizeAddress(site.address);
+    let addressMatch = false;
+    if (candidateAddress && siteAddress) {
+      addressMatch = candidateAddress === siteAddress;
+      weighted += addressMatch ? ADDRESS_WEIGHT : 0;
+      totalWeight += ADDRESS_WEIGHT;
+      reasons.push(addressMatch ? 'same address' : 'different address');
+    }
+
+    if (distanceKm !== null) {
+      const nearby = distanceKm <= this.config.nearbyKm;
+      weighted += nearby ? GEO_WEIGHT : 0;
+      totalWeight += GEO_WEIGHT;
+      reasons.push(`${distanceKm.toFixed(1)} km apart`);
+    }
+
+    const score = weighted / totalWeight;
+
+    // The same street address is strong evidence even when the names are worded differently
+    if (addressMatch && nameScore >= 0.4) {
+      return { site, score: Math.max(score, this.config.matchThreshold), reasons };
+    }
+
+    return score >= this.config.matchThreshold ? { site, score, reasons } : null;
+  }
+
+  private distanceKm(candidate: MatchableSite, site: MatchableSite): number | null {
+    const from = coordinatesOf(candidate);
+    const to = coordinatesOf(site);
+    if (!from || !to) {
+      return null;
+    }
+    return haversineKm(from.latitude, from.longitude, to.latitude, to.longitude);
+  }
+}
+
+/**
+ * Similarity of two site names in [0, 1]
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return 0;
+  }
+
+  const joinedA = tokensA.join(' ');
+  const joinedB = tokensB.join(' ');
+  if (joinedA === joinedB) {
+    return 1;
+  }
+
+  const setA = new Set(tokensA);
+  const setB = new Set(tokensB);
+  const shared = [...setA].filter(token => setB.has(token)).length;
+  const jaccard = shared / new Set([...setA, ...setB]).size;
+
+  return Math.max(jaccard, diceCoefficient(joinedA, joinedB));
+}
+
+/**
+ * Lower-cased street address with punctuation removed and common words abbreviated
+ */
+export function normalizeAddress(address?: string): string {
+  return normalizeText(address)
+    .split(' ')
+    .filter(Boolean)
+    .map(word => ADDRESS_ABBREVIATIONS[word] || word)
+    .join(' ');
+}
+
+function normalizeText(value?: string): string {
+  return (value || '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}&\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function nameTokens(name: string): string[] {
+  return normalizeText(name)
+    .split(' ')
+    .map(token => NAME_SYNONYMS[token] || token)
+    .filter(token => token && !NAME_NOISE.has(token));
+}
+
+function diceCoefficient(a: string, b: string): number {
+  const bigrams = (value: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < value.length - 1; i++) {
+      const bigram = value.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) || 0) + 1);
+    }
+    return counts;
+  };
+
+  const bigramsA = bigrams(a);
+  const bigramsB = bigrams(b);
+  let overlap = 0;
+  let total = 0;
+
+  bigramsA.forEach((count, bigram) => {
+    overlap += Math.min(count, bigramsB.get(bigram) || 0);
+    total += count;
+  });
+  bigramsB.forEach(count => { total += count; });
+
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+function coordinatesOf(site: MatchableSite): { latitude: number; longitude: number } | null {
+  if (site.geoCoordinates) {
+    return site.geoCoordinates;
+  }
+  // Only the city is geocoded; address fragments give too many false lookups
+  return GeocodingService.getCoordinates(site.city);
+}
+
+function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
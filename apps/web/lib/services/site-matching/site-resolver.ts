@@ -0,0 +1,196 @@
+/**
+ * Site Resolver
+ *
+ * Resolves the site candidates of an enrichment job against the sites the
+ * organization already has. A candidate that matches an existing site is
+ * merged into it (and the site re-verified); anything else becomes a new site.
+ * Every decision is written to the site merge audit trail.
+ */
+
+import { Site, SiteMergeAuditRepository, SiteRepository } from '../../types/data-model';
+import { SiteMatcher } from './site-matcher';
+
+export type SiteCandidateRecord = Omit<Site, 'siteId' | 'lastVerifiedDate'>;
+
+export interface SiteResolution {
+  site: Site;
+  action: 'created' | 'merged';
+  candidate: SiteCandidateRecord;
+  candidateName: string;
+  matchScore?: number;
+  changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+type SiteChanges = SiteResolution['changes'];
+
+const MERGED_TEXT_FIELDS = [
+  'address', 'city', 'stateProvince', 'country', 'postalCode',
+  'sitePurpose', 'productionCapacity', 'plantManager'
+] as const;
+
+const MERGED_LIST_FIELDS = [
+  'certifications', 'regulatoryIds', 'supplyChainDependencies', 'majorProducts'
+] as const;
+
+export class SiteResolver {
+  private siteRepository: SiteRepository;
+  private auditRepository: SiteMergeAuditRepository;
+  private matcher: SiteMatcher;
+
+  constructor(
+    siteRepository: SiteRepository,
+    auditRepository: SiteMergeAuditRepository,
+    matcher: SiteMatcher = new SiteMatcher()
+  ) {
+    this.siteRepository = siteRepository;
+    this.auditRepository = auditRepository;
+    this.matcher = matcher;
+  }
+
+  /**
+   * Creates or merges every candidate. Candidates of the same job are matched
+   * against each other too, so name variants within one run collapse.
+   */
+  async resolveSites(organizationId: string, candidates: SiteCandidateRecord[]): Promise<SiteResolution[]> {
+    const knownSites = await this.siteRepository.findByOrganizationId(organizationId);
+    const resolutions: SiteResolution[] = [];
+
+    for (const candidate of candidates) {
+      try {
+        const resolution = await this.resolveSite(candidate, knownSites);
+        resolutions.push(resolution);
+
+        const index = knownSites.findIndex(site => site.siteId === resolution.site.siteId);
+        if (index >= 0) {
+          knownSites[index] = resolution.site;
+        } else {
+          knownSites.push(resolution.site);
+        }
+      } catch (error) {
+        console.error(`Error resolving site ${candidate.siteName}:`, error);
+      }
+    }
+
+    return resolutions;
+  }
+
+  private async resolveSite(candidate: SiteCandidateRecord, knownSites: Site[]): Promise<SiteResolution> {
+    const match = this.matcher.findBestMatch(candidate, knownSites);
+
+    if (!match) {
+      const site = await this.siteRepository.create(candidate);
+      await this.recordAudit(site, candidate, {
+        action: 'created',
+        reasons: ['no matching site'],
+        changes: {}
+      });
+      return { site, action: 'created', candidate, candidateName: candidate.siteName, changes: {} };
+    }
+
+    const { updates, changes } = this.mergeSite(match.site, candidate);
+    const site = await this.siteRepository.update(match.site.siteId, updates);
+    await this.recordAudit(site, candidate, {
+      action: 'merged',
+      score: match.score,
+      reasons: match.reasons,
+      changes
+    });
+
+    return {
+      site,
+      action: 'merged',
+      candidate,
+      candidateName: candidate.siteName,
+      matchScore: match.score,
+      changes
+    };
+  }
+
+  /**
+   * Fields to update on the existing site. Empty fields are filled, lists are
+   * unioned, and conflicting values are taken from the more confident source.
+   * The confidence score is always written so the site is re-verified.
+   */
+  mergeSite(existing: Site, candidate: SiteCandidateRecord): { updates: Partial<Site>; changes: SiteChanges } {
+    const updates: Partial<Site> = {};
+    const changes: SiteChanges = {};
+    // DECIMAL columns may come back from pg as strings
+    const existingConfidence = Number(existing.confidenceScore) || 0;
+    const candidateWins = candidate.confidenceScore > existingConfidence;
+
+    const set = <K extends keyof Site>(field: K, value: Site[K]) => {
+      updates[field] = value;
+      changes[field] = { from: existing[field], to: value };
+    };
+
+    for (const field of MERGED_TEXT_FIELDS) {
+      const current = existing[field];
+      const incoming = candidate[field];
+      if (incoming === undefined || incoming === null || incoming === '' || incoming === current) continue;
+      if (!current || candidateWins) {
+        set(field, incoming);
+      }
+    }
+
+    if (candidate.siteType && candidate.siteType !== 'unknown' && candidate.siteType !== existing.siteType &&
+        (!existing.siteType || existing.siteType === 'unknown' || candidateWins)) {
+      set('siteType', candidate.siteType);
+    }
+
+    if (candidate.employeeCount !== undefined && candidate.employeeCount !== existing.employeeCount &&
+        (existing.employeeCount === undefined || existing.employeeCount === null || candidateWins)) {
+      set('employeeCount', candidate.employeeCount);
+    }
+
+    if (candidate.operatingStatus !== existing.operatingStatus && candidateWins) {
+      set('operatingStatus', candidate.operatingStatus);
+    }
+
+    if (candidate.geoCoordinates && !existing.geoCoordinates) {
+      set('geoCoordinates', candidate.geoCoordinates);
+    }
+
+    for (const field of MERGED_LIST_FIELDS) {
+      const current = existing[field] || [];
+      const added = (candidate[field] || []).filter(value => !current.includes(value));
+      if (added.length > 0) {
+        set(field, [...current, ...added]);
+      }
+    }
+
+    if (candidateWins) {
+      if (candidate.evidenceText && candidate.evidenceText !== existing.evidenceText) {
+        set('evidenceText', candidate.evidenceText);
+      }
+      if (candidate.source && candidate.source !== existing.source) {
+        set('source', candidate.source);
+      }
+      set('confidenceScore', candidate.confidenceScore);
+    } else {
+      updates.confidenceScore = existingConfidence;
+    }
+
+    return { updates, changes };
+  }
+
+  private async recordAudit(
+    site: Site,
+    candidate: SiteCandidateRecord,
+    decision: { action: 'created' | 'merged'; score?: number; reasons: string[]; changes: SiteChanges }
+  ): Promise<void> {
+    try {
+      await this.auditRepository.record({
+        siteId: site.siteId,
+        organizationId: site.organizationId,
+        enrichmentJobId: candidate.enrichmentJobId,
+        action: decision.action,
+        candidateName: candidate.siteName,
+        matchScore: decision.score !== undefined ? Math.round(decision.score * 100) / 100 : undefined,
+        matchReasons: decision.reasons,
+        changes: decision.changes
+      });
+    } catch (error) {
+      console.warn(`Could not record site merge audit for ${site.siteId}:`, error);
+    }
+  }
+}
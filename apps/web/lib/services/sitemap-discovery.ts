@@ -0,0 +1,134 @@
+/**
+ * Sitemap Discovery
+ *
+ * Collects page URLs from XML sitemaps so the crawler can reach deep pages
+ * that are not linked from the homepage. Sitemaps come from robots.txt
+ * `Sitemap:` lines and the conventional /sitemap.xml; sitemap indexes are
+ * followed and gzip-compressed sitemaps are decompressed.
+ */
+
+import { gunzipSync } from 'zlib';
+import * as cheerio from 'cheerio';
+import { safeFetch } from './safe-fetch';
+
+export interface SitemapDiscoveryOptions {
+  user_agent: string;
+  timeout_ms: number;
+  max_sitemaps?: number;
+  max_urls?: number;
+  max_sitemap_bytes?: number;   // Uncompressed size limit of one sitemap
+}
+
+// sitemaps.org limits a sitemap to 50 MB uncompressed
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export interface ParsedSitemap {
+  urls: string[];
+  sitemaps: string[];
+}
+
+/**
+ * Parses a sitemap (`<urlset>`) or sitemap index (`<sitemapindex>`)
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const locs = (selector: string) =>
+    $(selector)
+      .map((_, element) => $(element).text().trim())
+      .get()
+      .filter((loc: string) => loc.length > 0);
+
+  return {
+    urls: locs('urlset > url > loc'),
+    sitemaps: locs('sitemapindex > sitemap > loc')
+  };
+}
+
+export class SitemapDiscovery {
+  private options: Required<SitemapDiscoveryOptions>;
+
+  constructor(options: SitemapDiscoveryOptions) {
+    this.options = {
+      max_sitemaps: 20,
+      max_urls: 1000,
+      max_sitemap_bytes: MAX_SITEMAP_BYTES,
+      ...options
+    };
+  }
+
+  /**
+   * Page URLs listed in the site's sitemaps, in sitemap order. Refused
+   * sitemap requests are logged to the job, when one is given.
+   */
+  async discover(baseUrl: string, robotsSitemaps: string[] = [], jobId?: string): Promise<string[]> {
+    const pending = [...robotsSitemaps, new URL('/sitemap.xml', baseUrl).toString()];
+    const fetched = new Set<string>();
+    const urls = new Set<string>();
+
+    while (
+      pending.length > 0 &&
+      fetched.size < this.options.max_sitemaps &&
+      urls.size < this.options.max_urls
+    ) {
+      const sitemapUrl = pending.shift()!;
+      if (fetched.has(sitemapUrl)) continue;
+      fetched.add(sitemapUrl);
+
+      const xml = await this.fetchSitemap(sitemapUrl, jobId);
+      if (!xml) continue;
+
+      const parsed = parseSitemap(xml);
+      pending.push(...parsed.sitemaps);
+
+      for (const url of parsed.urls) {
+        if (urls.size >= this.options.max_urls) break;
+        urls.add(url);
+      }
+    }
+
+    console.log(`[SitemapDiscovery] Found ${urls.size} URLs in ${fetched.size} sitemaps for ${baseUrl}`);
+    return [...urls];
+  }
+
+  /**
+   * Fetches one sitemap, decompressing gzip bodies; returns null on failure.
+   * Bodies and gzip output over the size limit count as failures, so a
+   * small compressed file cannot expand into gigabytes of memory.
+   */
+  private async fetchSitemap(url: string, jobId?: string): Promise<string | null> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeout_ms);
+
+    try {
+      const response = await safeFetch(url, {
+        headers: {
+          'User-Agent': this.options.user_agent,
+          'Accept': 'application/xml,text/xml,application/gzip;q=0.9,*/*;q=0.8'
+        },
+        signal: controller.signal
+      }, { job_id: jobId });
+
+      if (!response.ok) {
+        return null;
+      }
+
+      const maxBytes = this.options.max_sitemap_bytes;
+      const body = Buffer.from(await response.arrayBuffer());
+      if (body.length > maxBytes) {
+        console.warn(`[SitemapDiscovery] Sitemap ${url} exceeds ${maxBytes} bytes, skipping`);
+        return null;
+      }
+
+      // gzip magic bytes; servers often send .xml.gz without Content-Encoding
+      const isGzip = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+      // Throws a RangeError once the output passes the limit
+      return (isGzip ? gunzipSync(body, { maxOutputLength: maxBytes }) : body).toString('utf8');
+
+    } catch (error) {
+      console.warn(`[SitemapDiscovery] Failed to fetch sitemap ${url}:`, error);
+      return null;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { BaseEnrichmentStep } from '../base-enrichment-step';
 import { EnrichmentContext, EmbeddingResult, EmbeddingConfig } from '../../types/enrichment';
 import { Pinecone } from '@pinecone-database/pinecone';
+import { safeFetch } from '../safe-fetch';
 
 /**
  * Embedding Step
@@ -236,7 +237,7 @@ export class EmbeddingStep extends BaseEnrichmentStep {
    */
   private async generateEmbeddings(texts: string[]): Promise<number[][]> {
     try {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
+      const response = await safeFetch('https://api.openai.com/v1/embeddings', {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
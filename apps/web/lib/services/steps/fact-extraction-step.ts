@@ -1,12 +1,24 @@
 import { BaseEnrichmentStep } from '../base-enrichment-step';
-import { EnrichmentContext, EnrichmentFact, ExtractionConfig } from '../../types/enrichment';
+import { EnrichmentContext, EnrichmentFact, EnrichmentJob, ExtractionConfig, TextChunk } from '../../types/enrichment';
 import { FactRepository } from '../../repositories/fact-repository';
 import { promptBuilder } from '../prompt-templates';
+import { detectLanguage } from '../language-detection';
+import { estimateTokens, packBatches, promptTokenBudget } from '../token-budget';
 import { factSchemaValidator } from '../schema-validator';
+import { StructuredDataExtractor, StructuredPageData } from '../structured-data-extractor';
 import { openai } from '@ai-sdk/openai';
 import { generateObject } from 'ai';
 import { z } from 'zod';
 
+export interface FactExtractionOptions {
+  // Prompt template to use instead of the default site extraction template
+  templateName?: string;
+  // Tier recorded on persisted facts
+  tier?: number;
+  // Hook to enrich each fact with metadata from the chunk it was found in
+  annotateFact?: (fact: EnrichmentFact, sourceChunk: TextChunk | undefined) => EnrichmentFact;
+}
+
 /**
  * Enhanced Fact Extraction Step
  * 
@@ -18,17 +30,21 @@ import { z } from 'zod';
 export class FactExtractionStep extends BaseEnrichmentStep {
   private config: ExtractionConfig;
   private factRepository: FactRepository;
+  private structuredExtractor: StructuredDataExtractor;
 
   constructor(jobRepository: any) {
     super(jobRepository);
     this.factRepository = new FactRepository();
+    this.structuredExtractor = new StructuredDataExtractor();
     
     // Enhanced extraction configuration
     this.config = {
       model: process.env.EXTRACTION_MODEL || 'gpt-4o-mini',
       temperature: parseFloat(process.env.EXTRACTION_TEMPERATURE || '0.1'),
       max_tokens: parseInt(process.env.EXTRACTION_MAX_TOKENS || '3000'),
-      confidence_threshold: parseFloat(process.env.EXTRACTION_CONFIDENCE_THRESHOLD || '0.7')
+      confidence_threshold: parseFloat(process.env.EXTRACTION_CONFIDENCE_THRESHOLD || '0.7'),
+      context_fraction: parseFloat(process.env.EXTRACTION_CONTEXT_FRACTION || '0.25'),
+      output_tokens_per_chunk: parseInt(process.env.EXTRACTION_OUTPUT_TOKENS_PER_CHUNK || '150')
     };
   }
 
@@ -52,7 +68,7 @@ export class FactExtractionStep extends BaseEnrichmentStep {
   }
 
   async execute(context: EnrichmentContext): Promise<EnrichmentContext> {
-    const { job, text_chunks, embeddings } = context;
+    const { job, text_chunks, crawled_pages } = context;
     
     if (!text_chunks || text_chunks.length === 0) {
       return {
@@ -65,39 +81,17 @@ export class FactExtractionStep extends BaseEnrichmentStep {
       // Update step status to running
       await this.updateStepStatus(job.id, 'extraction_status', 'running');
 
-      // Extract facts from text chunks
-      const extractedFacts: EnrichmentFact[] = [];
-      
-      // Process chunks in batches to avoid overwhelming the LLM
-      const batchSize = 5;
-      const batches = this.createBatches(text_chunks, batchSize);
-
-      for (let i = 0; i < batches.length; i++) {
-        const batch = batches[i];
-        console.log(`Processing extraction batch ${i + 1}/${batches.length}`);
-
-        try {
-          const batchFacts = await this.extractFactsFromBatch(batch, job);
-          extractedFacts.push(...batchFacts);
-
-          // Add delay between batches to respect rate limits
-          if (i < batches.length - 1) {
-            await this.delay(2000);
-          }
-
-        } catch (error) {
-          console.error(`Failed to process extraction batch ${i + 1}:`, error);
-          // Continue with other batches
-        }
-      }
-
-      // Filter facts by confidence threshold
-      const validFacts = extractedFacts.filter(fact => 
-        fact.confidence_score >= this.config.confidence_threshold
+      // Structured data (JSON-LD, microdata) is read first; chunks it fully
+      // covers are not sent to the LLM
+      const structuredPages = this.structuredExtractor.extractPages(crawled_pages || []);
+      const structuredFacts = await this.extractStructuredFacts(structuredPages, job);
+      const llmChunks = text_chunks.filter(chunk =>
+        !this.structuredExtractor.isChunkCovered(chunk, structuredPages)
       );
+      console.log(`Structured data: ${structuredFacts.length} facts from ${structuredPages.length} pages, ${text_chunks.length - llmChunks.length} chunks skip LLM extraction`);
 
-      // Persist facts to database
-      const persistedFacts = await this.persistFacts(validFacts);
+      const llmFacts = llmChunks.length > 0 ? await this.extractFacts(llmChunks, job) : [];
+      const persistedFacts = [...structuredFacts, ...llmFacts];
 
       // Update progress
       await this.updateProgress(job.id, { facts_extracted: persistedFacts.length });
@@ -115,7 +109,8 @@ export class FactExtractionStep extends BaseEnrichmentStep {
           ...context.step_results,
           extraction: {
             total_facts: persistedFacts.length,
-            filtered_facts: extractedFacts.length - persistedFacts.length,
+            structured_facts: structuredFacts.length,
+            chunks_skipped: text_chunks.length - llmChunks.length,
             confidence_threshold: this.config.confidence_threshold,
             model_used: this.config.model,
             validation_enabled: true,
@@ -136,33 +131,123 @@ export class FactExtractionStep extends BaseEnrichmentStep {
   }
 
   /**
-   * Creates batches from text chunks
+   * Extracts, filters and persists facts for a set of chunks without touching
+   * job step status, so other tiers can reuse the Tier 1 extraction pipeline
    */
-  private createBatches<T>(items: T[], batchSize: number): T[][] {
-    const batches: T[][] = [];
-    for (let i = 0; i < items.length; i += batchSize) {
-      batches.push(items.slice(i, i + batchSize));
+  async extractFacts(
+    chunks: TextChunk[],
+    job: EnrichmentJob,
+    options: FactExtractionOptions = {}
+  ): Promise<EnrichmentFact[]> {
+    const extractedFacts: EnrichmentFact[] = [];
+
+    // Process chunks in batches that fill the configured share of the model's context
+    const batches = this.createBatches(chunks, job, options);
+
+    for (let i = 0; i < batches.length; i++) {
+      const batch = batches[i];
+      console.log(`Processing extraction batch ${i + 1}/${batches.length}: ${batch.length} chunks`);
+
+      try {
+        const batchFacts = await this.extractFactsFromBatch(batch, job, options);
+        extractedFacts.push(...batchFacts);
+
+        // Add delay between batches to respect rate limits
+        if (i < batches.length - 1) {
+          await this.delay(2000);
+        }
+
+      } catch (error) {
+        console.error(`Failed to process extraction batch ${i + 1}:`, error);
+        // Continue with other batches
+      }
     }
-    return batches;
+
+    // Filter facts by confidence threshold
+    const validFacts = extractedFacts.filter(fact =>
+      fact.confidence_score >= this.config.confidence_threshold
+    );
+
+    // Persist facts to database
+    return this.persistFacts(validFacts);
+  }
+
+  /**
+   * Persists facts read from structured data on the crawled pages
+   */
+  private async extractStructuredFacts(pages: StructuredPageData[], job: EnrichmentJob): Promise<EnrichmentFact[]> {
+    const facts: EnrichmentFact[] = pages.flatMap(page =>
+      this.structuredExtractor.toFacts(page, job.id).map(fact => ({
+        ...fact,
+        id: this.generateFactId(),
+        created_at: new Date().toISOString()
+      }))
+    );
+
+    return this.persistFacts(facts);
+  }
+
+  /**
+   * Packs chunks into batches whose prompt stays within the configured
+   * fraction of the model's context window, leaving room for the completion.
+   * The instructions sent with every batch are counted at their longest,
+   * with the language and section notes included. The facts of a batch must
+   * also fit in `max_tokens`, or the response is cut off and cannot be
+   * parsed, so a batch holds no more chunks than the output allows.
+   */
+  private createBatches(chunks: TextChunk[], job: EnrichmentJob, options: FactExtractionOptions): TextChunk[][] {
+    const model = this.config.model;
+    const budget = promptTokenBudget(model, this.config.context_fraction, this.config.max_tokens);
+    const { systemPrompt, userPrompt } = promptBuilder.buildExtractionPrompt(
+      '',
+      job.domain,
+      options.templateName,
+      undefined,
+      { languages: ['und'], sections: true }
+    );
+    const overhead = estimateTokens(`${systemPrompt}\n${userPrompt}`, model);
+    const separator = estimateTokens('\n\n', model);
+
+    const maxChunks = Math.max(1, Math.floor(this.config.max_tokens / this.config.output_tokens_per_chunk));
+
+    const batches = packBatches(
+      chunks,
+      chunk => estimateTokens(this.formatChunk(chunk), model) + separator,
+      budget - overhead,
+      maxChunks
+    );
+    console.log(`Packed ${chunks.length} chunks into ${batches.length} batches of up to ${budget} prompt tokens and ${maxChunks} chunks for ${model}`);
+
+    return batches.map(batch => batch.items);
   }
 
   /**
    * Extracts facts from a batch of text chunks using AI SDK
    */
-  private async extractFactsFromBatch(chunks: any[], job: any): Promise<EnrichmentFact[]> {
+  private async extractFactsFromBatch(chunks: any[], job: any, options: FactExtractionOptions = {}): Promise<EnrichmentFact[]> {
     const facts: EnrichmentFact[] = [];
 
     try {
-      // Combine chunks into a single context for the LLM
-      const combinedText = chunks.map(chunk => chunk.content).join('\n\n');
-      
+      // Combine chunks into a single context for the LLM, each under the
+      // headings of the page section it comes from
+      const combinedText = chunks.map(chunk => this.formatChunk(chunk)).join('\n\n');
+      const sections = chunks.some(chunk => chunk.metadata?.heading_path?.length > 0);
+
+      // Chunks from other sources than the crawler carry no language yet
+      const languages = [...new Set(chunks
+        .map(chunk => chunk.metadata?.language || detectLanguage(chunk.content))
+        .filter((language): language is string => !!language))];
+
       // Build extraction prompt using template system
       const { systemPrompt, userPrompt, schema } = promptBuilder.buildExtractionPrompt(
         combinedText,
-        job.domain
+        job.domain,
+        options.templateName,
+        undefined,
+        { languages, sections }
       );
 
-      console.log(`Extracting facts from ${chunks.length} chunks for domain: ${job.domain}`);
+      console.log(`Extracting facts from ${chunks.length} chunks for domain: ${job.domain}, ~${estimateTokens(`${systemPrompt}\n${userPrompt}`, this.config.model)} prompt tokens (${this.config.model})`);
       console.log('System prompt:', systemPrompt.substring(0, 200) + '...');
       console.log('User prompt:', userPrompt.substring(0, 200) + '...');
 
@@ -173,7 +258,8 @@ export class FactExtractionStep extends BaseEnrichmentStep {
       const processedFacts = await this.processExtractionResult(
         extractionResult,
         chunks,
-        job.id
+        job.id,
+        options
       );
       
       facts.push(...processedFacts);
@@ -186,6 +272,16 @@ export class FactExtractionStep extends BaseEnrichmentStep {
     return facts;
   }
 
+  /**
+   * Chunk content for the prompt, preceded by its heading path if it has one
+   */
+  private formatChunk(chunk: TextChunk): string {
+    const headingPath = chunk.metadata?.heading_path;
+    return headingPath && headingPath.length > 0
+      ? `Section: ${headingPath.join(' > ')}\n${chunk.content}`
+      : chunk.content;
+  }
+
   /**
    * Calls AI SDK for structured fact extraction
    */
@@ -227,7 +323,8 @@ export class FactExtractionStep extends BaseEnrichmentStep {
   private async processExtractionResult(
     extractionResult: any,
     chunks: any[],
-    jobId: string
+    jobId: string,
+    options: FactExtractionOptions = {}
   ): Promise<EnrichmentFact[]> {
     const facts: EnrichmentFact[] = [];
 
@@ -250,7 +347,7 @@ export class FactExtractionStep extends BaseEnrichmentStep {
         // Find the best matching source chunk
         const sourceChunk = this.findBestSourceChunk(validFact.source_text, chunks);
 
-        const fact: EnrichmentFact = {
+        let fact: EnrichmentFact = {
           id: this.generateFactId(),
           job_id: jobId,
           fact_type: validFact.fact_type,
@@ -260,9 +357,14 @@ export class FactExtractionStep extends BaseEnrichmentStep {
           source_text: validFact.source_text,
           embedding_id: sourceChunk?.id,
           created_at: new Date().toISOString(),
-          validated: false
+          validated: false,
+          tier_used: options.tier
         };
 
+        if (options.annotateFact) {
+          fact = options.annotateFact(fact, sourceChunk);
+        }
+
         facts.push(fact);
       }
 
@@ -331,7 +433,8 @@ export class FactExtractionStep extends BaseEnrichmentStep {
         source_text: fact.source_text,
         embedding_id: fact.embedding_id,
         validated: fact.validated,
-        validation_notes: fact.validation_notes
+        validation_notes: fact.validation_notes,
+        tier_used: fact.tier_used
       }));
 
       // Validate facts for persistence
@@ -7,30 +7,42 @@
 
 import { BaseEnrichmentStep } from '../base-enrichment-step';
 import { EnrichmentContext, EnrichmentFact, JobRepository } from '../../types/enrichment';
+import { FactRepository } from '../../repositories/fact-repository';
 import { SECEdgarClient } from '../sec-edgar-client';
 import { FinancialDocumentParser } from '../financial-document-parser';
 import { LLMFinancialDataExtractor } from '../financial-data-extractor';
 import { 
   FinancialDocument, 
+  FinancialFact,
   DocumentRetrievalConfig, 
-  DocumentParsingConfig 
+  DocumentParsingConfig,
+  SECCompanyInfo
 } from '../../types/financial-documents';
 
+export interface FilingFactsResult {
+  company: SECCompanyInfo | null;
+  documents: FinancialDocument[];
+  facts: EnrichmentFact[];
+}
+
 export class FinancialDocumentStep extends BaseEnrichmentStep {
   private readonly secClient: SECEdgarClient;
   private readonly parser: FinancialDocumentParser;
   private readonly extractor: LLMFinancialDataExtractor;
+  private readonly factRepository: FactRepository;
 
   constructor(
     jobRepository: JobRepository,
     retrievalConfig?: Partial<DocumentRetrievalConfig>,
-    parsingConfig?: Partial<DocumentParsingConfig>
+    parsingConfig?: Partial<DocumentParsingConfig>,
+    factRepository?: FactRepository
   ) {
     super(jobRepository);
     
     this.secClient = new SECEdgarClient(retrievalConfig);
     this.parser = new FinancialDocumentParser(parsingConfig);
     this.extractor = new LLMFinancialDataExtractor();
+    this.factRepository = factRepository || new FactRepository();
   }
 
   get name(): string {
@@ -52,22 +64,16 @@ export class FinancialDocumentStep extends BaseEnrichmentStep {
       // Update step status to running
       await this.updateStepStatus(context.job.id, 'extraction_status', 'running');
       
-      // Step 1: Extract company name from domain
-      const companyName = this.extractCompanyNameFromDomain(context.job.domain);
-      console.log(`Extracted company name: ${companyName}`);
-      
-      // Step 2: Retrieve financial documents
-      const documents = await this.retrieveFinancialDocuments(companyName);
-      console.log(`Retrieved ${documents.length} financial documents`);
+      const { company, documents, facts: allFacts } = await this.extractFilingFacts(context);
       
       if (documents.length === 0) {
-        console.log(`No financial documents found for ${companyName}`);
+        console.log(`No financial documents found for ${context.job.domain}`);
         context.step_results = {
           ...context.step_results,
           financial_documents: {
             documents_found: 0,
             processing_time_ms: Date.now() - startTime,
-            message: 'No SEC filings found for this company'
+            message: company ? `No recent 10-K filings found for CIK ${company.cik}` : 'No SEC filings found for this company'
           }
         };
         
@@ -75,37 +81,26 @@ export class FinancialDocumentStep extends BaseEnrichmentStep {
         return context;
       }
       
-      // Step 3: Parse documents and extract sections
-      const allFacts: EnrichmentFact[] = [];
-      let totalProcessingTime = 0;
+      const totalProcessingTime = documents.reduce((sum, document) => sum + document.metadata.processing_time_ms, 0);
       
-      for (const document of documents) {
-        try {
-          const facts = await this.processDocument(document, context.job.id);
-          allFacts.push(...facts);
-          totalProcessingTime += document.metadata.processing_time_ms;
-        } catch (error) {
-          console.error(`Error processing document ${document.id}:`, error);
-          continue;
-        }
-      }
-      
-      // Step 4: Update context with extracted facts
+      // Update context with extracted facts
       context.extracted_facts = [
         ...(context.extracted_facts || []),
         ...allFacts
       ];
       
-      // Step 5: Update job progress
+      // Update job progress
       await this.updateProgress(context.job.id, {
         facts_extracted: allFacts.length
       });
       
-      // Step 6: Store results in context
+      // Store results in context
       context.step_results = {
         ...context.step_results,
         financial_documents: {
           documents_found: documents.length,
+          cik: company?.cik,
+          accession_numbers: documents.map(d => d.metadata.accession_number),
           facts_extracted: allFacts.length,
           processing_time_ms: Date.now() - startTime,
           total_document_processing_time_ms: totalProcessingTime,
@@ -140,6 +135,66 @@ export class FinancialDocumentStep extends BaseEnrichmentStep {
     }
   }
 
+  /**
+   * Resolves the company's SEC registrant, pulls its latest 10-K and turns the
+   * parsed sections into persisted facts. Does not touch job step status, so
+   * Tier 1 can run it alongside the website pipeline.
+   */
+  async extractFilingFacts(context: EnrichmentContext): Promise<FilingFactsResult> {
+    const metadata = context.job.metadata || {};
+    const companyName = this.resolveCompanyName(context);
+    console.log(`Resolving SEC registrant for ${companyName} (${context.job.domain})`);
+
+    const company = await this.secClient.resolveCompany(context.job.domain, companyName, {
+      cik: metadata.cik,
+      ticker: metadata.ticker
+    }, context.job.id);
+
+    if (!company) {
+      console.log(`No SEC registrant found for ${companyName}`);
+      return { company: null, documents: [], facts: [] };
+    }
+
+    console.log(`Resolved ${companyName} to CIK ${company.cik} (${company.company_name})`);
+
+    const documents = await this.secClient.retrieveByCIK(company.cik, context.job.id);
+    console.log(`Retrieved ${documents.length} financial documents`);
+
+    const facts: EnrichmentFact[] = [];
+    for (const document of documents) {
+      try {
+        facts.push(...await this.processDocument(document, context.job.id));
+      } catch (error) {
+        console.error(`Error processing document ${document.id}:`, error);
+        continue;
+      }
+    }
+
+    return {
+      company,
+      documents,
+      facts: await this.persistFacts(facts)
+    };
+  }
+
+  /**
+   * Company name from job metadata, previously extracted facts or the domain
+   */
+  private resolveCompanyName(context: EnrichmentContext): string {
+    if (context.job.metadata?.company_name) {
+      return context.job.metadata.company_name;
+    }
+
+    const companyFact = (context.extracted_facts || []).find(fact =>
+      fact.fact_type === 'company_info' && fact.fact_data?.name
+    );
+    if (companyFact) {
+      return companyFact.fact_data.name;
+    }
+
+    return this.extractCompanyNameFromDomain(context.job.domain);
+  }
+
   private extractCompanyNameFromDomain(domain: string): string {
     // Remove common prefixes and suffixes
     let companyName = domain
@@ -157,60 +212,22 @@ export class FinancialDocumentStep extends BaseEnrichmentStep {
     return companyName;
   }
 
-  private async retrieveFinancialDocuments(companyName: string): Promise<FinancialDocument[]> {
-    try {
-      // Try to retrieve by company name first
-      let documents = await this.secClient.retrieveByCompanyName(companyName);
-      
-      // If no documents found, try variations of the company name
-      if (documents.length === 0) {
-        const variations = this.generateCompanyNameVariations(companyName);
-        
-        for (const variation of variations) {
-          documents = await this.secClient.retrieveByCompanyName(variation);
-          if (documents.length > 0) {
-            console.log(`Found documents using variation: ${variation}`);
-            break;
-          }
-        }
-      }
-      
-      return documents;
-    } catch (error) {
-      console.error(`Error retrieving financial documents for ${companyName}:`, error);
+  /**
+   * Persists filing facts; they are still returned if the database write fails
+   */
+  private async persistFacts(facts: EnrichmentFact[]): Promise<EnrichmentFact[]> {
+    if (facts.length === 0) {
       return [];
     }
-  }
 
-  private generateCompanyNameVariations(companyName: string): string[] {
-    const variations: string[] = [];
-    
-    // Add common corporate suffixes
-    const suffixes = ['Inc', 'Corp', 'Corporation', 'LLC', 'Ltd', 'Limited', 'Company', 'Co'];
-    
-    for (const suffix of suffixes) {
-      variations.push(`${companyName} ${suffix}`);
-      variations.push(`${companyName}, ${suffix}.`);
-    }
-    
-    // Add variations without common words
-    const withoutCommon = companyName
-      .replace(/\b(the|and|&|of|for|in|on|at|to|a|an)\b/gi, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
-    
-    if (withoutCommon !== companyName) {
-      variations.push(withoutCommon);
-    }
-    
-    // Add acronym if company name has multiple words
-    const words = companyName.split(' ').filter(word => word.length > 2);
-    if (words.length > 1) {
-      const acronym = words.map(word => word.charAt(0).toUpperCase()).join('');
-      variations.push(acronym);
+    try {
+      return await this.factRepository.createBatch(
+        facts.map(({ id, created_at, ...fact }) => fact)
+      );
+    } catch (error) {
+      console.error('Failed to persist financial document facts:', error);
+      return facts;
     }
-    
-    return variations;
   }
 
   private async processDocument(document: FinancialDocument, jobId: string): Promise<EnrichmentFact[]> {
@@ -227,25 +244,47 @@ export class FinancialDocumentStep extends BaseEnrichmentStep {
       const extractionResult = await this.extractor.extractFacts(sections);
       console.log(`Extracted ${extractionResult.extracted_facts.length} facts from document ${document.id}`);
       
-      // Step 3: Convert financial facts to enrichment facts
-      const enrichmentFacts: EnrichmentFact[] = extractionResult.extracted_facts.map(financialFact => ({
-        id: `financial_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        job_id: jobId,
-        fact_type: this.mapFinancialFactTypeToEnrichmentFactType(financialFact.fact_type),
-        fact_data: {
-          value: financialFact.value,
-          unit: financialFact.unit,
-          period: financialFact.period,
-          extraction_method: financialFact.extraction_method,
-          financial_fact_type: financialFact.fact_type
-        },
-        confidence_score: financialFact.confidence_score,
-        source_url: document.source_url,
-        source_text: financialFact.source_text,
-        created_at: new Date().toISOString(),
-        validated: false,
-        tier_used: 1 // Financial documents are Tier 1 sources
-      }));
+      // Step 3: Convert financial facts to enrichment facts, citing the filing
+      const accessionNumber = document.metadata.accession_number;
+      const citation = {
+        source: 'SEC EDGAR',
+        form_type: document.document_type,
+        accession_number: accessionNumber,
+        cik: document.metadata.cik,
+        filing_date: document.filing_date,
+        period_end_date: document.period_end_date,
+        filing_url: document.source_url
+      };
+
+      const enrichmentFacts: EnrichmentFact[] = this.deduplicateFacts(extractionResult.extracted_facts).map(financialFact => {
+        const factType = this.mapFinancialFactTypeToEnrichmentFactType(financialFact.fact_type);
+
+        return {
+          id: `financial_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          job_id: jobId,
+          fact_type: factType,
+          fact_data: {
+            value: financialFact.value,
+            unit: financialFact.unit,
+            period: financialFact.period,
+            extraction_method: financialFact.extraction_method,
+            financial_fact_type: financialFact.fact_type,
+            source_section: financialFact.source_section,
+            // Each listed facility or address is its own site
+            ...(factType === 'site_name' || factType === 'site_address' ? { site_name: String(financialFact.value) } : {}),
+            citation: {
+              ...citation,
+              section: financialFact.source_section
+            }
+          },
+          confidence_score: financialFact.confidence_score,
+          source_url: document.source_url,
+          source_text: financialFact.source_text,
+          created_at: new Date().toISOString(),
+          validated: false,
+          tier_used: 1 // Financial documents are Tier 1 sources
+        };
+      });
       
       return enrichmentFacts;
       
@@ -255,6 +294,22 @@ export class FinancialDocumentStep extends BaseEnrichmentStep {
     }
   }
 
+  /**
+   * Regex extraction matches the same facility in several patterns
+   */
+  private deduplicateFacts(facts: FinancialFact[]): FinancialFact[] {
+    const seen = new Set<string>();
+
+    return facts.filter(fact => {
+      const key = `${fact.fact_type}|${String(fact.value).toLowerCase().replace(/\s+/g, ' ').trim()}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
   private mapFinancialFactTypeToEnrichmentFactType(financialFactType: string): string {
     const mapping: Record<string, string> = {
       'facility_name': 'site_name',
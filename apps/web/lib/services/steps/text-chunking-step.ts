@@ -1,5 +1,8 @@
 import { BaseEnrichmentStep } from '../base-enrichment-step';
-import { EnrichmentContext, TextChunk, ChunkingConfig } from '../../types/enrichment';
+import { EnrichmentContext, TextChunk, ChunkingConfig, CrawledPage } from '../../types/enrichment';
+import { collapseSiteWideBlocks } from '../content-extractor';
+import { chunkBlocks } from '../structure-chunker';
+import { textSize } from '../token-budget';
 
 /**
  * Text Chunking Step
@@ -14,11 +17,12 @@ export class TextChunkingStep extends BaseEnrichmentStep {
   constructor(jobRepository: any) {
     super(jobRepository);
     
-    // Default chunking configuration
+    // Chunks are sized in tokens of the model that extracts facts from them
     this.config = {
-      max_chunk_size: parseInt(process.env.CHUNK_MAX_SIZE || '1000'),
-      overlap_size: parseInt(process.env.CHUNK_OVERLAP_SIZE || '200'),
-      min_chunk_size: parseInt(process.env.CHUNK_MIN_SIZE || '100')
+      max_chunk_size: parseInt(process.env.CHUNK_MAX_TOKENS || '250'),
+      overlap_size: parseInt(process.env.CHUNK_OVERLAP_TOKENS || '50'),
+      min_chunk_size: parseInt(process.env.CHUNK_MIN_TOKENS || '25'),
+      model: process.env.EXTRACTION_MODEL || 'gpt-4o-mini'
     };
   }
 
@@ -55,19 +59,10 @@ export class TextChunkingStep extends BaseEnrichmentStep {
       await this.updateStepStatus(job.id, 'chunking_status', 'running');
 
       // Process all crawled pages into chunks
-      const textChunks: TextChunk[] = [];
-      let chunkIdCounter = 0;
-
-      for (const page of crawled_pages) {
-        const pageChunks = await this.chunkPageContent(page, chunkIdCounter);
-        textChunks.push(...pageChunks);
-        chunkIdCounter += pageChunks.length;
-      }
+      const textChunks = await this.splitPages(crawled_pages);
 
       // Filter out chunks that are too small
-      const validChunks = textChunks.filter(chunk => 
-        chunk.content.length >= this.config.min_chunk_size
-      );
+      const validChunks = this.filterChunks(textChunks);
 
       // Update progress
       await this.updateProgress(job.id, { chunks_created: validChunks.length });
@@ -102,7 +97,40 @@ export class TextChunkingStep extends BaseEnrichmentStep {
   }
 
   /**
-   * Chunks the content of a single page
+   * Chunks pages without touching job step status, so other tiers can reuse
+   * the Tier 1 chunking for their own documents
+   */
+  async chunkPages(pages: CrawledPage[]): Promise<TextChunk[]> {
+    return this.filterChunks(await this.splitPages(pages));
+  }
+
+  /**
+   * Splits every page into chunks with job-wide unique ids. Navigation,
+   * footer and other blocks repeated across the site are chunked once.
+   */
+  private async splitPages(pages: CrawledPage[]): Promise<TextChunk[]> {
+    const textChunks: TextChunk[] = [];
+    let chunkIdCounter = 0;
+
+    for (const page of collapseSiteWideBlocks(pages)) {
+      const pageChunks = await this.chunkPageContent(page, chunkIdCounter);
+      textChunks.push(...pageChunks);
+      chunkIdCounter += pageChunks.length;
+    }
+
+    return textChunks;
+  }
+
+  /**
+   * Drops chunks below the minimum chunk size
+   */
+  private filterChunks(chunks: TextChunk[]): TextChunk[] {
+    return chunks.filter(chunk => this.size(chunk.content) >= this.config.min_chunk_size);
+  }
+
+  /**
+   * Chunks the content of a single page: HTML pages along their headings,
+   * lists and tables, other pages by sentences
    */
   private async chunkPageContent(page: any, startingChunkId: number): Promise<TextChunk[]> {
     const chunks: TextChunk[] = [];
@@ -112,6 +140,10 @@ export class TextChunkingStep extends BaseEnrichmentStep {
       return chunks;
     }
 
+    if (page.blocks && page.blocks.length > 0) {
+      return this.chunkPageStructure(page, startingChunkId);
+    }
+
     // Split content into sentences first for better chunk boundaries
     const sentences = this.splitIntoSentences(content);
     
@@ -122,7 +154,7 @@ export class TextChunkingStep extends BaseEnrichmentStep {
       const potentialChunk = currentChunk + (currentChunk ? ' ' : '') + sentence;
       
       // If adding this sentence would exceed max size, finalize current chunk
-      if (potentialChunk.length > this.config.max_chunk_size && currentChunk.length > 0) {
+      if (this.size(potentialChunk) > this.config.max_chunk_size && currentChunk.length > 0) {
         // Create chunk with overlap from previous chunk if applicable
         const chunkContent = this.addOverlapIfNeeded(currentChunk, chunks[chunks.length - 1]);
         
@@ -133,7 +165,8 @@ export class TextChunkingStep extends BaseEnrichmentStep {
             source_url: page.url,
             chunk_index: chunkIndex,
             word_count: this.countWords(chunkContent),
-            created_at: new Date().toISOString()
+            created_at: new Date().toISOString(),
+            language: page.metadata?.language
           }
         });
         
@@ -145,7 +178,7 @@ export class TextChunkingStep extends BaseEnrichmentStep {
     }
     
     // Add the final chunk if it has content
-    if (currentChunk.length >= this.config.min_chunk_size) {
+    if (this.size(currentChunk) >= this.config.min_chunk_size) {
       const chunkContent = this.addOverlapIfNeeded(currentChunk, chunks[chunks.length - 1]);
       
       chunks.push({
@@ -155,7 +188,8 @@ export class TextChunkingStep extends BaseEnrichmentStep {
           source_url: page.url,
           chunk_index: chunkIndex,
           word_count: this.countWords(chunkContent),
-          created_at: new Date().toISOString()
+          created_at: new Date().toISOString(),
+          language: page.metadata?.language
         }
       });
     }
@@ -163,13 +197,32 @@ export class TextChunkingStep extends BaseEnrichmentStep {
     return chunks;
   }
 
+  /**
+   * Chunks the blocks of an HTML page, recording each chunk's heading path
+   */
+  private chunkPageStructure(page: CrawledPage, startingChunkId: number): TextChunk[] {
+    return chunkBlocks(page.blocks!, this.config).map((chunk, chunkIndex) => ({
+      id: `${startingChunkId + chunkIndex}`,
+      content: chunk.content,
+      metadata: {
+        source_url: page.url,
+        chunk_index: chunkIndex,
+        word_count: this.countWords(chunk.content),
+        created_at: new Date().toISOString(),
+        language: page.metadata?.language,
+        ...(chunk.heading_path.length > 0 ? { heading_path: chunk.heading_path } : {})
+      }
+    }));
+  }
+
   /**
    * Splits text into sentences using basic punctuation rules
    */
   private splitIntoSentences(text: string): string[] {
-    // Basic sentence splitting - can be improved with more sophisticated NLP
+    // Basic sentence splitting - can be improved with more sophisticated NLP.
+    // Japanese and Chinese end sentences with full-width punctuation.
     const sentences = text
-      .split(/[.!?]+/)
+      .split(/[.!?。！？]+/)
       .map(sentence => sentence.trim())
       .filter(sentence => sentence.length > 0);
     
@@ -184,17 +237,22 @@ export class TextChunkingStep extends BaseEnrichmentStep {
       return currentContent;
     }
 
-    // Get the last N characters from previous chunk for overlap
-    const previousContent = previousChunk.content;
-    const overlapText = previousContent.slice(-this.config.overlap_size);
-    
-    // Find a good break point (word boundary) for the overlap
-    const wordBoundaryIndex = overlapText.lastIndexOf(' ');
-    const cleanOverlap = wordBoundaryIndex > 0 ? 
-      overlapText.slice(wordBoundaryIndex + 1) : 
-      overlapText;
+    // Take whole words from the end of the previous chunk up to the overlap size
+    const words = previousChunk.content.split(/\s+/);
+    let start = words.length;
+    while (start > 0 && this.size(words.slice(start - 1).join(' ')) <= this.config.overlap_size) {
+      start--;
+    }
+    const overlap = words.slice(start).join(' ');
 
-    return cleanOverlap + ' ' + currentContent;
+    return overlap ? overlap + ' ' + currentContent : currentContent;
+  }
+
+  /**
+   * Size of a text in the unit of the chunking config
+   */
+  private size(text: string): number {
+    return textSize(text, this.config.model);
   }
 
   /**
@@ -211,7 +269,7 @@ export class TextChunkingStep extends BaseEnrichmentStep {
     const content = chunk.content.trim();
     
     // Check minimum length
-    if (content.length < this.config.min_chunk_size) {
+    if (this.size(content) < this.config.min_chunk_size) {
       return false;
     }
     
@@ -250,9 +308,9 @@ export class TextChunkingStep extends BaseEnrichmentStep {
       // Try to merge with next chunk if both are small
       while (
         i + 1 < chunks.length &&
-        currentChunk.content.length < this.config.max_chunk_size * 0.7 &&
-        chunks[i + 1].content.length < this.config.max_chunk_size * 0.7 &&
-        currentChunk.content.length + chunks[i + 1].content.length <= this.config.max_chunk_size
+        this.size(currentChunk.content) < this.config.max_chunk_size * 0.7 &&
+        this.size(chunks[i + 1].content) < this.config.max_chunk_size * 0.7 &&
+        this.size(currentChunk.content) + this.size(chunks[i + 1].content) <= this.config.max_chunk_size
       ) {
         const nextChunk = chunks[i + 1];
         
@@ -1,8 +1,43 @@
 import { BaseEnrichmentStep } from '../base-enrichment-step';
-import { EnrichmentContext, CrawledPage, CrawlerConfig } from '../../types/enrichment';
+import { EnrichmentContext, EnrichmentJob, CrawledPage, CrawlerConfig, CrawlScope, CacheStatus } from '../../types/enrichment';
 import { generateCrawlUrl, isDomainCrawlable } from '../../utils/domain-validator';
+import { RobotsPolicy } from '../robots-txt';
+import { SitemapDiscovery } from '../sitemap-discovery';
+import { PdfDocumentExtractor } from '../pdf-document-extractor';
+import { HeadlessRenderer, assessRenderNeed } from '../headless-renderer';
+import { extractPageContent } from '../content-extractor';
+import { extractTables } from '../table-extractor';
+import { CrawlScopeMatcher, resolveCrawlScope } from '../crawl-scope';
+import { CrawlCache, hashContent } from '../crawl-cache';
+import { MAX_WARC_BYTES, WarcWriter, readWarc, replayPages } from '../warc-archive';
+import { CrawlArchiveRepository } from '../../repositories/crawl-archive-repository';
+import { CrawlScheduler, CrawlSchedulerConfig } from '../crawl-scheduler';
+import { safeFetch } from '../safe-fetch';
+import { HIGH_PRIORITY_KEYWORDS, MEDIUM_PRIORITY_KEYWORDS } from '../crawl-keywords';
+import { pageLanguage, languageAlternates, englishAlternate } from '../language-detection';
 import * as cheerio from 'cheerio';
 
+// Keywords of all languages, since paths and link texts may differ in language
+const HIGH_PRIORITY_TERMS = Object.values(HIGH_PRIORITY_KEYWORDS).flat();
+const MEDIUM_PRIORITY_TERMS = Object.values(MEDIUM_PRIORITY_KEYWORDS).flat();
+
+// Seed URLs, starting with the home page, are always crawled first
+const START_URL_PRIORITY = Number.MAX_SAFE_INTEGER;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Anything else is refused by safeFetch before its body is downloaded
+const CRAWLABLE_CONTENT_TYPES = ['text/html', 'application/pdf'];
+const MAX_REDIRECTS = 5;
+
+// Minimum time between two writes of the scheduler stats to the job
+const STATS_WRITE_INTERVAL_MS = 5000;
+
+interface FrontierEntry {
+  url: string;
+  priority: number;
+}
+
 /**
  * Web Crawler Step
  * 
@@ -12,6 +47,24 @@ import * as cheerio from 'cheerio';
 
 export class WebCrawlerStep extends BaseEnrichmentStep {
   private config: CrawlerConfig;
+  private robots: RobotsPolicy;
+  private sitemaps: SitemapDiscovery;
+  private useSitemaps: boolean;
+  private pdfExtractor: PdfDocumentExtractor;
+  private maxPdfBytes: number;
+  private renderer: HeadlessRenderer;
+  private renderJavaScript: boolean;
+  private maxRenderedPages: number;
+  private renderedPages = 0;
+  private cache: CrawlCache;
+  private useCache: boolean;
+  private archives: CrawlArchiveRepository;
+  private archiveCrawls: boolean;
+  private maxArchiveBytes: number;
+  private archive: WarcWriter | null = null;
+  private schedulerConfig: CrawlSchedulerConfig;
+  private scheduler: CrawlScheduler;
+  private statsWrittenAt = 0;
   private currentJobId: string | null = null;
 
   constructor(jobRepository: any) {
@@ -25,6 +78,37 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
       user_agent: process.env.CRAWLER_USER_AGENT || 'Resilion-Enrichment-Bot/1.0',
       respect_robots_txt: process.env.CRAWLER_RESPECT_ROBOTS === 'true'
     };
+
+    this.robots = new RobotsPolicy(this.config.user_agent, { timeout_ms: this.config.timeout_ms });
+    this.sitemaps = new SitemapDiscovery({
+      user_agent: this.config.user_agent,
+      timeout_ms: this.config.timeout_ms
+    });
+    this.useSitemaps = process.env.CRAWLER_USE_SITEMAPS !== 'false';
+    this.pdfExtractor = new PdfDocumentExtractor();
+    this.maxPdfBytes = parseInt(process.env.CRAWLER_MAX_PDF_BYTES || String(25 * 1024 * 1024));
+    this.renderer = new HeadlessRenderer({
+      user_agent: this.config.user_agent,
+      timeout_ms: this.config.timeout_ms
+    });
+    this.renderJavaScript = process.env.CRAWLER_RENDER_JS !== 'false';
+    this.maxRenderedPages = parseInt(process.env.CRAWLER_MAX_RENDERED_PAGES || '10');
+    this.cache = new CrawlCache();
+    this.useCache = process.env.CRAWLER_USE_CACHE !== 'false';
+    this.archives = new CrawlArchiveRepository();
+    this.archiveCrawls = process.env.CRAWLER_ARCHIVE_WARC !== 'false';
+    this.maxArchiveBytes = parseInt(process.env.CRAWLER_MAX_WARC_BYTES || String(MAX_WARC_BYTES));
+    this.schedulerConfig = {
+      max_concurrency: parseInt(process.env.CRAWLER_MAX_CONCURRENCY || '4'),
+      max_concurrency_per_host: parseInt(process.env.CRAWLER_HOST_CONCURRENCY || '2'),
+      min_delay_ms: this.config.delay_ms,
+      max_delay_ms: parseInt(process.env.CRAWLER_MAX_DELAY_MS || '60000'),
+      max_retries: parseInt(process.env.CRAWLER_MAX_RETRIES || '3'),
+      retry_base_delay_ms: parseInt(process.env.CRAWLER_RETRY_BASE_DELAY_MS || '1000'),
+      time_budget_ms: parseInt(process.env.CRAWLER_TIME_BUDGET_MS || String(10 * 60 * 1000)),
+      byte_budget: parseInt(process.env.CRAWLER_BYTE_BUDGET || String(200 * 1024 * 1024))
+    };
+    this.scheduler = new CrawlScheduler(this.schedulerConfig);
   }
 
   get name(): string {
@@ -49,6 +133,7 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
       
       // Set current job ID for database logging
       this.currentJobId = job.id;
+      this.renderedPages = 0;
       
       // Update step status to running
       await this.updateStepStatus(job.id, 'crawling_status', 'running');
@@ -61,22 +146,12 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
       }
       console.log(`[WebCrawlerStep] Domain ${job.domain} is crawlable`);
 
-      // Check robots.txt if configured
-      if (this.config.respect_robots_txt) {
-        console.log(`[WebCrawlerStep] Checking robots.txt for ${job.domain}`);
-        const robotsAllowed = await this.checkRobotsTxt(job.domain);
-        if (!robotsAllowed) {
-          console.log(`[WebCrawlerStep] Crawling not allowed by robots.txt for ${job.domain}`);
-          throw new Error(`Crawling not allowed by robots.txt for ${job.domain}`);
-        }
-        console.log(`[WebCrawlerStep] Robots.txt allows crawling for ${job.domain}`);
-      } else {
-        console.log(`[WebCrawlerStep] Skipping robots.txt check (disabled)`);
-      }
-
-      // Crawl the domain
-      console.log(`[WebCrawlerStep] Starting domain crawl for ${job.domain}`);
-      const crawledPages = await this.crawlDomain(job.domain);
+      // A replay reads the archived crawl of an earlier job instead of the network
+      const replayJobId: string | undefined = job.metadata?.replay_job_id;
+      const scope = resolveCrawlScope(job.domain, job.metadata);
+      const crawledPages = replayJobId
+        ? await this.replayCrawl(replayJobId, job.domain)
+        : await this.crawlLive(job, scope);
       console.log(`[WebCrawlerStep] Crawled ${crawledPages.length} pages for ${job.domain}`);
 
       // Update progress
@@ -96,6 +171,9 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
           crawling: {
             pages_found: crawledPages.length,
             total_content_length: crawledPages.reduce((sum, page) => sum + page.content.length, 0),
+            scope,
+            replayed_from: replayJobId,
+            scheduler: replayJobId ? undefined : this.scheduler.stats(),
             completed_at: new Date().toISOString()
           }
         }
@@ -114,41 +192,172 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
   }
 
   /**
-   * Crawls the domain and returns extracted pages
+   * Crawls the job's domain over the network within its crawl scope and
+   * archives every fetched response as a WARC file
+   */
+  private async crawlLive(job: EnrichmentJob, scope: CrawlScope): Promise<CrawledPage[]> {
+    // Check robots.txt if configured
+    if (this.config.respect_robots_txt) {
+      console.log(`[WebCrawlerStep] Checking robots.txt for ${job.domain}`);
+      const startUrl = generateCrawlUrl(job.domain);
+      const decision = await this.robots.check(startUrl, this.currentJobId || undefined);
+      if (!decision.allowed) {
+        console.log(`[WebCrawlerStep] Crawling not allowed by robots.txt for ${job.domain}: ${decision.reason}`);
+        await this.logSkippedUrl(startUrl, decision.reason || 'Disallowed by robots.txt');
+        throw new Error(`Crawling not allowed by robots.txt for ${job.domain}`);
+      }
+      console.log(`[WebCrawlerStep] Robots.txt allows crawling for ${job.domain}`);
+    } else {
+      console.log(`[WebCrawlerStep] Skipping robots.txt check (disabled)`);
+    }
+
+    // Crawl the domain within the job's scope
+    console.log(`[WebCrawlerStep] Starting domain crawl for ${job.domain} with scope:`, scope);
+
+    this.archive = this.archiveCrawls
+      ? new WarcWriter({ 'job-id': job.id, domain: job.domain }, { max_bytes: this.maxArchiveBytes })
+      : null;
+    this.scheduler = new CrawlScheduler(this.schedulerConfig);
+    this.statsWrittenAt = 0;
+    try {
+      return await this.crawlDomain(job.domain, scope);
+    } finally {
+      await this.saveCrawlStats(true);
+      await this.saveArchive(job.id);
+    }
+  }
+
+  /**
+   * Rebuilds the pages of an earlier job from its WARC archive, without
+   * robots.txt, sitemaps, the crawl cache or the headless browser
    */
-  private async crawlDomain(domain: string): Promise<CrawledPage[]> {
+  private async replayCrawl(sourceJobId: string, domain: string): Promise<CrawledPage[]> {
+    const warc = await this.archives.get(sourceJobId);
+    if (!warc) {
+      throw new Error(`No crawl archive for job ${sourceJobId}`);
+    }
+
+    console.log(`[WebCrawlerStep] Replaying crawl of job ${sourceJobId} (${warc.byteLength} bytes)`);
     const crawledPages: CrawledPage[] = [];
-    const visitedUrls = new Set<string>();
-    const urlsToVisit = [generateCrawlUrl(domain)];
 
-    while (urlsToVisit.length > 0 && crawledPages.length < this.config.max_pages) {
-      const url = urlsToVisit.shift()!;
-      
-      if (visitedUrls.has(url)) {
+    for (const archived of replayPages(readWarc(warc, this.maxArchiveBytes))) {
+      if (archived.status_code < 200 || archived.status_code >= 300 || crawledPages.length >= this.config.max_pages) {
         continue;
       }
 
-      visitedUrls.add(url);
+      let page: CrawledPage;
+      if (archived.content_type.includes('application/pdf')) {
+        page = await this.pdfExtractor.extract(archived.url, new Uint8Array(archived.body), domain, archived.status_code);
+      } else if (archived.rendered_html) {
+        const rendered = this.buildHtmlPage(archived.url, archived.rendered_html, archived.status_code, archived.content_type);
+        page = { ...rendered, metadata: { ...rendered.metadata, fetch_mode: 'rendered', render_reason: `Replayed rendered DOM from job ${sourceJobId}` } };
+      } else if (archived.content_type.includes('text/html')) {
+        page = this.buildHtmlPage(archived.url, archived.body.toString('utf8'), archived.status_code, archived.content_type);
+      } else {
+        continue;
+      }
+
+      page = this.withCacheStatus(page, hashContent(archived.body));
+      crawledPages.push(page);
+      await this.logCrawledPage(page, this.scoreUrl(page.url));
+    }
+
+    return crawledPages;
+  }
+
+  /**
+   * Stores the WARC file of the crawl that just finished
+   */
+  private async saveArchive(jobId: string): Promise<void> {
+    if (!this.archive) return;
+
+    const archive = this.archive;
+    this.archive = null;
+    try {
+      const warc = archive.toBuffer();
+      await this.archives.save(jobId, warc, archive.recordCount);
+      console.log(`[WebCrawlerStep] Archived ${archive.recordCount} WARC records (${warc.byteLength} bytes) for job ${jobId}`);
+      if (archive.droppedRecords > 0) {
+        console.warn(`[WebCrawlerStep] Crawl archive for job ${jobId} reached ${this.maxArchiveBytes} bytes, left out the last ${archive.droppedRecords} records`);
+      }
+    } catch (error) {
+      console.warn(`[WebCrawlerStep] Failed to store crawl archive for job ${jobId}:`, error);
+    }
+  }
+
+  /**
+   * Crawls the domain and returns extracted pages. Seed URLs and the URLs
+   * found in links and sitemaps share one frontier that is visited highest
+   * priority first; URLs outside the job's crawl scope are never queued.
+   */
+  private async crawlDomain(domain: string, scope: CrawlScope): Promise<CrawledPage[]> {
+    const crawledPages: CrawledPage[] = [];
+    const visitedUrls = new Set<string>();
+    const startUrl = generateCrawlUrl(domain);
+    const matcher = new CrawlScopeMatcher(scope);
+    // Insertion order breaks priority ties, so earlier discoveries win
+    const frontier = new Map<string, number>(scope.seed_urls.map(url => [url, START_URL_PRIORITY] as [string, number]));
+
+    const enqueue = ({ url, priority }: FrontierEntry) => {
+      if (visitedUrls.has(url) || !matcher.isInScope(url)) return;
+      if ((frontier.get(url) ?? -1) < priority) {
+        frontier.set(url, priority);
+      }
+    };
+
+    if (this.useSitemaps) {
+      for (const entry of await this.discoverSitemapUrls(startUrl, domain)) {
+        enqueue(entry);
+      }
+    }
 
+    const visit = async ({ url, priority }: FrontierEntry): Promise<void> => {
       try {
-        // Add delay between requests
-        if (crawledPages.length > 0) {
-          await this.delay(this.config.delay_ms);
+        // Consult robots.txt for every URL before fetching it
+        if (this.config.respect_robots_txt) {
+          const decision = await this.robots.check(url, this.currentJobId || undefined);
+          if (!decision.allowed) {
+            console.log(`[WebCrawlerStep] Skipping ${url}: ${decision.reason}`);
+            await this.logSkippedUrl(url, decision.reason || 'Disallowed by robots.txt');
+            return;
+          }
+        }
+
+        const page = await this.crawlPage(url, domain, matcher);
+        if (page && page.url !== url) {
+          // A redirect target is not crawled again under its own URL
+          visitedUrls.add(page.url);
+          frontier.delete(page.url);
+        }
+        if (page?.rawHtml) {
+          // Other language versions of the page are not crawled, and a page
+          // that is not in English gives way to its English version
+          const alternates = languageAlternates(page.rawHtml, page.url);
+          const englishUrl = englishAlternate(alternates);
+          for (const alternate of alternates) {
+            if (alternate.url !== url && alternate.url !== englishUrl) {
+              visitedUrls.add(alternate.url);
+              frontier.delete(alternate.url);
+            }
+          }
+
+          if (englishUrl && englishUrl !== url && page.metadata.language !== 'en' && matcher.isInScope(englishUrl)) {
+            console.log(`[WebCrawlerStep] Crawling English variant ${englishUrl} instead of ${url}`);
+            enqueue({ url: englishUrl, priority });
+            await this.logSkippedUrl(url, `English variant available at ${englishUrl}`);
+            return;
+          }
         }
 
-        const page = await this.crawlPage(url);
-        if (page) {
+        if (page && crawledPages.length < this.config.max_pages) {
           crawledPages.push(page);
           
           // Log crawled page to database for observability
-          await this.logCrawledPage(page, 1); // Default priority for now
+          await this.logCrawledPage(page, priority === START_URL_PRIORITY ? this.scoreUrl(url) : priority);
           
           // Extract additional URLs from the page using raw HTML
-          const additionalUrls = this.extractUrls(page.rawHtml || page.content, domain);
-          for (const additionalUrl of additionalUrls) {
-            if (!visitedUrls.has(additionalUrl) && !urlsToVisit.includes(additionalUrl)) {
-              urlsToVisit.push(additionalUrl);
-            }
+          for (const entry of this.extractUrls(page.rawHtml || page.content, page.url, matcher)) {
+            enqueue(entry);
           }
         }
 
@@ -159,83 +368,171 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
         await this.logFailedCrawl(url, error instanceof Error ? error.message : 'Unknown error');
         
         // Continue with other URLs
+      } finally {
+        await this.saveCrawlStats(false);
+      }
+    };
+
+    // Visits run concurrently up to the scheduler's limits. The next URL is
+    // the highest-priority one whose host has a free slot; when none does,
+    // the loop waits for a visit to finish, which may also add URLs.
+    const inFlight = new Map<Promise<void>, string>();
+    const hostLoad = (host: string) => [...inFlight.values()].filter(active => active === host).length;
+
+    while (crawledPages.length < this.config.max_pages) {
+      const exhausted = this.scheduler.budgetExhausted();
+      if (exhausted) {
+        console.log(`[WebCrawlerStep] Stopping crawl of ${domain}: ${exhausted}`);
+        break;
+      }
+
+      const next = inFlight.size < this.scheduler.maxConcurrency && crawledPages.length + inFlight.size < this.config.max_pages
+        ? this.nextFromFrontier(frontier, url => hostLoad(new URL(url).host) < this.scheduler.maxConcurrencyPerHost)
+        : null;
+
+      if (!next) {
+        if (inFlight.size === 0) break;
+        await Promise.race(inFlight.keys());
+        continue;
       }
+
+      if (visitedUrls.has(next.url)) {
+        continue;
+      }
+
+      visitedUrls.add(next.url);
+      const visiting: Promise<void> = visit(next).finally(() => inFlight.delete(visiting));
+      inFlight.set(visiting, new URL(next.url).host);
     }
 
+    await Promise.all(inFlight.keys());
+
     return crawledPages;
   }
 
   /**
-   * Crawls a single page
+   * Removes and returns the highest-priority URL of the frontier that
+   * passes the filter, or null if there is none
+   */
+  private nextFromFrontier(frontier: Map<string, number>, isReady: (url: string) => boolean): FrontierEntry | null {
+    let next: FrontierEntry | null = null;
+    for (const [url, priority] of frontier) {
+      if ((!next || priority > next.priority) && isReady(url)) {
+        next = { url, priority };
+      }
+    }
+    if (next) {
+      frontier.delete(next.url);
+    }
+    return next;
+  }
+
+  /**
+   * URLs listed in the site's sitemaps, scored by their path. The frontier
+   * drops those outside the crawl scope.
    */
-  private async crawlPage(url: string): Promise<CrawledPage | null> {
+  private async discoverSitemapUrls(startUrl: string, domain: string): Promise<FrontierEntry[]> {
+    try {
+      const robotsSitemaps = await this.robots.getSitemaps(startUrl, this.currentJobId || undefined);
+      const urls = await this.sitemaps.discover(startUrl, robotsSitemaps, this.currentJobId || undefined);
+
+      return urls.map(url => ({ url, priority: this.scoreUrl(url) }));
+    } catch (error) {
+      console.warn(`[WebCrawlerStep] Sitemap discovery failed for ${domain}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Crawls a single page; PDFs are extracted page by page. HTML pages in the
+   * crawl cache are revalidated with a conditional request. Requests go
+   * through the crawl scheduler; a redirect target is admitted like a
+   * discovered link, and fetched with its own host's delay. The page and its
+   * cache entry belong to the final URL, and the cached body of the URL that
+   * redirected is not revalidated against the target.
+   */
+  private async crawlPage(url: string, domain: string, matcher: CrawlScopeMatcher): Promise<CrawledPage | null> {
     try {
       console.log(`[WebCrawlerStep] Attempting to crawl: ${url}`);
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.config.timeout_ms);
-
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': this.config.user_agent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-        },
-        signal: controller.signal,
-        redirect: 'follow' // Follow redirects automatically (default behavior)
-      });
-
-      clearTimeout(timeoutId);
-      console.log(`[WebCrawlerStep] Response received for ${url}: ${response.status} ${response.statusText}`);
+      const { cached, headers: conditionalHeaders } = this.useCache
+        ? await this.cache.lookup(url)
+        : { cached: null, headers: {} };
+      const baseHeaders: Record<string, string> = {
+        'User-Agent': this.config.user_agent,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        'Accept-Encoding': 'gzip, deflate',
+        'Connection': 'keep-alive',
+        'Upgrade-Insecure-Requests': '1',
+      };
+      let requestHeaders: Record<string, string> = { ...baseHeaders, ...conditionalHeaders };
+
+      let target = url;
+      let response: Response;
+      for (let redirects = 0; ; redirects++) {
+        const requestUrl = target;
+        const minDelayMs = await this.getRequestDelay(requestUrl);
+        response = await this.scheduler.fetch(requestUrl, () => this.fetchOnce(requestUrl, requestHeaders), minDelayMs);
+
+        const location = REDIRECT_STATUSES.has(response.status) ? response.headers.get('location') : null;
+        if (!location) break;
+
+        this.recordResponse(requestUrl, requestHeaders, response, new Uint8Array(await response.arrayBuffer()));
+        target = new URL(location, requestUrl).href;
+        requestHeaders = baseHeaders;
+        const refusal = await this.refuseRedirect(requestUrl, target, matcher);
+        if (refusal) {
+          console.log(`[WebCrawlerStep] Not following redirect from ${url} to ${target}: ${refusal}`);
+          await this.logSkippedUrl(url, `Redirects to ${target}: ${refusal}`);
+          return null;
+        }
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error(`Too many redirects (last: ${target})`);
+        }
+      }
+
+      console.log(`[WebCrawlerStep] Response received for ${target}: ${response.status} ${response.statusText}`);
+
+      if (response.status === 304 && cached && target === url) {
+        console.log(`[WebCrawlerStep] ${url} not modified, using cached body`);
+        await this.cache.revalidated(url);
+        this.recordResponse(target, requestHeaders, response, new Uint8Array(0));
+        this.archive?.addResource(target, cached.body, cached.content_type || 'text/html', 'crawl-cache');
+        const page = this.buildHtmlPage(url, cached.body, 200, cached.content_type || 'text/html');
+        return this.withCacheStatus(await this.renderIfNeeded(page, cached.body), cached.content_hash, 'unchanged');
+      }
 
       if (!response.ok) {
+        this.recordResponse(target, requestHeaders, response, new Uint8Array(await response.arrayBuffer()));
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
       const contentType = response.headers.get('content-type') || '';
-      console.log(`[WebCrawlerStep] Content-Type for ${url}: ${contentType}`);
+      console.log(`[WebCrawlerStep] Content-Type for ${target}: ${contentType}`);
+
+      if (contentType.includes('application/pdf')) {
+        return await this.crawlPdf(target, response, domain, payload => this.recordResponse(target, requestHeaders, response, payload));
+      }
       
       if (!contentType.includes('text/html')) {
-        console.log(`[WebCrawlerStep] Skipping non-HTML content for ${url}`);
+        console.log(`[WebCrawlerStep] Skipping non-HTML content for ${target}`);
         return null; // Skip non-HTML content
       }
 
-      const html = await response.text();
-      console.log(`[WebCrawlerStep] HTML content length for ${url}: ${html.length} characters`);
-      
-      const $ = cheerio.load(html);
+      const body = new Uint8Array(await response.arrayBuffer());
+      this.recordResponse(target, requestHeaders, response, body);
+      const html = new TextDecoder().decode(body);
+      console.log(`[WebCrawlerStep] HTML content length for ${target}: ${html.length} characters`);
 
-      // Extract title
-      const title = $('title').text().trim() || 'Untitled';
-      console.log(`[WebCrawlerStep] Page title for ${url}: "${title}"`);
+      const page = await this.renderIfNeeded(this.buildHtmlPage(target, html, response.status, contentType), html);
 
-      // Create a copy for content extraction (remove scripts, styles, etc.)
-      const $content = cheerio.load(html);
-      $content('script, style, nav, header, footer, aside, .nav, .navigation, .menu').remove();
-      
-      // Get text content
-      const content = $content('body').text()
-        .replace(/\s+/g, ' ')
-        .trim();
-
-      // Calculate word count
-      const wordCount = content.split(/\s+/).filter((word: string) => word.length > 0).length;
-      console.log(`[WebCrawlerStep] Extracted content for ${url}: ${content.length} chars, ${wordCount} words`);
+      if (!this.useCache) {
+        return this.withCacheStatus(page, hashContent(html));
+      }
 
-      return {
-        url,
-        title,
-        content,
-        rawHtml: html, // Store raw HTML for URL extraction
-        metadata: {
-          crawled_at: new Date().toISOString(),
-          status_code: response.status,
-          content_type: contentType,
-          word_count: wordCount
-        }
-      };
+      const previous = target === url ? cached : (await this.cache.lookup(target)).cached;
+      const { content_hash, cache_status } = await this.cache.store(target, html, response, previous);
+      return this.withCacheStatus(page, content_hash, cache_status);
 
     } catch (error) {
       console.error(`[WebCrawlerStep] Error crawling ${url}:`, error);
@@ -246,31 +543,148 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
     }
   }
 
+  /**
+   * Extracts title, main content and boilerplate blocks from an HTML document
+   */
+  private buildHtmlPage(url: string, html: string, statusCode: number, contentType: string): CrawledPage {
+    const { title, content, blocks } = extractPageContent(html);
+    console.log(`[WebCrawlerStep] Page title for ${url}: "${title}"`);
+
+    // Calculate word count
+    const wordCount = content.split(/\s+/).filter((word: string) => word.length > 0).length;
+    console.log(`[WebCrawlerStep] Extracted content for ${url}: ${content.length} chars, ${wordCount} words`);
+
+    const tables = extractTables(html);
+
+    return {
+      url,
+      title,
+      content,
+      rawHtml: html, // Store raw HTML for URL extraction
+      blocks,
+      ...(tables.length > 0 ? { tables } : {}),
+      metadata: {
+        crawled_at: new Date().toISOString(),
+        status_code: statusCode,
+        content_type: contentType,
+        word_count: wordCount,
+        fetch_mode: 'static',
+        language: pageLanguage(html, content) || undefined
+      }
+    };
+  }
+
+  /**
+   * Re-renders near-empty or script-only pages in the headless browser,
+   * within the per-job render budget. The decision is kept on the page so
+   * it ends up in the crawl log.
+   */
+  private async renderIfNeeded(page: CrawledPage, html: string): Promise<CrawledPage> {
+    if (!this.renderJavaScript) {
+      return page;
+    }
+
+    const decision = assessRenderNeed(html, page.content);
+    if (!decision.render) {
+      return { ...page, metadata: { ...page.metadata, render_reason: decision.reason } };
+    }
+
+    if (this.renderedPages >= this.maxRenderedPages) {
+      console.log(`[WebCrawlerStep] Not rendering ${page.url}: render limit of ${this.maxRenderedPages} pages reached`);
+      return {
+        ...page,
+        metadata: { ...page.metadata, render_reason: `${decision.reason}; render limit of ${this.maxRenderedPages} pages reached` }
+      };
+    }
+
+    this.renderedPages++;
+    console.log(`[WebCrawlerStep] Rendering ${page.url} in headless browser: ${decision.reason}`);
+
+    try {
+      const rendered = await this.renderer.render(page.url, this.currentJobId || undefined);
+      this.archive?.addResource(page.url, rendered.html, 'text/html', 'headless-render');
+      const renderedPage = this.buildHtmlPage(page.url, rendered.html, rendered.status_code, page.metadata.content_type);
+
+      return {
+        ...renderedPage,
+        metadata: { ...renderedPage.metadata, fetch_mode: 'rendered', render_reason: decision.reason }
+      };
+    } catch (error) {
+      console.warn(`[WebCrawlerStep] Rendering failed for ${page.url}, keeping static HTML:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        ...page,
+        metadata: { ...page.metadata, render_reason: `${decision.reason}; rendering failed: ${message}` }
+      };
+    }
+  }
+
+  /**
+   * Downloads a PDF and extracts its text with page numbers
+   */
+  private async crawlPdf(url: string, response: Response, domain: string, onPayload: (data: Uint8Array) => void): Promise<CrawledPage | null> {
+    const declaredLength = parseInt(response.headers.get('content-length') || '0');
+    if (declaredLength > this.maxPdfBytes) {
+      console.log(`[WebCrawlerStep] Skipping PDF ${url}: ${declaredLength} bytes exceeds limit`);
+      return null;
+    }
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    onPayload(data);
+    if (data.byteLength > this.maxPdfBytes) {
+      console.log(`[WebCrawlerStep] Skipping PDF ${url}: ${data.byteLength} bytes exceeds limit`);
+      return null;
+    }
+
+    const page = await this.pdfExtractor.extract(url, data, domain, response.status);
+    console.log(`[WebCrawlerStep] Extracted PDF ${url}: ${page.document?.page_count} pages, ${page.document?.sections.length} sections, ${page.metadata.word_count} words`);
+
+    // PDF bodies are not cached, but the hash still lets an unchanged
+    // document reuse the facts of an earlier crawl
+    return this.withCacheStatus(page, hashContent(data));
+  }
+
+  /**
+   * Single GET without following redirects, refused for non-public hosts,
+   * unexpected content types and bodies over the PDF size limit
+   */
+  private fetchOnce(url: string, headers: Record<string, string>): Promise<Response> {
+    return safeFetch(url, { headers }, {
+      max_redirects: 0,
+      max_bytes: this.maxPdfBytes,
+      allowed_content_types: CRAWLABLE_CONTENT_TYPES,
+      timeout_ms: this.config.timeout_ms,
+      job_id: this.currentJobId || undefined
+    });
+  }
+
+  /**
+   * Counts a downloaded body against the crawl's byte budget and adds the
+   * fetch to the WARC archive of the running crawl
+   */
+  private recordResponse(url: string, requestHeaders: Record<string, string>, response: Response, payload: Uint8Array): void {
+    this.scheduler.recordBytes(payload.byteLength);
+    this.archive?.addExchange({
+      url,
+      method: 'GET',
+      request_headers: requestHeaders,
+      status_code: response.status,
+      status_text: response.statusText,
+      response_headers: response.headers,
+      payload
+    });
+  }
+
+  private withCacheStatus(page: CrawledPage, contentHash: string, cacheStatus?: CacheStatus): CrawledPage {
+    return { ...page, metadata: { ...page.metadata, content_hash: contentHash, cache_status: cacheStatus } };
+  }
+
   /**
    * Extracts URLs from page content with intelligent prioritization
    */
-  private extractUrls(html: string, domain: string): string[] {
+  private extractUrls(html: string, pageUrl: string, matcher: CrawlScopeMatcher): FrontierEntry[] {
     const $ = cheerio.load(html);
-    const urls: string[] = [];
-    const baseUrl = generateCrawlUrl(domain);
-
-    // High-priority keywords for business information
-    const highPriorityKeywords = [
-      'about', 'company', 'corporate', 'overview',
-      'locations', 'facilities', 'manufacturing', 'plants', 'offices',
-      'products', 'services', 'solutions', 'business',
-      'investors', 'sustainability', 'responsibility',
-      'contact', 'global', 'worldwide', 'international'
-    ];
-
-    // Medium-priority keywords
-    const mediumPriorityKeywords = [
-      'careers', 'jobs', 'team', 'leadership',
-      'news', 'press', 'media', 'announcements',
-      'technology', 'innovation', 'research', 'development'
-    ];
-
-    const prioritizedUrls: Array<{ url: string; priority: number }> = [];
+    const prioritizedUrls: FrontierEntry[] = [];
 
     $('a[href]').each((_, element) => {
       const href = $(element).attr('href');
@@ -282,49 +696,17 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
         if (href.startsWith('http')) {
           fullUrl = href;
         } else if (href.startsWith('/')) {
-          fullUrl = new URL(href, baseUrl).toString();
+          fullUrl = new URL(href, pageUrl).toString();
         } else if (href.startsWith('#') || href.startsWith('mailto:') || href.startsWith('tel:')) {
           return; // Skip anchors and special links
         } else {
-          fullUrl = new URL(href, baseUrl).toString();
+          fullUrl = new URL(href, pageUrl).toString();
         }
 
-        // Only include URLs from the same domain
-        const urlDomain = new URL(fullUrl).hostname.replace(/^www\./, '');
-        const targetDomain = domain.replace(/^www\./, '');
-        
-        if (urlDomain === targetDomain) {
-          // Calculate priority based on URL and link text
+        // Only include URLs within the job's crawl scope
+        if (matcher.isInScope(fullUrl)) {
           const linkText = $(element).text().toLowerCase();
-          const urlPath = new URL(fullUrl).pathname.toLowerCase();
-          const combinedText = `${urlPath} ${linkText}`;
-
-          let priority = 0;
-
-          // Check for high-priority keywords
-          for (const keyword of highPriorityKeywords) {
-            if (combinedText.includes(keyword)) {
-              priority += 10;
-              break; // Only count once per category
-            }
-          }
-
-          // Check for medium-priority keywords
-          if (priority === 0) {
-            for (const keyword of mediumPriorityKeywords) {
-              if (combinedText.includes(keyword)) {
-                priority += 5;
-                break;
-              }
-            }
-          }
-
-          // Default priority for other pages
-          if (priority === 0) {
-            priority = 1;
-          }
-
-          prioritizedUrls.push({ url: fullUrl, priority });
+          prioritizedUrls.push({ url: fullUrl, priority: this.scoreUrl(fullUrl, linkText) });
         }
 
       } catch (error) {
@@ -332,57 +714,99 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
       }
     });
 
-    // Sort by priority (highest first) and extract URLs
-    const sortedUrls = prioritizedUrls
-      .sort((a, b) => b.priority - a.priority)
-      .map(item => item.url);
-
-    // Remove duplicates while preserving priority order
-    const uniqueUrls = [...new Set(sortedUrls)];
+    // Sort by priority (highest first), keeping the best score of each URL
+    const uniqueUrls = new Map<string, FrontierEntry>();
+    for (const entry of prioritizedUrls.sort((a, b) => b.priority - a.priority)) {
+      if (!uniqueUrls.has(entry.url)) {
+        uniqueUrls.set(entry.url, entry);
+      }
+    }
 
-    console.log(`[WebCrawlerStep] Found ${uniqueUrls.length} unique URLs, prioritized by business relevance`);
+    console.log(`[WebCrawlerStep] Found ${uniqueUrls.size} unique URLs, prioritized by business relevance`);
     
-    return uniqueUrls;
+    return [...uniqueUrls.values()];
+  }
+
+  /**
+   * Scores a URL by business relevance of its path and, for links, the link text
+   */
+  private scoreUrl(url: string, linkText = ''): number {
+    const combinedText = `${this.decodedPath(url)} ${linkText}`;
+
+    // Check for high-priority keywords
+    if (HIGH_PRIORITY_TERMS.some(keyword => combinedText.includes(keyword))) {
+      return 10;
+    }
+
+    // Check for medium-priority keywords
+    if (MEDIUM_PRIORITY_TERMS.some(keyword => combinedText.includes(keyword))) {
+      return 5;
+    }
+
+    // Default priority for other pages
+    return 1;
   }
 
   /**
-   * Checks robots.txt for crawling permissions
+   * Lower-cased URL path with percent-encoded characters decoded, so
+   * keywords in non-Latin scripts match
    */
-  private async checkRobotsTxt(domain: string): Promise<boolean> {
+  private decodedPath(url: string): string {
+    const path = new URL(url).pathname.toLowerCase();
     try {
-      const robotsUrl = `${generateCrawlUrl(domain)}/robots.txt`;
-      const response = await fetch(robotsUrl, {
-        headers: { 'User-Agent': this.config.user_agent }
-      });
+      return decodeURIComponent(path);
+    } catch {
+      return path;
+    }
+  }
 
-      if (!response.ok) {
-        return true; // If robots.txt doesn't exist, assume crawling is allowed
-      }
+  /**
+   * Why a redirect may not be followed: its target is outside the crawl
+   * scope or disallowed by robots.txt. A redirect that keeps the path, such
+   * as to https or the "www." host, is in scope whenever its host is, so
+   * include patterns do not cut off a seed.
+   */
+  private async refuseRedirect(from: string, to: string, matcher: CrawlScopeMatcher): Promise<string | null> {
+    const samePath = new URL(from).pathname === new URL(to).pathname;
+    if (!matcher.isInScope(to) && !(samePath && matcher.isHostInScope(to))) {
+      return 'outside the crawl scope';
+    }
 
-      const robotsText = await response.text();
-      
-      // Simple robots.txt parsing (basic implementation)
-      const lines = robotsText.split('\n').map(line => line.trim().toLowerCase());
-      let currentUserAgent = '';
-      let disallowed = false;
-
-      for (const line of lines) {
-        if (line.startsWith('user-agent:')) {
-          currentUserAgent = line.substring(11).trim();
-        } else if (line.startsWith('disallow:') && 
-                   (currentUserAgent === '*' || currentUserAgent.includes('resilion'))) {
-          const disallowPath = line.substring(9).trim();
-          if (disallowPath === '/' || disallowPath === '') {
-            disallowed = true;
-          }
-        }
+    if (this.config.respect_robots_txt) {
+      const decision = await this.robots.check(to, this.currentJobId || undefined);
+      if (!decision.allowed) {
+        return decision.reason || 'Disallowed by robots.txt';
       }
+    }
+
+    return null;
+  }
+
+  /**
+   * Delay before the next request: the configured delay or the host's
+   * robots.txt Crawl-delay, whichever is longer
+   */
+  private async getRequestDelay(url: string): Promise<number> {
+    if (!this.config.respect_robots_txt) {
+      return this.config.delay_ms;
+    }
 
-      return !disallowed;
+    const crawlDelayMs = await this.robots.getCrawlDelayMs(url, this.currentJobId || undefined);
+    return Math.max(this.config.delay_ms, crawlDelayMs);
+  }
 
+  /**
+   * Stores the scheduler counters on the job, at most every few seconds
+   * unless forced
+   */
+  private async saveCrawlStats(force: boolean): Promise<void> {
+    if (!this.currentJobId || (!force && Date.now() - this.statsWrittenAt < STATS_WRITE_INTERVAL_MS)) return;
+
+    this.statsWrittenAt = Date.now();
+    try {
+      await this.jobRepository.updateCrawlStats(this.currentJobId, this.scheduler.stats());
     } catch (error) {
-      console.warn(`Failed to check robots.txt for ${domain}:`, error);
-      return true; // Assume allowed if check fails
+      console.warn(`[WebCrawlerStep] Failed to store crawl stats for job ${this.currentJobId}:`, error);
     }
   }
 
@@ -400,15 +824,23 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
       await pool.query(`
         INSERT INTO crawled_pages (
           job_id, url, title, status_code, content_length, 
-          word_count, priority_score, crawled_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          word_count, priority_score, crawled_at, content, content_type,
+          fetch_mode, render_reason, content_hash, cache_status, language
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
         ON CONFLICT (job_id, url) DO UPDATE SET
           title = EXCLUDED.title,
           status_code = EXCLUDED.status_code,
           content_length = EXCLUDED.content_length,
           word_count = EXCLUDED.word_count,
           priority_score = EXCLUDED.priority_score,
-          crawled_at = EXCLUDED.crawled_at
+          crawled_at = EXCLUDED.crawled_at,
+          content = EXCLUDED.content,
+          content_type = EXCLUDED.content_type,
+          fetch_mode = EXCLUDED.fetch_mode,
+          render_reason = EXCLUDED.render_reason,
+          content_hash = EXCLUDED.content_hash,
+          cache_status = EXCLUDED.cache_status,
+          language = EXCLUDED.language
       `, [
         this.currentJobId,
         page.url,
@@ -417,7 +849,15 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
         page.content.length,
         page.metadata.word_count,
         priority,
-        page.metadata.crawled_at
+        page.metadata.crawled_at,
+        // Stored so a resumed job can reuse the crawl
+        page.content,
+        page.metadata.content_type,
+        page.metadata.fetch_mode || 'static',
+        page.metadata.render_reason || null,
+        page.metadata.content_hash || null,
+        page.metadata.cache_status || null,
+        page.metadata.language || null
       ]);
     } catch (error) {
       console.warn(`Failed to log crawled page ${page.url}:`, error);
@@ -458,9 +898,34 @@ export class WebCrawlerStep extends BaseEnrichmentStep {
   }
 
   /**
-   * Utility method for delays
+   * Logs a URL that was deliberately not fetched, with the reason
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async logSkippedUrl(url: string, reason: string): Promise<void> {
+    if (!this.currentJobId) return;
+
+    try {
+      // Use the database pool directly
+      const { getDatabasePool } = await import('../../utils/database');
+      const pool = getDatabasePool();
+
+      await pool.query(`
+        INSERT INTO crawled_pages (
+          job_id, url, status_code, skip_reason, crawled_at
+        ) VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (job_id, url) DO UPDATE SET
+          status_code = EXCLUDED.status_code,
+          skip_reason = EXCLUDED.skip_reason,
+          crawled_at = EXCLUDED.crawled_at
+      `, [
+        this.currentJobId,
+        url,
+        0, // No request was made
+        reason,
+        new Date().toISOString()
+      ]);
+    } catch (error) {
+      console.warn(`Failed to log skipped URL ${url}:`, error);
+      // Don't throw - logging failures shouldn't stop crawling
+    }
   }
 }
@@ -0,0 +1,105 @@
+/**
+ * Structure Chunker
+ *
+ * Chunks an HTML page along its DOM structure instead of its plain text.
+ * The blocks from the content extractor (paragraphs, headings, list items,
+ * table rows) are never split unless a single block exceeds the chunk size,
+ * and a chunk ends where a new section starts once it has reached the
+ * minimum size. Each chunk keeps the heading path of its section; a chunk
+ * that spans several small sections gets the path they share.
+ */
+
+import { ChunkingConfig, PageBlock } from '../types/enrichment';
+import { textSize } from './token-budget';
+
+export interface BlockChunk {
+  content: string;
+  heading_path: string[];
+}
+
+/**
+ * Groups blocks into chunks of at most `max_chunk_size`, in tokens of the
+ * config's model or in characters. Blocks are joined by newlines so rows
+ * and list items stay on their own lines.
+ */
+export function chunkBlocks(blocks: PageBlock[], config: Pick<ChunkingConfig, 'max_chunk_size' | 'min_chunk_size' | 'model'>): BlockChunk[] {
+  const size = (text: string) => textSize(text, config.model);
+  const chunks: BlockChunk[] = [];
+  let parts: string[] = [];
+  let path: string[] | null = null;
+  let length = 0;
+
+  const flush = () => {
+    if (parts.length > 0) {
+      chunks.push({ content: parts.join('\n'), heading_path: path || [] });
+    }
+    parts = [];
+    path = null;
+    length = 0;
+  };
+
+  for (const block of blocks) {
+    const blockPath = block.heading_path || [];
+
+    for (const piece of splitOversized(block.text, config.max_chunk_size, size)) {
+      const pieceSize = size(piece);
+      const newSection = path !== null && !samePath(path, blockPath);
+      const overflows = length + pieceSize + 1 > config.max_chunk_size;
+      if (parts.length > 0 && (overflows || (newSection && length >= config.min_chunk_size))) {
+        flush();
+      }
+
+      path = path === null ? blockPath : commonPrefix(path, blockPath);
+      length += (parts.length > 0 ? 1 : 0) + pieceSize;
+      parts.push(piece);
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+/**
+ * Splits a block longer than the chunk size at sentence ends, and a
+ * sentence longer than the chunk size at word boundaries
+ */
+function splitOversized(text: string, maxSize: number, size: (text: string) => number): string[] {
+  if (size(text) <= maxSize) return [text];
+
+  const sentences = text.split(/(?<=[.!?])\s+|(?<=[。！？])/);
+  const parts = sentences.flatMap(sentence => size(sentence) > maxSize ? sentence.split(/\s+/) : [sentence]);
+  return pack(parts, maxSize, size);
+}
+
+/**
+ * Joins consecutive parts with spaces as long as they fit
+ */
+function pack(parts: string[], maxSize: number, size: (text: string) => number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const part of parts) {
+    const joined = current ? `${current} ${part}` : part;
+    if (current && size(joined) > maxSize) {
+      pieces.push(current);
+      current = part;
+    } else {
+      current = joined;
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((heading, index) => heading === b[index]);
+}
+
+function commonPrefix(a: string[], b: string[]): string[] {
+  const prefix: string[] = [];
+  for (let index = 0; index < Math.min(a.length, b.length) && a[index] === b[index]; index++) {
+    prefix.push(a[index]);
+  }
+  return prefix;
+}
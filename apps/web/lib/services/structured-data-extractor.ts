@@ -0,0 +1,408 @@
+/**
+ * Structured Data Extractor
+ *
+ * Reads schema.org JSON-LD and microdata embedded in crawled HTML
+ * (Organization, Place, LocalBusiness, PostalAddress, GeoCoordinates) and
+ * turns it into site candidates and high-confidence facts without an LLM
+ * call, together with the facility listings found in the page's data
+ * tables. Chunks whose text is fully covered by the structured values can
+ * then skip LLM extraction.
+ */
+
+import * as cheerio from 'cheerio';
+import { CrawledPage, EnrichmentFact, TextChunk } from '../types/enrichment';
+import { OrganizationCandidate, SiteCandidate } from '../types/data-model';
+import { tableSiteCandidates } from './table-extractor';
+
+type SchemaNode = Record<string, any>;
+type CheerioRoot = ReturnType<typeof cheerio.load>;
+
+export interface StructuredContact {
+  name?: string;
+  phone?: string;
+  email?: string;
+  fax?: string;
+  address?: string;
+}
+
+export interface StructuredPageData {
+  url: string;
+  organization?: OrganizationCandidate;
+  sites: SiteCandidate[];
+  contacts: StructuredContact[];
+  values: string[]; // Every text value found, used to decide chunk coverage
+}
+
+// Markup written by the site owner is more reliable than LLM extraction
+const STRUCTURED_CONFIDENCE = 0.95;
+
+// Share of a chunk's words that must appear in structured values to skip the LLM
+const COVERAGE_THRESHOLD = 0.9;
+
+const ORGANIZATION_TYPES = [
+  'Organization', 'Corporation', 'NGO', 'GovernmentOrganization',
+  'EducationalOrganization', 'MedicalOrganization', 'SportsOrganization'
+];
+
+// Types that may carry an address but never describe a site
+const NON_SITE_TYPES = [
+  'PostalAddress', 'GeoCoordinates', 'ContactPoint', 'Person', 'WebSite',
+  'WebPage', 'BreadcrumbList', 'Offer', 'Product', 'ImageObject', 'Event'
+];
+
+// Labels and filler that surround structured values on a page
+const COVERAGE_STOPWORDS = new Set([
+  'the', 'and', 'of', 'in', 'at', 'to', 'for', 'our', 'we', 'is', 'are', 'an', 'on', 'with',
+  'by', 'us', 'contact', 'phone', 'tel', 'telephone', 'fax', 'email', 'mail', 'address',
+  'location', 'locations', 'call', 'visit', 'map', 'directions', 'view', 'more', 'info'
+]);
+
+export class StructuredDataExtractor {
+  /**
+   * Structured data of each page that has any
+   */
+  extractPages(pages: CrawledPage[]): StructuredPageData[] {
+    return pages
+      .map(page => this.extract(page))
+      .filter((data): data is StructuredPageData => data !== null);
+  }
+
+  /**
+   * Structured data of one page, or null if the page has none
+   */
+  extract(page: CrawledPage): StructuredPageData | null {
+    const tableSites = (page.tables || []).flatMap(table => tableSiteCandidates(table, page.url));
+
+    const $ = page.rawHtml ? cheerio.load(page.rawHtml) : null;
+    const nodes = $ ? [...this.collectJsonLd($), ...this.collectMicrodata($)] : [];
+    if (nodes.length === 0 && tableSites.length === 0) return null;
+
+    const data: StructuredPageData = { url: page.url, sites: [], contacts: [], values: [] };
+
+    const organizationNode = nodes.find(node => this.isOrganization(node));
+    if (organizationNode) {
+      data.organization = this.toOrganization(organizationNode, page.url);
+      this.addContacts(organizationNode, data);
+
+      const headquarters = this.toSite(organizationNode, page.url, 'headquarters');
+      if (headquarters) data.sites.push(headquarters);
+    }
+
+    const visited = new Set<SchemaNode>(organizationNode ? [organizationNode] : []);
+    const visit = (node: SchemaNode) => {
+      if (!visited.has(node)) {
+        visited.add(node);
+        if (this.isSite(node)) {
+          const site = this.toSite(node, page.url);
+          if (site) data.sites.push(site);
+          this.addContacts(node, data);
+        }
+      }
+      for (const child of childNodes(node)) {
+        visit(child);
+      }
+    };
+    nodes.forEach(visit);
+    data.sites.push(...tableSites);
+
+    // Only the mapped columns of a table; its other columns still need the LLM
+    data.values = [...collectStrings(nodes), ...tableSites.map(site => site.evidenceText)];
+
+    if (!data.organization && data.sites.length === 0 && data.contacts.length === 0) {
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Facts in the same shape as LLM-extracted location, contact and
+   * company_info facts, marked with extraction_method 'structured'
+   */
+  toFacts(data: StructuredPageData, jobId: string, tier?: number): Omit<EnrichmentFact, 'id' | 'created_at'>[] {
+    const facts: Omit<EnrichmentFact, 'id' | 'created_at'>[] = [];
+    const fact = (factType: string, factData: Record<string, any>, sourceText: string) => {
+      facts.push({
+        job_id: jobId,
+        fact_type: factType,
+        fact_data: { ...compact(factData), extraction_method: 'structured' },
+        confidence_score: STRUCTURED_CONFIDENCE,
+        source_url: data.url,
+        source_text: sourceText.substring(0, 500),
+        validated: false,
+        tier_used: tier
+      });
+    };
+
+    if (data.organization) {
+      const organization = data.organization;
+      fact('company_info', {
+        name: organization.companyName,
+        website: isUrl(organization.website) ? organization.website : undefined
+      }, organization.evidenceText);
+    }
+
+    for (const site of data.sites) {
+      fact('location', {
+        site_name: site.siteName,
+        headquarters: site.siteType === 'headquarters' ? data.organization?.headquartersAddress : undefined,
+        address: site.address,
+        city: site.city,
+        state: site.stateProvince,
+        country: site.country,
+        postal_code: site.postalCode,
+        facility_type: site.siteType,
+        site_purpose: site.sitePurpose,
+        coordinates: site.geoCoordinates
+          ? { lat: site.geoCoordinates.latitude, lng: site.geoCoordinates.longitude }
+          : undefined
+      }, site.evidenceText);
+    }
+
+    for (const contact of data.contacts) {
+      fact('contact', {
+        phone: contact.phone,
+        email: contact.email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(contact.email) ? contact.email : undefined,
+        fax: contact.fax,
+        address: contact.address
+      }, [contact.name, contact.phone, contact.email, contact.address].filter(Boolean).join(', '));
+    }
+
+    return facts;
+  }
+
+  /**
+   * Whether the chunk says nothing beyond the structured data of its page
+   */
+  isChunkCovered(chunk: TextChunk, pages: StructuredPageData[]): boolean {
+    const data = pages.find(page => page.url === chunk.metadata.source_url);
+    if (!data) return false;
+
+    const words = coverageWords(chunk.content);
+    if (words.length === 0) return false;
+
+    const known = new Set(coverageWords(data.values.join(' ')));
+    const covered = words.filter(word => known.has(word)).length;
+    return covered / words.length >= COVERAGE_THRESHOLD;
+  }
+
+  private collectJsonLd($: CheerioRoot): SchemaNode[] {
+    const nodes: SchemaNode[] = [];
+
+    $('script[type="application/ld+json"]').each((_, element) => {
+      const raw = ($(element).html() || '')
+        .replace(/^\s*<!--/, '')
+        .replace(/-->\s*$/, '')
+        .trim();
+      if (!raw) return;
+
+      try {
+        const flatten = (value: any) => {
+          if (Array.isArray(value)) {
+            value.forEach(flatten);
+          } else if (value && typeof value === 'object') {
+            if (Array.isArray(value['@graph'])) {
+              value['@graph'].forEach(flatten);
+            } else {
+              nodes.push(value);
+            }
+          }
+        };
+        flatten(JSON.parse(raw));
+      } catch {
+        // Invalid JSON-LD is common; ignore the block
+      }
+    });
+
+    return nodes;
+  }
+
+  private collectMicrodata($: CheerioRoot): SchemaNode[] {
+    const readItem = (element: any): SchemaNode => {
+      const itemType = $(element).attr('itemtype') || '';
+      const node: SchemaNode = { '@type': itemType.split(/[\s]+/)[0].split('/').pop() || '' };
+
+      $(element).find('[itemprop]').each((_, property) => {
+        // Only direct properties; nested items read their own
+        if ($(property).parent().closest('[itemscope]')[0] !== element) return;
+
+        const value = $(property).is('[itemscope]') ? readItem(property) : this.microdataValue($, property);
+        for (const name of ($(property).attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+          node[name] = node[name] === undefined ? value : [].concat(node[name], value as any);
+        }
+      });
+
+      return node;
+    };
+
+    return $('[itemscope]')
+      .filter((_, element) => !$(element).is('[itemprop]'))
+      .map((_, element) => readItem(element))
+      .get();
+  }
+
+  private microdataValue($: CheerioRoot, element: any): string {
+    const $element = $(element);
+    const value = $element.attr('content') ??
+      ($element.is('a, link') ? $element.attr('href') : undefined) ??
+      ($element.is('img') ? $element.attr('src') : undefined) ??
+      ($element.is('time') ? $element.attr('datetime') : undefined) ??
+      $element.text();
+    return value.replace(/\s+/g, ' ').trim();
+  }
+
+  private isOrganization(node: SchemaNode): boolean {
+    return typesOf(node).some(type => ORGANIZATION_TYPES.includes(type));
+  }
+
+  private isSite(node: SchemaNode): boolean {
+    const types = typesOf(node);
+    if (types.length === 0 || types.some(type => NON_SITE_TYPES.includes(type))) return false;
+    return node.address !== undefined || node.geo !== undefined;
+  }
+
+  private toOrganization(node: SchemaNode, url: string): OrganizationCandidate {
+    const companyName = text(node.legalName) || text(node.name) || '';
+    const headquarters = formatAddress(node.address);
+
+    return {
+      companyName,
+      website: text(node.url),
+      headquartersAddress: headquarters,
+      parentCompany: text(node.parentOrganization?.name ?? node.parentOrganization),
+      subsidiaries: asArray(node.subOrganization).map(sub => text(sub?.name ?? sub)).filter(Boolean) as string[],
+      evidenceText: [companyName, headquarters].filter(Boolean).join(', '),
+      source: url,
+      confidenceScore: STRUCTURED_CONFIDENCE
+    };
+  }
+
+  private toSite(node: SchemaNode, url: string, siteType?: string): SiteCandidate | null {
+    const address = asArray(node.address)[0];
+    const postal = address && typeof address === 'object' ? address : {};
+    const geo = asArray(node.geo)[0];
+    const latitude = parseFloat(geo?.latitude);
+    const longitude = parseFloat(geo?.longitude);
+    const hasGeo = Number.isFinite(latitude) && Number.isFinite(longitude);
+
+    const street = text(postal.streetAddress) || (typeof address === 'string' ? address.trim() : undefined);
+    const city = text(postal.addressLocality);
+    if (!street && !city && !hasGeo) return null;
+
+    const formatted = formatAddress(address);
+    const siteName = text(node.name) || [street, city].filter(Boolean).join(', ') || 'Unknown Site';
+    const specificType = typesOf(node).find(type => !['Place', 'LocalBusiness', ...ORGANIZATION_TYPES].includes(type));
+
+    return {
+      siteName: siteType === 'headquarters' ? `${siteName} Headquarters` : siteName,
+      address: street,
+      city,
+      stateProvince: text(postal.addressRegion),
+      country: text(postal.addressCountry?.name ?? postal.addressCountry),
+      postalCode: text(postal.postalCode),
+      geoCoordinates: hasGeo ? { latitude, longitude } : undefined,
+      siteType: siteType || (specificType ? specificType.toLowerCase() : undefined),
+      sitePurpose: text(node.description),
+      evidenceText: [siteName, formatted].filter(Boolean).join(', '),
+      source: url,
+      confidenceScore: STRUCTURED_CONFIDENCE,
+      extractionMethod: 'structured'
+    };
+  }
+
+  private addContacts(node: SchemaNode, data: StructuredPageData): void {
+    const entries = [node, ...asArray(node.contactPoint)];
+
+    for (const entry of entries) {
+      if (!entry || typeof entry !== 'object') continue;
+
+      const contact: StructuredContact = compact({
+        name: text(entry === node ? node.name : entry.contactType ?? entry.name),
+        phone: text(entry.telephone)?.replace(/^tel:/i, ''),
+        email: text(entry.email)?.replace(/^mailto:/i, ''),
+        fax: text(entry.faxNumber),
+        address: entry === node ? formatAddress(node.address) : undefined
+      });
+
+      if (contact.phone || contact.email || contact.fax) {
+        data.contacts.push(contact);
+      }
+    }
+  }
+}
+
+function typesOf(node: SchemaNode): string[] {
+  return asArray(node['@type'])
+    .filter((type): type is string => typeof type === 'string')
+    .map(type => type.replace(/^https?:\/\/schema\.org\//, ''));
+}
+
+function asArray(value: any): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function text(value: any): string | undefined {
+  const first = asArray(value)[0];
+  if (typeof first === 'string' || typeof first === 'number') {
+    const trimmed = String(first).replace(/\s+/g, ' ').trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+  return undefined;
+}
+
+function formatAddress(address: any): string | undefined {
+  const first = asArray(address)[0];
+  if (!first) return undefined;
+  if (typeof first === 'string') return text(first);
+
+  const parts = [
+    text(first.streetAddress),
+    text(first.addressLocality),
+    [text(first.addressRegion), text(first.postalCode)].filter(Boolean).join(' '),
+    text(first.addressCountry?.name ?? first.addressCountry)
+  ].filter(part => part && part.length > 0);
+
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function childNodes(node: SchemaNode): SchemaNode[] {
+  return Object.entries(node)
+    .filter(([key]) => !key.startsWith('@'))
+    .flatMap(([, value]) => asArray(value))
+    .filter(value => value && typeof value === 'object');
+}
+
+function collectStrings(value: any, strings: string[] = []): string[] {
+  if (typeof value === 'string' || typeof value === 'number') {
+    strings.push(String(value));
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStrings(item, strings));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value)
+      .filter(([key]) => key !== '@context' && key !== '@id')
+      .forEach(([, item]) => collectStrings(item, strings));
+  }
+  return strings;
+}
+
+function coverageWords(content: string): string[] {
+  return (content.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+/g) || [])
+    .filter(word => word.length > 1 && !COVERAGE_STOPWORDS.has(word));
+}
+
+function isUrl(value?: string): boolean {
+  if (!value) return false;
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function compact<T extends Record<string, any>>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, item]) => item !== undefined && item !== '')
+  ) as T;
+}
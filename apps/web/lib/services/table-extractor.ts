@@ -0,0 +1,231 @@
+/**
+ * Table Extractor
+ *
+ * Reads the data tables of an HTML page into rows keyed by their column
+ * headers, which the flattened page text loses. Corporate locations pages
+ * often list facilities as tables (site, city, country, products); a table
+ * whose headers name a city or address column is mapped to site candidates
+ * column by column, without an LLM call.
+ */
+
+import * as cheerio from 'cheerio';
+import { PageTable } from '../types/enrichment';
+import { SiteCandidate } from '../types/data-model';
+
+type CheerioRoot = ReturnType<typeof cheerio.load>;
+
+type SiteField = 'siteName' | 'address' | 'city' | 'stateProvince' | 'country' | 'postalCode' | 'siteType' | 'sitePurpose';
+
+interface GridRow {
+  cells: string[];
+  header: boolean;      // Every cell is a <th>
+  spanning: boolean;    // A single cell across the whole row, such as a region label
+}
+
+const REMOVED_SELECTOR = 'script, style, noscript, template';
+
+// Larger spans are markup errors; they would only pad rows with copies
+const MAX_SPAN = 50;
+
+// Headers are matched in this order, so "Facility type" is a type column
+// rather than a name column and "Country/Region" a country column
+const SITE_COLUMNS: Array<[SiteField, string[]]> = [
+  ['postalCode', ['postal code', 'postcode', 'zip', 'zip code', 'plz', 'code postal', 'código postal', 'cep']],
+  ['country', ['country', 'nation', 'pays', 'país', 'paese', '国']],
+  ['city', ['city', 'town', 'municipality', 'stadt', 'ort', 'ville', 'ciudad', 'cidade', 'città', '都市']],
+  ['stateProvince', ['state', 'province', 'region', 'county', 'bundesland', 'provincia', 'estado', 'prefecture', '都道府県']],
+  ['address', ['address', 'street', 'location', 'adresse', 'anschrift', 'dirección', 'direccion', 'endereço', 'indirizzo', '住所', '所在地']],
+  ['siteType', ['type', 'site type', 'facility type', 'function', 'category', 'typ', 'tipo', '種別']],
+  ['sitePurpose', ['products', 'product', 'product lines', 'capabilities', 'produkte', 'produits', 'productos', 'produtos', 'prodotti', '製品']],
+  ['siteName', ['site', 'name', 'facility', 'plant', 'office', 'site name', 'werk', 'standort', 'usine', 'planta', 'sede', '拠点', '事業所']]
+];
+
+// Deterministic, but the header match is a guess the markup does not confirm
+const TABLE_CONFIDENCE = 0.9;
+
+/**
+ * Data tables of a page with at least one header row, two columns and one
+ * data row. Tables that contain other tables are page layout and skipped.
+ */
+export function extractTables(html: string): PageTable[] {
+  const $ = cheerio.load(html);
+  $(REMOVED_SELECTOR).remove();
+
+  return $('table').toArray()
+    .filter(table => $(table).find('table').length === 0)
+    .map(table => readTable($, table))
+    .filter((table): table is PageTable => table !== null);
+}
+
+/**
+ * Site candidates of a facility listing, one per row with a city or an
+ * address. Tables without a city or address column yield none.
+ */
+export function tableSiteCandidates(table: PageTable, sourceUrl: string): SiteCandidate[] {
+  const columns = siteColumns(table.headers);
+  if (!columns.city && !columns.address) return [];
+
+  const candidates: SiteCandidate[] = [];
+  for (const row of table.rows) {
+    const value = (field: SiteField) => {
+      const header = columns[field];
+      return header ? row[header] : undefined;
+    };
+
+    const city = value('city');
+    const address = value('address');
+    if (!city && !address) continue;
+
+    const mapped = Object.values(columns).filter(header => row[header!]) as string[];
+
+    candidates.push({
+      siteName: value('siteName') || [address, city].filter(Boolean).join(', '),
+      address,
+      city,
+      stateProvince: value('stateProvince'),
+      country: value('country'),
+      postalCode: value('postalCode'),
+      siteType: value('siteType'),
+      sitePurpose: value('sitePurpose'),
+      evidenceText: mapped.map(header => `${header}: ${row[header]}`).join(' | '),
+      source: sourceUrl,
+      confidenceScore: TABLE_CONFIDENCE,
+      extractionMethod: 'structured'
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Header of the column that holds each site field. A field is taken by the
+ * first column that names it; exact header matches win over headers that
+ * merely contain a known word.
+ */
+function siteColumns(headers: string[]): Partial<Record<SiteField, string>> {
+  const columns: Partial<Record<SiteField, string>> = {};
+  const unmatched = [...headers];
+
+  const assign = (matches: (header: string, synonym: string) => boolean) => {
+    for (const header of [...unmatched]) {
+      const normalized = normalizeHeader(header);
+      const match = SITE_COLUMNS.find(([field, synonyms]) =>
+        !columns[field] && synonyms.some(synonym => matches(normalized, synonym)));
+      if (match) {
+        columns[match[0]] = header;
+        unmatched.splice(unmatched.indexOf(header), 1);
+      }
+    }
+  };
+
+  assign((header, synonym) => header === synonym);
+  assign((header, synonym) => /^[a-z]/.test(synonym)
+    ? ` ${header} `.includes(` ${synonym} `)
+    : header.includes(synonym));
+
+  return columns;
+}
+
+function readTable($: CheerioRoot, table: any): PageTable | null {
+  const grid = readGrid($, $(table).find('tr').toArray());
+  if (grid.length === 0) return null;
+
+  // Without <thead>, the first row is the header if it is all <th>, or if
+  // the table has no <th> at all; <th> down the first column marks a
+  // key-value table, which has no column headers
+  const headRows = $(table).find('thead tr').length;
+  const headerIndex = headRows > 0
+    ? headRows - 1
+    : grid[0].header || $(table).find('th').length === 0 ? 0 : -1;
+  if (headerIndex < 0) return null;
+
+  const headers = uniqueHeaders(grid[headerIndex].cells);
+  if (headers.length < 2) return null;
+
+  const rows = grid.slice(headerIndex + 1)
+    .filter(row => !row.header && !row.spanning)
+    .map(row => Object.fromEntries(
+      headers
+        .map((header, index): [string, string] => [header, row.cells[index] || ''])
+        .filter(([, value]) => value.length > 0)
+    ))
+    .filter(row => Object.keys(row).length > 0);
+  if (rows.length === 0) return null;
+
+  const caption = collapse($(table).children('caption').text());
+  return { ...(caption ? { caption } : {}), headers, rows };
+}
+
+/**
+ * Cell texts of each row with colspan and rowspan expanded, so a value
+ * always sits under the header of its column
+ */
+function readGrid($: CheerioRoot, rows: any[]): GridRow[] {
+  const grid: GridRow[] = [];
+  const carried: Array<{ text: string; rows: number } | undefined> = [];
+
+  for (const row of rows) {
+    const cells: string[] = [];
+    const elements = $(row).children('td, th').toArray();
+
+    const takeCarried = () => {
+      let carry = carried[cells.length];
+      while (carry) {
+        cells.push(carry.text);
+        carry.rows--;
+        if (carry.rows === 0) carried[cells.length - 1] = undefined;
+        carry = carried[cells.length];
+      }
+    };
+
+    for (const element of elements) {
+      takeCarried();
+      const text = collapse($(element).text());
+      const colspan = span($(element).attr('colspan'));
+      const rowspan = span($(element).attr('rowspan'));
+      for (let column = 0; column < colspan; column++) {
+        if (rowspan > 1) carried[cells.length] = { text, rows: rowspan - 1 };
+        cells.push(text);
+      }
+    }
+    takeCarried();
+
+    if (cells.length === 0) continue;
+    grid.push({
+      cells,
+      header: elements.length > 0 && elements.every(element => $(element).is('th')),
+      spanning: elements.length === 1 && cells.length > 1
+    });
+  }
+
+  return grid;
+}
+
+/**
+ * Headers as record keys: empty headers are named after their column and
+ * repeated ones (from a spanning header cell) numbered
+ */
+function uniqueHeaders(cells: string[]): string[] {
+  const headers: string[] = [];
+  cells.forEach((cell, index) => {
+    let header = cell || `Column ${index + 1}`;
+    for (let copy = 2; headers.includes(header); copy++) {
+      header = `${cell || `Column ${index + 1}`} ${copy}`;
+    }
+    headers.push(header);
+  });
+  return headers;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[/:*()_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function span(value?: string): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 1 ? Math.min(parsed, MAX_SPAN) : 1;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
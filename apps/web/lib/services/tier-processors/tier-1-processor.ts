@@ -7,13 +7,25 @@
  * - Official company documentation
  */
 
-import { EnrichmentContext, EnrichmentFact } from '../../types/enrichment';
-import { TierProcessor, TierProcessingResult } from '../unified-enrichment-orchestrator';
+import {
+  CrawledPage,
+  EnrichmentContext,
+  EnrichmentFact,
+  TextChunk,
+  TierProcessor,
+  TierProcessingResult
+} from '../../types/enrichment';
 import { JobRepository } from '../../repositories/job-repository';
+import { CheckpointRepository } from '../../repositories/checkpoint-repository';
+import { CrawlCacheRepository } from '../../repositories/crawl-cache-repository';
+import { FactRepository } from '../../repositories/fact-repository';
 import { WebCrawlerStep } from '../steps/web-crawler-step';
 import { TextChunkingStep } from '../steps/text-chunking-step';
 import { EmbeddingStep } from '../steps/embedding-step';
 import { FactExtractionStep } from '../steps/fact-extraction-step';
+import { FinancialDocumentStep } from '../steps/financial-document-step';
+
+const NO_FACTS_MESSAGE = 'No facts extracted despite successful processing';
 
 export class Tier1Processor implements TierProcessor {
   public readonly tier = 1;
@@ -24,13 +36,28 @@ export class Tier1Processor implements TierProcessor {
   private textChunkingStep: TextChunkingStep;
   private embeddingStep: EmbeddingStep;
   private factExtractionStep: FactExtractionStep;
+  private financialDocumentStep: FinancialDocumentStep;
+  private secFilingsEnabled: boolean;
+  private checkpoints: CheckpointRepository;
+  private crawlCache: CrawlCacheRepository;
+  private factRepo: FactRepository;
 
-  constructor(jobRepository: JobRepository) {
+  constructor(jobRepository: JobRepository, checkpointRepository?: CheckpointRepository) {
     this.jobRepo = jobRepository;
+    this.checkpoints = checkpointRepository || new CheckpointRepository();
+    this.crawlCache = new CrawlCacheRepository();
+    this.factRepo = new FactRepository();
     this.webCrawlerStep = new WebCrawlerStep(jobRepository);
     this.textChunkingStep = new TextChunkingStep(jobRepository);
     this.embeddingStep = new EmbeddingStep(jobRepository);
     this.factExtractionStep = new FactExtractionStep(jobRepository);
+    // 10-K Item 2 Properties is the most reliable site list for public companies
+    this.financialDocumentStep = new FinancialDocumentStep(
+      jobRepository,
+      { preferred_document_types: ['10-K'], max_documents_per_company: 1 },
+      { target_sections: ['properties', 'subsidiaries', 'geographic_segments'] }
+    );
+    this.secFilingsEnabled = process.env.TIER1_SEC_FILINGS_ENABLED !== 'false';
   }
 
   /**
@@ -58,9 +85,14 @@ export class Tier1Processor implements TierProcessor {
     let errorMessage: string | undefined;
 
     try {
-      // Step 1: Web Crawling
-      console.log(`Tier 1: Starting web crawling for ${domain}`);
-      const crawlResult = await this.webCrawlerStep.execute(context);
+      // Step 1: Web Crawling (a resumed job reuses the pages of its earlier run)
+      const resumedPages = await this.loadResumablePages(context);
+      console.log(resumedPages.length > 0
+        ? `Tier 1: Reusing ${resumedPages.length} crawled pages from the previous run`
+        : `Tier 1: Starting web crawling for ${domain}`);
+      const crawlResult = resumedPages.length > 0
+        ? { ...context, crawled_pages: resumedPages }
+        : await this.webCrawlerStep.execute(context);
       
       if (!crawlResult.error) {
         pagesScraped = crawlResult.crawled_pages?.length || 0;
@@ -71,59 +103,105 @@ export class Tier1Processor implements TierProcessor {
         
         console.log(`Tier 1: Web crawling completed. Pages: ${pagesScraped}`);
         
-        // Step 2: Text Chunking
-        console.log(`Tier 1: Starting text chunking`);
-        const chunkResult = await this.textChunkingStep.execute(context);
+        // Pages whose content is unchanged since an earlier job keep that
+        // job's facts and skip chunking, embedding and extraction
+        const carried = await this.carryForwardUnchangedPages(context);
+        facts = carried.facts;
+        context = { ...context, crawled_pages: carried.changedPages };
+
+        if (carried.changedPages.length === 0) {
+          console.log(`Tier 1: All ${pagesScraped} pages unchanged, reusing ${facts.length} facts`);
+          await this.markProcessingSkipped(jobId);
+          if (facts.length > 0) {
+            status = 'completed';
+          } else {
+            status = 'partial';
+            errorMessage = NO_FACTS_MESSAGE;
+          }
+        } else {
+          // Step 2: Text Chunking
+          const resumedChunks = await this.loadResumableChunks(context);
+          console.log(resumedChunks.length > 0
+            ? `Tier 1: Reusing ${resumedChunks.length} chunks from the previous run`
+            : `Tier 1: Starting text chunking`);
+          const chunkResult = resumedChunks.length > 0
+            ? { ...context, text_chunks: resumedChunks }
+            : await this.textChunkingStep.execute(context);
         
-        if (!chunkResult.error) {
-          context = chunkResult;
-          const chunksCreated = chunkResult.text_chunks?.length || 0;
+          if (!chunkResult.error) {
+            context = chunkResult;
+            const chunksCreated = chunkResult.text_chunks?.length || 0;
+
+            if (resumedChunks.length === 0) {
+              await this.saveChunks(jobId, chunkResult.text_chunks || [], chunkResult.crawled_pages || []);
+            }
           
-          console.log(`Tier 1: Text chunking completed. Chunks: ${chunksCreated}`);
+            console.log(`Tier 1: Text chunking completed. Chunks: ${chunksCreated}`);
           
-          // Step 3: Embedding Generation
-          console.log(`Tier 1: Starting embedding generation`);
-          const embeddingResult = await this.embeddingStep.execute(context);
+            // Step 3: Embedding Generation
+            console.log(`Tier 1: Starting embedding generation`);
+            const embeddingResult = await this.embeddingStep.execute(context);
           
-          if (!embeddingResult.error) {
-            context = embeddingResult;
-            const embeddingsGenerated = context.embeddings?.length || 0;
+            if (!embeddingResult.error) {
+              context = embeddingResult;
+              const embeddingsGenerated = context.embeddings?.length || 0;
             
-            console.log(`Tier 1: Embedding generation completed. Embeddings: ${embeddingsGenerated}`);
+              console.log(`Tier 1: Embedding generation completed. Embeddings: ${embeddingsGenerated}`);
             
-            // Step 4: Fact Extraction
-            console.log(`Tier 1: Starting fact extraction`);
-            const extractionResult = await this.factExtractionStep.execute(context);
+              // Step 4: Fact Extraction
+              console.log(`Tier 1: Starting fact extraction`);
+              const extractionResult = await this.factExtractionStep.execute(context);
             
-            if (!extractionResult.error) {
-              facts = extractionResult.extracted_facts || [];
-              context = extractionResult;
+              if (!extractionResult.error) {
+                facts = [...facts, ...(extractionResult.extracted_facts || [])];
+                context = extractionResult;
               
-              console.log(`Tier 1: Fact extraction completed. Facts: ${facts.length}`);
+                console.log(`Tier 1: Fact extraction completed. Facts: ${facts.length}`);
               
-              // Determine overall status
-              if (facts.length > 0) {
-                status = 'completed';
+                // Determine overall status
+                if (facts.length > 0) {
+                  status = 'completed';
+                } else {
+                  status = 'partial';
+                  errorMessage = NO_FACTS_MESSAGE;
+                }
               } else {
                 status = 'partial';
-                errorMessage = 'No facts extracted despite successful processing';
+                errorMessage = `Fact extraction failed: ${extractionResult.error?.message}`;
               }
             } else {
               status = 'partial';
-              errorMessage = `Fact extraction failed: ${extractionResult.error?.message}`;
+              errorMessage = `Embedding generation failed: ${embeddingResult.error?.message}`;
             }
           } else {
             status = 'partial';
-            errorMessage = `Embedding generation failed: ${embeddingResult.error?.message}`;
+            errorMessage = `Text chunking failed: ${chunkResult.error?.message}`;
           }
-        } else {
-          status = 'partial';
-          errorMessage = `Text chunking failed: ${chunkResult.error?.message}`;
         }
       } else {
         status = 'failed';
         errorMessage = `Web crawling failed: ${crawlResult.error?.message}`;
       }
+
+      // Step 5: SEC filings (runs even when the website could not be crawled)
+      if (this.secFilingsEnabled) {
+        console.log(`Tier 1: Retrieving SEC filings`);
+        const filingResult = await this.financialDocumentStep.extractFilingFacts(context);
+
+        if (filingResult.facts.length > 0) {
+          facts = [...facts, ...filingResult.facts];
+          sourcesAttempted.push(...filingResult.documents.map(document => document.source_url));
+
+          if (status === 'failed') {
+            status = 'partial';
+          } else if (errorMessage === NO_FACTS_MESSAGE) {
+            status = 'completed';
+            errorMessage = undefined;
+          }
+        }
+
+        console.log(`Tier 1: SEC filings completed. Documents: ${filingResult.documents.length}, Facts: ${filingResult.facts.length}`);
+      }
       
     } catch (error) {
       console.error(`Tier 1 processing error for job ${jobId}:`, error);
@@ -159,6 +237,100 @@ export class Tier1Processor implements TierProcessor {
     return result;
   }
 
+  /**
+   * Copies the facts of pages whose content hash matches an earlier job's
+   * completed crawl, and returns the pages that still need processing.
+   * Pages that already have facts in this job, carried forward by an
+   * interrupted earlier run, keep them instead of getting a second copy.
+   */
+  private async carryForwardUnchangedPages(
+    context: EnrichmentContext
+  ): Promise<{ changedPages: CrawledPage[]; facts: EnrichmentFact[] }> {
+    const pages = context.crawled_pages || [];
+    // A replay exists to re-run extraction over the archived pages
+    if (context.job.metadata?.replay_job_id) {
+      return { changedPages: pages, facts: [] };
+    }
+
+    const hashed = pages
+      .filter(page => page.metadata.content_hash)
+      .map(page => ({ url: page.url, content_hash: page.metadata.content_hash! }));
+
+    try {
+      const priorJobs = await this.crawlCache.findProcessedCrawls(context.job.id, hashed);
+      if (priorJobs.size === 0) {
+        return { changedPages: pages, facts: [] };
+      }
+
+      const present = (await this.factRepo.findByJobId(context.job.id))
+        .filter(fact => fact.source_url && priorJobs.has(fact.source_url));
+      const presentUrls = new Set(present.map(fact => fact.source_url));
+
+      const copied = await this.factRepo.copyFromJobs(
+        context.job.id,
+        [...priorJobs]
+          .filter(([url]) => !presentUrls.has(url))
+          .map(([url, jobId]) => ({ job_id: jobId, source_url: url }))
+      );
+      const facts = [...present, ...copied];
+      console.log(`Tier 1: ${priorJobs.size} pages unchanged since an earlier crawl, carried forward ${facts.length} facts`);
+
+      return { changedPages: pages.filter(page => !priorJobs.has(page.url)), facts };
+    } catch (error) {
+      console.warn(`Tier 1: Could not carry forward facts for job ${context.job.id}, processing every page:`, error);
+      return { changedPages: pages, facts: [] };
+    }
+  }
+
+  /**
+   * Marks the processing steps complete when no page needed them
+   */
+  private async markProcessingSkipped(jobId: string): Promise<void> {
+    for (const step of ['chunking_status', 'embedding_status', 'extraction_status'] as const) {
+      await this.jobRepo.updateStepStatus(jobId, step, 'completed');
+    }
+  }
+
+  /**
+   * Pages stored by a finished crawl of an earlier run of this job
+   */
+  private async loadResumablePages(context: EnrichmentContext): Promise<CrawledPage[]> {
+    if (context.job.crawling_status !== 'completed') {
+      return [];
+    }
+
+    try {
+      return await this.checkpoints.getCrawledPages(context.job.id);
+    } catch (error) {
+      console.warn(`Tier 1: Could not load crawled pages for job ${context.job.id}, re-crawling:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Chunks stored by a finished chunking step of an earlier run of this job
+   */
+  private async loadResumableChunks(context: EnrichmentContext): Promise<TextChunk[]> {
+    if (context.job.chunking_status !== 'completed') {
+      return [];
+    }
+
+    try {
+      return await this.checkpoints.getChunks(context.job.id);
+    } catch (error) {
+      console.warn(`Tier 1: Could not load chunks for job ${context.job.id}, re-chunking:`, error);
+      return [];
+    }
+  }
+
+  private async saveChunks(jobId: string, chunks: TextChunk[], pages: CrawledPage[]): Promise<void> {
+    try {
+      await this.checkpoints.saveChunks(jobId, chunks, pages);
+    } catch (error) {
+      console.warn(`Tier 1: Could not checkpoint chunks for job ${jobId}:`, error);
+    }
+  }
+
   /**
    * Get processor capabilities and configuration
    */
@@ -1,25 +1,55 @@
 /**
- * Tier 2 Processor - LinkedIn + Job Postings
- * 
+ * Tier 2 Processor - Job Postings + Company Profiles
+ *
  * Handles secondary data sources for enrichment:
- * - LinkedIn company profiles
- * - Job posting sites (Indeed, Glassdoor, etc.)
- * - Professional networks and directories
+ * - Public job board APIs (Greenhouse, Lever)
+ * - Careers pages with schema.org JobPosting markup
+ * - Company profile pages (headcount statements)
+ *
+ * Sources are pluggable Tier2Source adapters. Job posting locations are
+ * aggregated into facility location facts and company profiles into
+ * headcount facts, each citing the posting or profile it came from.
  */
 
-import { EnrichmentContext, EnrichmentFact } from '../../types/enrichment';
-import { TierProcessor, TierProcessingResult } from '../unified-enrichment-orchestrator';
+import { EnrichmentContext, EnrichmentFact, TierProcessor, TierProcessingResult } from '../../types/enrichment';
+import { CompanyProfile, JobPosting, PostingLocation, Tier2Source, Tier2SourceQuery } from '../../types/tier2-sources';
+import { FactRepository } from '../../repositories/fact-repository';
+import { JobBoardSource } from '../tier2-sources/job-board-source';
+import { CareersPageSource } from '../tier2-sources/careers-page-source';
+import { FixtureTier2Source } from '../tier2-sources/fixture-source';
+import { formatHeadcount, formatLocation, locationKey } from '../tier2-sources/posting-parser';
+
+/**
+ * Builds the default source list. TIER2_FIXTURES_DIR switches Tier 2 to
+ * recorded fixtures so it can run without network access.
+ */
+export function createDefaultTier2Sources(): Tier2Source[] {
+  if (process.env.TIER2_FIXTURES_DIR) {
+    return [new FixtureTier2Source(process.env.TIER2_FIXTURES_DIR)];
+  }
+
+  return [new JobBoardSource(), new CareersPageSource()];
+}
 
 export class Tier2Processor implements TierProcessor {
   public readonly tier = 2;
-  public readonly name = 'LinkedIn + Job Postings';
+  public readonly name = 'Job Postings + Company Profiles';
+
+  private factRepo: FactRepository;
+  private sources: Tier2Source[];
+  private lastSuccessfulRun?: Date;
+
+  constructor(sources?: Tier2Source[], factRepository?: FactRepository) {
+    this.sources = sources || createDefaultTier2Sources();
+    this.factRepo = factRepository || new FactRepository();
+  }
 
   /**
    * Check if this processor can handle the given context
    */
   canHandle(context: EnrichmentContext): boolean {
     // Tier 2 can handle any domain but requires Tier 1 to have completed first
-    return !!(context.extracted_facts && context.extracted_facts.length > 0) || 
+    return !!(context.extracted_facts && context.extracted_facts.length > 0) ||
            !!(context.step_results && Object.keys(context.step_results).length > 0);
   }
 
@@ -30,82 +60,75 @@ export class Tier2Processor implements TierProcessor {
     const startTime = Date.now();
     const jobId = context.job.id;
     const domain = context.job.domain;
-    
+
     console.log(`Starting Tier 2 processing for job ${jobId}, domain: ${domain}`);
-    
+
     let facts: EnrichmentFact[] = [];
-    let sourcesAttempted: string[] = [];
-    let pagesScraped = 0;
+    const sourcesAttempted: string[] = [];
+    const sourceErrors: string[] = [];
     let status: 'completed' | 'partial' | 'failed' | 'timeout' = 'completed';
     let errorMessage: string | undefined;
 
     try {
-      // For now, Tier 2 is a placeholder that generates some mock facts
-      // In a real implementation, this would:
-      // 1. Search LinkedIn for company profiles
-      // 2. Scrape job posting sites for company information
-      // 3. Extract additional business intelligence
-      
-      console.log(`Tier 2: Simulating LinkedIn and job posting analysis for ${domain}`);
-      
-      // Simulate some processing time
-      await this.delay(2000);
-      
-      // Generate mock facts based on existing context
-      const companyName = this.extractCompanyName(context);
-      
-      if (companyName) {
-        facts = [
-          {
-            id: `tier2_${jobId}_1`,
-            job_id: jobId,
-            fact_type: 'employee_count_estimate',
-            fact_data: {
-              value: '500-1000',
-              source: 'LinkedIn Company Profile',
-              confidence: 0.75
-            },
-            confidence_score: 0.75,
-            source_url: `https://linkedin.com/company/${companyName.toLowerCase().replace(/\s+/g, '-')}`,
-            source_text: `Based on LinkedIn company profile analysis, ${companyName} appears to have between 500-1000 employees.`,
-            created_at: new Date().toISOString(),
-            validated: false,
-            tier_used: 2
-          },
-          {
-            id: `tier2_${jobId}_2`,
-            job_id: jobId,
-            fact_type: 'hiring_activity',
-            fact_data: {
-              value: 'Active hiring in technology and operations',
-              source: 'Job Posting Analysis',
-              confidence: 0.70
-            },
-            confidence_score: 0.70,
-            source_url: `https://indeed.com/q-${companyName.replace(/\s+/g, '-')}-jobs.html`,
-            source_text: `Job posting analysis indicates ${companyName} is actively hiring across technology and operations departments.`,
-            created_at: new Date().toISOString(),
-            validated: false,
-            tier_used: 2
-          }
-        ];
-        
-        sourcesAttempted = [
-          `https://linkedin.com/company/${companyName.toLowerCase().replace(/\s+/g, '-')}`,
-          `https://indeed.com/q-${companyName.replace(/\s+/g, '-')}-jobs.html`,
-          `https://glassdoor.com/Overview/Working-at-${companyName.replace(/\s+/g, '-')}`
-        ];
-        
-        pagesScraped = 3;
-        status = 'completed';
-        
-        console.log(`Tier 2: Generated ${facts.length} facts from professional networks`);
-      } else {
+      const query: Tier2SourceQuery = {
+        domain,
+        company_name: this.extractCompanyName(context),
+        job_metadata: context.job.metadata || {},
+        job_id: context.job.id
+      };
+
+      const postings: JobPosting[] = [];
+      const profiles: CompanyProfile[] = [];
+
+      for (const source of this.sources) {
+        if (!source.isAvailable(query)) {
+          console.log(`Tier 2: Skipping unavailable source ${source.name}`);
+          continue;
+        }
+
+        try {
+          console.log(`Tier 2: Querying ${source.name} for ${domain}`);
+          const sourceResult = await source.fetch(query);
+
+          postings.push(...sourceResult.postings);
+          profiles.push(...sourceResult.profiles);
+          sourcesAttempted.push(...sourceResult.urls_fetched);
+          sourceErrors.push(...sourceResult.errors);
+
+          console.log(`Tier 2: ${source.name} returned ${sourceResult.postings.length} postings, ${sourceResult.profiles.length} profiles`);
+        } catch (error) {
+          const message = `${source.name} failed: ${error instanceof Error ? error.message : String(error)}`;
+          console.error(`Tier 2: ${message}`);
+          sourceErrors.push(message);
+        }
+      }
+
+      const candidateFacts = [
+        ...this.buildLocationFacts(jobId, postings),
+        ...this.buildHeadcountFacts(jobId, profiles)
+      ];
+
+      facts = await this.persistFacts(candidateFacts);
+
+      if (facts.length === 0) {
         status = 'partial';
-        errorMessage = 'Could not extract company name for Tier 2 analysis';
-        console.log(`Tier 2: Could not proceed without company name`);
+        errorMessage = sourceErrors.length > 0
+          ? `No Tier 2 facts found; ${sourceErrors.length} source errors: ${sourceErrors.slice(0, 3).join('; ')}`
+          : 'No job postings or company profiles found for this domain';
+      } else {
+        status = 'completed';
+        this.lastSuccessfulRun = new Date();
+        if (sourceErrors.length > 0) {
+          errorMessage = `${sourceErrors.length} source errors: ${sourceErrors.slice(0, 3).join('; ')}`;
+        }
       }
-      
+
+      if (sourceErrors.length > 0) {
+        await this.logSourceErrors(jobId, sourceErrors);
+      }
+
+      console.log(`Tier 2: Generated ${facts.length} facts from ${postings.length} postings and ${profiles.length} profiles`);
+
     } catch (error) {
       console.error(`Tier 2 processing error for job ${jobId}:`, error);
       status = 'failed';
@@ -113,17 +136,17 @@ export class Tier2Processor implements TierProcessor {
     }
 
     // Calculate average confidence
-    const averageConfidence = facts.length > 0 
-      ? facts.reduce((sum, fact) => sum + fact.confidence_score, 0) / facts.length 
+    const averageConfidence = facts.length > 0
+      ? facts.reduce((sum, fact) => sum + fact.confidence_score, 0) / facts.length
       : 0;
 
     const runtimeSeconds = Math.floor((Date.now() - startTime) / 1000);
-    
+
     const result: TierProcessingResult = {
       tier: this.tier,
       facts,
       sources_attempted: sourcesAttempted,
-      pages_scraped: pagesScraped,
+      pages_scraped: sourcesAttempted.length,
       runtime_seconds: runtimeSeconds,
       status,
       error_message: errorMessage,
@@ -140,21 +163,150 @@ export class Tier2Processor implements TierProcessor {
     return result;
   }
 
+  /**
+   * Aggregate job postings by physical location into facility location facts.
+   * Remote postings and postings without a city are not evidence of a site.
+   */
+  private buildLocationFacts(jobId: string, postings: JobPosting[]): Omit<EnrichmentFact, 'id' | 'created_at'>[] {
+    const groups = new Map<string, { location: PostingLocation; postings: JobPosting[] }>();
+
+    for (const posting of postings) {
+      for (const location of posting.locations) {
+        const key = locationKey(location);
+        if (!key || location.remote) {
+          continue;
+        }
+
+        if (!groups.has(key)) {
+          groups.set(key, { location, postings: [] });
+        }
+        groups.get(key)!.postings.push(posting);
+      }
+    }
+
+    return Array.from(groups.values()).map(({ location, postings: locationPostings }) => {
+      const value = formatLocation(location);
+      const evidence = locationPostings[0];
+      // More independent postings at a location make an active site more likely
+      const confidence = Math.min(0.8, 0.55 + 0.05 * (locationPostings.length - 1));
+
+      return {
+        job_id: jobId,
+        fact_type: 'facility_location',
+        fact_data: {
+          value,
+          site_name: value,
+          city: location.city,
+          state_province: location.state_province,
+          country: location.country,
+          posting_count: locationPostings.length,
+          job_titles: [...new Set(locationPostings.map(posting => posting.title))].slice(0, 10),
+          departments: [...new Set(locationPostings.map(posting => posting.department).filter(Boolean))],
+          source: evidence.source_name,
+          confidence
+        },
+        confidence_score: confidence,
+        source_url: evidence.url,
+        source_text: `${evidence.title} - ${location.raw}${evidence.description ? `: ${evidence.description.substring(0, 300)}` : ''}`,
+        validated: false,
+        tier_used: 2
+      };
+    });
+  }
+
+  /**
+   * Turn company profile headcount statements into employee count facts
+   */
+  private buildHeadcountFacts(jobId: string, profiles: CompanyProfile[]): Omit<EnrichmentFact, 'id' | 'created_at'>[] {
+    const seenUrls = new Set<string>();
+
+    return profiles
+      .filter(profile => {
+        if (!profile.headcount || seenUrls.has(profile.url)) {
+          return false;
+        }
+        seenUrls.add(profile.url);
+        return true;
+      })
+      .map(profile => {
+        const headcount = profile.headcount!;
+        // Exact ranges are usually self-reported; open-ended bounds are vaguer
+        const confidence = headcount.max !== undefined ? 0.75 : 0.65;
+
+        return {
+          job_id: jobId,
+          fact_type: 'employee_count_estimate',
+          fact_data: {
+            value: formatHeadcount(headcount),
+            min: headcount.min,
+            max: headcount.max,
+            raw: headcount.raw,
+            headquarters: profile.headquarters,
+            source: profile.source_name,
+            confidence
+          },
+          confidence_score: confidence,
+          source_url: profile.url,
+          source_text: profile.source_text,
+          validated: false,
+          tier_used: 2
+        };
+      });
+  }
+
+  /**
+   * Persist facts so they are stored alongside Tier 1 results. Facts are
+   * still returned to the orchestrator if the database write fails.
+   */
+  private async persistFacts(candidateFacts: Omit<EnrichmentFact, 'id' | 'created_at'>[]): Promise<EnrichmentFact[]> {
+    if (candidateFacts.length === 0) {
+      return [];
+    }
+
+    try {
+      return await this.factRepo.createBatch(candidateFacts);
+    } catch (error) {
+      console.error('Tier 2: Failed to persist facts:', error);
+      const createdAt = new Date().toISOString();
+      return candidateFacts.map((fact, index) => ({
+        ...fact,
+        id: `tier2_${fact.job_id}_${index + 1}`,
+        created_at: createdAt
+      }));
+    }
+  }
+
+  /**
+   * Records failed sources as a warning in the job's log. A source without
+   * a board or careers page is routine, so the job itself is not failed.
+   */
+  private async logSourceErrors(jobId: string, sourceErrors: string[]): Promise<void> {
+    try {
+      const { getDatabasePool } = await import('../../utils/database');
+      await getDatabasePool().query(`
+        INSERT INTO job_logs (job_id, level, message, details, created_at)
+        VALUES ($1, 'warn', $2, $3, NOW())
+      `, [jobId, `Tier 2 source errors: ${sourceErrors.join('; ')}`, JSON.stringify({ event: 'tier2_source_errors', errors: sourceErrors })]);
+    } catch (error) {
+      console.warn(`Tier 2: Failed to log source errors for job ${jobId}:`, error);
+    }
+  }
+
   /**
    * Extract company name from existing context
    */
-  private extractCompanyName(context: EnrichmentContext): string | null {
+  private extractCompanyName(context: EnrichmentContext): string {
     // Try to find company name from existing facts
     if (context.extracted_facts) {
-      const companyNameFact = context.extracted_facts.find(fact => 
+      const companyNameFact = context.extracted_facts.find(fact =>
         fact.fact_type.includes('company_name') || fact.fact_type.includes('organization_name')
       );
-      
+
       if (companyNameFact && companyNameFact.fact_data.value) {
         return companyNameFact.fact_data.value;
       }
     }
-    
+
     // Fallback to domain-based name
     const domain = context.job.domain;
     return domain.replace(/^www\./, '').replace(/\.(com|org|net|io)$/, '').replace(/[-_]/g, ' ');
@@ -173,24 +325,13 @@ export class Tier2Processor implements TierProcessor {
     return {
       name: this.name,
       tier: this.tier,
-      data_sources: [
-        'LinkedIn Company Profiles',
-        'Indeed Job Postings',
-        'Glassdoor Company Reviews',
-        'Professional Directory Listings',
-        'Industry Job Boards'
-      ],
+      data_sources: this.sources.map(source => source.name),
       expected_fact_types: [
-        'employee_count_estimate',
-        'hiring_activity',
-        'company_culture',
-        'salary_ranges',
-        'employee_reviews',
-        'professional_network_presence',
-        'recruitment_patterns'
+        'facility_location',
+        'employee_count_estimate'
       ],
       confidence_range: {
-        min: 0.5,
+        min: 0.55,
         max: 0.8
       }
     };
@@ -202,43 +343,20 @@ export class Tier2Processor implements TierProcessor {
   async healthCheck(): Promise<{
     status: 'healthy' | 'degraded' | 'unhealthy';
     components: {
-      linkedin_access: 'healthy' | 'unhealthy';
-      job_board_access: 'healthy' | 'unhealthy';
-      rate_limiting: 'healthy' | 'degraded' | 'unhealthy';
+      sources: 'healthy' | 'unhealthy';
+      offline_fixtures: boolean;
     };
     last_successful_run?: Date;
   }> {
-    try {
-      // For now, assume all components are healthy
-      // In a real implementation, this would check API access, rate limits, etc.
-      
-      return {
-        status: 'healthy',
-        components: {
-          linkedin_access: 'healthy',
-          job_board_access: 'healthy',
-          rate_limiting: 'healthy'
-        },
-        last_successful_run: new Date()
-      };
+    const hasSources = this.sources.length > 0;
 
-    } catch (error) {
-      console.error('Tier 2 health check failed:', error);
-      return {
-        status: 'unhealthy',
-        components: {
-          linkedin_access: 'unhealthy',
-          job_board_access: 'unhealthy',
-          rate_limiting: 'unhealthy'
-        }
-      };
-    }
-  }
-
-  /**
-   * Utility method for delays
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return {
+      status: hasSources ? 'healthy' : 'unhealthy',
+      components: {
+        sources: hasSources ? 'healthy' : 'unhealthy',
+        offline_fixtures: this.sources.every(source => source instanceof FixtureTier2Source)
+      },
+      last_successful_run: this.lastSuccessfulRun
+    };
   }
 }
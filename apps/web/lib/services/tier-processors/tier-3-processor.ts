@@ -5,15 +5,52 @@
  * - News articles from reputable outlets
  * - Industry publications
  * - Press releases and media coverage
+ *
+ * Articles come from a pluggable NewsProvider (Bing News by default) and are
+ * chunked and run through the same LLM extraction as Tier 1. Site events such
+ * as openings, closures, expansions and incidents are linked to the site they
+ * happened at and keep the article's publication date as evidence.
  */
 
-import { EnrichmentContext, EnrichmentFact } from '../../types/enrichment';
-import { TierProcessor, TierProcessingResult } from '../unified-enrichment-orchestrator';
+import { CrawledPage, EnrichmentContext, EnrichmentFact, TextChunk, TierProcessor, TierProcessingResult } from '../../types/enrichment';
+import { JobRepository } from '../../repositories/job-repository';
+import { BingNewsClient, NewsArticle, NewsProvider } from '../bing-news-client';
+import { RecordedNewsProvider } from '../recorded-news-provider';
+import { TextChunkingStep } from '../steps/text-chunking-step';
+import { FactExtractionStep } from '../steps/fact-extraction-step';
+
+const NEWS_TEMPLATE_NAME = 'News Site Event Extraction';
+
+/**
+ * Builds the default news provider. NEWS_FIXTURES_DIR switches Tier 3 to
+ * recorded articles so it can run without network access.
+ */
+export function createDefaultNewsProvider(): NewsProvider {
+  if (process.env.NEWS_FIXTURES_DIR) {
+    return new RecordedNewsProvider(process.env.NEWS_FIXTURES_DIR);
+  }
+
+  // Never extract facts from the client's development mock articles
+  return new BingNewsClient({ mockFallback: false });
+}
 
 export class Tier3Processor implements TierProcessor {
   public readonly tier = 3;
   public readonly name = 'News Articles';
 
+  private newsProvider: NewsProvider;
+  private textChunkingStep: TextChunkingStep;
+  private factExtractionStep: FactExtractionStep;
+  private maxArticles: number;
+  private lastSuccessfulRun?: Date;
+
+  constructor(jobRepository: JobRepository, newsProvider?: NewsProvider) {
+    this.newsProvider = newsProvider || createDefaultNewsProvider();
+    this.textChunkingStep = new TextChunkingStep(jobRepository);
+    this.factExtractionStep = new FactExtractionStep(jobRepository);
+    this.maxArticles = parseInt(process.env.TIER3_MAX_ARTICLES || '5');
+  }
+
   /**
    * Check if this processor can handle the given context
    */
@@ -41,72 +78,43 @@ export class Tier3Processor implements TierProcessor {
     let errorMessage: string | undefined;
 
     try {
-      // For now, Tier 3 is a placeholder that generates some mock facts
-      // In a real implementation, this would:
-      // 1. Search news APIs for company mentions
-      // 2. Analyze industry publications
-      // 3. Extract market sentiment and recent developments
-      
-      console.log(`Tier 3: Simulating news and media analysis for ${domain}`);
-      
-      // Simulate some processing time
-      await this.delay(3000);
-      
-      // Generate mock facts based on existing context
       const companyName = this.extractCompanyName(context);
-      
-      if (companyName) {
-        facts = [
-          {
-            id: `tier3_${jobId}_1`,
-            job_id: jobId,
-            fact_type: 'recent_news_sentiment',
-            fact_data: {
-              value: 'Positive',
-              source: 'News Analysis',
-              confidence: 0.65,
-              details: 'Recent news coverage shows positive sentiment around company growth and innovation'
-            },
-            confidence_score: 0.65,
-            source_url: `https://news.google.com/search?q=${companyName.replace(/\s+/g, '+')}`,
-            source_text: `Recent news analysis indicates positive sentiment around ${companyName} with coverage focusing on growth initiatives and market expansion.`,
-            created_at: new Date().toISOString(),
-            validated: false,
-            tier_used: 3
-          },
-          {
-            id: `tier3_${jobId}_2`,
-            job_id: jobId,
-            fact_type: 'market_presence',
-            fact_data: {
-              value: 'Expanding market presence',
-              source: 'Industry Publications',
-              confidence: 0.60,
-              details: 'Industry publications mention company expansion and new market initiatives'
-            },
-            confidence_score: 0.60,
-            source_url: `https://techcrunch.com/search/${companyName.replace(/\s+/g, '+')}`,
-            source_text: `Industry publications indicate ${companyName} is expanding its market presence through strategic initiatives and partnerships.`,
-            created_at: new Date().toISOString(),
-            validated: false,
-            tier_used: 3
-          }
-        ];
-        
-        sourcesAttempted = [
-          `https://news.google.com/search?q=${companyName.replace(/\s+/g, '+')}`,
-          `https://techcrunch.com/search/${companyName.replace(/\s+/g, '+')}`,
-          `https://reuters.com/search/news?blob=${companyName.replace(/\s+/g, '+')}`
-        ];
-        
-        pagesScraped = 3;
-        status = 'completed';
-        
-        console.log(`Tier 3: Generated ${facts.length} facts from news analysis`);
-      } else {
+
+      console.log(`Tier 3: Searching ${this.newsProvider.name} for ${companyName} (${domain})`);
+      const searchResult = await this.newsProvider.searchCompanyNews(domain, companyName || undefined);
+      const articles = this.selectArticles(searchResult.articles);
+      sourcesAttempted = articles.map(article => article.url);
+
+      if (articles.length === 0) {
         status = 'partial';
-        errorMessage = 'Could not extract company name for Tier 3 analysis';
-        console.log(`Tier 3: Could not proceed without company name`);
+        errorMessage = `No news articles found for ${domain}`;
+        console.log(`Tier 3: ${errorMessage}`);
+      } else {
+        // Step 1: Fetch article bodies
+        const articlePages = await this.fetchArticlePages(articles, jobId);
+        pagesScraped = articlePages.length;
+
+        // Step 2: Chunk article bodies with the Tier 1 chunker
+        const chunks = await this.textChunkingStep.chunkPages(articlePages);
+        console.log(`Tier 3: Created ${chunks.length} chunks from ${articlePages.length} articles`);
+
+        // Step 3: Extract facts with the Tier 1 LLM extraction
+        const articlesByUrl = new Map(articles.map(article => [article.url, article]));
+        facts = await this.factExtractionStep.extractFacts(chunks, context.job, {
+          templateName: NEWS_TEMPLATE_NAME,
+          tier: this.tier,
+          annotateFact: (fact, sourceChunk) => this.annotateFact(fact, sourceChunk, articlesByUrl)
+        });
+
+        if (facts.length > 0) {
+          status = 'completed';
+          this.lastSuccessfulRun = new Date();
+        } else {
+          status = 'partial';
+          errorMessage = `No facts extracted from ${articles.length} news articles`;
+        }
+
+        console.log(`Tier 3: Extracted ${facts.length} facts from news coverage`);
       }
       
     } catch (error) {
@@ -143,6 +151,96 @@ export class Tier3Processor implements TierProcessor {
     return result;
   }
 
+  /**
+   * Keep the most relevant articles, preferring recent coverage on ties
+   */
+  private selectArticles(articles: NewsArticle[]): NewsArticle[] {
+    const seenUrls = new Set<string>();
+
+    return [...articles]
+      .filter(article => {
+        if (!article.url || seenUrls.has(article.url)) {
+          return false;
+        }
+        seenUrls.add(article.url);
+        return true;
+      })
+      .sort((a, b) => {
+        const relevanceDiff = b.relevanceScore - a.relevanceScore;
+        if (Math.abs(relevanceDiff) > 0.1) {
+          return relevanceDiff;
+        }
+        return new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime();
+      })
+      .slice(0, this.maxArticles);
+  }
+
+  /**
+   * Fetch article bodies and wrap them as pages for the chunker
+   */
+  private async fetchArticlePages(articles: NewsArticle[], jobId: string): Promise<CrawledPage[]> {
+    const pages: CrawledPage[] = [];
+
+    for (const article of articles) {
+      try {
+        const body = await this.newsProvider.fetchArticleContent(article, jobId);
+        if (!body) {
+          continue;
+        }
+
+        // Lead with the headline so short articles still have context
+        const content = `${article.title}. ${body}`;
+
+        pages.push({
+          url: article.url,
+          title: article.title,
+          content,
+          metadata: {
+            crawled_at: new Date().toISOString(),
+            status_code: 200,
+            content_type: 'text/html',
+            word_count: content.split(/\s+/).filter(word => word.length > 0).length
+          }
+        });
+      } catch (error) {
+        console.error(`Tier 3: Failed to fetch article ${article.url}:`, error);
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Attach the article citation to a fact and link site events to their site
+   */
+  private annotateFact(
+    fact: EnrichmentFact,
+    sourceChunk: TextChunk | undefined,
+    articlesByUrl: Map<string, NewsArticle>
+  ): EnrichmentFact {
+    const article = sourceChunk ? articlesByUrl.get(sourceChunk.metadata.source_url) : undefined;
+    if (!article) {
+      return fact;
+    }
+
+    const factData: Record<string, any> = {
+      ...fact.fact_data,
+      published_at: article.publishedAt,
+      publisher: article.source.name,
+      article_title: article.title
+    };
+
+    if (fact.fact_type === 'location' && factData.event_type) {
+      factData.site_name = factData.site_name || factData.facility_name || factData.city;
+    }
+
+    return {
+      ...fact,
+      fact_data: factData,
+      source_url: article.url
+    };
+  }
+
   /**
    * Extract company name from existing context
    */
@@ -176,26 +274,17 @@ export class Tier3Processor implements TierProcessor {
     return {
       name: this.name,
       tier: this.tier,
-      data_sources: [
-        'Google News',
-        'TechCrunch',
-        'Reuters Business',
-        'Industry Publications',
-        'Press Release Wires',
-        'Financial News Outlets'
-      ],
+      data_sources: [this.newsProvider.name],
       expected_fact_types: [
-        'recent_news_sentiment',
-        'market_presence',
-        'industry_trends',
-        'competitive_landscape',
-        'financial_performance_mentions',
-        'leadership_changes',
-        'product_announcements'
+        'location',
+        'company_info',
+        'metric',
+        'certification',
+        'partnership'
       ],
       confidence_range: {
-        min: 0.4,
-        max: 0.7
+        min: 0.7,
+        max: 1.0
       }
     };
   }
@@ -206,43 +295,18 @@ export class Tier3Processor implements TierProcessor {
   async healthCheck(): Promise<{
     status: 'healthy' | 'degraded' | 'unhealthy';
     components: {
-      news_api_access: 'healthy' | 'unhealthy';
-      rate_limiting: 'healthy' | 'degraded' | 'unhealthy';
+      news_provider: string;
       content_parsing: 'healthy' | 'unhealthy';
     };
     last_successful_run?: Date;
   }> {
-    try {
-      // For now, assume all components are healthy
-      // In a real implementation, this would check API access, rate limits, etc.
-      
-      return {
-        status: 'healthy',
-        components: {
-          news_api_access: 'healthy',
-          rate_limiting: 'healthy',
-          content_parsing: 'healthy'
-        },
-        last_successful_run: new Date()
-      };
-
-    } catch (error) {
-      console.error('Tier 3 health check failed:', error);
-      return {
-        status: 'unhealthy',
-        components: {
-          news_api_access: 'unhealthy',
-          rate_limiting: 'unhealthy',
-          content_parsing: 'unhealthy'
-        }
-      };
-    }
-  }
-
-  /**
-   * Utility method for delays
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return {
+      status: 'healthy',
+      components: {
+        news_provider: this.newsProvider.name,
+        content_parsing: 'healthy'
+      },
+      last_successful_run: this.lastSuccessfulRun
+    };
   }
 }
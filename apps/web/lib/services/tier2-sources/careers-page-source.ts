@@ -0,0 +1,135 @@
+/**
+ * Careers Page Source
+ *
+ * Tier 2 source that reads the careers pages and company profile pages
+ * published on the target domain. Job postings are taken from schema.org
+ * JobPosting markup (which most ATS-hosted careers pages embed for search
+ * engines); headcount comes from Organization markup or "N employees"
+ * statements on about/company pages.
+ */
+
+import {
+  Tier2Source,
+  Tier2SourceConfig,
+  Tier2SourceQuery,
+  Tier2SourceResult
+} from '../../types/tier2-sources';
+import { generateCrawlUrl } from '../../utils/domain-validator';
+import { parseCompanyProfileFromHtml, parseJobPostingsFromHtml } from './posting-parser';
+import { safeFetch } from '../safe-fetch';
+
+const CAREERS_PATHS = ['/careers', '/jobs', '/careers/jobs', '/en/careers', '/company/careers', '/join-us'];
+const PROFILE_PATHS = ['/about', '/about-us', '/company', '/en/about-us', '/who-we-are'];
+
+export class CareersPageSource implements Tier2Source {
+  public readonly name = 'Careers Pages';
+  private readonly config: Tier2SourceConfig;
+
+  constructor(config: Partial<Tier2SourceConfig> = {}) {
+    this.config = {
+      timeout_ms: parseInt(process.env.TIER2_TIMEOUT_MS || '15000'),
+      user_agent: process.env.CRAWLER_USER_AGENT || 'Resilion-Enrichment-Bot/1.0',
+      max_postings: 200,
+      ...config
+    };
+  }
+
+  isAvailable(query: Tier2SourceQuery): boolean {
+    return !!query.domain;
+  }
+
+  async fetch(query: Tier2SourceQuery): Promise<Tier2SourceResult> {
+    const baseUrl = generateCrawlUrl(query.domain);
+    const result: Tier2SourceResult = {
+      source_name: this.name,
+      postings: [],
+      profiles: [],
+      urls_fetched: [],
+      errors: []
+    };
+
+    const careersUrls: string[] = [
+      ...(Array.isArray(query.job_metadata.careers_urls) ? query.job_metadata.careers_urls : []),
+      ...CAREERS_PATHS.map(path => `${baseUrl}${path}`)
+    ];
+
+    const seenPostings = new Set<string>();
+
+    for (const url of careersUrls) {
+      if (result.postings.length >= this.config.max_postings) {
+        break;
+      }
+
+      const html = await this.fetchHtml(url, result, query.job_id);
+      if (!html) {
+        continue;
+      }
+
+      const postings = parseJobPostingsFromHtml(html, url, this.name);
+      for (const posting of postings) {
+        const key = `${posting.url}|${posting.title}`;
+        if (!seenPostings.has(key)) {
+          seenPostings.add(key);
+          result.postings.push(posting);
+        }
+      }
+
+      console.log(`[CareersPageSource] ${url}: ${postings.length} job postings`);
+    }
+
+    const profileUrls: string[] = [
+      ...(Array.isArray(query.job_metadata.company_profile_urls) ? query.job_metadata.company_profile_urls : []),
+      ...PROFILE_PATHS.map(path => `${baseUrl}${path}`)
+    ];
+
+    for (const url of profileUrls) {
+      const html = await this.fetchHtml(url, result, query.job_id);
+      if (!html) {
+        continue;
+      }
+
+      const profile = parseCompanyProfileFromHtml(html, url, this.name);
+      if (profile) {
+        result.profiles.push(profile);
+        // One authoritative headcount statement is enough
+        break;
+      }
+    }
+
+    result.postings = result.postings.slice(0, this.config.max_postings);
+    return result;
+  }
+
+  /**
+   * Fetches a page and returns its HTML, or null when it is missing or not HTML
+   */
+  private async fetchHtml(url: string, result: Tier2SourceResult, jobId?: string): Promise<string | null> {
+    try {
+      const response = await safeFetch(url, {
+        headers: {
+          'User-Agent': this.config.user_agent,
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'
+        },
+        signal: AbortSignal.timeout(this.config.timeout_ms)
+      }, { job_id: jobId });
+
+      if (!response.ok) {
+        return null;
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      if (!contentType.includes('text/html')) {
+        return null;
+      }
+
+      result.urls_fetched.push(url);
+      return await response.text();
+
+    } catch (error) {
+      const message = `Failed to fetch ${url}: ${error instanceof Error ? error.message : String(error)}`;
+      console.warn(`[CareersPageSource] ${message}`);
+      result.errors.push(message);
+      return null;
+    }
+  }
+}
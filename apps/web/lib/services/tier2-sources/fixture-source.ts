@@ -0,0 +1,91 @@
+/**
+ * Fixture Tier 2 Source
+ *
+ * Offline Tier 2 source that serves job postings and company profiles from
+ * recorded fixtures instead of the network. Fixtures are keyed by domain and
+ * can be passed in directly (tests) or loaded from a directory of
+ * `<domain>.json` files (local development via TIER2_FIXTURES_DIR).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  Tier2Fixture,
+  Tier2Source,
+  Tier2SourceQuery,
+  Tier2SourceResult
+} from '../../types/tier2-sources';
+
+export class FixtureTier2Source implements Tier2Source {
+  public readonly name: string;
+  private readonly fixtures: Map<string, Tier2Fixture>;
+  private readonly fixturesDir?: string;
+
+  constructor(fixtures: Record<string, Tier2Fixture> | string, name: string = 'Recorded Fixtures') {
+    this.name = name;
+    this.fixtures = new Map();
+
+    if (typeof fixtures === 'string') {
+      this.fixturesDir = fixtures;
+    } else {
+      for (const [domain, fixture] of Object.entries(fixtures)) {
+        this.fixtures.set(this.normalizeDomain(domain), fixture);
+      }
+    }
+  }
+
+  isAvailable(query: Tier2SourceQuery): boolean {
+    return !!this.fixturesDir || this.fixtures.has(this.normalizeDomain(query.domain));
+  }
+
+  async fetch(query: Tier2SourceQuery): Promise<Tier2SourceResult> {
+    const domain = this.normalizeDomain(query.domain);
+    const result: Tier2SourceResult = {
+      source_name: this.name,
+      postings: [],
+      profiles: [],
+      urls_fetched: [],
+      errors: []
+    };
+
+    const fixture = await this.loadFixture(domain, result);
+    if (!fixture) {
+      return result;
+    }
+
+    result.postings = (fixture.postings || []).map(posting => ({ ...posting }));
+    result.profiles = (fixture.profiles || []).map(profile => ({ ...profile }));
+    result.urls_fetched = [
+      ...new Set([
+        ...result.postings.map(posting => posting.url),
+        ...result.profiles.map(profile => profile.url)
+      ])
+    ];
+
+    return result;
+  }
+
+  private async loadFixture(domain: string, result: Tier2SourceResult): Promise<Tier2Fixture | null> {
+    const cached = this.fixtures.get(domain);
+    if (cached || !this.fixturesDir) {
+      return cached || null;
+    }
+
+    const fixturePath = path.join(this.fixturesDir, `${domain}.json`);
+
+    try {
+      const fixture = JSON.parse(await fs.readFile(fixturePath, 'utf-8')) as Tier2Fixture;
+      this.fixtures.set(domain, fixture);
+      return fixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        result.errors.push(`Failed to load fixture ${fixturePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return null;
+    }
+  }
+
+  private normalizeDomain(domain: string): string {
+    return domain.toLowerCase().replace(/^www\./, '');
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Job Board Source
+ *
+ * Tier 2 source backed by the public job board APIs of the applicant
+ * tracking systems most manufacturers use (Greenhouse and Lever). Board
+ * tokens come from the job metadata (`job_boards: { greenhouse, lever }`)
+ * and default to the domain's first label, which is how most companies
+ * name their boards.
+ */
+
+import {
+  JobPosting,
+  Tier2Source,
+  Tier2SourceConfig,
+  Tier2SourceQuery,
+  Tier2SourceResult
+} from '../../types/tier2-sources';
+import { parsePostingLocations } from './posting-parser';
+import { safeFetch } from '../safe-fetch';
+
+type BoardProvider = 'greenhouse' | 'lever';
+
+export class JobBoardSource implements Tier2Source {
+  public readonly name = 'Job Boards';
+  private readonly config: Tier2SourceConfig;
+
+  constructor(config: Partial<Tier2SourceConfig> = {}) {
+    this.config = {
+      timeout_ms: parseInt(process.env.TIER2_TIMEOUT_MS || '15000'),
+      user_agent: process.env.CRAWLER_USER_AGENT || 'Resilion-Enrichment-Bot/1.0',
+      max_postings: 200,
+      ...config
+    };
+  }
+
+  isAvailable(query: Tier2SourceQuery): boolean {
+    return !!query.domain;
+  }
+
+  async fetch(query: Tier2SourceQuery): Promise<Tier2SourceResult> {
+    const result: Tier2SourceResult = {
+      source_name: this.name,
+      postings: [],
+      profiles: [],
+      urls_fetched: [],
+      errors: []
+    };
+
+    const tokens = this.resolveBoardTokens(query);
+
+    for (const [provider, token] of Object.entries(tokens) as Array<[BoardProvider, string]>) {
+      try {
+        const postings = provider === 'greenhouse'
+          ? await this.fetchGreenhouse(token, result, query.job_id)
+          : await this.fetchLever(token, result, query.job_id);
+
+        result.postings.push(...postings);
+        console.log(`[JobBoardSource] ${provider}/${token}: ${postings.length} job postings`);
+      } catch (error) {
+        const message = `${provider} board ${token} failed: ${error instanceof Error ? error.message : String(error)}`;
+        console.warn(`[JobBoardSource] ${message}`);
+        result.errors.push(message);
+      }
+    }
+
+    result.postings = result.postings.slice(0, this.config.max_postings);
+    return result;
+  }
+
+  /**
+   * Resolves the board token for each supported provider
+   */
+  private resolveBoardTokens(query: Tier2SourceQuery): Partial<Record<BoardProvider, string>> {
+    const configured = query.job_metadata.job_boards || {};
+    const defaultToken = query.domain.replace(/^www\./, '').split('.')[0].toLowerCase();
+
+    return {
+      greenhouse: configured.greenhouse || defaultToken,
+      lever: configured.lever || defaultToken
+    };
+  }
+
+  private async fetchGreenhouse(token: string, result: Tier2SourceResult, jobId?: string): Promise<JobPosting[]> {
+    const url = `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(token)}/jobs?content=true`;
+    const data = await this.fetchJson(url, result, jobId);
+    if (!data || !Array.isArray(data.jobs)) {
+      return [];
+    }
+
+    return data.jobs.map((job: any): JobPosting => ({
+      id: `greenhouse_${job.id}`,
+      title: job.title || '',
+      url: job.absolute_url || url,
+      locations: parsePostingLocations(job.location?.name),
+      department: job.departments?.[0]?.name,
+      description: typeof job.content === 'string' ? job.content.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim().substring(0, 1000) : undefined,
+      posted_at: job.updated_at,
+      source_name: `Greenhouse (${token})`
+    })).filter((posting: JobPosting) => posting.title);
+  }
+
+  private async fetchLever(token: string, result: Tier2SourceResult, jobId?: string): Promise<JobPosting[]> {
+    const url = `https://api.lever.co/v0/postings/${encodeURIComponent(token)}?mode=json`;
+    const data = await this.fetchJson(url, result, jobId);
+    if (!Array.isArray(data)) {
+      return [];
+    }
+
+    return data.map((posting: any): JobPosting => {
+      const rawLocations: string[] = Array.isArray(posting.categories?.allLocations) && posting.categories.allLocations.length > 0
+        ? posting.categories.allLocations
+        : [posting.categories?.location].filter(Boolean);
+
+      return {
+        id: `lever_${posting.id}`,
+        title: posting.text || '',
+        url: posting.hostedUrl || url,
+        locations: rawLocations.flatMap(location => parsePostingLocations(location)),
+        department: posting.categories?.team,
+        employment_type: posting.categories?.commitment,
+        description: typeof posting.descriptionPlain === 'string' ? posting.descriptionPlain.substring(0, 1000) : undefined,
+        posted_at: posting.createdAt ? new Date(posting.createdAt).toISOString() : undefined,
+        source_name: `Lever (${token})`
+      };
+    }).filter((posting: JobPosting) => posting.title);
+  }
+
+  /**
+   * Fetches a JSON document, treating 404s as "no board" rather than an error
+   */
+  private async fetchJson(url: string, result: Tier2SourceResult, jobId?: string): Promise<any> {
+    const response = await safeFetch(url, {
+      headers: {
+        'User-Agent': this.config.user_agent,
+        'Accept': 'application/json'
+      },
+      signal: AbortSignal.timeout(this.config.timeout_ms)
+    }, { job_id: jobId });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    result.urls_fetched.push(url);
+    return response.json();
+  }
+}
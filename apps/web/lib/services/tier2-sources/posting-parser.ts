@@ -0,0 +1,413 @@
+/**
+ * Job Posting Parser
+ *
+ * Shared parsing helpers for Tier 2 sources: normalizes posting locations,
+ * reads schema.org JobPosting / Organization JSON-LD blocks and recognizes
+ * headcount statements in company profile text.
+ */
+
+import * as cheerio from 'cheerio';
+import {
+  CompanyProfile,
+  HeadcountEstimate,
+  JobPosting,
+  PostingLocation
+} from '../../types/tier2-sources';
+
+const US_STATE_CODES = new Set([
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA',
+  'KS', 'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ',
+  'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT',
+  'VA', 'WA', 'WV', 'WI', 'WY', 'DC'
+]);
+
+const US_COUNTRY_ALIASES = new Set(['us', 'usa', 'u.s.', 'u.s.a.', 'united states', 'united states of america']);
+
+const REMOTE_PATTERN = /\b(remote|work from home|telecommute|anywhere)\b/i;
+
+/**
+ * Splits a raw posting location ("Greenville, SC; Remote - US") into
+ * normalized location records
+ */
+export function parsePostingLocations(raw: string | undefined | null): PostingLocation[] {
+  if (!raw || typeof raw !== 'string') {
+    return [];
+  }
+
+  return raw
+    .split(/\s*[;|\/]\s*/)
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .map(part => parsePostingLocation(part));
+}
+
+/**
+ * Normalizes a single location string into city / state / country parts
+ */
+export function parsePostingLocation(raw: string): PostingLocation {
+  const remote = REMOTE_PATTERN.test(raw);
+  const cleaned = raw
+    .replace(REMOTE_PATTERN, '')
+    .replace(/^[\s\-–:(]+|[\s\-–:)]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const location: PostingLocation = { raw, remote };
+
+  if (!cleaned) {
+    return location;
+  }
+
+  const parts = cleaned.split(',').map(part => part.trim()).filter(Boolean);
+
+  if (parts.length === 1) {
+    if (US_COUNTRY_ALIASES.has(parts[0].toLowerCase())) {
+      location.country = 'United States';
+    } else if (remote) {
+      location.country = parts[0];
+    } else {
+      location.city = parts[0];
+    }
+    return location;
+  }
+
+  location.city = parts[0];
+
+  if (parts.length === 2) {
+    const second = parts[1];
+    if (US_STATE_CODES.has(second.toUpperCase())) {
+      location.state_province = second.toUpperCase();
+      location.country = 'United States';
+    } else if (US_COUNTRY_ALIASES.has(second.toLowerCase())) {
+      location.country = 'United States';
+    } else {
+      location.country = second;
+    }
+    return location;
+  }
+
+  location.state_province = US_STATE_CODES.has(parts[1].toUpperCase()) ? parts[1].toUpperCase() : parts[1];
+  const country = parts[parts.length - 1];
+  location.country = US_COUNTRY_ALIASES.has(country.toLowerCase()) ? 'United States' : country;
+
+  return location;
+}
+
+/**
+ * Builds a stable key for grouping postings by physical location
+ */
+export function locationKey(location: PostingLocation): string | null {
+  if (!location.city) {
+    return null;
+  }
+
+  return [location.city, location.state_province, location.country]
+    .filter(Boolean)
+    .map(part => part!.toLowerCase())
+    .join('|');
+}
+
+/**
+ * Formats a location for display and fact values
+ */
+export function formatLocation(location: PostingLocation): string {
+  return [location.city, location.state_province, location.country].filter(Boolean).join(', ');
+}
+
+/**
+ * Recognizes headcount statements such as "1,001-5,000 employees",
+ * "more than 12,000 employees" or "10,001+ employees"
+ */
+export function parseHeadcount(text: string | undefined | null): HeadcountEstimate | null {
+  if (!text) {
+    return null;
+  }
+
+  const rangeMatch = text.match(/(\d[\d,.]*)\s*(?:-|–|to)\s*(\d[\d,.]*)\s*(?:employees|staff|people|team members)/i);
+  if (rangeMatch) {
+    return {
+      min: parseCount(rangeMatch[1]),
+      max: parseCount(rangeMatch[2]),
+      raw: rangeMatch[0].trim()
+    };
+  }
+
+  const openMatch = text.match(/(?:(more than|over|nearly|approximately|about|around|roughly)\s+)?(\d[\d,.]*)\s*(\+)?\s*(k\b)?\s*(?:employees|staff|people|team members)/i);
+  if (openMatch) {
+    let count = parseCount(openMatch[2]);
+    if (count === undefined) {
+      return null;
+    }
+    if (openMatch[4]) {
+      count *= 1000;
+    }
+
+    const qualifier = openMatch[1]?.toLowerCase();
+    const isLowerBound = !!openMatch[3] || qualifier === 'more than' || qualifier === 'over';
+
+    return {
+      min: count,
+      max: isLowerBound ? undefined : count,
+      raw: openMatch[0].trim()
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Formats a headcount estimate as a fact value ("500-1000", "12000+", "300")
+ */
+export function formatHeadcount(headcount: HeadcountEstimate): string {
+  if (headcount.min !== undefined && headcount.max !== undefined) {
+    return headcount.min === headcount.max ? `${headcount.min}` : `${headcount.min}-${headcount.max}`;
+  }
+  if (headcount.min !== undefined) {
+    return `${headcount.min}+`;
+  }
+  return headcount.raw;
+}
+
+/**
+ * Extracts schema.org JobPosting entries from the JSON-LD blocks of a page
+ */
+export function parseJobPostingsFromHtml(html: string, pageUrl: string, sourceName: string): JobPosting[] {
+  const postings: JobPosting[] = [];
+
+  for (const node of readJsonLdNodes(html)) {
+    if (!hasType(node, 'JobPosting')) {
+      continue;
+    }
+
+    const title = typeof node.title === 'string' ? node.title.trim() : '';
+    if (!title) {
+      continue;
+    }
+
+    const url = typeof node.url === 'string' ? resolveUrl(node.url, pageUrl) : pageUrl;
+    const locations = readJobLocations(node);
+
+    postings.push({
+      id: String(node.identifier?.value ?? node.identifier ?? `${url}#${postings.length}`),
+      title,
+      url,
+      locations,
+      department: typeof node.occupationalCategory === 'string' ? node.occupationalCategory : undefined,
+      employment_type: Array.isArray(node.employmentType) ? node.employmentType.join(', ') : node.employmentType,
+      description: typeof node.description === 'string' ? stripHtml(node.description).substring(0, 1000) : undefined,
+      posted_at: typeof node.datePosted === 'string' ? node.datePosted : undefined,
+      source_name: sourceName
+    });
+  }
+
+  return postings;
+}
+
+/**
+ * Extracts a company profile (headcount, headquarters, industry) from a page,
+ * preferring schema.org Organization data over free-text statements
+ */
+export function parseCompanyProfileFromHtml(html: string, pageUrl: string, sourceName: string): CompanyProfile | null {
+  for (const node of readJsonLdNodes(html)) {
+    if (!hasType(node, 'Organization') && !hasType(node, 'Corporation')) {
+      continue;
+    }
+
+    const headcount = readNumberOfEmployees(node.numberOfEmployees);
+    if (!headcount) {
+      continue;
+    }
+
+    return {
+      url: pageUrl,
+      company_name: typeof node.name === 'string' ? node.name : undefined,
+      headcount,
+      headquarters: formatPostalAddress(node.address),
+      industry: typeof node.industry === 'string' ? node.industry : undefined,
+      source_text: `numberOfEmployees: ${headcount.raw}`,
+      source_name: sourceName
+    };
+  }
+
+  const $ = cheerio.load(html);
+  $('script, style, nav, header, footer').remove();
+  const text = $('body').text().replace(/\s+/g, ' ').trim();
+
+  const headcount = parseHeadcount(text);
+  if (!headcount) {
+    return null;
+  }
+
+  return {
+    url: pageUrl,
+    headcount,
+    source_text: snippetAround(text, headcount.raw, 200),
+    source_name: sourceName
+  };
+}
+
+/**
+ * Returns a snippet of at most maxLength characters centred on the needle
+ */
+export function snippetAround(text: string, needle: string, maxLength: number): string {
+  const index = text.indexOf(needle);
+  if (index === -1) {
+    return text.substring(0, maxLength);
+  }
+
+  const padding = Math.max(0, Math.floor((maxLength - needle.length) / 2));
+  const start = Math.max(0, index - padding);
+  return text.substring(start, start + maxLength).trim();
+}
+
+function readJsonLdNodes(html: string): any[] {
+  const $ = cheerio.load(html);
+  const nodes: any[] = [];
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      const parsed = JSON.parse($(element).contents().text());
+      collectNodes(parsed, nodes);
+    } catch (error) {
+      // Ignore malformed JSON-LD blocks
+    }
+  });
+
+  return nodes;
+}
+
+function collectNodes(value: any, nodes: any[]): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectNodes(item, nodes));
+    return;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+
+  nodes.push(value);
+
+  if (value['@graph']) {
+    collectNodes(value['@graph'], nodes);
+  }
+  if (Array.isArray(value.itemListElement)) {
+    value.itemListElement.forEach((item: any) => collectNodes(item?.item ?? item, nodes));
+  }
+}
+
+function hasType(node: any, type: string): boolean {
+  const nodeType = node['@type'];
+  return Array.isArray(nodeType) ? nodeType.includes(type) : nodeType === type;
+}
+
+function readJobLocations(node: any): PostingLocation[] {
+  const locations: PostingLocation[] = [];
+  const jobLocations = Array.isArray(node.jobLocation) ? node.jobLocation : node.jobLocation ? [node.jobLocation] : [];
+
+  for (const place of jobLocations) {
+    const address = place?.address;
+    if (!address) {
+      continue;
+    }
+
+    if (typeof address === 'string') {
+      locations.push(...parsePostingLocations(address));
+      continue;
+    }
+
+    const country = typeof address.addressCountry === 'string'
+      ? address.addressCountry
+      : address.addressCountry?.name;
+
+    const raw = [address.addressLocality, address.addressRegion, country].filter(Boolean).join(', ');
+    if (!raw) {
+      continue;
+    }
+
+    locations.push({
+      ...parsePostingLocation(raw),
+      city: address.addressLocality || undefined,
+      state_province: address.addressRegion || undefined,
+      country: normalizeCountry(country)
+    });
+  }
+
+  if (node.jobLocationType === 'TELECOMMUTE') {
+    locations.push({ raw: 'Remote', remote: true });
+  }
+
+  return locations;
+}
+
+function readNumberOfEmployees(value: any): HeadcountEstimate | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (typeof value === 'number') {
+    return { min: value, max: value, raw: `${value}` };
+  }
+
+  if (typeof value === 'string') {
+    return parseHeadcount(`${value} employees`);
+  }
+
+  const exact = parseCount(String(value.value ?? ''));
+  const min = parseCount(String(value.minValue ?? '')) ?? exact;
+  const max = parseCount(String(value.maxValue ?? '')) ?? exact;
+
+  if (min === undefined && max === undefined) {
+    return null;
+  }
+
+  return {
+    min,
+    max,
+    raw: [min, max].filter(v => v !== undefined).join('-')
+  };
+}
+
+function formatPostalAddress(address: any): string | undefined {
+  if (!address) {
+    return undefined;
+  }
+  if (typeof address === 'string') {
+    return address;
+  }
+
+  const country = typeof address.addressCountry === 'string' ? address.addressCountry : address.addressCountry?.name;
+  const formatted = [address.streetAddress, address.addressLocality, address.addressRegion, address.postalCode, country]
+    .filter(Boolean)
+    .join(', ');
+
+  return formatted || undefined;
+}
+
+function normalizeCountry(country: string | undefined): string | undefined {
+  if (!country) {
+    return undefined;
+  }
+  return US_COUNTRY_ALIASES.has(country.toLowerCase()) ? 'United States' : country;
+}
+
+function parseCount(value: string): number | undefined {
+  const digits = value.replace(/[,.](?=\d{3}\b)/g, '').replace(/[^\d]/g, '');
+  if (!digits) {
+    return undefined;
+  }
+  const count = parseInt(digits, 10);
+  return Number.isFinite(count) ? count : undefined;
+}
+
+function resolveUrl(href: string, baseUrl: string): string {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch (error) {
+    return baseUrl;
+  }
+}
+
+function stripHtml(value: string): string {
+  return cheerio.load(value)('body').text().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,111 @@
+/**
+ * Token Budget
+ *
+ * Sizes chunks and extraction batches in tokens of the model that will
+ * read them instead of characters. Text is tokenized with the o200k_base
+ * encoding the GPT-4o models use. Anthropic and Google do not publish local
+ * tokenizers for their models, so their counts are the o200k count scaled
+ * by how their tokenizers compare on typical web text.
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import { LLMModel, LLMProvider } from '../types/enrichment';
+
+export interface LLMModelProfile {
+  provider: LLMProvider;
+  context_window: number;       // Prompt and completion tokens together
+  max_output_tokens: number;
+  tokenizer_ratio: number;      // Tokens relative to o200k_base; 1 for models that use it
+}
+
+export const LLM_MODEL_PROFILES: Record<LLMModel, LLMModelProfile> = {
+  'gpt-4o': { provider: 'openai', context_window: 128000, max_output_tokens: 16384, tokenizer_ratio: 1 },
+  'gpt-4o-mini': { provider: 'openai', context_window: 128000, max_output_tokens: 16384, tokenizer_ratio: 1 },
+  'claude-3-5-sonnet': { provider: 'anthropic', context_window: 200000, max_output_tokens: 8192, tokenizer_ratio: 1.2 },
+  'claude-3-haiku': { provider: 'anthropic', context_window: 200000, max_output_tokens: 4096, tokenizer_ratio: 1.2 },
+  'gemini-1.5-pro': { provider: 'google', context_window: 2097152, max_output_tokens: 8192, tokenizer_ratio: 1.05 },
+  'gemini-1.5-flash': { provider: 'google', context_window: 1048576, max_output_tokens: 8192, tokenizer_ratio: 1.05 }
+};
+
+// Assumed for models without a profile, small enough for any current model
+const FALLBACK_PROFILE: LLMModelProfile = {
+  provider: 'openai',
+  context_window: 16000,
+  max_output_tokens: 4096,
+  tokenizer_ratio: 1.2
+};
+
+const warnedModels = new Set<string>();
+
+// Building the encoder parses the whole vocabulary, so it is done once, on first use
+let encoder: Tiktoken | null = null;
+
+/**
+ * Profile of a model name; unknown models get a conservative fallback
+ */
+export function modelProfile(model: string): LLMModelProfile {
+  const profile = LLM_MODEL_PROFILES[model as LLMModel];
+  if (!profile && !warnedModels.has(model)) {
+    warnedModels.add(model);
+    console.warn(`[TokenBudget] No profile for model ${model}, assuming a ${FALLBACK_PROFILE.context_window}-token context`);
+  }
+  return profile || FALLBACK_PROFILE;
+}
+
+/**
+ * Number of tokens the model's tokenizer produces for the text: exact for
+ * o200k models, scaled from the o200k count for the others
+ */
+export function estimateTokens(text: string, model: string): number {
+  if (!text) return 0;
+
+  encoder = encoder || new Tiktoken(o200kBase);
+  const tokens = encoder.encode(text).length;
+  return Math.ceil(tokens * modelProfile(model).tokenizer_ratio);
+}
+
+/**
+ * Size of a text in the unit of a chunking config: estimated tokens of the
+ * model when one is given, characters otherwise
+ */
+export function textSize(text: string, model?: string): number {
+  return model ? estimateTokens(text, model) : text.length;
+}
+
+/**
+ * Tokens a prompt may use: the given fraction of the model's context
+ * window, leaving room for the completion
+ */
+export function promptTokenBudget(model: string, contextFraction: number, maxOutputTokens: number): number {
+  const { context_window } = modelProfile(model);
+  return Math.max(0, Math.min(Math.floor(context_window * contextFraction), context_window - maxOutputTokens));
+}
+
+/**
+ * Packs items into consecutive batches whose token cost stays within the
+ * budget and that hold at most `maxItems` items. An item that alone exceeds
+ * the budget becomes its own batch.
+ */
+export function packBatches<T>(
+  items: T[],
+  tokensOf: (item: T) => number,
+  budget: number,
+  maxItems: number = Infinity
+): Array<{ items: T[]; tokens: number }> {
+  const batches: Array<{ items: T[]; tokens: number }> = [];
+  let current: { items: T[]; tokens: number } = { items: [], tokens: 0 };
+
+  for (const item of items) {
+    const tokens = tokensOf(item);
+    if (current.items.length > 0 && (current.tokens + tokens > budget || current.items.length >= maxItems)) {
+      batches.push(current);
+      current = { items: [], tokens: 0 };
+    }
+    current.items.push(item);
+    current.tokens += tokens;
+  }
+
+  if (current.items.length > 0) batches.push(current);
+  return batches;
+}
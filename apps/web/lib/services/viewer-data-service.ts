@@ -9,20 +9,35 @@ import { getDatabasePool } from '../utils/database';
 import { PostgresOrganizationRepository } from '../repositories/organization-repository';
 import { PostgresSiteRepository } from '../repositories/site-repository';
 import { FactRepository } from '../repositories/fact-repository';
-import { EnrichmentViewerData, Site as ViewerSite, Person, Evidence } from '../types/viewer';
-import { Organization, Site as DatabaseSite } from '../types/data-model';
+import { PostgresAttributeEvidenceRepository } from '../repositories/attribute-evidence-repository';
+import { EnrichmentViewerData, Site as ViewerSite, Person, Evidence, FieldCitations } from '../types/viewer';
+import { AttributeEvidence, Organization, Site as DatabaseSite } from '../types/data-model';
 import { GeocodingService } from './geocoding-service';
 
+// Data model field names that differ from their viewer counterparts
+const VIEWER_FIELD_NAMES: Record<AttributeEvidence['entityType'], Record<string, string>> = {
+  site: {
+    siteName: 'name',
+    address: 'addressStreet'
+  },
+  organization: {
+    companyName: 'name',
+    headquartersAddress: 'headquarters'
+  }
+};
+
 export class ViewerDataService {
   private organizationRepo: PostgresOrganizationRepository;
   private siteRepo: PostgresSiteRepository;
   private factRepo: FactRepository;
+  private evidenceRepo: PostgresAttributeEvidenceRepository;
 
   constructor() {
     const pool = getDatabasePool();
     this.organizationRepo = new PostgresOrganizationRepository(pool);
     this.siteRepo = new PostgresSiteRepository(pool);
     this.factRepo = new FactRepository();
+    this.evidenceRepo = new PostgresAttributeEvidenceRepository(pool);
   }
 
   /**
@@ -51,15 +66,27 @@ export class ViewerDataService {
       // Extract location sites from facts
       const locationSites = this.extractSitesFromLocationFacts(facts, organization.organizationId);
 
+      // Per-field citations of stored sites and organization (a fallback organization has none)
+      const siteCitations = await this.getFieldCitations('site', sites.map(site => site.siteId));
+      const organizationCitations = organization.organizationId.startsWith('fallback-')
+        ? new Map<string, FieldCitations>()
+        : await this.getFieldCitations('organization', [organization.organizationId]);
+
       // Combine database sites with location sites from facts
       const allSites = [
-        ...sites.map(site => this.transformSite(site)),
+        ...sites.map(site => ({
+          ...this.transformSite(site),
+          fieldCitations: siteCitations.get(site.siteId) || {}
+        })),
         ...locationSites
       ];
 
       // Transform data to viewer format
       const viewerData: EnrichmentViewerData = {
-        organization: this.transformOrganization(organization, facts),
+        organization: {
+          ...this.transformOrganization(organization, facts),
+          fieldCitations: organizationCitations.get(organization.organizationId) || {}
+        },
         sites: allSites,
         people: this.extractPeopleFromFacts(facts, organization.organizationId)
       };
@@ -71,6 +98,38 @@ export class ViewerDataService {
     }
   }
 
+  /**
+   * Load field evidence and group it per entity and viewer field
+   */
+  private async getFieldCitations(
+    entityType: AttributeEvidence['entityType'],
+    entityIds: string[]
+  ): Promise<Map<string, FieldCitations>> {
+    const citations = new Map<string, FieldCitations>();
+    const rows = await this.evidenceRepo.findByEntities(entityType, entityIds);
+
+    for (const row of rows) {
+      const fieldName = VIEWER_FIELD_NAMES[entityType][row.fieldName] || row.fieldName;
+      const entityCitations = citations.get(row.entityId) || {};
+
+      entityCitations[fieldName] = [
+        ...(entityCitations[fieldName] || []),
+        {
+          evidenceId: row.evidenceId,
+          snippet: row.snippet || `${fieldName} extracted from source`,
+          sourceURL: row.sourceUrl || '',
+          confidenceScore: row.confidenceScore,
+          lastVerified: row.createdAt,
+          tier: row.tier ? `Tier ${row.tier}` : 'Unknown',
+          factId: row.factId
+        }
+      ];
+      citations.set(row.entityId, entityCitations);
+    }
+
+    return citations;
+  }
+
   /**
    * Transform database organization to viewer format
    */
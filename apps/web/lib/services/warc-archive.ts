@@ -0,0 +1,287 @@
+/**
+ * WARC Archive
+ *
+ * Writes and reads WARC/1.1 files (ISO 28500) of a job's crawl, so the
+ * pages behind extracted facts can be shown as they were at crawl time
+ * and a job can be replayed without the network.
+ *
+ * Every fetch is stored as a request record and a response record with the
+ * full HTTP headers. Bodies the crawler used that did not come off the wire
+ * are stored as resource records marked with WARC-Source: pages served
+ * from the crawl cache after a 304 ("crawl-cache") and DOMs rendered in
+ * the headless browser ("headless-render"). Each record is a separate gzip
+ * member, as in the usual .warc.gz layout.
+ *
+ * The archive is built in memory and stored as one blob, so its size is
+ * capped: once a record would take it past the limit, that record and all
+ * later ones are left out, and reading refuses archives that expand past it.
+ */
+
+import { randomUUID } from 'crypto';
+import { gzipSync, gunzipSync } from 'zlib';
+import { hashContent } from './crawl-cache';
+
+export type WarcResourceSource = 'crawl-cache' | 'headless-render';
+
+export interface WarcRecord {
+  type: string;
+  headers: Record<string, string>;   // WARC header fields
+  block: Buffer;
+}
+
+export interface ArchivedHttpMessage {
+  status_code: number;
+  status_text: string;
+  headers: Record<string, string>;
+  payload: Buffer;
+}
+
+/**
+ * A crawled URL reconstructed from the archive
+ */
+export interface ReplayedPage {
+  url: string;
+  status_code: number;
+  content_type: string;
+  body: Buffer;                // Network payload, or the cached body after a 304
+  rendered_html?: string;      // DOM captured from the headless browser
+}
+
+export interface HttpExchange {
+  url: string;
+  method: string;
+  request_headers: Record<string, string>;
+  status_code: number;
+  status_text: string;
+  response_headers: Headers;
+  payload: Uint8Array;
+}
+
+const CRLF = '\r\n';
+
+// fetch() decodes compressed bodies, so the archived payload is identity-encoded
+const DECODED_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding'];
+
+// Uncompressed size of an archive; above the crawl's default byte budget
+export const MAX_WARC_BYTES = 256 * 1024 * 1024;
+
+export class WarcWriter {
+  private members: Buffer[] = [];
+  private bytes = 0;
+  private maxBytes: number;
+  private dropped = 0;
+
+  constructor(info: Record<string, string>, options: { max_bytes?: number } = {}) {
+    this.maxBytes = options.max_bytes ?? MAX_WARC_BYTES;
+    const fields = Object.entries({ software: 'resilion-enrichment-poc', format: 'WARC File Format 1.1', ...info })
+      .map(([name, value]) => `${name}: ${value}${CRLF}`)
+      .join('');
+    this.append([this.buildRecord('warcinfo', { 'Content-Type': 'application/warc-fields' }, Buffer.from(fields))]);
+  }
+
+  get recordCount(): number {
+    return this.members.length;
+  }
+
+  /**
+   * Records left out because the archive reached its size limit
+   */
+  get droppedRecords(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Archives a request and the response it received
+   */
+  addExchange(exchange: HttpExchange): void {
+    const url = new URL(exchange.url);
+    const requestLines = [
+      `${exchange.method} ${url.pathname}${url.search} HTTP/1.1`,
+      `Host: ${url.host}`,
+      ...Object.entries(exchange.request_headers).map(([name, value]) => `${name}: ${value}`)
+    ];
+    const requestId = recordId();
+    const request = this.buildRecord('request', {
+      'WARC-Target-URI': exchange.url,
+      'Content-Type': 'application/http;msgtype=request'
+    }, Buffer.from(requestLines.join(CRLF) + CRLF + CRLF), requestId);
+
+    const responseLines = [`HTTP/1.1 ${exchange.status_code} ${exchange.status_text}`.trimEnd()];
+    exchange.response_headers.forEach((value, name) => {
+      const archivedName = DECODED_HEADERS.includes(name.toLowerCase()) ? `X-Archive-Orig-${name}` : name;
+      responseLines.push(`${archivedName}: ${value}`);
+    });
+    responseLines.push(`Content-Length: ${exchange.payload.byteLength}`);
+
+    const response = this.buildRecord('response', {
+      'WARC-Target-URI': exchange.url,
+      'WARC-Concurrent-To': requestId,
+      'WARC-Payload-Digest': `sha256:${hashContent(exchange.payload)}`,
+      'Content-Type': 'application/http;msgtype=response'
+    }, Buffer.concat([Buffer.from(responseLines.join(CRLF) + CRLF + CRLF), Buffer.from(exchange.payload)]));
+
+    this.append([request, response]);
+  }
+
+  /**
+   * Archives a body the crawler used that was not a network payload
+   */
+  addResource(url: string, body: string | Uint8Array, contentType: string, source: WarcResourceSource): void {
+    this.append([this.buildRecord('resource', {
+      'WARC-Target-URI': url,
+      'WARC-Source': source,
+      'Content-Type': contentType
+    }, Buffer.from(body))]);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.members);
+  }
+
+  /**
+   * Adds the records, which belong together, unless they would take the
+   * archive past its size limit; after the first record left out, every
+   * later one is too, so the archive is a complete prefix of the crawl
+   */
+  private append(records: Buffer[]): void {
+    const size = records.reduce((total, record) => total + record.byteLength, 0);
+    if (this.dropped > 0 || this.bytes + size > this.maxBytes) {
+      this.dropped += records.length;
+      return;
+    }
+
+    this.bytes += size;
+    this.members.push(...records.map(record => gzipSync(record)));
+  }
+
+  private buildRecord(type: string, fields: Record<string, string>, block: Buffer, id = recordId()): Buffer {
+    const header = [
+      'WARC/1.1',
+      `WARC-Type: ${type}`,
+      `WARC-Record-ID: ${id}`,
+      `WARC-Date: ${new Date().toISOString()}`,
+      ...Object.entries(fields).map(([name, value]) => `${name}: ${value}`),
+      `WARC-Block-Digest: sha256:${hashContent(block)}`,
+      `Content-Length: ${block.byteLength}`
+    ].join(CRLF);
+
+    return Buffer.concat([Buffer.from(header + CRLF + CRLF), block, Buffer.from(CRLF + CRLF)]);
+  }
+}
+
+/**
+ * Parses a WARC file, gzipped or not, into its records. Throws when the
+ * file is, or decompresses to, more than `maxBytes`.
+ */
+export function readWarc(data: Buffer, maxBytes = MAX_WARC_BYTES): WarcRecord[] {
+  const buffer = data[0] === 0x1f && data[1] === 0x8b ? gunzipWarc(data, maxBytes) : data;
+  if (buffer.length > maxBytes) {
+    throw new Error(`WARC archive is larger than ${maxBytes} bytes`);
+  }
+  const records: WarcRecord[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    const headerEnd = buffer.indexOf(CRLF + CRLF, offset);
+    if (headerEnd === -1) break;
+
+    const [version, ...lines] = buffer.subarray(offset, headerEnd).toString('utf8').split(CRLF);
+    if (!version.startsWith('WARC/')) {
+      throw new Error(`Invalid WARC record at byte ${offset}`);
+    }
+
+    const headers = parseFields(lines);
+    const length = parseInt(headers['content-length'] || '0');
+    const blockStart = headerEnd + 4;
+
+    records.push({
+      type: headers['warc-type'],
+      headers,
+      block: buffer.subarray(blockStart, blockStart + length)
+    });
+
+    // Skip the block and the two CRLFs that end the record
+    offset = blockStart + length + 4;
+  }
+
+  return records;
+}
+
+/**
+ * Splits the block of a response record into status line, headers and payload
+ */
+export function parseHttpResponse(block: Buffer): ArchivedHttpMessage {
+  const headerEnd = block.indexOf(CRLF + CRLF);
+  const head = block.subarray(0, headerEnd === -1 ? block.length : headerEnd).toString('latin1');
+  const [statusLine, ...lines] = head.split(CRLF);
+  const match = statusLine.match(/^HTTP\/[\d.]+\s+(\d{3})\s*(.*)$/);
+
+  return {
+    status_code: match ? parseInt(match[1]) : 0,
+    status_text: match ? match[2] : '',
+    headers: parseFields(lines),
+    payload: headerEnd === -1 ? Buffer.alloc(0) : block.subarray(headerEnd + 4)
+  };
+}
+
+/**
+ * Pages in the order they were first archived. A 304 response takes its
+ * body from the crawl-cache resource archived with it; a rendered DOM is
+ * attached to the page it was rendered from.
+ */
+export function replayPages(records: WarcRecord[]): ReplayedPage[] {
+  const pages = new Map<string, ReplayedPage>();
+
+  for (const record of records) {
+    const url = record.headers['warc-target-uri'];
+    if (!url) continue;
+
+    if (record.type === 'response') {
+      const response = parseHttpResponse(record.block);
+      pages.set(url, {
+        url,
+        status_code: response.status_code,
+        content_type: response.headers['content-type'] || 'text/html',
+        body: response.payload
+      });
+    } else if (record.type === 'resource') {
+      const page = pages.get(url);
+      if (!page) continue;
+
+      if (record.headers['warc-source'] === 'headless-render') {
+        page.rendered_html = record.block.toString('utf8');
+      } else if (record.headers['warc-source'] === 'crawl-cache') {
+        page.status_code = 200;
+        page.body = record.block;
+        page.content_type = record.headers['content-type'] || page.content_type;
+      }
+    }
+  }
+
+  return [...pages.values()];
+}
+
+function gunzipWarc(data: Buffer, maxBytes: number): Buffer {
+  try {
+    return gunzipSync(data, { maxOutputLength: maxBytes });
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new Error(`WARC archive expands past ${maxBytes} bytes`);
+    }
+    throw error;
+  }
+}
+
+function recordId(): string {
+  return `<urn:uuid:${randomUUID()}>`;
+}
+
+function parseFields(lines: string[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    fields[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+  }
+  return fields;
+}
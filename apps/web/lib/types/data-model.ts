@@ -59,6 +59,63 @@ export interface EnrichmentJobRecord {
   inputDomain: string; // Domain name being enriched
 }
 
+// One entry of the site merge audit trail: a site created from a candidate,
+// or a candidate merged into an existing site
+export interface SiteMergeRecord {
+  mergeId: string; // UUID
+  siteId: string; // Site that was created or updated
+  organizationId: string;
+  enrichmentJobId: string; // Job that produced the candidate
+  action: 'created' | 'merged';
+  candidateName: string; // Site name as extracted by the job
+  matchScore?: number; // 0-1 score of the match, for merges
+  matchReasons: string[]; // Signals behind the decision
+  changes: Record<string, { from: unknown; to: unknown }>; // Fields the merge changed
+  createdAt: string; // ISO timestamp
+}
+
+// Links one Site / Organization field to a fact that supports it
+export interface AttributeEvidence {
+  evidenceId: string; // UUID
+  entityType: 'site' | 'organization';
+  entityId: string; // siteId or organizationId
+  fieldName: string; // Data model field, e.g. 'address' or 'employeeCount'
+  factId: string; // enrichment_facts id
+  enrichmentJobId: string;
+  tier?: number; // Tier (1-3) the fact came from
+  confidenceScore: number; // 0-1 float
+  sourceUrl?: string;
+  snippet?: string; // Source text of the fact
+  createdAt: string; // ISO timestamp
+}
+
+// One distinct value proposed for a contested attribute
+export interface ConflictCandidate {
+  factId: string; // Best-scoring fact proposing this value
+  value: string;
+  tier?: number;
+  confidenceScore: number;
+  recordedAt: string; // ISO timestamp of the fact
+  score: number; // Combined tier reliability, recency and confidence
+  supportingFactIds: string[]; // All facts agreeing on this value
+}
+
+// Contradictory values found for one site attribute
+export interface AttributeConflict {
+  conflictId: string; // UUID
+  siteId: string;
+  siteName?: string; // Joined from sites when listing conflicts
+  organizationId: string;
+  enrichmentJobId: string;
+  fieldName: string; // Site field, e.g. 'employeeCount'
+  candidates: ConflictCandidate[];
+  winnerFactId: string;
+  status: 'auto_resolved' | 'unresolved' | 'resolved';
+  resolutionNotes?: string;
+  resolvedAt?: string; // ISO timestamp
+  createdAt: string; // ISO timestamp
+}
+
 // Extended types for enrichment processing
 export interface SiteCandidate {
   siteName: string;
@@ -66,6 +123,11 @@ export interface SiteCandidate {
   city?: string;
   stateProvince?: string;
   country?: string;
+  postalCode?: string;
+  geoCoordinates?: {
+    latitude: number;
+    longitude: number;
+  };
   siteType?: string;
   sitePurpose?: string;
   evidenceText: string;
@@ -110,7 +172,8 @@ export interface SiteRepository {
 }
 
 export interface EnrichmentJobRecordRepository {
-  create(job: Omit<EnrichmentJobRecord, 'enrichmentJobId'>): Promise<EnrichmentJobRecord>;
+  // enrichmentJobId may be given to key the record by its enrichment_jobs id
+  create(job: Omit<EnrichmentJobRecord, 'enrichmentJobId'> & { enrichmentJobId?: string }): Promise<EnrichmentJobRecord>;
   findById(enrichmentJobId: string): Promise<EnrichmentJobRecord | null>;
   findByDomain(inputDomain: string): Promise<EnrichmentJobRecord[]>;
   findByStatus(status: EnrichmentJobRecord['status']): Promise<EnrichmentJobRecord[]>;
@@ -124,10 +187,30 @@ export interface EnrichmentJobRecordRepository {
     failed: number;
     pending: number;
     running: number;
-    averageProcessingTime: number;
+    partialSuccess: number;
+    averageProcessingTime: number; // Seconds, over records that have ended
   }>;
 }
 
+export interface SiteMergeAuditRepository {
+  record(entry: Omit<SiteMergeRecord, 'mergeId' | 'createdAt'>): Promise<SiteMergeRecord>;
+  findBySiteId(siteId: string): Promise<SiteMergeRecord[]>;
+  findByEnrichmentJobId(enrichmentJobId: string): Promise<SiteMergeRecord[]>;
+}
+
+export interface AttributeEvidenceRepository {
+  recordBatch(entries: Omit<AttributeEvidence, 'evidenceId' | 'createdAt'>[]): Promise<void>;
+  findByEntities(entityType: AttributeEvidence['entityType'], entityIds: string[]): Promise<AttributeEvidence[]>;
+}
+
+export interface AttributeConflictRepository {
+  create(conflict: Omit<AttributeConflict, 'conflictId' | 'siteName' | 'createdAt' | 'resolvedAt' | 'resolutionNotes'>): Promise<AttributeConflict>;
+  findById(conflictId: string): Promise<AttributeConflict | null>;
+  findByDomain(domain: string, status?: AttributeConflict['status']): Promise<AttributeConflict[]>;
+  findByStatus(status: AttributeConflict['status']): Promise<AttributeConflict[]>;
+  resolve(conflictId: string, winnerFactId: string, notes?: string): Promise<AttributeConflict | null>;
+}
+
 // Job completion validation
 export interface JobCompletionCriteria {
   hasMinimumSiteData: boolean;
@@ -5,6 +5,8 @@
  * used throughout the enrichment process.
  */
 
+import { DocumentType, ParsedSection } from './financial-documents';
+
 export interface EnrichmentJob {
   id: string;
   domain: string;
@@ -33,6 +35,12 @@ export interface EnrichmentJob {
   llm_used?: string;                    // LLM model used for this job
   pages_scraped: number;                // Total pages scraped across all tiers
   total_runtime_seconds: number;        // Total runtime in seconds
+
+  // Job queue lease
+  locked_by?: string;                   // Worker currently holding the job
+  locked_until?: string;                // Lease expiry for the running job
+
+  crawl_stats?: CrawlSchedulerStats;    // Scheduler counters of the latest crawl
 }
 
 export type JobStatus = 'pending' | 'running' | 'completed' | 'partial_success' | 'failed' | 'cancelled';
@@ -65,7 +73,38 @@ export interface CrawledPage {
     status_code: number;
     content_type: string;
     word_count: number;
+    fetch_mode?: 'static' | 'rendered';  // 'rendered' when loaded in the headless browser
+    render_reason?: string;               // Why the page was or was not rendered
+    content_hash?: string;                // SHA-256 of the fetched body
+    cache_status?: CacheStatus;           // Compared with the crawl cache
+    language?: string;                    // ISO 639-1 code, detected or declared by the page
   };
+  document?: CrawledDocument; // Set for PDFs and other paginated documents
+  blocks?: PageBlock[];       // Main content, navigation and footer text of HTML pages
+  tables?: PageTable[];       // Data tables of HTML pages, row by row
+}
+
+export type CacheStatus = 'new' | 'changed' | 'unchanged';
+
+export type PageBlockType = 'main' | 'navigation' | 'footer';
+
+export interface PageBlock {
+  type: PageBlockType;
+  text: string;
+  heading_path?: string[];    // Headings the block appears under, outermost first
+}
+
+export interface PageTable {
+  caption?: string;
+  headers: string[];
+  rows: Array<Record<string, string>>;  // Keyed by header; empty cells are left out
+}
+
+export interface CrawledDocument {
+  document_type: DocumentType;
+  page_count: number;
+  pages: Array<{ page_number: number; content: string }>;
+  sections: ParsedSection[];            // Parsed by FinancialDocumentParser, with page_numbers
 }
 
 export interface TextChunk {
@@ -76,6 +115,8 @@ export interface TextChunk {
     chunk_index: number;
     word_count: number;
     created_at: string;
+    language?: string;    // Language of the source page
+    heading_path?: string[];  // Headings of the page section the chunk comes from
   };
 }
 
@@ -118,6 +159,7 @@ export interface JobRepository {
   updateProgress(id: string, progress: Partial<Pick<EnrichmentJob, 'pages_crawled' | 'chunks_created' | 'embeddings_generated' | 'facts_extracted'>>): Promise<void>;
   logError(id: string, error: string, step?: string): Promise<void>;
   incrementRetryCount(id: string): Promise<void>;
+  updateCrawlStats(id: string, stats: CrawlSchedulerStats): Promise<void>;
 }
 
 export interface FactRepository {
@@ -135,10 +177,55 @@ export interface CrawlerConfig {
   respect_robots_txt: boolean;
 }
 
+/**
+ * What a single job's crawl may visit, resolved from `metadata.crawl_scope`
+ */
+export interface CrawlScope {
+  domain: string;                 // Normalized job domain
+  seed_urls: string[];            // Crawled first, starting with the home page
+  include_patterns: string[];     // Path globs; empty means every path
+  exclude_patterns: string[];     // Path globs, applied before inclusions
+  allowed_subdomains: string[];   // Fully qualified hosts, or '*' for all subdomains
+  sibling_domains: string[];      // Other brand domains crawled as part of the job
+}
+
+/**
+ * Counters of the crawl scheduler for one host
+ */
+export interface CrawlHostStats {
+  requests: number;
+  retries: number;
+  errors: number;                 // Transient failures: timeouts, network errors, 408/429/5xx
+  rate_limited: number;           // 429 and 503 responses
+  avg_latency_ms: number | null;  // Moving average time to response headers
+  delay_ms: number;               // Current delay between requests to the host
+  paused_until?: string;          // Set while honoring a Retry-After
+}
+
+/**
+ * Counters of the crawl scheduler for a whole crawl
+ */
+export interface CrawlSchedulerStats {
+  started_at: string;
+  elapsed_ms: number;
+  requests: number;
+  retries: number;
+  errors: number;
+  rate_limited: number;
+  bytes_downloaded: number;
+  budget: {
+    time_ms: number;
+    bytes: number;
+    exhausted: string | null;     // Why the crawl stopped early, if it did
+  };
+  hosts: Record<string, CrawlHostStats>;
+}
+
 export interface ChunkingConfig {
   max_chunk_size: number;
   overlap_size: number;
   min_chunk_size: number;
+  model?: string;       // Sizes are estimated tokens of this model when set, characters otherwise
 }
 
 export interface EmbeddingConfig {
@@ -152,6 +239,8 @@ export interface ExtractionConfig {
   temperature: number;
   max_tokens: number;
   confidence_threshold: number;
+  context_fraction: number;   // Share of the model's context window a batch prompt may fill
+  output_tokens_per_chunk: number;  // Completion tokens allowed per chunk; caps chunks per batch at max_tokens / this
 }
 
 // Milestone 1: LLM Selection and Tiered Enrichment Types
@@ -201,6 +290,24 @@ export interface TierResult {
   error_message?: string;
 }
 
+export interface TierProcessor {
+  tier: number;
+  name: string;
+  execute(context: EnrichmentContext): Promise<TierProcessingResult>;
+  canHandle(context: EnrichmentContext): boolean;
+}
+
+export interface TierProcessingResult {
+  tier: number;
+  facts: EnrichmentFact[];
+  sources_attempted: string[];
+  pages_scraped: number;
+  runtime_seconds: number;
+  status: 'completed' | 'partial' | 'failed' | 'timeout';
+  error_message?: string;
+  average_confidence: number;
+}
+
 export interface EnrichmentJobResult {
   job_id: string;
   total_runtime_seconds: number;
@@ -211,4 +318,5 @@ export interface EnrichmentJobResult {
   llm_used: string;
   stopped_early: boolean;
   stop_reason?: 'confidence_threshold_met' | 'timeout' | 'max_retries' | 'error';
+  resumed_tiers?: number[];             // Tiers reused from checkpoints instead of re-run
 }
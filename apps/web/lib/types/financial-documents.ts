@@ -146,9 +146,9 @@ export type FinancialFactType =
 
 // Service interfaces
 export interface FinancialDocumentRetriever {
-  retrieveByCompanyName(companyName: string): Promise<FinancialDocument[]>;
-  retrieveByTickerSymbol(ticker: string): Promise<FinancialDocument[]>;
-  retrieveByCIK(cik: string): Promise<FinancialDocument[]>;
+  retrieveByCompanyName(companyName: string, jobId?: string): Promise<FinancialDocument[]>;
+  retrieveByTickerSymbol(ticker: string, jobId?: string): Promise<FinancialDocument[]>;
+  retrieveByCIK(cik: string, jobId?: string): Promise<FinancialDocument[]>;
 }
 
 export interface DocumentParser {
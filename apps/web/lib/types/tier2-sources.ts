@@ -0,0 +1,76 @@
+/**
+ * Tier 2 Source Types
+ *
+ * Types and interfaces for the secondary enrichment sources used by
+ * Tier 2: job boards, company profile pages and careers pages.
+ */
+
+export interface PostingLocation {
+  raw: string;
+  city?: string;
+  state_province?: string;
+  country?: string;
+  remote: boolean;
+}
+
+export interface JobPosting {
+  id: string;
+  title: string;
+  url: string;
+  locations: PostingLocation[];
+  department?: string;
+  employment_type?: string;
+  description?: string;
+  posted_at?: string;
+  source_name: string;
+}
+
+export interface HeadcountEstimate {
+  min?: number;
+  max?: number;
+  raw: string;
+}
+
+export interface CompanyProfile {
+  url: string;
+  company_name?: string;
+  headcount?: HeadcountEstimate;
+  headquarters?: string;
+  industry?: string;
+  source_text: string;
+  source_name: string;
+}
+
+export interface Tier2SourceQuery {
+  domain: string;
+  company_name: string;
+  job_metadata: Record<string, any>;
+  job_id?: string;      // Job whose job_logs record refused requests
+}
+
+export interface Tier2SourceResult {
+  source_name: string;
+  postings: JobPosting[];
+  profiles: CompanyProfile[];
+  urls_fetched: string[];
+  errors: string[];
+}
+
+// Adapter interface implemented by every Tier 2 data source
+export interface Tier2Source {
+  readonly name: string;
+  isAvailable(query: Tier2SourceQuery): boolean;
+  fetch(query: Tier2SourceQuery): Promise<Tier2SourceResult>;
+}
+
+// Shape of the offline fixtures consumed by FixtureTier2Source
+export interface Tier2Fixture {
+  postings?: JobPosting[];
+  profiles?: CompanyProfile[];
+}
+
+export interface Tier2SourceConfig {
+  timeout_ms: number;
+  user_agent: string;
+  max_postings: number;
+}
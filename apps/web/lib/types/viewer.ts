@@ -10,8 +10,12 @@ export interface Evidence {
   confidenceScore: number;
   lastVerified: string;
   tier: string;
+  factId?: string; // enrichment_facts id, for field citations
 }
 
+// Evidence per populated field, keyed by the viewer field name (e.g. 'addressStreet')
+export type FieldCitations = Record<string, Evidence[]>;
+
 export interface Contact {
   contactId: string;
   phoneNumber?: string;
@@ -88,6 +92,7 @@ export interface Site {
   capabilities: Capability[];
   contacts: Contact[];
   evidence: Evidence[];
+  fieldCitations?: FieldCitations;
 }
 
 export interface Organization {
@@ -100,6 +105,7 @@ export interface Organization {
   financialSummary?: string;
   contacts: Contact[];
   evidence: Evidence[];
+  fieldCitations?: FieldCitations;
 }
 
 export interface EnrichmentViewerData {
@@ -0,0 +1,15 @@
+/**
+ * Parses an employee count as the sites table stores it: a whole number,
+ * optionally with thousands separators ("1,200"). Ranges such as
+ * "500-1000" and free text are not counts and give undefined, so callers
+ * never store a range's lower bound or NaN.
+ */
+export function parseEmployeeCount(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) && value >= 0 ? value : undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+
+  const count = value.trim();
+  return /^\d{1,3}(,\d{3})*$|^\d+$/.test(count) ? parseInt(count.replace(/,/g, ''), 10) : undefined;
+}
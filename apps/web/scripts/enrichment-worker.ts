@@ -0,0 +1,44 @@
+/**
+ * Enrichment worker entry point
+ *
+ * Runs the enrichment job queue worker as a standalone process:
+ *
+ *   npm run worker
+ *
+ * Configuration comes from the environment (DATABASE_URL, MAX_CONCURRENT_JOBS,
+ * JOB_LEASE_SECONDS, WORKER_POLL_INTERVAL_MS, ...). SIGINT/SIGTERM stop claiming
+ * new jobs and wait for in-flight jobs before exiting.
+ */
+
+import 'dotenv/config';
+import { EnrichmentWorker } from '../lib/services/enrichment-worker';
+import { getDatabase } from '../lib/utils/database';
+
+const worker = new EnrichmentWorker();
+let shuttingDown = false;
+
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+
+  console.log(`Received ${signal}, shutting down enrichment worker ${worker.workerId}`);
+
+  try {
+    await worker.stop();
+    await getDatabase().close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error during worker shutdown:', error);
+    process.exit(1);
+  }
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+worker.start().catch(error => {
+  console.error('Enrichment worker failed to start:', error);
+  process.exit(1);
+});
@@ -0,0 +1,19 @@
+-- Migration 008: Lease columns for the Postgres-backed enrichment job queue
+-- Workers claim pending jobs with SELECT ... FOR UPDATE SKIP LOCKED and hold
+-- a lease that is extended while the job runs. Jobs whose lease expires are
+-- returned to the queue (or failed once they run out of attempts).
+
+ALTER TABLE enrichment_jobs ADD COLUMN IF NOT EXISTS locked_by VARCHAR(255);
+ALTER TABLE enrichment_jobs ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Create indexes for efficient claiming and lease recovery
+CREATE INDEX IF NOT EXISTS idx_enrichment_jobs_pending_queue
+    ON enrichment_jobs(created_at)
+    WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_enrichment_jobs_running_lease
+    ON enrichment_jobs(locked_until)
+    WHERE status = 'running';
+
+-- Add comments for documentation
+COMMENT ON COLUMN enrichment_jobs.locked_by IS 'Identifier of the worker currently holding the job lease';
+COMMENT ON COLUMN enrichment_jobs.locked_until IS 'Lease expiry; a running job past this time is considered orphaned';
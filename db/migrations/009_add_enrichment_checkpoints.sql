@@ -0,0 +1,39 @@
+-- Migration 009: Enrichment checkpoints
+-- Persists per-tier results and the crawled pages/chunks behind them so a
+-- failed or timed-out job can resume from its first incomplete tier
+
+-- Page content, so a resumed job can skip re-crawling
+ALTER TABLE crawled_pages ADD COLUMN IF NOT EXISTS content TEXT;
+ALTER TABLE crawled_pages ADD COLUMN IF NOT EXISTS content_type VARCHAR(255);
+
+-- Text chunks (same shape as the observability table from migration 003)
+CREATE TABLE IF NOT EXISTS enrichment_chunks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES enrichment_jobs(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL CHECK (chunk_index >= 0),
+    content TEXT NOT NULL,
+    content_length INTEGER NOT NULL CHECK (content_length > 0),
+    source_url TEXT,
+    source_page_title TEXT,
+    chunk_metadata JSONB DEFAULT '{}',
+    quality_score DECIMAL(3,2) CHECK (quality_score IS NULL OR (quality_score >= 0 AND quality_score <= 1)),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_chunks_job_id ON enrichment_chunks(job_id);
+CREATE INDEX IF NOT EXISTS idx_chunks_job_index ON enrichment_chunks(job_id, chunk_index);
+
+-- One checkpoint per completed tier
+CREATE TABLE IF NOT EXISTS enrichment_tier_checkpoints (
+    job_id UUID NOT NULL REFERENCES enrichment_jobs(id) ON DELETE CASCADE,
+    tier INTEGER NOT NULL CHECK (tier >= 1),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('completed', 'partial')),
+    result JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (job_id, tier)
+);
+
+COMMENT ON TABLE enrichment_tier_checkpoints IS 'Per-tier TierProcessingResult of a job, reused when the job is resumed';
+COMMENT ON COLUMN enrichment_tier_checkpoints.result IS 'TierProcessingResult including the extracted facts, stored as JSONB';
+COMMENT ON COLUMN crawled_pages.content IS 'Extracted page text, reused when a job is resumed';
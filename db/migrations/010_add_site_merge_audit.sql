@@ -0,0 +1,24 @@
+-- Migration 010: Site merge audit trail
+-- Records how each enrichment job's site candidates were resolved against the
+-- organization's existing sites: created as a new site or merged into one
+
+CREATE TABLE IF NOT EXISTS site_merge_audit (
+    merge_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    site_id UUID NOT NULL REFERENCES sites(site_id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES organizations(organization_id) ON DELETE CASCADE,
+    enrichment_job_id UUID NOT NULL,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('created', 'merged')),
+    candidate_name VARCHAR(255) NOT NULL,
+    match_score DECIMAL(3,2) CHECK (match_score IS NULL OR (match_score >= 0 AND match_score <= 1)),
+    match_reasons JSONB DEFAULT '[]'::jsonb,
+    changes JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_merge_audit_site_id ON site_merge_audit(site_id);
+CREATE INDEX IF NOT EXISTS idx_site_merge_audit_organization_id ON site_merge_audit(organization_id);
+CREATE INDEX IF NOT EXISTS idx_site_merge_audit_job_id ON site_merge_audit(enrichment_job_id);
+
+COMMENT ON TABLE site_merge_audit IS 'Audit trail of site entity resolution: which candidates created or were merged into which sites';
+COMMENT ON COLUMN site_merge_audit.match_reasons IS 'Signals behind the match decision, e.g. name similarity, same address, distance';
+COMMENT ON COLUMN site_merge_audit.changes IS 'Fields changed by a merge as {"field": {"from": ..., "to": ...}}';
@@ -0,0 +1,26 @@
+-- Migration 011: Field-level provenance
+-- Links each populated Site / Organization field to the enrichment facts that
+-- produced or corroborated it, with the fact's tier and confidence
+
+CREATE TABLE IF NOT EXISTS site_attribute_evidence (
+    evidence_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('site', 'organization')),
+    entity_id UUID NOT NULL,
+    field_name VARCHAR(100) NOT NULL,
+    fact_id UUID NOT NULL REFERENCES enrichment_facts(id) ON DELETE CASCADE,
+    enrichment_job_id UUID NOT NULL,
+    tier INTEGER CHECK (tier IS NULL OR tier BETWEEN 1 AND 3),
+    confidence_score DECIMAL(3,2) CHECK (confidence_score >= 0 AND confidence_score <= 1),
+    source_url TEXT,
+    snippet TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (entity_type, entity_id, field_name, fact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attribute_evidence_entity ON site_attribute_evidence(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_attribute_evidence_fact_id ON site_attribute_evidence(fact_id);
+CREATE INDEX IF NOT EXISTS idx_attribute_evidence_job_id ON site_attribute_evidence(enrichment_job_id);
+
+COMMENT ON TABLE site_attribute_evidence IS 'Per-field citations: which enrichment facts support each Site or Organization attribute';
+COMMENT ON COLUMN site_attribute_evidence.entity_id IS 'sites.site_id or organizations.organization_id, depending on entity_type';
+COMMENT ON COLUMN site_attribute_evidence.field_name IS 'Data model field name, e.g. address, employeeCount, headquartersAddress';
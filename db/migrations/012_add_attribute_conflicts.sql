@@ -0,0 +1,26 @@
+-- Migration 012: Attribute conflicts
+-- Stores contradictory values found for the same site attribute, every
+-- candidate value with its score, and the value chosen as the winner.
+-- Conflicts too close to call are left 'unresolved' for human review.
+
+CREATE TABLE IF NOT EXISTS attribute_conflicts (
+    conflict_id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    site_id UUID NOT NULL REFERENCES sites(site_id) ON DELETE CASCADE,
+    organization_id UUID NOT NULL REFERENCES organizations(organization_id) ON DELETE CASCADE,
+    enrichment_job_id UUID NOT NULL,
+    field_name VARCHAR(100) NOT NULL,
+    candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+    winner_fact_id UUID NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('auto_resolved', 'unresolved', 'resolved')),
+    resolution_notes TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_attribute_conflicts_site_id ON attribute_conflicts(site_id);
+CREATE INDEX IF NOT EXISTS idx_attribute_conflicts_organization_id ON attribute_conflicts(organization_id);
+CREATE INDEX IF NOT EXISTS idx_attribute_conflicts_status ON attribute_conflicts(status);
+
+COMMENT ON TABLE attribute_conflicts IS 'Contradictory fact values for one site attribute and the chosen winner';
+COMMENT ON COLUMN attribute_conflicts.candidates IS 'One entry per distinct value: fact id, value, tier, confidence, recorded time and score';
+COMMENT ON COLUMN attribute_conflicts.status IS 'auto_resolved: clear winner by score; unresolved: awaiting review; resolved: decided by a reviewer';
@@ -0,0 +1,9 @@
+-- Migration 013: Record URLs the crawler skipped
+-- URLs refused by robots.txt are stored in crawled_pages with the reason,
+-- so a job shows every URL it deliberately did not fetch.
+
+ALTER TABLE crawled_pages ADD COLUMN IF NOT EXISTS skip_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_crawled_pages_skipped ON crawled_pages(job_id) WHERE skip_reason IS NOT NULL;
+
+COMMENT ON COLUMN crawled_pages.skip_reason IS 'Why the URL was not fetched (e.g. the robots.txt rule that disallows it); NULL for fetched pages';
@@ -0,0 +1,12 @@
+-- Migration 014: Record how each page was fetched
+-- Pages that come back near-empty or script-only from a plain HTTP fetch are
+-- re-rendered in a headless browser; the crawl log keeps that decision.
+
+ALTER TABLE crawled_pages ADD COLUMN IF NOT EXISTS fetch_mode VARCHAR(20) DEFAULT 'static'
+    CHECK (fetch_mode IN ('static', 'rendered'));
+ALTER TABLE crawled_pages ADD COLUMN IF NOT EXISTS render_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_crawled_pages_fetch_mode ON crawled_pages(job_id, fetch_mode);
+
+COMMENT ON COLUMN crawled_pages.fetch_mode IS 'static: plain HTTP fetch; rendered: loaded in the headless browser';
+COMMENT ON COLUMN crawled_pages.render_reason IS 'Why the page was or was not rendered (e.g. empty single-page app root, render limit reached)';
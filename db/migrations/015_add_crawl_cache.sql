@@ -0,0 +1,36 @@
+-- Migration 015: Content-addressed crawl cache
+-- Page bodies are stored once per SHA-256 content hash; each URL points at
+-- the body it last returned together with its ETag/Last-Modified validators,
+-- so re-crawls can send conditional requests. crawled_pages records the hash
+-- every job saw, which lets a re-enrichment carry forward the facts of pages
+-- whose content has not changed instead of extracting them again.
+
+CREATE TABLE IF NOT EXISTS crawl_cache_bodies (
+    content_hash CHAR(64) PRIMARY KEY,
+    body TEXT NOT NULL,
+    byte_length INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS crawl_cache_entries (
+    url TEXT PRIMARY KEY,
+    content_hash CHAR(64) NOT NULL REFERENCES crawl_cache_bodies(content_hash),
+    etag TEXT,
+    last_modified TEXT,
+    content_type TEXT,
+    fetched_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    revalidated_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE crawled_pages ADD COLUMN IF NOT EXISTS content_hash CHAR(64);
+ALTER TABLE crawled_pages ADD COLUMN IF NOT EXISTS cache_status VARCHAR(20)
+    CHECK (cache_status IN ('new', 'changed', 'unchanged'));
+
+CREATE INDEX IF NOT EXISTS idx_crawl_cache_entries_content_hash ON crawl_cache_entries(content_hash);
+CREATE INDEX IF NOT EXISTS idx_crawled_pages_url_content_hash ON crawled_pages(url, content_hash);
+
+COMMENT ON TABLE crawl_cache_bodies IS 'Raw page bodies keyed by SHA-256 content hash, shared by every URL and job that fetched them';
+COMMENT ON TABLE crawl_cache_entries IS 'Latest cached response per URL with the validators used for conditional re-crawls';
+COMMENT ON COLUMN crawl_cache_entries.revalidated_at IS 'Last time the server answered a conditional request with 304 Not Modified';
+COMMENT ON COLUMN crawled_pages.content_hash IS 'SHA-256 of the page body this job crawled';
+COMMENT ON COLUMN crawled_pages.cache_status IS 'new: not cached before; changed: body differs from the cache; unchanged: 304 or identical body';
@@ -0,0 +1,15 @@
+-- Migration 016: WARC archive of each job's crawl
+-- The fetched requests and responses of a job are kept as one gzipped WARC
+-- file, so disputed facts can be checked against the page as crawled and a
+-- job can be replayed offline (metadata.replay_job_id).
+
+CREATE TABLE IF NOT EXISTS crawl_archives (
+    job_id UUID PRIMARY KEY REFERENCES enrichment_jobs(id) ON DELETE CASCADE,
+    warc BYTEA NOT NULL,
+    record_count INTEGER NOT NULL,
+    byte_length INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE crawl_archives IS 'Gzipped WARC/1.1 file with the request and response records of a job''s crawl';
+COMMENT ON COLUMN crawl_archives.record_count IS 'Number of WARC records, including the leading warcinfo record';
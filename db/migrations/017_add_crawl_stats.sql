@@ -0,0 +1,8 @@
+-- Migration 017: Crawl scheduler statistics per job
+-- The crawler schedules requests per host with adaptive delays, retries and
+-- a time/byte budget. Its counters are kept on the job so the metrics API
+-- can report them while the crawl is running.
+
+ALTER TABLE enrichment_jobs ADD COLUMN IF NOT EXISTS crawl_stats JSONB;
+
+COMMENT ON COLUMN enrichment_jobs.crawl_stats IS 'Crawl scheduler counters: requests, retries, rate limiting, bytes, budget and per-host delay/latency';
@@ -0,0 +1,7 @@
+-- Migration 018: Record the language of each crawled page
+-- Pages of sites that are not in English are extracted into English facts;
+-- the crawl log keeps the language the page was read in.
+
+ALTER TABLE crawled_pages ADD COLUMN IF NOT EXISTS language VARCHAR(10);
+
+COMMENT ON COLUMN crawled_pages.language IS 'ISO 639-1 code of the page language, detected from its text or declared in <html lang>; NULL when undetermined';
@@ -1,5 +1,14 @@
 import { useState, useEffect, useCallback } from 'react';
 
+export interface JobCrawlScope {
+  domain: string;
+  seed_urls: string[];
+  include_patterns: string[];
+  exclude_patterns: string[];
+  allowed_subdomains: string[];
+  sibling_domains: string[];
+}
+
 export interface JobDetail {
   id: string;
   domain: string;
@@ -13,6 +22,7 @@ export interface JobDetail {
   llm_used?: string;
   pages_scraped: number;
   total_runtime_seconds: number;
+  crawl_scope?: JobCrawlScope | null;
   workflow: {
     steps: Array<{
       id: string;
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const database = vi.hoisted(() => ({
+  conflict: null as any,
+  statements: [] as string[],
+  failSiteUpdate: false
+}));
+
+vi.mock('../../../apps/web/lib/utils/database', () => {
+  const query = async (sql: string, values: any[] = []) => {
+    database.statements.push(sql.trim().split(/\s+/).slice(0, 2).join(' '));
+
+    if (sql.includes('UPDATE attribute_conflicts')) {
+      if (!database.conflict || database.conflict.status === 'resolved') return { rows: [] };
+      return { rows: [{ ...database.conflict, winnerFactId: values[0], status: 'resolved' }] };
+    }
+    if (sql.includes('FROM attribute_conflicts')) {
+      return { rows: database.conflict ? [database.conflict] : [] };
+    }
+    if (sql.includes('UPDATE sites')) {
+      if (database.failSiteUpdate) throw new Error('connection lost');
+      return { rows: [{ siteId: 'site-1', employeeCount: values[0] }] };
+    }
+    return { rows: [] };
+  };
+  const client = { query, release: vi.fn() };
+  return { getDatabasePool: () => ({ query, connect: async () => client }) };
+});
+
+import { POST } from '../../../apps/web/app/api/conflicts/[id]/resolve/route';
+
+const candidate = (factId: string, value: string) => ({
+  factId,
+  value,
+  confidenceScore: 0.8,
+  recordedAt: '2026-01-01T00:00:00.000Z',
+  score: 0.8,
+  supportingFactIds: [factId]
+});
+
+const resolve = async (winnerFactId: string) => {
+  const request = new NextRequest('http://localhost:3000/api/conflicts/conflict-1/resolve', {
+    method: 'POST',
+    body: JSON.stringify({ winnerFactId }),
+    headers: { 'Content-Type': 'application/json' }
+  });
+  const response = await POST(request, { params: Promise.resolve({ id: 'conflict-1' }) });
+  return { status: response.status, data: await response.json() };
+};
+
+describe('/api/conflicts/[id]/resolve', () => {
+  beforeEach(() => {
+    database.statements = [];
+    database.failSiteUpdate = false;
+    database.conflict = {
+      conflictId: 'conflict-1',
+      siteId: 'site-1',
+      organizationId: 'org-1',
+      enrichmentJobId: 'job-1',
+      fieldName: 'employeeCount',
+      candidates: [candidate('fact-1', '1,200'), candidate('fact-2', '500-1000')],
+      winnerFactId: 'fact-1',
+      status: 'unresolved',
+      createdAt: '2026-01-01T00:00:00.000Z'
+    };
+  });
+
+  it('should resolve the conflict and update the site in one transaction', async () => {
+    const { status, data } = await resolve('fact-1');
+
+    expect(status).toBe(200);
+    expect(data.site.employeeCount).toBe(1200);
+    expect(data.conflict.status).toBe('resolved');
+    expect(database.statements).toEqual(['SELECT c.conflict_id', 'BEGIN', 'WITH updated', 'UPDATE sites', 'COMMIT']);
+  });
+
+  it('should return 409 for a conflict that is already resolved', async () => {
+    database.conflict.status = 'resolved';
+
+    const { status } = await resolve('fact-1');
+
+    expect(status).toBe(409);
+    expect(database.statements).not.toContain('UPDATE sites');
+  });
+
+  it('should reject employee count ranges instead of truncating them', async () => {
+    const { status, data } = await resolve('fact-2');
+
+    expect(status).toBe(400);
+    expect(data.message).toContain('500-1000');
+    expect(database.statements).not.toContain('BEGIN');
+  });
+
+  it('should return 400 for a malformed JSON body', async () => {
+    const request = new NextRequest('http://localhost:3000/api/conflicts/conflict-1/resolve', {
+      method: 'POST',
+      body: '{"winnerFactId":',
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+    const response = await POST(request, { params: Promise.resolve({ id: 'conflict-1' }) });
+
+    expect(response.status).toBe(400);
+    expect(database.statements).toEqual([]);
+  });
+
+  it('should roll back the resolution when the site update fails', async () => {
+    database.failSiteUpdate = true;
+
+    const { status } = await resolve('fact-1');
+
+    expect(status).toBe(500);
+    expect(database.statements.slice(-2)).toEqual(['UPDATE sites', 'ROLLBACK']);
+  });
+});
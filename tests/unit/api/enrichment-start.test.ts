@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { JobRepository } from '../../../apps/web/lib/repositories/job-repository';
+import { createMockJob } from '../../__fixtures__/test-data';
+
+const database = vi.hoisted(() => ({
+  jobStatus: 'failed',
+  statements: [] as string[]
+}));
+
+vi.mock('../../../apps/web/lib/repositories/job-repository');
+
+vi.mock('../../../apps/web/lib/utils/database', () => {
+  const query = async (sql: string) => {
+    database.statements.push(sql.trim().split(/\s+/).slice(0, 3).join(' '));
+
+    if (sql.includes('UPDATE enrichment_jobs')) {
+      if (database.jobStatus === 'running') return { rows: [], rowCount: 0 };
+      database.jobStatus = 'pending';
+      return { rows: [{ id: 'job-1' }], rowCount: 1 };
+    }
+    return { rows: [], rowCount: 0 };
+  };
+  const client = { query, release: vi.fn() };
+  return { getDatabasePool: () => ({ query, connect: async () => client }) };
+});
+
+import { POST } from '../../../apps/web/app/api/enrichment/[id]/start/route';
+
+const start = async () => {
+  const request = new NextRequest('http://localhost:3000/api/enrichment/job-1/start', { method: 'POST' });
+  const response = await POST(request, { params: Promise.resolve({ id: 'job-1' }) });
+  return { status: response.status, data: await response.json() };
+};
+
+describe('/api/enrichment/[id]/start', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    database.statements = [];
+    database.jobStatus = 'failed';
+
+    (JobRepository as any).mockImplementation(() => ({
+      findById: vi.fn().mockResolvedValue(createMockJob({ id: 'job-1', status: 'failed' }))
+    }));
+  });
+
+  it('should queue the job and drop its checkpoints in one transaction', async () => {
+    const { status, data } = await start();
+
+    expect(status).toBe(200);
+    expect(data.message).toContain('queued');
+    expect(database.statements).toEqual([
+      'BEGIN',
+      'UPDATE enrichment_jobs SET',
+      'DELETE FROM enrichment_tier_checkpoints',
+      'DELETE FROM enrichment_chunks',
+      'DELETE FROM crawled_pages',
+      'COMMIT'
+    ]);
+  });
+
+  it('should keep the checkpoints of a job a worker started in the meantime', async () => {
+    database.jobStatus = 'running';
+
+    const { status, data } = await start();
+
+    expect(status).toBe(200);
+    expect(data.message).toBe('Job is already running');
+    expect(database.statements.some(statement => statement.startsWith('DELETE'))).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PostgresEnrichmentJobRecordRepository } from '../../../apps/web/lib/repositories/enrichment-job-record-repository';
+
+describe('PostgresEnrichmentJobRecordRepository', () => {
+  let mockPool: any;
+  let repository: PostgresEnrichmentJobRecordRepository;
+
+  const dbRow = {
+    enrichmentJobId: 'job-123',
+    triggeredBy: 'api',
+    startTime: new Date('2026-01-05T10:00:00Z'),
+    endTime: null,
+    status: 'running',
+    confidenceSummary: null,
+    errors: null,
+    partialSuccess: false,
+    retriedCount: 0,
+    inputDomain: 'example.com'
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockPool = {
+      query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 })
+    };
+
+    repository = new PostgresEnrichmentJobRecordRepository(mockPool);
+  });
+
+  describe('create', () => {
+    it('should key the record by the given enrichment job id', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [dbRow], rowCount: 1 });
+
+      const record = await repository.create({
+        enrichmentJobId: 'job-123',
+        triggeredBy: 'api',
+        startTime: '2026-01-05T10:00:00.000Z',
+        status: 'running',
+        partialSuccess: false,
+        retriedCount: 0,
+        inputDomain: 'example.com'
+      });
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('COALESCE($1::uuid, gen_random_uuid())');
+      expect(params[0]).toBe('job-123');
+      expect(params[1]).toBe('api');
+      expect(record).toEqual({
+        enrichmentJobId: 'job-123',
+        triggeredBy: 'api',
+        startTime: '2026-01-05T10:00:00.000Z',
+        endTime: undefined,
+        status: 'running',
+        confidenceSummary: undefined,
+        errors: undefined,
+        partialSuccess: false,
+        retriedCount: 0,
+        inputDomain: 'example.com'
+      });
+    });
+  });
+
+  describe('update', () => {
+    it('should record partial success and parse the decimal confidence summary', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{ ...dbRow, status: 'completed', partialSuccess: true, confidenceSummary: '0.64' }],
+        rowCount: 1
+      });
+
+      const record = await repository.update('job-123', {
+        status: 'completed',
+        partialSuccess: true,
+        confidenceSummary: 0.64
+      });
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('status = $1');
+      expect(sql).toContain('confidence_summary = $2');
+      expect(sql).toContain('partial_success = $3');
+      expect(sql).toContain('WHERE enrichment_job_id = $4');
+      expect(params).toEqual(['completed', 0.64, true, 'job-123']);
+      expect(record.partialSuccess).toBe(true);
+      expect(record.confidenceSummary).toBe(0.64);
+    });
+
+    it('should clear end time and errors when explicitly unset', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [dbRow], rowCount: 1 });
+
+      await repository.update('job-123', { status: 'running', endTime: undefined, errors: undefined });
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('end_time = $1');
+      expect(sql).toContain('errors = $3');
+      expect(params).toEqual([null, 'running', null, 'job-123']);
+    });
+
+    it('should throw when the record does not exist', async () => {
+      await expect(repository.update('missing', { status: 'failed' }))
+        .rejects.toThrow('Enrichment job record with ID missing not found');
+    });
+  });
+
+  describe('getJobStats', () => {
+    it('should return counts and the average processing time of finished runs', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [{
+          total: '5',
+          completed: '3',
+          failed: '1',
+          pending: '0',
+          running: '1',
+          partial_success: '2',
+          average_processing_time: '184.5'
+        }],
+        rowCount: 1
+      });
+
+      const stats = await repository.getJobStats();
+
+      const [sql] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('EXTRACT(EPOCH FROM (end_time - start_time))');
+      expect(stats).toEqual({
+        total: 5,
+        completed: 3,
+        failed: 1,
+        pending: 0,
+        running: 1,
+        partialSuccess: 2,
+        averageProcessingTime: 184.5
+      });
+    });
+  });
+});
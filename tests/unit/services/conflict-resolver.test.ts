@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { ConflictResolver } from '../../../apps/web/lib/services/conflict-resolver';
+
+const now = new Date('2026-03-01T00:00:00.000Z');
+
+const fact = (id: string, value: any, tier: number, confidence: number, createdAt = '2026-02-28T00:00:00.000Z'): any => ({
+  id,
+  job_id: 'job-1',
+  fact_type: 'site_employee_count',
+  fact_data: { value },
+  confidence_score: confidence,
+  source_url: `https://example.com/${id}`,
+  validated: false,
+  created_at: createdAt,
+  tier_used: tier
+});
+
+describe('ConflictResolver', () => {
+  const resolver = new ConflictResolver();
+
+  it('should not report a conflict when the facts agree', () => {
+    const resolution = resolver.resolve('employeeCount', [
+      fact('a', '300', 1, 0.8),
+      fact('b', 'approximately 310 employees', 3, 0.6)
+    ], now);
+
+    expect(resolution.conflict).toBeUndefined();
+    expect(resolution.winner?.id).toBe('a');
+    expect(resolution.supporting.map(f => f.id)).toEqual(['a', 'b']);
+  });
+
+  it('should prefer the more reliable tier and keep every candidate', () => {
+    const resolution = resolver.resolve('employeeCount', [
+      fact('tier2', '500-1000', 2, 0.7),
+      fact('tier1', '300', 1, 0.8)
+    ], now);
+
+    expect(resolution.winner?.id).toBe('tier1');
+    expect(resolution.conflict).toMatchObject({
+      fieldName: 'employeeCount',
+      winnerFactId: 'tier1',
+      status: 'auto_resolved'
+    });
+    expect(resolution.conflict!.candidates.map(c => c.value)).toEqual(['300', '500-1000']);
+  });
+
+  it('should leave close calls unresolved for review', () => {
+    const resolution = resolver.resolve('employeeCount', [
+      fact('a', '300', 1, 0.8),
+      fact('b', '800', 1, 0.75)
+    ], now);
+
+    expect(resolution.winner?.id).toBe('a');
+    expect(resolution.conflict?.status).toBe('unresolved');
+  });
+
+  it('should weigh recency and corroboration', () => {
+    const resolution = resolver.resolve('employeeCount', [
+      fact('old', '300', 1, 0.8, '2023-01-01T00:00:00.000Z'),
+      fact('new-1', '450', 2, 0.8),
+      fact('new-2', '460', 3, 0.7)
+    ], now);
+
+    expect(resolution.winner?.id).toBe('new-1');
+    expect(resolution.conflict!.candidates[0].supportingFactIds).toEqual(['new-1', 'new-2']);
+  });
+
+  it('should treat normalized text variants as the same value', () => {
+    expect(resolver.valuesAgree('100 North Main Street', '100 N. Main St')).toBe(true);
+    expect(resolver.valuesAgree('Houston', 'Singapore')).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { extractPageContent, collapseSiteWideBlocks } from '../../../apps/web/lib/services/content-extractor';
+import { CrawledPage } from '../../../apps/web/lib/types/enrichment';
+
+const layout = (body: string) => `
+<html><head><title>Example Manufacturing</title></head><body>
+  <header><nav><a href="/">Home</a> <a href="/about">About</a> <a href="/locations">Locations</a></nav></header>
+  <div id="cookie-banner">We use cookies to improve your experience. Accept all</div>
+  ${body}
+  <footer>
+    <p>Example Manufacturing Inc., 1 Corporate Way, Chicago, IL 60601</p>
+    <ul><li><a href="/privacy">Privacy</a></li><li><a href="/terms">Terms</a></li></ul>
+  </footer>
+  <script>window.analytics = {};</script>
+</body></html>`;
+
+const toPage = (url: string, html: string): CrawledPage => {
+  const { title, content, blocks } = extractPageContent(html);
+  return {
+    url,
+    title,
+    content,
+    blocks,
+    metadata: { crawled_at: '2026-01-01T00:00:00.000Z', status_code: 200, content_type: 'text/html', word_count: 0 }
+  };
+};
+
+describe('extractPageContent', () => {
+  it('should separate main content from navigation, footer and cookie banners', () => {
+    const extracted = extractPageContent(layout(`
+      <main>
+        <h1>Our Dayton Plant</h1>
+        <p>The Dayton plant opened in 1998 and employs 450 people making brake assemblies for heavy trucks.</p>
+      </main>`));
+
+    expect(extracted.title).toBe('Example Manufacturing');
+    expect(extracted.content).toBe(
+      'Our Dayton Plant The Dayton plant opened in 1998 and employs 450 people making brake assemblies for heavy trucks.'
+    );
+    expect(extracted.blocks.filter(block => block.type === 'main').map(block => block.text)).toEqual([
+      'Our Dayton Plant',
+      'The Dayton plant opened in 1998 and employs 450 people making brake assemblies for heavy trucks.'
+    ]);
+    expect(extracted.blocks.find(block => block.type === 'navigation')?.text).toBe('Home About Locations');
+    expect(extracted.blocks.find(block => block.type === 'footer')?.text).toBe(
+      'Example Manufacturing Inc., 1 Corporate Way, Chicago, IL 60601 Privacy Terms'
+    );
+    expect(JSON.stringify(extracted.blocks)).not.toContain('cookies');
+  });
+
+  it('should pick the densest container when the page has no main element', () => {
+    const extracted = extractPageContent(layout(`
+      <div class="sidebar-links"><p><a href="/a">A very long list of related links</a>, <a href="/b">and more links</a></p></div>
+      <div class="page-content">
+        <p>Example Manufacturing operates plants in Dayton, Ohio, and Monterrey, Mexico, serving truck makers.</p>
+        <p>Both plants are certified to IATF 16949, and the Monterrey site added a paint line in 2021.</p>
+      </div>`));
+
+    expect(extracted.content).toContain('plants in Dayton, Ohio');
+    expect(extracted.content).toContain('paint line in 2021');
+    expect(extracted.content).not.toContain('related links');
+  });
+
+  it('should keep list items and table rows whole under their heading path', () => {
+    const extracted = extractPageContent(layout(`
+      <main>
+        <h1>Locations</h1>
+        <h2>Europe</h2>
+        <h3>Germany</h3>
+        <table>
+          <tr><th>Plant</th><th>City</th><th>Employees</th></tr>
+          <tr><td>Werk Nord</td><td>Hamburg</td><td>320</td></tr>
+        </table>
+        <h3>France</h3>
+        <ul><li><strong>Lyon</strong> assembly plant, opened 2004</li></ul>
+        <h2>Americas</h2>
+        <p>Our Dayton plant supplies brake assemblies to truck makers across North America.</p>
+      </main>`));
+
+    expect(extracted.blocks.filter(block => block.type === 'main').map(({ text, heading_path }) => ({ text, heading_path }))).toEqual([
+      { text: 'Locations', heading_path: ['Locations'] },
+      { text: 'Europe', heading_path: ['Locations', 'Europe'] },
+      { text: 'Germany', heading_path: ['Locations', 'Europe', 'Germany'] },
+      { text: 'Plant | City | Employees', heading_path: ['Locations', 'Europe', 'Germany'] },
+      { text: 'Werk Nord | Hamburg | 320', heading_path: ['Locations', 'Europe', 'Germany'] },
+      { text: 'France', heading_path: ['Locations', 'Europe', 'France'] },
+      { text: 'Lyon assembly plant, opened 2004', heading_path: ['Locations', 'Europe', 'France'] },
+      { text: 'Americas', heading_path: ['Locations', 'Americas'] },
+      { text: 'Our Dayton plant supplies brake assemblies to truck makers across North America.', heading_path: ['Locations', 'Americas'] }
+    ]);
+  });
+});
+
+describe('collapseSiteWideBlocks', () => {
+  it('should keep one copy of blocks repeated across the site', () => {
+    const teaser = '<p>Contact our sales team today for a quote on custom assemblies.</p>';
+    const pages = ['about', 'locations', 'careers'].map(path => toPage(
+      `https://example.com/${path}`,
+      layout(`<main><h1>${path}</h1><p>This page is about ${path} at Example Manufacturing and nothing else.</p>${teaser}</main>`)
+    ));
+
+    const collapsed = collapseSiteWideBlocks(pages);
+
+    expect(collapsed.slice(0, 3).map(page => page.content)).toEqual([
+      'about This page is about about at Example Manufacturing and nothing else.',
+      'locations This page is about locations at Example Manufacturing and nothing else.',
+      'careers This page is about careers at Example Manufacturing and nothing else.'
+    ]);
+
+    const siteWide = collapsed.slice(3);
+    expect(siteWide.map(page => page.blocks![0].type)).toEqual(['main', 'navigation', 'footer']);
+    expect(siteWide.every(page => page.url === 'https://example.com/about')).toBe(true);
+    expect(collapsed.filter(page => page.content.includes('1 Corporate Way'))).toHaveLength(1);
+  });
+
+  it('should pass through pages without blocks', () => {
+    const pdf: CrawledPage = {
+      url: 'https://example.com/annual-report.pdf',
+      title: 'Annual Report',
+      content: 'Revenue grew 12 percent.',
+      metadata: { crawled_at: '2026-01-01T00:00:00.000Z', status_code: 200, content_type: 'application/pdf', word_count: 4 }
+    };
+
+    expect(collapseSiteWideBlocks([pdf])).toEqual([pdf]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CrawlCache, hashContent } from '../../../apps/web/lib/services/crawl-cache';
+import { CrawlCacheRepository } from '../../../apps/web/lib/repositories/crawl-cache-repository';
+
+const body = '<html><body><h1>Locations</h1></body></html>';
+
+const cachedResponse = {
+  url: 'https://example.com/locations',
+  content_hash: hashContent(body),
+  body,
+  etag: '"v1"',
+  last_modified: 'Mon, 05 Oct 2026 08:00:00 GMT',
+  content_type: 'text/html'
+};
+
+const response = (headers: Record<string, string> = {}) => new Response('', { headers });
+
+describe('CrawlCache', () => {
+  let repository: { get: any; put: any; markRevalidated: any };
+  let cache: CrawlCache;
+
+  beforeEach(() => {
+    repository = {
+      get: vi.fn().mockResolvedValue(null),
+      put: vi.fn().mockResolvedValue(undefined),
+      markRevalidated: vi.fn().mockResolvedValue(undefined)
+    };
+    cache = new CrawlCache(repository as unknown as CrawlCacheRepository);
+  });
+
+  it('should build conditional request headers from the cached validators', async () => {
+    repository.get.mockResolvedValue(cachedResponse);
+
+    const lookup = await cache.lookup('https://example.com/locations');
+
+    expect(lookup.cached).toBe(cachedResponse);
+    expect(lookup.headers).toEqual({
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Mon, 05 Oct 2026 08:00:00 GMT'
+    });
+  });
+
+  it('should classify bodies against the cached content hash', async () => {
+    const url = 'https://example.com/locations';
+
+    expect((await cache.store(url, body, response(), null)).cache_status).toBe('new');
+    expect((await cache.store(url, body, response(), cachedResponse)).cache_status).toBe('unchanged');
+    expect((await cache.store(url, `${body} `, response(), cachedResponse)).cache_status).toBe('changed');
+  });
+
+  it('should store the body under its hash with the response validators', async () => {
+    const result = await cache.store('https://example.com/about', body, response({ etag: '"v2"', 'content-type': 'text/html' }), null);
+
+    expect(result.content_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(repository.put).toHaveBeenCalledWith({
+      url: 'https://example.com/about',
+      content_hash: result.content_hash,
+      body,
+      etag: '"v2"',
+      last_modified: undefined,
+      content_type: 'text/html'
+    });
+  });
+
+  it('should fall back to full fetches when the cache is unavailable', async () => {
+    repository.get.mockRejectedValue(new Error('connection refused'));
+    repository.put.mockRejectedValue(new Error('connection refused'));
+
+    expect(await cache.lookup('https://example.com/')).toEqual({ cached: null, headers: {} });
+    expect((await cache.store('https://example.com/', body, response(), null)).cache_status).toBe('new');
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CrawlScheduler, CrawlSchedulerConfig, parseRetryAfter } from '../../../apps/web/lib/services/crawl-scheduler';
+
+const config = (overrides: Partial<CrawlSchedulerConfig> = {}): CrawlSchedulerConfig => ({
+  max_concurrency: 4,
+  max_concurrency_per_host: 1,
+  min_delay_ms: 0,
+  max_delay_ms: 1000,
+  max_retries: 2,
+  retry_base_delay_ms: 1,
+  time_budget_ms: 60000,
+  byte_budget: 1024,
+  ...overrides
+});
+
+const status = (code: number, headers: Record<string, string> = {}) => new Response(null, { status: code, headers });
+
+describe('parseRetryAfter', () => {
+  it('should accept delay-seconds and HTTP dates', () => {
+    const now = Date.parse('Mon, 05 Oct 2026 08:00:00 GMT');
+
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Mon, 05 Oct 2026 08:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
+
+describe('CrawlScheduler', () => {
+  it('should retry rate-limited requests and back off the host', async () => {
+    const scheduler = new CrawlScheduler(config());
+    const request = vi.fn()
+      .mockResolvedValueOnce(status(429, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(status(200));
+
+    const response = await scheduler.fetch('https://example.com/about', request);
+
+    expect(response.status).toBe(200);
+    expect(request).toHaveBeenCalledTimes(2);
+    const host = scheduler.stats().hosts['example.com'];
+    expect(host).toMatchObject({ requests: 2, retries: 1, errors: 1, rate_limited: 1 });
+    expect(host.delay_ms).toBeGreaterThan(0);
+  });
+
+  it('should retry network errors and rethrow once retries are used up', async () => {
+    const scheduler = new CrawlScheduler(config());
+    const request = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(scheduler.fetch('https://example.com/', request)).rejects.toThrow('fetch failed');
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(scheduler.stats().retries).toBe(2);
+  });
+
+  it('should not retry client errors', async () => {
+    const scheduler = new CrawlScheduler(config());
+    const request = vi.fn().mockResolvedValue(status(404));
+
+    expect((await scheduler.fetch('https://example.com/missing', request)).status).toBe(404);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up when Retry-After exceeds the maximum delay', async () => {
+    const scheduler = new CrawlScheduler(config());
+    const request = vi.fn().mockResolvedValue(status(503, { 'retry-after': '3600' }));
+
+    expect((await scheduler.fetch('https://example.com/', request)).status).toBe(503);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(scheduler.stats().hosts['example.com'].paused_until).toBeDefined();
+  });
+
+  it('should bound concurrency per host but not across hosts', async () => {
+    const scheduler = new CrawlScheduler(config());
+    const active: Record<string, number> = {};
+    const peak: Record<string, number> = {};
+    const request = (host: string) => async () => {
+      active[host] = (active[host] || 0) + 1;
+      peak[host] = Math.max(peak[host] || 0, active[host]);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active[host]--;
+      return status(200);
+    };
+
+    await Promise.all([
+      scheduler.fetch('https://example.com/a', request('example.com')),
+      scheduler.fetch('https://example.com/b', request('example.com')),
+      scheduler.fetch('https://investors.example.com/', request('investors.example.com'))
+    ]);
+
+    expect(peak['example.com']).toBe(1);
+    expect(scheduler.stats().hosts['example.com'].requests).toBe(2);
+    expect(scheduler.stats().hosts['investors.example.com'].requests).toBe(1);
+  });
+
+  it('should report an exhausted time or byte budget', () => {
+    expect(new CrawlScheduler(config({ time_budget_ms: 0 })).budgetExhausted()).toMatch(/Time budget/);
+
+    const scheduler = new CrawlScheduler(config());
+    scheduler.recordBytes(512);
+    expect(scheduler.budgetExhausted()).toBeNull();
+    scheduler.recordBytes(512);
+    expect(scheduler.budgetExhausted()).toMatch(/Byte budget/);
+    expect(scheduler.stats().budget.exhausted).toMatch(/Byte budget/);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { CrawlScopeMatcher, resolveCrawlScope } from '../../../apps/web/lib/services/crawl-scope';
+
+describe('resolveCrawlScope', () => {
+  it('should default to the whole domain starting from the home page', () => {
+    expect(resolveCrawlScope('www.Example.com', {})).toEqual({
+      domain: 'example.com',
+      seed_urls: ['https://example.com'],
+      include_patterns: [],
+      exclude_patterns: [],
+      allowed_subdomains: [],
+      sibling_domains: []
+    });
+  });
+
+  it('should normalize hosts and drop seeds outside the scope', () => {
+    const scope = resolveCrawlScope('example.com', {
+      crawl_scope: {
+        seed_urls: ['https://example.com/our-locations', 'https://unrelated.com/plants', 'https://brand.com/sites'],
+        allowed_subdomains: ['investors', 'careers.example.com'],
+        sibling_domains: ['https://www.Brand.com/']
+      }
+    });
+
+    expect(scope.allowed_subdomains).toEqual(['investors.example.com', 'careers.example.com']);
+    expect(scope.sibling_domains).toEqual(['brand.com']);
+    expect(scope.seed_urls).toEqual([
+      'https://example.com',
+      'https://example.com/our-locations',
+      'https://brand.com/sites'
+    ]);
+  });
+
+  it('should reject malformed scopes', () => {
+    expect(() => resolveCrawlScope('example.com', { crawl_scope: { seed_urls: ['/relative'] } })).toThrow();
+    expect(() => resolveCrawlScope('example.com', { crawl_scope: { sibling_domains: ['not a domain'] } })).toThrow();
+  });
+});
+
+describe('CrawlScopeMatcher', () => {
+  const matcher = new CrawlScopeMatcher(resolveCrawlScope('example.com', {
+    crawl_scope: {
+      include_patterns: ['/locations/**', '/about*', '**/*.pdf'],
+      exclude_patterns: ['/locations/archive/**'],
+      allowed_subdomains: ['investors'],
+      sibling_domains: ['brand.com']
+    }
+  }));
+
+  it('should apply include and exclude globs to the path', () => {
+    expect(matcher.isInScope('https://example.com/locations')).toBe(true);
+    expect(matcher.isInScope('https://example.com/locations/ohio/dayton')).toBe(true);
+    expect(matcher.isInScope('https://example.com/about-us')).toBe(true);
+    expect(matcher.isInScope('https://example.com/reports/2024/annual.pdf')).toBe(true);
+    expect(matcher.isInScope('https://example.com/locations/archive/1999')).toBe(false);
+    expect(matcher.isInScope('https://example.com/news/plant-opening')).toBe(false);
+  });
+
+  it('should always allow seed URLs', () => {
+    expect(matcher.isInScope('https://example.com')).toBe(true);
+  });
+
+  it('should only allow listed subdomains and sibling domains', () => {
+    expect(matcher.isInScope('https://investors.example.com/locations')).toBe(true);
+    expect(matcher.isInScope('https://www.brand.com/locations/mexico')).toBe(true);
+    expect(matcher.isInScope('https://shop.example.com/locations')).toBe(false);
+    expect(matcher.isInScope('https://other.com/locations')).toBe(false);
+    expect(matcher.isInScope('mailto:info@example.com')).toBe(false);
+  });
+
+  it('should allow every subdomain with a wildcard', () => {
+    const wildcard = new CrawlScopeMatcher(resolveCrawlScope('example.com', { crawl_scope: { allowed_subdomains: ['*'] } }));
+
+    expect(wildcard.isInScope('https://shop.eu.example.com/')).toBe(true);
+    expect(wildcard.isInScope('https://notexample.com/')).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DataModelSink } from '../../../apps/web/lib/services/orchestration/persistence-sinks';
+import { createMockJob } from '../../__fixtures__/test-data';
+
+const fact = (id: string, factType: string, value: any, overrides: Record<string, any> = {}): any => ({
+  id,
+  job_id: 'job-1',
+  fact_type: factType,
+  fact_data: { value, site_name: 'Houston Plant' },
+  confidence_score: 0.8,
+  source_url: `https://acme.com/${id}`,
+  source_text: `${factType}: ${value}`,
+  validated: false,
+  created_at: '2026-01-05T10:00:00.000Z',
+  tier_used: 1,
+  ...overrides
+});
+
+describe('DataModelSink', () => {
+  let orgRepository: any;
+  let siteRepository: any;
+  let auditRepository: any;
+  let evidenceRepository: any;
+  let conflictRepository: any;
+  let sink: DataModelSink;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    orgRepository = {
+      findByDomain: vi.fn().mockResolvedValue(null),
+      create: vi.fn(async (org: any) => ({ ...org, organizationId: 'org-1', lastVerifiedDate: '2026-01-05T10:00:00.000Z' }))
+    };
+    siteRepository = {
+      findByOrganizationId: vi.fn().mockResolvedValue([]),
+      create: vi.fn(async (site: any) => ({ ...site, siteId: 'site-1', lastVerifiedDate: '2026-01-05T10:00:00.000Z' })),
+      update: vi.fn()
+    };
+    auditRepository = { record: vi.fn().mockResolvedValue({}) };
+    evidenceRepository = { recordBatch: vi.fn().mockResolvedValue(undefined), findByEntities: vi.fn() };
+    conflictRepository = { create: vi.fn().mockResolvedValue({}) };
+
+    sink = new DataModelSink(orgRepository, siteRepository, auditRepository, evidenceRepository, conflictRepository);
+  });
+
+  it('should cite the facts behind each populated site and organization field', async () => {
+    const facts = [
+      fact('f-name', 'company_name', 'Acme Chemicals', { tier_used: 2 }),
+      fact('f-site', 'site_name', 'Houston Plant'),
+      fact('f-address', 'site_address', '100 Main St'),
+      fact('f-employees', 'site_employee_count', '250', { tier_used: 3, confidence_score: 0.6 })
+    ];
+
+    await sink.resultsReady({ job: createMockJob({ id: 'job-1', domain: 'acme.com' }) } as any, facts);
+
+    const entries = evidenceRepository.recordBatch.mock.calls[0][0];
+    const cited = entries.map((entry: any) => `${entry.entityType}:${entry.fieldName}:${entry.factId}`);
+
+    expect(cited).toEqual(expect.arrayContaining([
+      'organization:companyName:f-name',
+      'site:siteName:f-site',
+      'site:address:f-address',
+      'site:employeeCount:f-employees'
+    ]));
+    expect(entries.find((entry: any) => entry.fieldName === 'employeeCount')).toMatchObject({
+      entityId: 'site-1',
+      enrichmentJobId: 'job-1',
+      tier: 3,
+      confidenceScore: 0.6,
+      sourceUrl: 'https://acme.com/f-employees'
+    });
+  });
+
+  it('should not cite a fact whose value a merge did not keep', async () => {
+    siteRepository.findByOrganizationId.mockResolvedValue([{
+      siteId: 'site-1',
+      organizationId: 'org-1',
+      siteName: 'Houston Plant',
+      address: '',
+      city: '',
+      stateProvince: '',
+      country: '',
+      postalCode: '',
+      siteType: 'manufacturing',
+      sitePurpose: '',
+      certifications: [],
+      operatingStatus: 'active',
+      employeeCount: 500,
+      regulatoryIds: [],
+      supplyChainDependencies: [],
+      majorProducts: [],
+      evidenceText: '',
+      source: '',
+      confidenceScore: 0.95,
+      lastVerifiedDate: '2026-01-01T00:00:00.000Z',
+      enrichmentJobId: 'job-0'
+    }]);
+    siteRepository.update.mockImplementation(async (siteId: string, updates: any) => ({
+      ...(await siteRepository.findByOrganizationId.mock.results[0].value)[0],
+      ...updates,
+      siteId
+    }));
+
+    await sink.resultsReady({ job: createMockJob({ id: 'job-1', domain: 'acme.com' }) } as any, [
+      fact('f-site', 'site_name', 'Houston Plant'),
+      fact('f-employees', 'site_employee_count', '250')
+    ]);
+
+    expect(siteRepository.create).not.toHaveBeenCalled();
+    const entries = evidenceRepository.recordBatch.mock.calls[0][0];
+    expect(entries.some((entry: any) => entry.fieldName === 'siteName')).toBe(true);
+    expect(entries.some((entry: any) => entry.fieldName === 'employeeCount')).toBe(false);
+  });
+
+  it('should record conflicting facts against the stored site and cite only the winner', async () => {
+    await sink.resultsReady({ job: createMockJob({ id: 'job-1', domain: 'acme.com' }) } as any, [
+      fact('f-site', 'site_name', 'Houston Plant'),
+      fact('f-tier1', 'site_employee_count', '300', { tier_used: 1 }),
+      fact('f-tier2', 'site_employee_count', '500-1000', { tier_used: 2, confidence_score: 0.7 })
+    ]);
+
+    expect(siteRepository.create).toHaveBeenCalledWith(expect.objectContaining({ employeeCount: 300 }));
+    expect(conflictRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      siteId: 'site-1',
+      organizationId: 'org-1',
+      enrichmentJobId: 'job-1',
+      fieldName: 'employeeCount',
+      winnerFactId: 'f-tier1',
+      status: 'auto_resolved',
+      candidates: [
+        expect.objectContaining({ factId: 'f-tier1', value: '300' }),
+        expect.objectContaining({ factId: 'f-tier2', value: '500-1000' })
+      ]
+    }));
+
+    const entries = evidenceRepository.recordBatch.mock.calls[0][0];
+    const employeeCitations = entries.filter((entry: any) => entry.fieldName === 'employeeCount');
+    expect(employeeCitations.map((entry: any) => entry.factId)).toEqual(['f-tier1']);
+  });
+
+  it('should leave the employee count empty when the winning fact is not a whole number', async () => {
+    await sink.resultsReady({ job: createMockJob({ id: 'job-1', domain: 'acme.com' }) } as any, [
+      fact('f-site', 'site_name', 'Houston Plant'),
+      fact('f-employees', 'site_employee_count', '500-1000')
+    ]);
+
+    expect(siteRepository.create).toHaveBeenCalledWith(expect.objectContaining({ employeeCount: undefined }));
+    const entries = evidenceRepository.recordBatch.mock.calls[0][0];
+    expect(entries.some((entry: any) => entry.fieldName === 'employeeCount')).toBe(false);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EnrichmentCore } from '../../../apps/web/lib/services/orchestration/enrichment-core';
+import { DefaultLifecyclePolicy } from '../../../apps/web/lib/services/orchestration/lifecycle-policy';
+import { createMockJob } from '../../__fixtures__/test-data';
+
+const fact = (confidence: number, tier: number) => ({
+  id: `fact-${tier}-${confidence}`,
+  job_id: 'job-1',
+  fact_type: 'company_name',
+  fact_data: { value: 'Acme' },
+  confidence_score: confidence,
+  source_url: 'https://acme.com',
+  source_text: 'Acme',
+  validated: false,
+  created_at: new Date(),
+  updated_at: new Date()
+});
+
+const tierResult = (tier: number, confidence: number, status: 'completed' | 'failed' = 'completed') => ({
+  tier,
+  facts: status === 'completed' ? [fact(confidence, tier)] : [],
+  sources_attempted: [`tier-${tier}`],
+  pages_scraped: 1,
+  runtime_seconds: 1,
+  status,
+  average_confidence: status === 'completed' ? confidence : 0
+});
+
+const processor = (tier: number, execute: any) => ({
+  tier,
+  name: `Tier ${tier}`,
+  canHandle: () => true,
+  execute: vi.fn(execute)
+});
+
+describe('EnrichmentCore', () => {
+  let sink: any;
+  let policy: DefaultLifecyclePolicy;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    sink = {
+      name: 'test-sink',
+      jobStarted: vi.fn().mockResolvedValue(undefined),
+      tierCompleted: vi.fn().mockResolvedValue(undefined),
+      resultsReady: vi.fn().mockResolvedValue(undefined),
+      jobFinished: vi.fn().mockResolvedValue(undefined),
+      jobTransition: vi.fn().mockResolvedValue(undefined),
+      getRetryCount: vi.fn().mockResolvedValue(0)
+    };
+
+    policy = new DefaultLifecyclePolicy({
+      confidenceThreshold: 0.7,
+      maxAttemptsPerTier: 2,
+      retryConfig: { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0, exponentialBase: 2 }
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run tiers in order and stop once the confidence threshold is met', async () => {
+    const tier1 = processor(1, async () => tierResult(1, 0.5));
+    const tier2 = processor(2, async () => tierResult(2, 0.95));
+    const tier3 = processor(3, async () => tierResult(3, 0.9));
+    const core = new EnrichmentCore(policy, [sink], [tier3, tier1, tier2]);
+
+    const result = await core.executeEnrichment(createMockJob({ id: 'job-1' }));
+
+    expect(tier1.execute.mock.invocationCallOrder[0]).toBeLessThan(tier2.execute.mock.invocationCallOrder[0]);
+    expect(tier3.execute).not.toHaveBeenCalled();
+    expect(result.stopped_early).toBe(true);
+    expect(result.stop_reason).toBe('confidence_threshold_met');
+    expect(result.final_status).toBe('completed');
+    expect(result.total_facts_extracted).toBe(2);
+    expect(sink.tierCompleted).toHaveBeenCalledTimes(2);
+    expect(sink.resultsReady).toHaveBeenCalledTimes(1);
+    expect(sink.jobFinished).toHaveBeenCalledWith(expect.objectContaining({ id: 'job-1' }), result);
+  });
+
+  it('should retry a failing tier up to the policy limit, then re-queue the job', async () => {
+    const tier1 = processor(1, async () => { throw new Error('source unavailable'); });
+    const core = new EnrichmentCore(policy, [sink], [tier1]);
+
+    await expect(core.executeEnrichment(createMockJob({ id: 'job-1' })))
+      .rejects.toThrow('All tiers failed: tier 1: source unavailable');
+
+    expect(tier1.execute).toHaveBeenCalledTimes(2);
+    expect(sink.jobTransition).toHaveBeenCalledTimes(1);
+    expect(sink.jobTransition).toHaveBeenCalledWith('job-1', expect.objectContaining({
+      status: 'pending',
+      event: 'retry_scheduled',
+      incrementRetryCount: true
+    }));
+    expect(core.getRetryQueue()).toEqual(['job-1']);
+    expect(sink.jobFinished).not.toHaveBeenCalled();
+  });
+
+  it('should fail a job whose tiers keep failing once its retries are used up', async () => {
+    sink.getRetryCount.mockResolvedValue(2);
+    const core = new EnrichmentCore(policy, [sink], [processor(1, async () => tierResult(1, 0, 'failed'))]);
+
+    await expect(core.executeEnrichment(createMockJob({ id: 'job-1' }))).rejects.toThrow('All tiers failed');
+
+    expect(sink.jobTransition).toHaveBeenCalledWith('job-1', expect.objectContaining({
+      status: 'failed',
+      event: 'max_retries_exceeded'
+    }));
+    expect(core.getRetryQueue()).toEqual([]);
+  });
+
+  it('should not fail the job when a progress sink throws', async () => {
+    sink.tierCompleted.mockRejectedValue(new Error('ui down'));
+    const core = new EnrichmentCore(policy, [sink], [processor(1, async () => tierResult(1, 0.9))]);
+
+    const result = await core.executeEnrichment(createMockJob({ id: 'job-1' }));
+
+    expect(result.final_status).toBe('completed');
+    expect(sink.jobFinished).toHaveBeenCalled();
+  });
+
+  it('should retry the job when results cannot be stored', async () => {
+    sink.resultsReady.mockRejectedValue(new Error('insert failed'));
+    const core = new EnrichmentCore(policy, [sink], [processor(1, async () => tierResult(1, 0.9))]);
+
+    await expect(core.executeEnrichment(createMockJob({ id: 'job-1' }))).rejects.toThrow('insert failed');
+
+    expect(sink.jobTransition).toHaveBeenCalledWith('job-1', expect.objectContaining({
+      status: 'pending',
+      event: 'retry_scheduled'
+    }));
+  });
+
+  it('should send a failed job back to the queue while retries remain', async () => {
+    sink.getRetryCount.mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+    const core = new EnrichmentCore(policy, [sink]);
+
+    await expect(core.runJob('job-1', 'acme.com', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(sink.jobTransition).toHaveBeenLastCalledWith('job-1', expect.objectContaining({
+      status: 'pending',
+      incrementRetryCount: true
+    }));
+    expect(core.getRetryQueue()).toEqual(['job-1']);
+
+    await expect(core.runJob('job-1', 'acme.com', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(sink.jobTransition).toHaveBeenLastCalledWith('job-1', expect.objectContaining({
+      status: 'failed',
+      event: 'max_retries_exceeded'
+    }));
+    expect(core.getActiveJobs()).toEqual([]);
+  });
+
+  it('should reuse checkpointed tiers and continue from the first incomplete one', async () => {
+    const checkpoints = {
+      getTierResults: vi.fn().mockResolvedValue([tierResult(1, 0.5), tierResult(2, 0, 'failed')]),
+      saveTierResult: vi.fn().mockResolvedValue(undefined)
+    };
+    const tier1 = processor(1, async () => tierResult(1, 0.5));
+    const tier2 = processor(2, async () => tierResult(2, 0.6));
+    const core = new EnrichmentCore(policy, [sink], [tier1, tier2], checkpoints);
+
+    const result = await core.executeEnrichment(createMockJob({ id: 'job-1' }));
+
+    expect(tier1.execute).not.toHaveBeenCalled();
+    expect(tier2.execute).toHaveBeenCalledTimes(1);
+    expect(result.resumed_tiers).toEqual([1]);
+    expect(result.total_facts_extracted).toBe(2);
+    expect(checkpoints.saveTierResult).toHaveBeenCalledTimes(1);
+    expect(checkpoints.saveTierResult).toHaveBeenCalledWith('job-1', expect.objectContaining({ tier: 2 }));
+  });
+
+  it('should mark a job that exceeds its runtime as failed and skip later tiers', async () => {
+    vi.useFakeTimers();
+    const timedPolicy = new DefaultLifecyclePolicy({ maxJobRuntimeMinutes: 1, maxAttemptsPerTier: 1 });
+    const tier1 = processor(1, async () => {
+      await vi.advanceTimersByTimeAsync(61 * 1000);
+      return tierResult(1, 0.2);
+    });
+    const tier2 = processor(2, async () => tierResult(2, 0.9));
+    const core = new EnrichmentCore(timedPolicy, [sink], [tier1, tier2]);
+
+    const result = await core.executeEnrichment(createMockJob({ id: 'job-1' }));
+
+    expect(tier2.execute).not.toHaveBeenCalled();
+    expect(result.stop_reason).toBe('timeout');
+    expect(sink.jobTransition).toHaveBeenCalledWith('job-1', expect.objectContaining({
+      status: 'failed',
+      event: 'timeout'
+    }));
+    expect(sink.jobFinished).not.toHaveBeenCalled();
+  });
+
+  it('should stop an abandoned job without writing its checkpoint, results or status', async () => {
+    const checkpoints = { getTierResults: vi.fn().mockResolvedValue([]), saveTierResult: vi.fn() };
+    let core: EnrichmentCore;
+    const tier1 = processor(1, async () => {
+      core.abandonJob('job-1');
+      return tierResult(1, 0.2);
+    });
+    const tier2 = processor(2, async () => tierResult(2, 0.9));
+    core = new EnrichmentCore(policy, [sink], [tier1, tier2], checkpoints);
+
+    await expect(core.executeEnrichment(createMockJob({ id: 'job-1' }))).rejects.toThrow('was abandoned');
+
+    expect(tier2.execute).not.toHaveBeenCalled();
+    expect(checkpoints.saveTierResult).not.toHaveBeenCalled();
+    expect(sink.resultsReady).not.toHaveBeenCalled();
+    expect(sink.jobFinished).not.toHaveBeenCalled();
+    expect(sink.jobTransition).not.toHaveBeenCalled();
+  });
+});
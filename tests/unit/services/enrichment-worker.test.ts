@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EnrichmentWorker } from '../../../apps/web/lib/services/enrichment-worker';
+import { createMockJob } from '../../__fixtures__/test-data';
+
+describe('EnrichmentWorker', () => {
+  let mockQueue: any;
+  let mockJobRepository: any;
+  let mockOrchestrator: any;
+  let createOrchestrator: any;
+
+  const createWorker = () => new EnrichmentWorker(
+    { workerId: 'worker-test', concurrency: 2, pollIntervalMs: 60000, recoveryIntervalMs: 60000 },
+    mockQueue,
+    mockJobRepository,
+    createOrchestrator
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockQueue = {
+      leaseSeconds: 90,
+      claim: vi.fn().mockResolvedValue([]),
+      extendLease: vi.fn().mockResolvedValue(true),
+      release: vi.fn().mockResolvedValue(undefined),
+      recoverOrphanedJobs: vi.fn().mockResolvedValue([]),
+      getQueueDepth: vi.fn().mockResolvedValue({ pending: 0, running: 0 })
+    };
+
+    mockJobRepository = {
+      findById: vi.fn(async (id: string) => createMockJob({ id, domain: `${id}.com` })),
+      logError: vi.fn().mockResolvedValue(undefined)
+    };
+
+    mockOrchestrator = {
+      executeEnrichment: vi.fn().mockResolvedValue({
+        final_status: 'completed',
+        total_facts_extracted: 3,
+        average_confidence: 0.8
+      }),
+      getRetryQueue: vi.fn().mockReturnValue([]),
+      dispose: vi.fn()
+    };
+    createOrchestrator = vi.fn(() => mockOrchestrator);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should recover orphaned jobs before claiming work on startup', async () => {
+    const worker = createWorker();
+
+    await worker.start();
+    await worker.stop();
+
+    expect(mockQueue.recoverOrphanedJobs).toHaveBeenCalledTimes(1);
+    expect(mockQueue.recoverOrphanedJobs.mock.invocationCallOrder[0])
+      .toBeLessThan(mockQueue.claim.mock.invocationCallOrder[0]);
+    expect(mockQueue.claim).toHaveBeenCalledWith('worker-test', 2);
+  });
+
+  it('should run claimed jobs and release their leases', async () => {
+    mockQueue.claim.mockResolvedValueOnce(['job-1', 'job-2']);
+    const worker = createWorker();
+
+    await worker.start();
+    expect(worker.getActiveJobs()).toEqual(['job-1', 'job-2']);
+    await worker.stop();
+
+    expect(mockOrchestrator.executeEnrichment).toHaveBeenCalledTimes(2);
+    expect(mockOrchestrator.executeEnrichment.mock.calls[0][0].id).toBe('job-1');
+    expect(mockQueue.release).toHaveBeenCalledWith('job-1', 'worker-test');
+    expect(mockQueue.release).toHaveBeenCalledWith('job-2', 'worker-test');
+    expect(mockOrchestrator.dispose).toHaveBeenCalledTimes(2);
+  });
+
+  it('should log the error and still release the lease when a job throws', async () => {
+    mockQueue.claim.mockResolvedValueOnce(['job-1']);
+    mockOrchestrator.executeEnrichment.mockRejectedValueOnce(new Error('crawler exploded'));
+    const worker = createWorker();
+
+    await worker.start();
+    await worker.stop();
+
+    expect(mockJobRepository.logError).toHaveBeenCalledWith('job-1', 'crawler exploded');
+    expect(mockQueue.release).toHaveBeenCalledWith('job-1', 'worker-test');
+  });
+
+  it('should not fail a job the orchestrator sent back to the queue', async () => {
+    mockQueue.claim.mockResolvedValueOnce(['job-1']);
+    mockOrchestrator.executeEnrichment.mockRejectedValueOnce(new Error('All tiers failed'));
+    mockOrchestrator.getRetryQueue.mockReturnValue(['job-1']);
+    const worker = createWorker();
+
+    await worker.start();
+    await worker.stop();
+
+    expect(mockJobRepository.logError).not.toHaveBeenCalled();
+    expect(mockQueue.release).toHaveBeenCalledWith('job-1', 'worker-test');
+  });
+
+  it('should abandon a job whose lease was lost without failing it', async () => {
+    vi.useFakeTimers();
+    mockQueue.leaseSeconds = 3;
+    mockQueue.extendLease.mockResolvedValue(false);
+    mockQueue.claim.mockResolvedValueOnce(['job-1']);
+    // Like the core, the run stops once the job is abandoned
+    let abandon: (reason: Error) => void;
+    mockOrchestrator.executeEnrichment.mockImplementation(() => new Promise((_, reject) => { abandon = reject; }));
+    mockOrchestrator.abandonJob = vi.fn(() => abandon(new Error('Job job-1 was abandoned')));
+    const worker = createWorker();
+
+    await worker.start();
+    await vi.advanceTimersByTimeAsync(1000);
+    await worker.stop();
+
+    expect(mockOrchestrator.abandonJob).toHaveBeenCalledWith('job-1');
+    expect(mockQueue.extendLease).toHaveBeenCalledTimes(1);
+    expect(mockJobRepository.logError).not.toHaveBeenCalled();
+  });
+
+  it('should give concurrent jobs their own orchestrator', async () => {
+    // Stands in for the per-job state the crawler keeps on its instance
+    const statefulOrchestrator = () => {
+      let currentJobId: string | undefined;
+      return {
+        executeEnrichment: vi.fn(async (job: any) => {
+          currentJobId = job.id;
+          await new Promise(resolve => setTimeout(resolve, job.id === 'job-1' ? 20 : 5));
+          return { final_status: 'completed', total_facts_extracted: 0, average_confidence: 0, job_id: currentJobId };
+        }),
+        dispose: vi.fn()
+      };
+    };
+    const orchestrators: any[] = [];
+    createOrchestrator = vi.fn(() => {
+      const orchestrator = statefulOrchestrator();
+      orchestrators.push(orchestrator);
+      return orchestrator;
+    });
+    mockQueue.claim.mockResolvedValueOnce(['job-1', 'job-2']);
+    const worker = createWorker();
+
+    await worker.start();
+    expect(worker.getActiveJobs()).toEqual(['job-1', 'job-2']);
+    await worker.stop();
+
+    expect(createOrchestrator).toHaveBeenCalledTimes(2);
+    const results = await Promise.all(orchestrators.map(orchestrator => orchestrator.executeEnrichment.mock.results[0].value));
+    expect(results.map(result => result.job_id)).toEqual(['job-1', 'job-2']);
+    expect(orchestrators.every(orchestrator => orchestrator.dispose.mock.calls.length === 1)).toBe(true);
+  });
+});
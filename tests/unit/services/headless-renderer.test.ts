@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockBrowser = vi.hoisted(() => ({
+  newPage: vi.fn(),
+  on: vi.fn(),
+  close: vi.fn().mockResolvedValue(undefined)
+}));
+
+vi.mock('puppeteer', () => ({
+  default: { launch: vi.fn() }
+}));
+
+import puppeteer from 'puppeteer';
+import { HeadlessRenderer, assessRenderNeed } from '../../../apps/web/lib/services/headless-renderer';
+import { BrowserPool } from '../../../apps/web/lib/services/browser-pool';
+
+const mockPage = (html = '<html><body><h1>Rendered</h1></body></html>') => ({
+  setUserAgent: vi.fn().mockResolvedValue(undefined),
+  setViewport: vi.fn().mockResolvedValue(undefined),
+  goto: vi.fn().mockResolvedValue({ status: () => 200 }),
+  content: vi.fn().mockResolvedValue(html),
+  setRequestInterception: vi.fn().mockResolvedValue(undefined),
+  on: vi.fn(),
+  close: vi.fn().mockResolvedValue(undefined)
+});
+
+describe('assessRenderNeed', () => {
+  it('should keep static HTML that already has content', () => {
+    const text = Array(80).fill('word').join(' ');
+    expect(assessRenderNeed(`<script src="app.js"></script><p>${text}</p>`, text).render).toBe(false);
+  });
+
+  it('should render empty single-page app roots', () => {
+    const decision = assessRenderNeed('<body><div id="root"></div><script src="/main.js"></script></body>', '');
+    expect(decision.render).toBe(true);
+    expect(decision.reason).toContain('single-page app');
+  });
+
+  it('should render script-only shells and noscript warnings', () => {
+    expect(assessRenderNeed('<body><script>boot()</script></body>', 'Loading').render).toBe(true);
+    expect(assessRenderNeed('<noscript>Please enable JavaScript to view this site</noscript>', 'Please enable JavaScript').render).toBe(true);
+  });
+
+  it('should not render short pages without client-side rendering markers', () => {
+    expect(assessRenderNeed('<body><p>Coming soon</p></body>', 'Coming soon').render).toBe(false);
+  });
+});
+
+describe('HeadlessRenderer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(puppeteer.launch).mockResolvedValue(mockBrowser as any);
+  });
+
+  it('should return the rendered DOM and close the page', async () => {
+    const page = mockPage();
+    mockBrowser.newPage.mockResolvedValue(page);
+    const renderer = new HeadlessRenderer({ user_agent: 'TestBot/1.0', timeout_ms: 1000 }, new BrowserPool({ max_pages: 2 }));
+
+    const rendered = await renderer.render('https://example.com');
+
+    expect(rendered).toEqual({ html: '<html><body><h1>Rendered</h1></body></html>', status_code: 200 });
+    expect(page.setUserAgent).toHaveBeenCalledWith('TestBot/1.0');
+    expect(page.close).toHaveBeenCalled();
+  });
+
+  it('should share one browser and cap concurrent pages', async () => {
+    let open = 0;
+    let maxOpen = 0;
+    mockBrowser.newPage.mockImplementation(async () => {
+      open++;
+      maxOpen = Math.max(maxOpen, open);
+      const page = mockPage();
+      page.close.mockImplementation(async () => { open--; });
+      return page;
+    });
+    const pool = new BrowserPool({ max_pages: 2 });
+    const renderer = new HeadlessRenderer({ user_agent: 'TestBot/1.0', timeout_ms: 1000 }, pool);
+
+    await Promise.all(['a', 'b', 'c', 'd', 'e'].map(path => renderer.render(`https://example.com/${path}`)));
+
+    expect(maxOpen).toBe(2);
+    expect(puppeteer.launch).toHaveBeenCalledTimes(1);
+    expect(pool.getStats()).toEqual({ open_pages: 0, waiting: 0, max_pages: 2 });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JobQueue } from '../../../apps/web/lib/services/job-queue';
+
+describe('JobQueue', () => {
+  let mockPool: any;
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockPool = {
+      query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 })
+    };
+
+    queue = new JobQueue({ leaseSeconds: 90, maxAttempts: 3 }, mockPool);
+  });
+
+  describe('claim', () => {
+    it('should claim pending jobs with SKIP LOCKED and lease them to the worker', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: 'job-1' }, { id: 'job-2' }], rowCount: 2 });
+
+      const jobIds = await queue.claim('worker-a', 2);
+
+      expect(jobIds).toEqual(['job-1', 'job-2']);
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain("WHERE status = 'pending'");
+      expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+      expect(sql).toContain("SET status = 'running', locked_by = $1");
+      expect(params).toEqual(['worker-a', 2, 90]);
+    });
+
+    it('should not query when the worker has no free slots', async () => {
+      const jobIds = await queue.claim('worker-a', 0);
+
+      expect(jobIds).toEqual([]);
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('extendLease', () => {
+    it('should only extend a lease held by the same worker', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: 'job-1' }], rowCount: 1 });
+
+      const owned = await queue.extendLease('job-1', 'worker-a');
+
+      expect(owned).toBe(true);
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('locked_by = $2');
+      expect(params).toEqual(['job-1', 'worker-a', 90]);
+    });
+
+    it('should report a lost lease', async () => {
+      const owned = await queue.extendLease('job-1', 'worker-b');
+
+      expect(owned).toBe(false);
+    });
+  });
+
+  describe('enqueue', () => {
+    it('should reset the lease and leave running jobs alone', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ id: 'job-1' }], rowCount: 1 });
+
+      const queued = await queue.enqueue('job-1');
+
+      expect(queued).toBe(true);
+      const [sql] = mockPool.query.mock.calls[0];
+      expect(sql).toContain("SET status = 'pending', locked_by = NULL, locked_until = NULL");
+      expect(sql).toContain("status <> 'running'");
+    });
+  });
+
+  describe('recoverOrphanedJobs', () => {
+    it('should re-queue expired leases and fail jobs that ran out of attempts', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          { id: 'job-1', status: 'pending', previous_worker: 'worker-a' },
+          { id: 'job-2', status: 'failed', previous_worker: null }
+        ],
+        rowCount: 2
+      });
+
+      const recovered = await queue.recoverOrphanedJobs();
+
+      expect(recovered).toEqual([
+        { jobId: 'job-1', status: 'pending', previousWorker: 'worker-a' },
+        { jobId: 'job-2', status: 'failed', previousWorker: undefined }
+      ]);
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('locked_until IS NULL OR locked_until < NOW()');
+      expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+      expect(params[0]).toBe(3);
+
+      // One job_logs entry per recovered job
+      const logCalls = mockPool.query.mock.calls.slice(1);
+      expect(logCalls).toHaveLength(2);
+      expect(logCalls[0][0]).toContain('INSERT INTO job_logs');
+      expect(logCalls[0][1]).toEqual(['job-1', 'warn', expect.stringContaining('returned to the queue'), expect.any(String)]);
+      expect(logCalls[1][1]).toEqual(['job-2', 'error', expect.stringContaining('exhausting its attempts'), expect.any(String)]);
+    });
+  });
+});
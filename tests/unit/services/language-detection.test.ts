@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectLanguage,
+  pageLanguage,
+  normalizeLanguageTag,
+  languageAlternates,
+  englishAlternate
+} from '../../../apps/web/lib/services/language-detection';
+import { promptBuilder } from '../../../apps/web/lib/services/prompt-templates';
+
+describe('detectLanguage', () => {
+  it('should detect languages written in Latin script from function words', () => {
+    expect(detectLanguage('Wir sind ein Familienunternehmen mit Sitz in München und fertigen seit 1950 Präzisionsteile für die Automobilindustrie. Unsere Werke stehen in Deutschland und der Slowakei.')).toBe('de');
+    expect(detectLanguage('A empresa foi fundada em 1962 e hoje possui três fábricas no Brasil. Nossos produtos são exportados para mais de 40 países, com foco na qualidade e na inovação.')).toBe('pt');
+    expect(detectLanguage('We are a leading manufacturer of industrial pumps. Our plants in Ohio and Texas serve customers across the world, and we are proud of the quality of our products.')).toBe('en');
+  });
+
+  it('should detect Japanese, Chinese and Korean by script', () => {
+    expect(detectLanguage('当社は1950年に創業し、精密部品の製造を行っています。国内外に工場を持ち、自動車業界のお客様に製品を提供しています。')).toBe('ja');
+    expect(detectLanguage('公司成立于1998年，总部位于上海，在中国拥有三个生产基地，主要生产工业泵和阀门。')).toBe('zh');
+    expect(detectLanguage('당사는 1985년에 설립되어 산업용 펌프를 생산하고 있으며 국내외에 공장을 운영하고 있습니다.')).toBe('ko');
+  });
+
+  it('should return null for text too short to classify', () => {
+    expect(detectLanguage('Kontakt')).toBeNull();
+    expect(detectLanguage('')).toBeNull();
+  });
+
+  it('should fall back to the declared language for short pages', () => {
+    expect(pageLanguage('<html lang="de-DE"><body>Kontakt</body></html>', 'Kontakt')).toBe('de');
+    expect(pageLanguage('<html lang="en"><body>…</body></html>', 'Wir sind ein Familienunternehmen mit Sitz in München und fertigen seit 1950 Präzisionsteile für die Automobilindustrie.')).toBe('de');
+  });
+
+  it('should normalize language tags to their primary subtag', () => {
+    expect(normalizeLanguageTag('pt-BR')).toBe('pt');
+    expect(normalizeLanguageTag('EN_us')).toBe('en');
+    expect(normalizeLanguageTag('x-default')).toBeNull();
+  });
+});
+
+describe('hreflang alternates', () => {
+  const html = `
+    <html lang="de">
+      <head>
+        <link rel="alternate" hreflang="de" href="https://example.de/ueber-uns" />
+        <link rel="alternate" hreflang="en-GB" href="https://example.de/en-gb/about" />
+        <link rel="alternate" hreflang="en" href="/en/about" />
+        <link rel="alternate" hreflang="x-default" href="https://example.de/" />
+        <link rel="stylesheet" href="/style.css" />
+      </head>
+    </html>`;
+
+  it('should list alternates with absolute URLs', () => {
+    expect(languageAlternates(html, 'https://example.de/ueber-uns')).toEqual([
+      { hreflang: 'de', url: 'https://example.de/ueber-uns' },
+      { hreflang: 'en-GB', url: 'https://example.de/en-gb/about' },
+      { hreflang: 'en', url: 'https://example.de/en/about' },
+      { hreflang: 'x-default', url: 'https://example.de/' }
+    ]);
+  });
+
+  it('should prefer the plain English variant', () => {
+    expect(englishAlternate(languageAlternates(html, 'https://example.de/ueber-uns'))).toBe('https://example.de/en/about');
+    expect(englishAlternate([{ hreflang: 'en-AU', url: 'https://example.de/au' }, { hreflang: 'en-US', url: 'https://example.de/us' }])).toBe('https://example.de/us');
+    expect(englishAlternate([{ hreflang: 'fr', url: 'https://example.de/fr' }])).toBeNull();
+  });
+});
+
+describe('PromptBuilder languages', () => {
+  it('should ask for English values and original-language source text for non-English content', () => {
+    const { systemPrompt } = promptBuilder.buildExtractionPrompt('Inhalt', 'example.de', undefined, undefined, { languages: ['de', 'en'] });
+
+    expect(systemPrompt).toContain('The content is in German, English.');
+    expect(systemPrompt).toContain('never translate source_text');
+  });
+
+  it('should leave prompts for English content unchanged', () => {
+    const english = promptBuilder.buildExtractionPrompt('Content', 'example.com', undefined, undefined, { languages: ['en'] });
+    const unknown = promptBuilder.buildExtractionPrompt('Content', 'example.com');
+
+    expect(english.systemPrompt).toBe(unknown.systemPrompt);
+    expect(english.systemPrompt).not.toContain('LANGUAGE:');
+  });
+});
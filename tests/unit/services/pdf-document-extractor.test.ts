@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { PdfDocumentExtractor, classifyPdfDocument } from '../../../apps/web/lib/services/pdf-document-extractor';
+import { FinancialDocumentParser } from '../../../apps/web/lib/services/financial-document-parser';
+
+/**
+ * Builds a minimal single-font PDF with one line of text per page
+ */
+const buildPdf = (pages: string[]): Uint8Array => {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  pages.forEach((text, index) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+    objects[pageIds[index] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return new Uint8Array(Buffer.from(pdf, 'latin1'));
+};
+
+const filler = 'The company operates across several regions with a focus on operational excellence and safety.';
+
+describe('FinancialDocumentParser page numbers', () => {
+  it('should record the pages a PDF section spans', async () => {
+    const parser = new FinancialDocumentParser({ use_llm_fallback: false, target_sections: ['facilities'] });
+    const rawContent = FinancialDocumentParser.joinPages([
+      `Letter to shareholders. ${filler}`,
+      `Manufacturing facilities Our plants in Dayton, Ohio and Monterrey, Mexico are ISO 14001 certified. ${filler}`,
+      `Further sites in Leipzig, Germany. ${filler} Employees numbered 12,000 at year end.`
+    ]);
+
+    const sections = await parser.parse({
+      id: 'pdf_1',
+      company_name: 'Example Corp',
+      document_type: 'SUSTAINABILITY_REPORT',
+      filing_date: '2026-01-01',
+      period_end_date: '2026-01-01',
+      source_url: 'https://example.com/sustainability.pdf',
+      raw_content: rawContent,
+      parsed_sections: [],
+      metadata: { file_size_bytes: 1000, format: 'PDF', processing_time_ms: 0, extraction_errors: [] },
+      created_at: '2026-01-01'
+    });
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].page_numbers).toEqual([2, 3]);
+    expect(sections[0].content).toContain('Leipzig');
+    expect(sections[0].content).not.toContain('[[page');
+  });
+});
+
+describe('classifyPdfDocument', () => {
+  it('should classify by URL, title and text', () => {
+    expect(classifyPdfDocument('https://example.com/docs/2025-ESG-Report.pdf', '', '')).toBe('SUSTAINABILITY_REPORT');
+    expect(classifyPdfDocument('https://example.com/ir/q4.pdf', 'Q4 Earnings Presentation', '')).toBe('INVESTOR_PRESENTATION');
+    expect(classifyPdfDocument('https://example.com/files/ar2025.pdf', '', 'Annual Report 2025')).toBe('ANNUAL_REPORT_PDF');
+  });
+});
+
+describe('PdfDocumentExtractor', () => {
+  it('should extract text per page into a crawled page', async () => {
+    const extractor = new PdfDocumentExtractor();
+    const page = await extractor.extract(
+      'https://example.com/reports/sustainability-report.pdf',
+      buildPdf(['Our sustainability commitments', 'Plant in Dayton Ohio']),
+      'example.com'
+    );
+
+    expect(page.metadata.content_type).toBe('application/pdf');
+    expect(page.document?.document_type).toBe('SUSTAINABILITY_REPORT');
+    expect(page.document?.page_count).toBe(2);
+    expect(page.document?.pages[1]).toEqual({ page_number: 2, content: 'Plant in Dayton Ohio' });
+    expect(page.content).toContain('Our sustainability commitments');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RobotsPolicy, RobotsTxt } from '../../../apps/web/lib/services/robots-txt';
+
+// safeFetch resolves every host before fetching; answer with a public address
+vi.mock('dns/promises', () => {
+  const lookup = async () => [{ address: '93.184.216.34', family: 4 }];
+  return { lookup, default: { lookup } };
+});
+
+const UA = 'Resilion-Enrichment-Bot/1.0';
+
+describe('RobotsTxt', () => {
+  it('should prefer the group naming our product token over the wildcard group', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: SomeOtherBot',
+      'User-agent: resilion-enrichment-bot',
+      'Disallow: /private',
+      'Crawl-delay: 5'
+    ].join('\n'));
+
+    expect(robots.check('https://example.com/about', UA).allowed).toBe(true);
+    expect(robots.check('https://example.com/private/x', UA).allowed).toBe(false);
+    expect(robots.check('https://example.com/about', 'OtherCrawler').allowed).toBe(false);
+    expect(robots.getCrawlDelay(UA)).toBe(5);
+    expect(robots.getCrawlDelay('OtherCrawler')).toBeUndefined();
+  });
+
+  it('should apply the longest match with Allow winning ties', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: *',
+      'Disallow: /company',
+      'Allow: /company/locations',
+      'Allow: /page',
+      'Disallow: /page',
+      'Disallow:'
+    ].join('\n'));
+
+    expect(robots.check('https://example.com/company/history', UA).allowed).toBe(false);
+    expect(robots.check('https://example.com/company/locations/ohio', UA).allowed).toBe(true);
+    expect(robots.check('https://example.com/page', UA).allowed).toBe(true);
+    expect(robots.check('https://example.com/news', UA).allowed).toBe(true);
+  });
+
+  it('should support wildcards, end anchors and percent-encoding', () => {
+    const robots = RobotsTxt.parse([
+      'User-agent: *   # all crawlers',
+      'Disallow: /*.pdf$',
+      'Disallow: /search?*q=',
+      'Disallow: /caf%c3%a9',
+      'Disallow: /%7Eadmin',
+      'Sitemap: https://example.com/sitemap.xml'
+    ].join('\n'));
+
+    expect(robots.check('https://example.com/reports/annual.pdf', UA).allowed).toBe(false);
+    expect(robots.check('https://example.com/reports/annual.pdf?v=2', UA).allowed).toBe(true);
+    expect(robots.check('https://example.com/search?lang=en&q=plants', UA).allowed).toBe(false);
+    expect(robots.check('https://example.com/café/menu', UA).allowed).toBe(false);
+    expect(robots.check('https://example.com/~admin', UA).allowed).toBe(false);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('should explain which rule disallowed a URL', () => {
+    const robots = RobotsTxt.parse('User-agent: *\nDisallow: /private');
+    const decision = robots.check('https://example.com/private', UA);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toContain('Disallow: /private');
+  });
+});
+
+describe('RobotsPolicy', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should fetch robots.txt once per origin', async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      text: () => Promise.resolve('User-agent: *\nDisallow: /private\nCrawl-delay: 2')
+    });
+    const policy = new RobotsPolicy(UA);
+
+    expect((await policy.check('https://example.com/')).allowed).toBe(true);
+    expect((await policy.check('https://example.com/private')).allowed).toBe(false);
+    expect(await policy.getCrawlDelayMs('https://example.com/about')).toBe(2000);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect((global.fetch as any).mock.calls[0][0]).toBe('https://example.com/robots.txt');
+  });
+
+  it('should allow everything when robots.txt is missing', async () => {
+    (global.fetch as any).mockResolvedValue({ ok: false, status: 404, headers: new Headers() });
+    const policy = new RobotsPolicy(UA);
+
+    expect((await policy.check('https://example.com/anything')).allowed).toBe(true);
+  });
+
+  it('should disallow everything when robots.txt is unreachable', async () => {
+    (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 503, headers: new Headers() });
+    (global.fetch as any).mockRejectedValueOnce(new Error('ECONNRESET'));
+    const policy = new RobotsPolicy(UA);
+
+    expect((await policy.check('https://example.com/')).allowed).toBe(false);
+    expect((await policy.check('https://other.example.org/')).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const addresses = vi.hoisted(() => ({ byHost: {} as Record<string, string> }));
+const database = vi.hoisted(() => ({ query: async (..._args: any[]) => ({ rows: [] }) }));
+
+vi.mock('dns/promises', () => {
+  const lookup = async (hostname: string) => [{ address: addresses.byHost[hostname] || '93.184.216.34', family: 4 }];
+  return { lookup, default: { lookup } };
+});
+
+vi.mock('../../../apps/web/lib/utils/database', () => ({
+  getDatabasePool: () => database
+}));
+
+import { safeFetch, assertSafeUrl, isPrivateAddress, UnsafeTargetError } from '../../../apps/web/lib/services/safe-fetch';
+
+describe('isPrivateAddress', () => {
+  it('should block loopback, private, link-local and metadata addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('should allow public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:2800:220:1:248:1893:25c8:1946']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
+
+describe('assertSafeUrl', () => {
+  beforeEach(() => {
+    addresses.byHost = {};
+  });
+
+  it('should refuse non-http schemes, localhost and IP literals in private ranges', async () => {
+    await expect(assertSafeUrl('file:///etc/passwd')).rejects.toMatchObject({ reason: 'scheme' });
+    await expect(assertSafeUrl('http://localhost:3000/')).rejects.toMatchObject({ reason: 'private_address' });
+    await expect(assertSafeUrl('http://169.254.169.254/latest/meta-data/')).rejects.toMatchObject({ reason: 'private_address' });
+    await expect(assertSafeUrl('http://[::1]/')).rejects.toMatchObject({ reason: 'private_address' });
+  });
+
+  it('should refuse hosts that resolve to private addresses', async () => {
+    addresses.byHost['intranet.example.com'] = '10.0.0.5';
+
+    await expect(assertSafeUrl('https://intranet.example.com/')).rejects.toThrow(UnsafeTargetError);
+    await expect(assertSafeUrl('https://example.com/')).resolves.toBeUndefined();
+  });
+});
+
+describe('safeFetch', () => {
+  let queries: any[][];
+
+  beforeEach(() => {
+    addresses.byHost = {};
+    queries = [];
+    database.query = async (...args: any[]) => {
+      queries.push(args);
+      return { rows: [] };
+    };
+    global.fetch = vi.fn();
+  });
+
+  it('should check every redirect hop and log refusals to the job', async () => {
+    (global.fetch as any).mockResolvedValueOnce(new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data/' } }));
+
+    await expect(safeFetch('https://example.com/', {}, { job_id: 'job-1' })).rejects.toMatchObject({ reason: 'private_address' });
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(queries).toHaveLength(1);
+    expect(queries[0][1][0]).toBe('job-1');
+    expect(JSON.parse(queries[0][1][2])).toMatchObject({ event: 'unsafe_target', reason: 'private_address' });
+  });
+
+  it('should follow safe redirects and return redirects untouched when asked not to follow', async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: '/en/' } }))
+      .mockResolvedValueOnce(new Response('<p>Hello</p>', { status: 200, headers: { 'content-type': 'text/html' } }));
+
+    const response = await safeFetch('https://example.com/');
+    expect(await response.text()).toBe('<p>Hello</p>');
+    expect((global.fetch as any).mock.calls[1][0]).toBe('https://example.com/en/');
+
+    (global.fetch as any).mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: '/en/' } }));
+    expect((await safeFetch('https://example.com/', {}, { max_redirects: 0 })).status).toBe(301);
+  });
+
+  it('should not send credentials on to another origin', async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(new Response(null, { status: 307, headers: { location: '/v2/search' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 302, headers: { location: 'https://tracker.example.net/collect' } }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+    await safeFetch('https://api.example.com/search', {
+      method: 'POST',
+      body: '{"q":"acme"}',
+      headers: {
+        'Authorization': 'Bearer secret',
+        'Ocp-Apim-Subscription-Key': 'key',
+        'Content-Type': 'application/json',
+        'User-Agent': 'TestBot/1.0'
+      }
+    });
+
+    const [, sameOrigin] = (global.fetch as any).mock.calls[1];
+    expect(sameOrigin.method).toBe('POST');
+    expect(sameOrigin.headers.get('authorization')).toBe('Bearer secret');
+
+    const [url, crossOrigin] = (global.fetch as any).mock.calls[2];
+    expect(url).toBe('https://tracker.example.net/collect');
+    expect(crossOrigin.method).toBe('GET');
+    expect(crossOrigin.body).toBeUndefined();
+    expect(crossOrigin.headers.get('authorization')).toBeNull();
+    expect(crossOrigin.headers.get('ocp-apim-subscription-key')).toBeNull();
+    expect(crossOrigin.headers.get('content-type')).toBeNull();
+    expect(crossOrigin.headers.get('user-agent')).toBe('TestBot/1.0');
+  });
+
+  it('should pass the caller\'s abort on and remove its listener after each hop', async () => {
+    const caller = new AbortController();
+    const added = vi.spyOn(caller.signal, 'addEventListener');
+    const removed = vi.spyOn(caller.signal, 'removeEventListener');
+    (global.fetch as any)
+      .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: '/en/' } }))
+      .mockResolvedValueOnce(new Response('<p>Hello</p>', { status: 200 }));
+
+    await safeFetch('https://example.com/', { signal: caller.signal });
+
+    expect(added).toHaveBeenCalledTimes(2);
+    expect(removed.mock.calls).toEqual(added.mock.calls.map(([type, listener]) => [type, listener]));
+
+    (global.fetch as any).mockImplementationOnce(async (_url: string, init: RequestInit) => {
+      caller.abort();
+      expect(init.signal?.aborted).toBe(true);
+      return new Response('', { status: 200 });
+    });
+    await safeFetch('https://example.com/', { signal: caller.signal });
+  });
+
+  it('should refuse content types that are not allowed', async () => {
+    (global.fetch as any).mockResolvedValueOnce(new Response('binary', { status: 200, headers: { 'content-type': 'application/zip' } }));
+
+    await expect(safeFetch('https://example.com/file', {}, { allowed_content_types: ['text/html'] }))
+      .rejects.toMatchObject({ reason: 'content_type' });
+  });
+
+  it('should cap response sizes by header and while reading the body', async () => {
+    (global.fetch as any).mockResolvedValueOnce(new Response('x', { status: 200, headers: { 'content-length': '2048' } }));
+    await expect(safeFetch('https://example.com/big', {}, { max_bytes: 1024 })).rejects.toMatchObject({ reason: 'response_size' });
+
+    (global.fetch as any).mockResolvedValueOnce(new Response('x'.repeat(2048), { status: 200 }));
+    const response = await safeFetch('https://example.com/chunked', {}, { max_bytes: 1024 });
+    await expect(response.text()).rejects.toMatchObject({ reason: 'response_size' });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SiteResolver } from '../../../../apps/web/lib/services/site-matching/site-resolver';
+import { SiteMatcher, nameSimilarity, normalizeAddress } from '../../../../apps/web/lib/services/site-matching/site-matcher';
+
+const existingSite = (overrides: Record<string, any> = {}): any => ({
+  siteId: 'site-1',
+  organizationId: 'org-1',
+  siteName: 'Millsdale Plant',
+  address: '22500 West Millsdale Road',
+  city: 'Joliet',
+  stateProvince: 'IL',
+  country: 'USA',
+  postalCode: '',
+  siteType: 'manufacturing',
+  sitePurpose: '',
+  certifications: ['ISO 9001'],
+  operatingStatus: 'active',
+  regulatoryIds: [],
+  supplyChainDependencies: [],
+  majorProducts: ['surfactants'],
+  evidenceText: 'Our Millsdale plant',
+  source: 'https://stepan.com/locations',
+  confidenceScore: '0.70',
+  lastVerifiedDate: '2026-01-01T00:00:00.000Z',
+  enrichmentJobId: 'job-old',
+  ...overrides
+});
+
+const candidate = (overrides: Record<string, any> = {}): any => ({
+  organizationId: 'org-1',
+  siteName: 'Millsdale Manufacturing Facility',
+  address: '22500 W. Millsdale Rd.',
+  city: 'Joliet',
+  stateProvince: 'IL',
+  country: 'USA',
+  postalCode: '60436',
+  siteType: 'unknown',
+  sitePurpose: '',
+  certifications: ['ISO 14001'],
+  operatingStatus: 'active',
+  regulatoryIds: [],
+  supplyChainDependencies: [],
+  majorProducts: ['surfactants', 'polymers'],
+  evidenceText: 'The Millsdale facility in Joliet',
+  source: 'https://stepan.com/about',
+  confidenceScore: 0.9,
+  enrichmentJobId: 'job-new',
+  ...overrides
+});
+
+describe('SiteMatcher', () => {
+  it('should normalize street address abbreviations and punctuation', () => {
+    expect(normalizeAddress('22500 West Millsdale Road')).toBe(normalizeAddress('22500 W. Millsdale Rd.'));
+  });
+
+  it('should treat name variants as similar', () => {
+    expect(nameSimilarity('Houston Plant', 'houston facility')).toBe(1);
+    expect(nameSimilarity('Houston Plant', 'Singapore Plant')).toBeLessThan(0.75);
+  });
+
+  it('should not match sites in different cities far apart', () => {
+    const matcher = new SiteMatcher();
+    const match = matcher.findBestMatch(
+      candidate({ siteName: 'Main Site', address: '', city: 'Houston' }),
+      [existingSite({ siteName: 'Main Site', address: '', city: 'Singapore', country: '' })]
+    );
+
+    expect(match).toBeNull();
+  });
+});
+
+describe('SiteResolver', () => {
+  let siteRepository: any;
+  let auditRepository: any;
+  let resolver: SiteResolver;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    siteRepository = {
+      findByOrganizationId: vi.fn().mockResolvedValue([existingSite()]),
+      create: vi.fn(async (site: any) => ({ ...site, siteId: 'site-new', lastVerifiedDate: '2026-02-01T00:00:00.000Z' })),
+      update: vi.fn(async (siteId: string, updates: any) => ({ ...existingSite(), ...updates, siteId }))
+    };
+    auditRepository = {
+      record: vi.fn().mockResolvedValue({})
+    };
+
+    resolver = new SiteResolver(siteRepository, auditRepository);
+  });
+
+  it('should merge a matching candidate into the existing site and audit the changes', async () => {
+    const [resolution] = await resolver.resolveSites('org-1', [candidate()]);
+
+    expect(siteRepository.create).not.toHaveBeenCalled();
+    expect(resolution.action).toBe('merged');
+
+    const [siteId, updates] = siteRepository.update.mock.calls[0];
+    expect(siteId).toBe('site-1');
+    expect(updates.siteName).toBeUndefined();
+    expect(updates.siteType).toBeUndefined();
+    expect(updates.postalCode).toBe('60436');
+    expect(updates.certifications).toEqual(['ISO 9001', 'ISO 14001']);
+    expect(updates.majorProducts).toEqual(['surfactants', 'polymers']);
+    expect(updates.confidenceScore).toBe(0.9);
+
+    expect(auditRepository.record).toHaveBeenCalledWith(expect.objectContaining({
+      siteId: 'site-1',
+      enrichmentJobId: 'job-new',
+      action: 'merged',
+      candidateName: 'Millsdale Manufacturing Facility',
+      matchReasons: expect.arrayContaining(['same address']),
+      changes: expect.objectContaining({ postalCode: { from: '', to: '60436' } })
+    }));
+  });
+
+  it('should keep existing values when the candidate is less confident', async () => {
+    await resolver.resolveSites('org-1', [candidate({ confidenceScore: 0.5, source: 'https://example.com' })]);
+
+    const [, updates] = siteRepository.update.mock.calls[0];
+    expect(updates.source).toBeUndefined();
+    expect(updates.confidenceScore).toBe(0.7);
+  });
+
+  it('should create unmatched candidates once and merge later variants into them', async () => {
+    const resolutions = await resolver.resolveSites('org-1', [
+      candidate({ siteName: 'Singapore Plant', address: '', city: 'Singapore', country: 'Singapore' }),
+      candidate({ siteName: 'Singapore Facility', address: '', city: 'Singapore', country: 'Singapore' })
+    ]);
+
+    expect(resolutions.map(r => r.action)).toEqual(['created', 'merged']);
+    expect(siteRepository.create).toHaveBeenCalledTimes(1);
+    expect(siteRepository.update).toHaveBeenCalledWith('site-new', expect.any(Object));
+    expect(auditRepository.record).toHaveBeenCalledWith(expect.objectContaining({ action: 'created', siteId: 'site-new' }));
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { gzipSync } from 'zlib';
+import { SitemapDiscovery, parseSitemap } from '../../../apps/web/lib/services/sitemap-discovery';
+
+// safeFetch resolves every host before fetching; answer with a public address
+vi.mock('dns/promises', () => {
+  const lookup = async () => [{ address: '93.184.216.34', family: 4 }];
+  return { lookup, default: { lookup } };
+});
+
+const urlset = (...urls: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  ${urls.map(url => `<url><loc>${url}</loc><lastmod>2026-01-01</lastmod></url>`).join('\n')}
+</urlset>`;
+
+const sitemapIndex = (...sitemaps: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  ${sitemaps.map(url => `<sitemap><loc>${url}</loc></sitemap>`).join('\n')}
+</sitemapindex>`;
+
+const respond = (body: string | Buffer) => {
+  const buffer = typeof body === 'string' ? Buffer.from(body) : body;
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    arrayBuffer: () => Promise.resolve(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength))
+  };
+};
+
+describe('parseSitemap', () => {
+  it('should read page URLs and nested sitemaps', () => {
+    expect(parseSitemap(urlset('https://example.com/a', 'https://example.com/b')).urls)
+      .toEqual(['https://example.com/a', 'https://example.com/b']);
+    expect(parseSitemap(sitemapIndex('https://example.com/pages.xml')).sitemaps)
+      .toEqual(['https://example.com/pages.xml']);
+  });
+});
+
+describe('SitemapDiscovery', () => {
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should follow sitemap indexes and decompress gzip sitemaps', async () => {
+    const responses: Record<string, any> = {
+      'https://example.com/sitemap_index.xml': respond(sitemapIndex('https://example.com/locations.xml.gz')),
+      'https://example.com/locations.xml.gz': respond(gzipSync(urlset('https://example.com/locations/ohio-plant'))),
+      'https://example.com/sitemap.xml': respond(urlset('https://example.com/about', 'https://example.com/locations/ohio-plant'))
+    };
+    (global.fetch as any).mockImplementation((url: string) =>
+      Promise.resolve(responses[url] || { ok: false, status: 404, headers: new Headers() })
+    );
+
+    const discovery = new SitemapDiscovery({ user_agent: 'TestBot/1.0', timeout_ms: 1000 });
+    const urls = await discovery.discover('https://example.com', ['https://example.com/sitemap_index.xml']);
+
+    expect(urls).toEqual(['https://example.com/about', 'https://example.com/locations/ohio-plant']);
+  });
+
+  it('should ignore unreachable sitemaps and respect the URL limit', async () => {
+    (global.fetch as any)
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValueOnce(respond(urlset('https://example.com/a', 'https://example.com/b', 'https://example.com/c')));
+
+    const discovery = new SitemapDiscovery({ user_agent: 'TestBot/1.0', timeout_ms: 1000, max_urls: 2 });
+    const urls = await discovery.discover('https://example.com', ['https://example.com/broken.xml']);
+
+    expect(urls).toEqual(['https://example.com/a', 'https://example.com/b']);
+  });
+
+  it('should skip gzip sitemaps that expand past the size limit', async () => {
+    // A few kilobytes that decompress to 4 MB
+    const bomb = gzipSync(urlset('https://example.com/hidden') + ' '.repeat(4 * 1024 * 1024));
+    const responses: Record<string, any> = {
+      'https://example.com/bomb.xml.gz': respond(bomb),
+      'https://example.com/sitemap.xml': respond(urlset('https://example.com/about'))
+    };
+    (global.fetch as any).mockImplementation((url: string) =>
+      Promise.resolve(responses[url] || { ok: false, status: 404, headers: new Headers() })
+    );
+
+    const discovery = new SitemapDiscovery({ user_agent: 'TestBot/1.0', timeout_ms: 1000, max_sitemap_bytes: 1024 * 1024 });
+    const urls = await discovery.discover('https://example.com', ['https://example.com/bomb.xml.gz']);
+
+    expect(bomb.length).toBeLessThan(1024 * 1024);
+    expect(urls).toEqual(['https://example.com/about']);
+  });
+});
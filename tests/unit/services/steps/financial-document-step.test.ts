@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FinancialDocumentStep } from '../../../../apps/web/lib/services/steps/financial-document-step';
+import { EnrichmentContext } from '../../../../apps/web/lib/types/enrichment';
+import { createMockJob } from '../../../__fixtures__/test-data';
+
+// safeFetch resolves every host before fetching; answer with a public address
+vi.mock('dns/promises', () => {
+  const lookup = async () => [{ address: '93.184.216.34', family: 4 }];
+  return { lookup, default: { lookup } };
+});
+
+vi.mock('../../../../apps/web/lib/repositories/fact-repository', () => ({
+  FactRepository: vi.fn().mockImplementation(() => ({
+    createBatch: vi.fn(async (facts: any[]) =>
+      facts.map((fact, index) => ({ ...fact, id: `fact_${index}`, created_at: new Date().toISOString() }))
+    )
+  }))
+}));
+
+const companyTickers = {
+  0: { cik_str: 1111111, ticker: 'ACU', title: 'Acme United Corp' },
+  1: { cik_str: 2222222, ticker: 'ACMI', title: 'Acme Industries, Inc.' }
+};
+
+const submissions = {
+  name: 'Acme Industries, Inc.',
+  filings: {
+    recent: {
+      accessionNumber: ['0002222222-26-000010', '0002222222-26-000004'],
+      filingDate: ['2026-05-01', '2026-02-20'],
+      reportDate: ['2026-03-31', '2025-12-31'],
+      form: ['10-Q', '10-K'],
+      size: [120000, 450000],
+      primaryDocument: ['acmi-10q.htm', 'acmi-10k.htm'],
+      primaryDocDescription: ['10-Q', '10-K']
+    }
+  }
+};
+
+const annualReport = `
+  <html><body>
+    <p>Item 1. Business. Acme Industries designs industrial fasteners.</p>
+    <p>Item 2. Properties.</p>
+    <p>We operate our main stamping plant in Dayton, Ohio with approximately 240,000 square feet of floor space.
+    We also lease a distribution facility located in Reno, Nevada and an assembly plant in Monterrey, Mexico.</p>
+    <p>Item 3. Legal Proceedings. None.</p>
+  </body></html>
+`;
+
+function mockSecResponses() {
+  (global.fetch as any).mockImplementation(async (url: string) => {
+    if (url.endsWith('/files/company_tickers.json')) {
+      return { ok: true, status: 200, headers: new Headers(), json: async () => companyTickers };
+    }
+    if (url.includes('/submissions/CIK0002222222.json')) {
+      return { ok: true, status: 200, headers: new Headers(), json: async () => submissions };
+    }
+    if (url.endsWith('/acmi-10k.htm')) {
+      return { ok: true, status: 200, headers: new Headers(), text: async () => annualReport };
+    }
+    return { ok: false, status: 404, headers: new Headers(), statusText: 'Not Found' };
+  });
+}
+
+describe('FinancialDocumentStep', () => {
+  let step: FinancialDocumentStep;
+  let mockJobRepository: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = vi.fn();
+
+    mockJobRepository = {
+      updateStepStatus: vi.fn().mockResolvedValue(undefined),
+      updateProgress: vi.fn().mockResolvedValue(undefined)
+    };
+
+    step = new FinancialDocumentStep(
+      mockJobRepository,
+      { retry_attempts: 1 },
+      { target_sections: ['properties', 'subsidiaries', 'geographic_segments'] }
+    );
+  });
+
+  describe('extractFilingFacts', () => {
+    it('should resolve the CIK from the organization name and cite the latest 10-K', async () => {
+      mockSecResponses();
+      const context: EnrichmentContext = {
+        job: createMockJob({ domain: 'acme-industries.com', metadata: { company_name: 'Acme Industries' } })
+      };
+
+      const result = await step.extractFilingFacts(context);
+
+      expect(result.company?.cik).toBe('0002222222');
+      expect(result.documents).toHaveLength(1);
+      expect(result.documents[0].metadata.accession_number).toBe('0002222222-26-000004');
+
+      const siteFacts = result.facts.filter(fact => fact.fact_type === 'site_name');
+      expect(siteFacts.some(fact => fact.fact_data.value.includes('Dayton, Ohio'))).toBe(true);
+
+      for (const fact of result.facts) {
+        expect(fact.tier_used).toBe(1);
+        expect(fact.source_url).toContain('/000222222226000004/acmi-10k.htm');
+        expect(fact.fact_data.citation).toMatchObject({
+          source: 'SEC EDGAR',
+          form_type: '10-K',
+          accession_number: '0002222222-26-000004',
+          section: 'Properties'
+        });
+      }
+      expect(mockJobRepository.updateStepStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not match registrants that only share part of the name', async () => {
+      mockSecResponses();
+      const context: EnrichmentContext = {
+        job: createMockJob({ domain: 'acme.com', metadata: { company_name: 'Acme' } })
+      };
+
+      const result = await step.extractFilingFacts(context);
+
+      expect(result.company).toBeNull();
+      expect(result.facts).toHaveLength(0);
+    });
+
+    it('should use an explicit CIK from job metadata', async () => {
+      mockSecResponses();
+      const context: EnrichmentContext = {
+        job: createMockJob({ domain: 'acme.com', metadata: { cik: '2222222' } })
+      };
+
+      const result = await step.extractFilingFacts(context);
+
+      expect(result.company?.cik).toBe('0002222222');
+      expect(result.documents).toHaveLength(1);
+      expect(global.fetch).not.toHaveBeenCalledWith(
+        expect.stringContaining('company_tickers.json'),
+        expect.anything()
+      );
+    });
+  });
+});
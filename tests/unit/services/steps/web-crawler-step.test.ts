@@ -1,10 +1,12 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { WebCrawlerStep } from '../../../../apps/web/lib/services/steps/web-crawler-step';
+import { CrawlScopeMatcher, resolveCrawlScope } from '../../../../apps/web/lib/services/crawl-scope';
 import { EnrichmentContext } from '../../../../apps/web/lib/types/enrichment';
 import { createMockJob } from '../../../__fixtures__/test-data';
 
 // Mock domain validator
-vi.mock('../../../../apps/web/lib/utils/domain-validator', () => ({
+vi.mock('../../../../apps/web/lib/utils/domain-validator', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
   generateCrawlUrl: vi.fn((domain: string) => `https://${domain}`),
   isDomainCrawlable: vi.fn(() => true)
 }));
@@ -293,7 +295,7 @@ describe('WebCrawlerStep', () => {
         ok: true,
         status: 200,
         headers: {
-          get: vi.fn().mockReturnValue('application/pdf')
+          get: vi.fn().mockReturnValue('image/png')
         },
         text: vi.fn().mockResolvedValue('PDF content')
       });
@@ -326,6 +328,91 @@ describe('WebCrawlerStep', () => {
     });
   });
 
+  describe('redirects', () => {
+    const html = '<html><head><title>Sites</title></head><body><p>Plants in Dayton and Hamburg.</p></body></html>';
+    let step: any;
+    let routes: Record<string, Response>;
+    let disallowed: string[];
+    let crawlDelays: Record<string, number>;
+
+    beforeEach(() => {
+      process.env.CRAWLER_RESPECT_ROBOTS = 'true';
+      process.env.CRAWLER_USE_CACHE = 'false';
+      process.env.CRAWLER_RENDER_JS = 'false';
+      step = new WebCrawlerStep(mockJobRepository);
+      delete process.env.CRAWLER_RESPECT_ROBOTS;
+      delete process.env.CRAWLER_USE_CACHE;
+      delete process.env.CRAWLER_RENDER_JS;
+
+      routes = {};
+      disallowed = [];
+      crawlDelays = {};
+      step.fetchOnce = vi.fn(async (url: string) => routes[url] || new Response('', { status: 404 }));
+      step.scheduler.fetch = vi.fn((_url: string, fetch: () => Promise<Response>) => fetch());
+      step.robots = {
+        check: vi.fn(async (url: string) => disallowed.includes(url)
+          ? { allowed: false, reason: 'Disallowed by robots.txt' }
+          : { allowed: true }),
+        getCrawlDelayMs: vi.fn(async (url: string) => crawlDelays[new URL(url).host] || 0)
+      };
+    });
+
+    const redirect = (location: string) => new Response(null, { status: 301, headers: { location } });
+    const page = () => new Response(html, { status: 200, headers: { 'content-type': 'text/html' } });
+    const crawl = (url: string, crawlScope: Record<string, any> = {}) =>
+      step.crawlPage(url, 'example.com', new CrawlScopeMatcher(resolveCrawlScope('example.com', { crawl_scope: crawlScope })));
+
+    it('should not follow redirects to excluded paths', async () => {
+      routes['https://example.com/plants'] = redirect('/login');
+
+      const result = await crawl('https://example.com/plants', { exclude_patterns: ['/login'] });
+
+      expect(result).toBeNull();
+      expect(step.fetchOnce).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not follow redirects that robots.txt disallows', async () => {
+      routes['https://example.com/plants'] = redirect('/private/plants');
+      disallowed.push('https://example.com/private/plants');
+
+      const result = await crawl('https://example.com/plants');
+
+      expect(result).toBeNull();
+      expect(step.robots.check).toHaveBeenCalledWith('https://example.com/private/plants', undefined);
+      expect(step.fetchOnce).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch redirect targets with their own host delay', async () => {
+      routes['https://example.com/sites'] = redirect('https://www.example.com/sites');
+      routes['https://www.example.com/sites'] = page();
+      crawlDelays['www.example.com'] = 5000;
+
+      const result = await crawl('https://example.com/sites', { include_patterns: ['/about/*'] });
+
+      expect(result.title).toBe('Sites');
+      expect(step.scheduler.fetch).toHaveBeenLastCalledWith('https://www.example.com/sites', expect.any(Function), 5000);
+    });
+
+    it('should build and cache the page under the redirect target without revalidating the old entry', async () => {
+      routes['https://example.com/sites'] = redirect('https://www.example.com/sites');
+      routes['https://www.example.com/sites'] = page();
+      step.useCache = true;
+      step.cache = {
+        lookup: vi.fn(async (url: string) => url === 'https://example.com/sites'
+          ? { cached: { body: '<html></html>', content_hash: 'old', etag: '"v1"' }, headers: { 'If-None-Match': '"v1"' } }
+          : { cached: null, headers: {} }),
+        store: vi.fn().mockResolvedValue({ content_hash: 'new', cache_status: 'new' })
+      };
+
+      const result = await crawl('https://example.com/sites');
+
+      expect(result.url).toBe('https://www.example.com/sites');
+      expect(step.fetchOnce.mock.calls[0][1]['If-None-Match']).toBe('"v1"');
+      expect(step.fetchOnce.mock.calls[1][1]).not.toHaveProperty('If-None-Match');
+      expect(step.cache.store).toHaveBeenCalledWith('https://www.example.com/sites', html, expect.any(Response), null);
+    });
+  });
+
   describe('name', () => {
     it('should return correct step name', () => {
       expect(crawlerStep.name).toBe('WebCrawler');
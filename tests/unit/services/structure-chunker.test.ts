@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { chunkBlocks } from '../../../apps/web/lib/services/structure-chunker';
+import { PageBlock } from '../../../apps/web/lib/types/enrichment';
+
+const block = (text: string, ...heading_path: string[]): PageBlock => ({ type: 'main', text, heading_path });
+
+describe('chunkBlocks', () => {
+  it('should start a new chunk at each section once the chunk is large enough', () => {
+    const chunks = chunkBlocks([
+      block('Germany', 'Locations', 'Germany'),
+      block('Werk Nord | Hamburg | 320 employees | brake assemblies', 'Locations', 'Germany'),
+      block('France', 'Locations', 'France'),
+      block('Lyon assembly plant, opened 2004, 180 employees', 'Locations', 'France')
+    ], { max_chunk_size: 1000, min_chunk_size: 40 });
+
+    expect(chunks).toEqual([
+      { content: 'Germany\nWerk Nord | Hamburg | 320 employees | brake assemblies', heading_path: ['Locations', 'Germany'] },
+      { content: 'France\nLyon assembly plant, opened 2004, 180 employees', heading_path: ['Locations', 'France'] }
+    ]);
+  });
+
+  it('should merge small sections under their shared heading path', () => {
+    const chunks = chunkBlocks([
+      block('Hamburg plant', 'Locations', 'Germany'),
+      block('Lyon plant', 'Locations', 'France')
+    ], { max_chunk_size: 1000, min_chunk_size: 100 });
+
+    expect(chunks).toEqual([{ content: 'Hamburg plant\nLyon plant', heading_path: ['Locations'] }]);
+  });
+
+  it('should never split a table row or list item that fits in a chunk', () => {
+    const rows = Array.from({ length: 6 }, (_, index) => block(`Plant ${index} | City ${index} | ${100 + index} employees`, 'Plants'));
+    const chunks = chunkBlocks(rows, { max_chunk_size: 90, min_chunk_size: 10 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.content.length <= 90)).toBe(true);
+    expect(chunks.flatMap(chunk => chunk.content.split('\n'))).toEqual(rows.map(row => row.text));
+    expect(chunks.every(chunk => chunk.heading_path.join() === 'Plants')).toBe(true);
+  });
+
+  it('should size chunks in tokens when a model is given', () => {
+    const rows = Array.from({ length: 4 }, (_, index) => block(`Plant ${index} | Springfield | 120 employees`, 'Plants'));
+
+    expect(chunkBlocks(rows, { max_chunk_size: 1000, min_chunk_size: 10 })).toHaveLength(1);
+    expect(chunkBlocks(rows, { max_chunk_size: 30, min_chunk_size: 5, model: 'gpt-4o' })).toHaveLength(2);
+  });
+
+  it('should split a block larger than a chunk at sentence ends', () => {
+    const paragraph = 'The Dayton plant opened in 1998. It employs 450 people. It makes brake assemblies for trucks.';
+    const chunks = chunkBlocks([block(paragraph, 'About')], { max_chunk_size: 60, min_chunk_size: 10 });
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      'The Dayton plant opened in 1998. It employs 450 people.',
+      'It makes brake assemblies for trucks.'
+    ]);
+    expect(chunks.every(chunk => chunk.heading_path[0] === 'About')).toBe(true);
+  });
+});
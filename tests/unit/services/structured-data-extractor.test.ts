@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { StructuredDataExtractor } from '../../../apps/web/lib/services/structured-data-extractor';
+import { factSchemaValidator } from '../../../apps/web/lib/services/schema-validator';
+import { CrawledPage } from '../../../apps/web/lib/types/enrichment';
+
+const page = (rawHtml: string, content = ''): CrawledPage => ({
+  url: 'https://example.com/locations',
+  title: 'Locations',
+  content,
+  rawHtml,
+  metadata: { crawled_at: '2026-01-01T00:00:00.000Z', status_code: 200, content_type: 'text/html', word_count: 0 }
+});
+
+const jsonLd = `
+<html><head>
+<script type="application/ld+json">
+{
+  "@context": "https://schema.org",
+  "@graph": [
+    {
+      "@type": "Corporation",
+      "name": "Example Manufacturing Inc.",
+      "url": "https://example.com",
+      "telephone": "+1-555-123-4567",
+      "address": {
+        "@type": "PostalAddress",
+        "streetAddress": "1 Corporate Way",
+        "addressLocality": "Chicago",
+        "addressRegion": "IL",
+        "postalCode": "60601",
+        "addressCountry": "US"
+      },
+      "location": [
+        {
+          "@type": "Place",
+          "name": "Dayton Plant",
+          "address": {
+            "@type": "PostalAddress",
+            "streetAddress": "500 Industrial Pkwy",
+            "addressLocality": "Dayton",
+            "addressRegion": "OH",
+            "addressCountry": { "@type": "Country", "name": "United States" }
+          },
+          "geo": { "@type": "GeoCoordinates", "latitude": "39.7589", "longitude": "-84.1916" }
+        }
+      ]
+    }
+  ]
+}
+</script>
+<script type="application/ld+json">{ not valid json </script>
+</head><body></body></html>`;
+
+const microdata = `
+<div itemscope itemtype="https://schema.org/LocalBusiness">
+  <span itemprop="name">Monterrey Distribution Center</span>
+  <div itemprop="address" itemscope itemtype="https://schema.org/PostalAddress">
+    <span itemprop="streetAddress">Av. Constitución 100</span>
+    <span itemprop="addressLocality">Monterrey</span>
+    <span itemprop="addressCountry">MX</span>
+  </div>
+  <div itemprop="geo" itemscope itemtype="https://schema.org/GeoCoordinates">
+    <meta itemprop="latitude" content="25.6866" />
+    <meta itemprop="longitude" content="-100.3161" />
+  </div>
+  <a itemprop="telephone" href="tel:+52-81-5555-0000">+52 81 5555 0000</a>
+</div>`;
+
+describe('StructuredDataExtractor', () => {
+  const extractor = new StructuredDataExtractor();
+
+  it('should read the organization, headquarters and nested places from JSON-LD', () => {
+    const data = extractor.extract(page(jsonLd))!;
+
+    expect(data.organization?.companyName).toBe('Example Manufacturing Inc.');
+    expect(data.organization?.headquartersAddress).toBe('1 Corporate Way, Chicago, IL 60601, US');
+    expect(data.sites.map(site => site.siteName)).toEqual([
+      'Example Manufacturing Inc. Headquarters',
+      'Dayton Plant'
+    ]);
+    expect(data.sites[1]).toMatchObject({
+      address: '500 Industrial Pkwy',
+      city: 'Dayton',
+      stateProvince: 'OH',
+      country: 'United States',
+      geoCoordinates: { latitude: 39.7589, longitude: -84.1916 },
+      extractionMethod: 'structured'
+    });
+    expect(data.contacts[0].phone).toBe('+1-555-123-4567');
+  });
+
+  it('should read microdata with geo coordinates', () => {
+    const data = extractor.extract(page(microdata))!;
+
+    expect(data.organization).toBeUndefined();
+    expect(data.sites).toHaveLength(1);
+    expect(data.sites[0]).toMatchObject({
+      siteName: 'Monterrey Distribution Center',
+      address: 'Av. Constitución 100',
+      city: 'Monterrey',
+      country: 'MX',
+      geoCoordinates: { latitude: 25.6866, longitude: -100.3161 }
+    });
+    expect(data.contacts[0].phone).toBe('+52-81-5555-0000');
+  });
+
+  it('should emit high-confidence facts that pass schema validation', () => {
+    const facts = extractor.toFacts(extractor.extract(page(jsonLd))!, 'job-1', 1);
+
+    expect(facts.map(fact => fact.fact_type)).toEqual(['company_info', 'location', 'location', 'contact']);
+    expect(facts.every(fact => fact.fact_data.extraction_method === 'structured')).toBe(true);
+    expect(facts.every(fact => fact.confidence_score >= 0.9)).toBe(true);
+    expect(facts[2].fact_data.coordinates).toEqual({ lat: 39.7589, lng: -84.1916 });
+
+    const validation = factSchemaValidator.validateForPersistence(facts);
+    expect(validation.errors).toEqual([]);
+    expect(validation.validFacts).toHaveLength(4);
+  });
+
+  it('should only treat chunks as covered when structured data says everything they say', () => {
+    const data = extractor.extractPages([page(jsonLd)]);
+    const chunk = (content: string, sourceUrl = 'https://example.com/locations') => ({
+      id: 'chunk-1',
+      content,
+      metadata: { source_url: sourceUrl, chunk_index: 0, word_count: 0, created_at: '2026-01-01T00:00:00.000Z' }
+    });
+
+    expect(extractor.isChunkCovered(chunk('Dayton Plant 500 Industrial Pkwy, Dayton, OH. Phone: +1-555-123-4567'), data)).toBe(true);
+    expect(extractor.isChunkCovered(chunk('Dayton Plant employs 450 people making brake assemblies'), data)).toBe(false);
+    expect(extractor.isChunkCovered(chunk('Dayton Plant 500 Industrial Pkwy', 'https://example.com/other'), data)).toBe(false);
+  });
+
+  it('should return null for pages without structured data', () => {
+    expect(extractor.extract(page('<html><body><p>No markup here</p></body></html>'))).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { extractTables, tableSiteCandidates } from '../../../apps/web/lib/services/table-extractor';
+import { StructuredDataExtractor } from '../../../apps/web/lib/services/structured-data-extractor';
+import { factSchemaValidator } from '../../../apps/web/lib/services/schema-validator';
+import { CrawledPage } from '../../../apps/web/lib/types/enrichment';
+
+const facilities = `
+<html><body>
+  <h2>Our plants</h2>
+  <table>
+    <caption>Manufacturing sites</caption>
+    <thead>
+      <tr><th>Site</th><th>City</th><th>Country</th><th>Products</th><th>Employees</th></tr>
+    </thead>
+    <tbody>
+      <tr><td colspan="5">Europe</td></tr>
+      <tr><td>Werk Nord</td><td>Hamburg</td><td rowspan="2">Germany</td><td>Pumps</td><td>320</td></tr>
+      <tr><td>Werk Süd</td><td>Munich</td><td>Valves</td><td></td></tr>
+      <tr><td>Dayton Plant</td><td>Dayton</td><td>United States</td><td>Pumps, seals</td><td>150</td></tr>
+    </tbody>
+  </table>
+</body></html>`;
+
+describe('extractTables', () => {
+  it('should key rows by header with spanning cells expanded', () => {
+    const [table] = extractTables(facilities);
+
+    expect(table.caption).toBe('Manufacturing sites');
+    expect(table.headers).toEqual(['Site', 'City', 'Country', 'Products', 'Employees']);
+    expect(table.rows).toEqual([
+      { Site: 'Werk Nord', City: 'Hamburg', Country: 'Germany', Products: 'Pumps', Employees: '320' },
+      { Site: 'Werk Süd', City: 'Munich', Country: 'Germany', Products: 'Valves' },
+      { Site: 'Dayton Plant', City: 'Dayton', Country: 'United States', Products: 'Pumps, seals', Employees: '150' }
+    ]);
+  });
+
+  it('should use the first row as header when no cell is a th', () => {
+    const [table] = extractTables('<table><tr><td>Location</td><td>Type</td></tr><tr><td>Av. Constitución 100, Monterrey</td><td>Warehouse</td></tr></table>');
+
+    expect(table.rows).toEqual([{ Location: 'Av. Constitución 100, Monterrey', Type: 'Warehouse' }]);
+  });
+
+  it('should skip layout tables and key-value tables', () => {
+    const layout = `<table><tr><td><table><tr><th>City</th><th>Country</th></tr><tr><td>Lyon</td><td>France</td></tr></table></td></tr></table>`;
+    const keyValue = '<table><tr><th>City</th><td>Lyon</td></tr><tr><th>Country</th><td>France</td></tr></table>';
+
+    expect(extractTables(layout).map(table => table.headers)).toEqual([['City', 'Country']]);
+    expect(extractTables(keyValue)).toEqual([]);
+  });
+});
+
+describe('tableSiteCandidates', () => {
+  it('should map recognized columns to structured site candidates', () => {
+    const [table] = extractTables(facilities);
+    const sites = tableSiteCandidates(table, 'https://example.com/locations');
+
+    expect(sites).toHaveLength(3);
+    expect(sites[0]).toMatchObject({
+      siteName: 'Werk Nord',
+      city: 'Hamburg',
+      country: 'Germany',
+      sitePurpose: 'Pumps',
+      source: 'https://example.com/locations',
+      extractionMethod: 'structured'
+    });
+    expect(sites[0].evidenceText).toBe('Site: Werk Nord | City: Hamburg | Country: Germany | Products: Pumps');
+  });
+
+  it('should match headers by contained words and other languages', () => {
+    const sites = tableSiteCandidates({
+      headers: ['Facility type', 'Standort', 'Ort', 'Country/Region', 'Zip code'],
+      rows: [{ 'Facility type': 'Plant', Standort: 'Werk Ost', Ort: 'Leipzig', 'Country/Region': 'Germany', 'Zip code': '04109' }]
+    }, 'https://example.de/standorte');
+
+    expect(sites[0]).toMatchObject({
+      siteName: 'Werk Ost',
+      city: 'Leipzig',
+      country: 'Germany',
+      postalCode: '04109',
+      siteType: 'Plant'
+    });
+  });
+
+  it('should ignore tables without a city or address column', () => {
+    const sites = tableSiteCandidates({
+      headers: ['Product', 'Type'],
+      rows: [{ Product: 'Pumps', Type: 'Centrifugal' }]
+    }, 'https://example.com/products');
+
+    expect(sites).toEqual([]);
+  });
+});
+
+describe('StructuredDataExtractor with tables', () => {
+  const extractor = new StructuredDataExtractor();
+  const page: CrawledPage = {
+    url: 'https://example.com/locations',
+    title: 'Locations',
+    content: '',
+    rawHtml: facilities,
+    tables: extractTables(facilities),
+    metadata: { crawled_at: '2026-01-01T00:00:00.000Z', status_code: 200, content_type: 'text/html', word_count: 0 }
+  };
+  const chunk = (content: string) => ({
+    id: 'chunk-1',
+    content,
+    metadata: { source_url: page.url, chunk_index: 0, word_count: 0, created_at: '2026-01-01T00:00:00.000Z' }
+  });
+
+  it('should emit location facts for table rows that pass schema validation', () => {
+    const data = extractor.extract(page)!;
+    const facts = extractor.toFacts(data, 'job-1');
+
+    expect(facts.map(fact => fact.fact_data.site_name)).toEqual(['Werk Nord', 'Werk Süd', 'Dayton Plant']);
+    expect(facts[0].fact_data.site_purpose).toBe('Pumps');
+    expect(factSchemaValidator.validateExtractionResult({ facts }).errors).toEqual([]);
+  });
+
+  it('should leave rows with unmapped columns to the LLM', () => {
+    const data = extractor.extract(page)!;
+
+    expect(extractor.isChunkCovered(chunk('Site | City | Country | Products\nWerk Süd | Munich | Germany | Valves'), [data])).toBe(true);
+    expect(extractor.isChunkCovered(chunk('Werk Nord | Hamburg | Germany | Pumps | 320 employees, ISO 14001 certified since 2015'), [data])).toBe(false);
+  });
+});
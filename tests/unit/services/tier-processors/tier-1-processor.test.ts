@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Tier1Processor } from '../../../../apps/web/lib/services/tier-processors/tier-1-processor';
+import { CrawledPage, EnrichmentContext, EnrichmentFact } from '../../../../apps/web/lib/types/enrichment';
+import { createMockJob } from '../../../__fixtures__/test-data';
+
+const page = (url: string, content_hash: string): CrawledPage => ({
+  url,
+  title: '',
+  content: '',
+  metadata: { crawled_at: '2026-01-01T00:00:00.000Z', status_code: 200, content_type: 'text/html', word_count: 0, content_hash }
+});
+
+const fact = (id: string, job_id: string, source_url: string): EnrichmentFact => ({
+  id,
+  job_id,
+  fact_type: 'location',
+  fact_data: { site_name: 'Dayton Plant' },
+  confidence_score: 0.9,
+  source_url,
+  created_at: '2026-01-01T00:00:00.000Z',
+  validated: false
+});
+
+describe('Tier1Processor carry-forward', () => {
+  let processor: any;
+  let facts: EnrichmentFact[];
+  let context: EnrichmentContext;
+
+  beforeEach(() => {
+    processor = new Tier1Processor({} as any, {} as any);
+    facts = [];
+
+    processor.crawlCache = {
+      findProcessedCrawls: vi.fn().mockResolvedValue(new Map([
+        ['https://example.com/locations', 'job_previous'],
+        ['https://example.com/about', 'job_previous']
+      ]))
+    };
+    processor.factRepo = {
+      findByJobId: vi.fn(async (jobId: string) => facts.filter(f => f.job_id === jobId)),
+      copyFromJobs: vi.fn(async (jobId: string, sources: Array<{ job_id: string; source_url: string }>) => {
+        const copies = sources.map((source, index) => fact(`copy_${facts.length + index}`, jobId, source.source_url));
+        facts.push(...copies);
+        return copies;
+      })
+    };
+
+    context = {
+      job: createMockJob({ id: 'job_current', domain: 'example.com' }),
+      crawled_pages: [
+        page('https://example.com/locations', 'hash-locations'),
+        page('https://example.com/about', 'hash-about'),
+        page('https://example.com/news', 'hash-news')
+      ]
+    };
+  });
+
+  it('should copy the facts of unchanged pages and process the rest', async () => {
+    const carried = await processor.carryForwardUnchangedPages(context);
+
+    expect(carried.facts.map((f: EnrichmentFact) => f.source_url)).toEqual([
+      'https://example.com/locations',
+      'https://example.com/about'
+    ]);
+    expect(carried.changedPages.map((p: CrawledPage) => p.url)).toEqual(['https://example.com/news']);
+  });
+
+  it('should not copy facts again when a resumed run finds them already carried forward', async () => {
+    await processor.carryForwardUnchangedPages(context);
+    const resumed = await processor.carryForwardUnchangedPages(context);
+
+    expect(facts.filter(f => f.job_id === 'job_current')).toHaveLength(2);
+    expect(processor.factRepo.copyFromJobs).toHaveBeenLastCalledWith('job_current', []);
+    expect(resumed.facts.map((f: EnrichmentFact) => f.id)).toEqual(['copy_0', 'copy_1']);
+    expect(resumed.changedPages.map((p: CrawledPage) => p.url)).toEqual(['https://example.com/news']);
+  });
+
+  it('should only copy pages whose facts are missing after an interrupted run', async () => {
+    facts.push(fact('copy_kept', 'job_current', 'https://example.com/locations'));
+
+    const resumed = await processor.carryForwardUnchangedPages(context);
+
+    expect(processor.factRepo.copyFromJobs).toHaveBeenCalledWith('job_current', [
+      { job_id: 'job_previous', source_url: 'https://example.com/about' }
+    ]);
+    expect(resumed.facts.map((f: EnrichmentFact) => f.source_url)).toEqual([
+      'https://example.com/locations',
+      'https://example.com/about'
+    ]);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Tier2Processor } from '../../../../apps/web/lib/services/tier-processors/tier-2-processor';
+import { FixtureTier2Source } from '../../../../apps/web/lib/services/tier2-sources/fixture-source';
+import {
+  parseCompanyProfileFromHtml,
+  parseHeadcount,
+  parseJobPostingsFromHtml,
+  parsePostingLocations
+} from '../../../../apps/web/lib/services/tier2-sources/posting-parser';
+import { EnrichmentContext } from '../../../../apps/web/lib/types/enrichment';
+import { Tier2Fixture, Tier2Source } from '../../../../apps/web/lib/types/tier2-sources';
+import { createMockJob } from '../../../__fixtures__/test-data';
+
+const database = vi.hoisted(() => ({ query: vi.fn() }));
+
+vi.mock('../../../../apps/web/lib/utils/database', () => ({
+  getDatabasePool: () => database
+}));
+
+const acmeFixture: Tier2Fixture = {
+  postings: [
+    {
+      id: 'gh_1',
+      title: 'Maintenance Technician',
+      url: 'https://boards.greenhouse.io/acme/jobs/1',
+      locations: parsePostingLocations('Greenville, SC'),
+      department: 'Operations',
+      description: 'Maintain CNC equipment at our Greenville machining plant.',
+      source_name: 'Greenhouse (acme)'
+    },
+    {
+      id: 'gh_2',
+      title: 'Quality Engineer',
+      url: 'https://boards.greenhouse.io/acme/jobs/2',
+      locations: parsePostingLocations('Greenville, SC, USA; Remote - US'),
+      department: 'Quality',
+      source_name: 'Greenhouse (acme)'
+    },
+    {
+      id: 'gh_3',
+      title: 'Software Engineer',
+      url: 'https://boards.greenhouse.io/acme/jobs/3',
+      locations: parsePostingLocations('Remote'),
+      source_name: 'Greenhouse (acme)'
+    },
+    {
+      id: 'lv_1',
+      title: 'Production Supervisor',
+      url: 'https://jobs.lever.co/acme/abc',
+      locations: parsePostingLocations('Monterrey, Nuevo León, Mexico'),
+      source_name: 'Lever (acme)'
+    }
+  ],
+  profiles: [
+    {
+      url: 'https://acme-industries.com/about',
+      headcount: { min: 1001, max: 5000, raw: '1,001-5,000 employees' },
+      source_text: 'Acme Industries employs 1,001-5,000 employees across 12 plants.',
+      source_name: 'Careers Pages'
+    }
+  ]
+};
+
+describe('Tier2Processor', () => {
+  let mockFactRepository: any;
+  let context: EnrichmentContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    database.query.mockResolvedValue({ rows: [] });
+
+    mockFactRepository = {
+      createBatch: vi.fn().mockImplementation(async (facts: any[]) =>
+        facts.map((fact, index) => ({ ...fact, id: `fact_${index}`, created_at: new Date().toISOString() }))
+      )
+    };
+
+    context = {
+      job: createMockJob({ id: 'job_tier2', domain: 'acme-industries.com' }),
+      extracted_facts: [],
+      step_results: { tier_1: {} }
+    };
+  });
+
+  describe('execute', () => {
+    it('should aggregate job postings into facility location facts with real citations', async () => {
+      const source = new FixtureTier2Source({ 'acme-industries.com': acmeFixture });
+      const processor = new Tier2Processor([source], mockFactRepository);
+
+      const result = await processor.execute(context);
+
+      expect(result.status).toBe('completed');
+      const locationFacts = result.facts.filter(fact => fact.fact_type === 'facility_location');
+      expect(locationFacts).toHaveLength(2);
+
+      const greenville = locationFacts.find(fact => fact.fact_data.city === 'Greenville')!;
+      expect(greenville.fact_data.value).toBe('Greenville, SC, United States');
+      expect(greenville.fact_data.posting_count).toBe(2);
+      expect(greenville.fact_data.job_titles).toEqual(['Maintenance Technician', 'Quality Engineer']);
+      expect(greenville.source_url).toBe('https://boards.greenhouse.io/acme/jobs/1');
+      expect(greenville.source_text).toContain('Maintenance Technician - Greenville, SC');
+      expect(greenville.tier_used).toBe(2);
+      expect(greenville.confidence_score).toBeGreaterThan(
+        locationFacts.find(fact => fact.fact_data.city === 'Monterrey')!.confidence_score
+      );
+    });
+
+    it('should turn company profile headcount into an employee count estimate', async () => {
+      const source = new FixtureTier2Source({ 'acme-industries.com': acmeFixture });
+      const processor = new Tier2Processor([source], mockFactRepository);
+
+      const result = await processor.execute(context);
+
+      const headcountFact = result.facts.find(fact => fact.fact_type === 'employee_count_estimate')!;
+      expect(headcountFact.fact_data.value).toBe('1001-5000');
+      expect(headcountFact.source_url).toBe('https://acme-industries.com/about');
+      expect(headcountFact.source_text).toContain('1,001-5,000 employees');
+      expect(mockFactRepository.createBatch).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ job_id: 'job_tier2', tier_used: 2 })])
+      );
+    });
+
+    it('should return partial status when no source has data for the domain', async () => {
+      const source = new FixtureTier2Source({ 'other.com': acmeFixture });
+      const processor = new Tier2Processor([source], mockFactRepository);
+
+      const result = await processor.execute(context);
+
+      expect(result.status).toBe('partial');
+      expect(result.facts).toHaveLength(0);
+      expect(mockFactRepository.createBatch).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when a source throws and log the error as a warning', async () => {
+      const failingSource: Tier2Source = {
+        name: 'Broken Source',
+        isAvailable: () => true,
+        fetch: vi.fn().mockRejectedValue(new Error('rate limited'))
+      };
+      const source = new FixtureTier2Source({ 'acme-industries.com': acmeFixture });
+      const processor = new Tier2Processor([failingSource, source], mockFactRepository);
+
+      const result = await processor.execute(context);
+
+      expect(result.status).toBe('completed');
+      expect(result.facts.length).toBeGreaterThan(0);
+      expect(result.error_message).toContain('Broken Source failed: rate limited');
+      expect(database.query).toHaveBeenCalledWith(
+        expect.stringContaining("'warn'"),
+        ['job_tier2', expect.stringContaining('Broken Source failed: rate limited'), expect.any(String)]
+      );
+      expect(database.query).not.toHaveBeenCalledWith(expect.stringMatching(/failed_jobs|UPDATE enrichment_jobs/), expect.anything());
+    });
+
+    it('should still return facts when persistence fails', async () => {
+      mockFactRepository.createBatch.mockRejectedValue(new Error('connection refused'));
+      const source = new FixtureTier2Source({ 'acme-industries.com': acmeFixture });
+      const processor = new Tier2Processor([source], mockFactRepository);
+
+      const result = await processor.execute(context);
+
+      expect(result.facts).toHaveLength(3);
+      expect(result.facts[0].id).toBe('tier2_job_tier2_1');
+    });
+  });
+});
+
+describe('Tier 2 posting parser', () => {
+  it('should normalize US state codes and keep city names containing "or"', () => {
+    const [location] = parsePostingLocations('Portland, OR');
+
+    expect(location.city).toBe('Portland');
+    expect(location.state_province).toBe('OR');
+    expect(location.country).toBe('United States');
+    expect(location.remote).toBe(false);
+  });
+
+  it('should recognize headcount ranges and lower bounds', () => {
+    expect(parseHeadcount('We have 1,001-5,000 employees')).toMatchObject({ min: 1001, max: 5000 });
+    expect(parseHeadcount('more than 12,000 employees worldwide')).toMatchObject({ min: 12000, max: undefined });
+    expect(parseHeadcount('a family business')).toBeNull();
+  });
+
+  it('should read schema.org JobPosting markup from careers pages', () => {
+    const html = `
+      <html><head>
+        <script type="application/ld+json">
+          {
+            "@context": "https://schema.org",
+            "@type": "JobPosting",
+            "title": "Plant Manager",
+            "url": "https://acme-industries.com/careers/plant-manager",
+            "jobLocation": {
+              "@type": "Place",
+              "address": { "addressLocality": "Dayton", "addressRegion": "OH", "addressCountry": "US" }
+            }
+          }
+        </script>
+      </head><body></body></html>
+    `;
+
+    const postings = parseJobPostingsFromHtml(html, 'https://acme-industries.com/careers', 'Careers Pages');
+
+    expect(postings).toHaveLength(1);
+    expect(postings[0].title).toBe('Plant Manager');
+    expect(postings[0].locations[0]).toMatchObject({ city: 'Dayton', state_province: 'OH' });
+  });
+
+  it('should fall back to headcount statements in profile text', () => {
+    const html = '<html><body><p>Founded in 1952, Acme now has over 2,500 employees in 9 countries.</p></body></html>';
+
+    const profile = parseCompanyProfileFromHtml(html, 'https://acme-industries.com/about', 'Careers Pages');
+
+    expect(profile?.headcount).toMatchObject({ min: 2500 });
+    expect(profile?.source_text).toContain('over 2,500 employees');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { generateObject } from 'ai';
+import { Tier3Processor } from '../../../../apps/web/lib/services/tier-processors/tier-3-processor';
+import { RecordedNewsProvider } from '../../../../apps/web/lib/services/recorded-news-provider';
+import { NewsArticle } from '../../../../apps/web/lib/services/bing-news-client';
+import { EnrichmentContext } from '../../../../apps/web/lib/types/enrichment';
+import { createMockJob } from '../../../__fixtures__/test-data';
+
+const mockCreateBatch = vi.fn();
+
+vi.mock('../../../../apps/web/lib/repositories/fact-repository', () => ({
+  FactRepository: vi.fn().mockImplementation(() => ({
+    createBatch: mockCreateBatch,
+    close: vi.fn()
+  }))
+}));
+vi.mock('@ai-sdk/openai', () => ({ openai: vi.fn(() => 'mock-model') }));
+vi.mock('ai', () => ({ generateObject: vi.fn() }));
+
+const closureArticle: NewsArticle = {
+  id: 'rec_1',
+  title: 'Acme to close Dayton stamping plant',
+  description: 'Acme Industries will close its Dayton, Ohio stamping plant.',
+  url: 'https://news.example.org/acme-dayton-closure',
+  publishedAt: '2026-03-02T14:00:00Z',
+  source: { name: 'Dayton Daily' },
+  relevanceScore: 0.9,
+  content: 'Acme Industries will close its Dayton, Ohio stamping plant by the end of March, the company said Tuesday. ' +
+    'The closure affects 240 workers, and production will move to the company plant in Monterrey, Mexico.'
+};
+
+const earningsArticle: NewsArticle = {
+  id: 'rec_2',
+  title: 'Acme reports third-quarter results',
+  description: 'Acme Industries reported revenue growth in the third quarter.',
+  url: 'https://news.example.org/acme-q3',
+  publishedAt: '2026-01-15T09:00:00Z',
+  source: { name: 'Business Wire' },
+  relevanceScore: 0.6,
+  content: 'Acme Industries reported third quarter revenue growth of eight percent, driven by demand for industrial fasteners across North America.'
+};
+
+describe('Tier3Processor', () => {
+  let mockJobRepository: any;
+  let context: EnrichmentContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockJobRepository = {
+      updateStepStatus: vi.fn().mockResolvedValue(undefined),
+      updateProgress: vi.fn().mockResolvedValue(undefined)
+    };
+
+    mockCreateBatch.mockImplementation(async (facts: any[]) =>
+      facts.map((fact, index) => ({ ...fact, id: `fact_${index}`, created_at: new Date().toISOString() }))
+    );
+
+    (generateObject as any).mockResolvedValue({
+      object: {
+        facts: [
+          {
+            fact_type: 'location',
+            fact_data: {
+              site_name: 'Dayton Stamping Plant',
+              event_type: 'closure',
+              event_date: 'end of March',
+              city: 'Dayton',
+              state: 'Ohio'
+            },
+            confidence_score: 0.92,
+            source_text: 'Acme Industries will close its Dayton, Ohio stamping plant by the end of March'
+          }
+        ]
+      }
+    });
+
+    context = {
+      job: createMockJob({ id: 'job_tier3', domain: 'acme-industries.com' }),
+      extracted_facts: [],
+      step_results: { tier_1: {} }
+    };
+  });
+
+  it('should extract site events from recorded articles with the publication date as evidence', async () => {
+    const provider = new RecordedNewsProvider({
+      'acme-industries.com': { articles: [earningsArticle, closureArticle] }
+    });
+    const processor = new Tier3Processor(mockJobRepository, provider);
+
+    const result = await processor.execute(context);
+
+    expect(result.status).toBe('completed');
+    expect(result.sources_attempted).toEqual([closureArticle.url, earningsArticle.url]);
+    expect(result.pages_scraped).toBe(2);
+    expect(result.facts).toHaveLength(1);
+
+    const [fact] = result.facts;
+    expect(fact.fact_type).toBe('location');
+    expect(fact.tier_used).toBe(3);
+    expect(fact.source_url).toBe(closureArticle.url);
+    expect(fact.fact_data).toMatchObject({
+      site_name: 'Dayton Stamping Plant',
+      event_type: 'closure',
+      published_at: '2026-03-02T14:00:00Z',
+      publisher: 'Dayton Daily',
+      article_title: 'Acme to close Dayton stamping plant'
+    });
+  });
+
+  it('should run article chunks through the news extraction template', async () => {
+    const provider = new RecordedNewsProvider({
+      'acme-industries.com': { articles: [closureArticle] }
+    });
+    const processor = new Tier3Processor(mockJobRepository, provider);
+
+    await processor.execute(context);
+
+    const call = (generateObject as any).mock.calls[0][0];
+    expect(call.system).toContain('news coverage');
+    expect(call.prompt).toContain('240 workers');
+    expect(mockJobRepository.updateStepStatus).not.toHaveBeenCalled();
+  });
+
+  it('should return partial status when the provider has no articles', async () => {
+    const provider = new RecordedNewsProvider({});
+    const processor = new Tier3Processor(mockJobRepository, provider);
+
+    const result = await processor.execute(context);
+
+    expect(result.status).toBe('partial');
+    expect(result.facts).toHaveLength(0);
+    expect(generateObject).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, packBatches, promptTokenBudget, modelProfile } from '../../../apps/web/lib/services/token-budget';
+
+describe('estimateTokens', () => {
+  it('should count o200k tokens for GPT-4o models', () => {
+    expect(estimateTokens('The Dayton plant opened in 1998.', 'gpt-4o')).toBe(9);
+    expect(estimateTokens('Präzisionsteilefertigung', 'gpt-4o-mini')).toBe(8);
+    expect(estimateTokens('精密部品', 'gpt-4o')).toBe(4);
+    expect(estimateTokens('', 'gpt-4o')).toBe(0);
+  });
+
+  it('should scale counts to the model tokenizer', () => {
+    const text = 'Our plants in Ohio and Texas serve customers across North America.';
+
+    expect(estimateTokens(text, 'gpt-4o-mini')).toBe(12);
+    expect(estimateTokens(text, 'claude-3-haiku')).toBe(Math.ceil(12 * 1.2));
+  });
+});
+
+describe('promptTokenBudget', () => {
+  it('should use the configured fraction of the context window', () => {
+    expect(promptTokenBudget('gpt-4o', 0.25, 3000)).toBe(32000);
+  });
+
+  it('should leave room for the completion', () => {
+    expect(promptTokenBudget('gpt-4o', 1, 16000)).toBe(128000 - 16000);
+  });
+
+  it('should assume a small context for unknown models', () => {
+    expect(modelProfile('some-local-model').context_window).toBe(16000);
+  });
+});
+
+describe('packBatches', () => {
+  it('should fill batches up to the budget in order', () => {
+    const batches = packBatches([40, 30, 20, 50, 10], tokens => tokens, 90);
+
+    expect(batches).toEqual([
+      { items: [40, 30, 20], tokens: 90 },
+      { items: [50, 10], tokens: 60 }
+    ]);
+  });
+
+  it('should give an item over the budget its own batch', () => {
+    expect(packBatches([10, 200, 10], tokens => tokens, 100).map(batch => batch.items)).toEqual([[10], [200], [10]]);
+  });
+
+  it('should close a batch once it holds the maximum number of items', () => {
+    expect(packBatches([10, 10, 10, 10, 10], tokens => tokens, 100, 2).map(batch => batch.items)).toEqual([[10, 10], [10, 10], [10]]);
+  });
+});
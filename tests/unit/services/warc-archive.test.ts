@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { gzipSync } from 'zlib';
+import { WarcWriter, readWarc, replayPages, parseHttpResponse } from '../../../apps/web/lib/services/warc-archive';
+
+const html = '<html><body><h1>Locations</h1></body></html>';
+
+const exchange = (url: string, status: number, payload: string, headers: Record<string, string> = {}) => ({
+  url,
+  method: 'GET',
+  request_headers: { 'User-Agent': 'ResilionBot/1.0' },
+  status_code: status,
+  status_text: status === 304 ? 'Not Modified' : 'OK',
+  response_headers: new Headers(headers),
+  payload: new TextEncoder().encode(payload)
+});
+
+describe('WarcWriter', () => {
+  it('should write a warcinfo record and a request/response pair per fetch', () => {
+    const writer = new WarcWriter({ 'job-id': 'job-1' });
+    writer.addExchange(exchange('https://example.com/locations?page=2', 200, html, { 'content-type': 'text/html' }));
+
+    const records = readWarc(writer.toBuffer());
+
+    expect(records.map(record => record.type)).toEqual(['warcinfo', 'request', 'response']);
+    expect(records[0].block.toString()).toContain('job-id: job-1');
+    expect(records[1].block.toString()).toMatch(/^GET \/locations\?page=2 HTTP\/1\.1\r\nHost: example\.com\r\n/);
+    expect(records[2].headers['warc-concurrent-to']).toBe(records[1].headers['warc-record-id']);
+    expect(writer.recordCount).toBe(3);
+  });
+
+  it('should rename encoding headers since payloads are stored decoded', () => {
+    const writer = new WarcWriter({});
+    writer.addExchange(exchange('https://example.com/', 200, html, { 'content-encoding': 'gzip', 'content-length': '40' }));
+
+    const response = parseHttpResponse(readWarc(writer.toBuffer())[2].block);
+
+    expect(response.status_code).toBe(200);
+    expect(response.headers['x-archive-orig-content-encoding']).toBe('gzip');
+    expect(response.headers['content-length']).toBe(String(Buffer.byteLength(html)));
+    expect(response.payload.toString()).toBe(html);
+  });
+
+  it('should leave out every fetch from the first one past the size limit', () => {
+    const writer = new WarcWriter({}, { max_bytes: 4096 });
+    writer.addExchange(exchange('https://example.com/', 200, html));
+    writer.addExchange(exchange('https://example.com/catalog.pdf', 200, 'x'.repeat(4096)));
+    writer.addExchange(exchange('https://example.com/about', 200, html));
+
+    const records = readWarc(writer.toBuffer());
+
+    expect(records.map(record => record.headers['warc-target-uri'])).toEqual([undefined, 'https://example.com/', 'https://example.com/']);
+    expect(writer.recordCount).toBe(3);
+    expect(writer.droppedRecords).toBe(4);
+  });
+});
+
+describe('readWarc', () => {
+  it('should refuse archives that expand past the size limit', () => {
+    const bomb = gzipSync(Buffer.alloc(4 * 1024 * 1024));
+
+    expect(() => readWarc(bomb, 1024 * 1024)).toThrow('WARC archive expands past 1048576 bytes');
+  });
+});
+
+describe('replayPages', () => {
+  it('should rebuild crawled pages including cached and rendered bodies', () => {
+    const writer = new WarcWriter({});
+    writer.addExchange(exchange('https://example.com/', 200, html, { 'content-type': 'text/html; charset=utf-8' }));
+    writer.addExchange(exchange('https://example.com/about', 304, ''));
+    writer.addResource('https://example.com/about', '<p>About us</p>', 'text/html', 'crawl-cache');
+    writer.addExchange(exchange('https://example.com/app', 200, '<div id="root"></div>', { 'content-type': 'text/html' }));
+    writer.addResource('https://example.com/app', '<div id="root"><h1>Plants</h1></div>', 'text/html', 'headless-render');
+    writer.addExchange(exchange('https://example.com/missing', 404, 'Not found'));
+
+    const pages = replayPages(readWarc(writer.toBuffer()));
+
+    expect(pages.map(page => [page.url, page.status_code])).toEqual([
+      ['https://example.com/', 200],
+      ['https://example.com/about', 200],
+      ['https://example.com/app', 200],
+      ['https://example.com/missing', 404]
+    ]);
+    expect(pages[0].content_type).toBe('text/html; charset=utf-8');
+    expect(pages[1].body.toString()).toBe('<p>About us</p>');
+    expect(pages[2].rendered_html).toBe('<div id="root"><h1>Plants</h1></div>');
+  });
+});